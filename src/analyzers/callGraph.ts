@@ -0,0 +1,581 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { ModuleResolver } from '../utils/moduleResolver';
+import { CallSite, CodeEntity } from '../utils/parsers';
+
+/**
+ * A function, method or class taking part in a call, or the top-level code of a file
+ */
+export interface SymbolRef {
+  // Unique key: `relativePath:line:qualifiedName`
+  id: string;
+  name: string;
+  // Name with its enclosing scopes, e.g. `Cart.addItem`; `<module>` for top-level code
+  qualifiedName: string;
+  kind: string;
+  // Path relative to the analyzed directory, as in every other result
+  relativePath: string;
+  line: number;
+}
+
+/**
+ * A call site, with the symbol it was resolved to when the target is known
+ */
+export interface CallEdge {
+  caller: SymbolRef;
+  // Null when the call could not be resolved to a declared entity
+  callee: SymbolRef | null;
+  // Name and receiver as written at the call site
+  name: string;
+  qualifier?: string;
+  relativePath: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Call edges of a project, with the symbols they connect
+ */
+export interface CallGraph {
+  symbols: SymbolRef[];
+  edges: CallEdge[];
+}
+
+/**
+ * Options for a callers or callees query; discovery settings select the files of the graph
+ */
+export interface CallQueryOptions extends DiscoveryOptions {
+  // Levels of the graph to follow, 1 for direct calls only
+  depth?: number;
+  // File of the symbol, to pick one of several symbols with the same name
+  file?: string;
+  // A line inside the symbol, to pick one of several symbols in the file
+  line?: number;
+  // Include calls that match by name but could not be resolved
+  includeUnresolved?: boolean;
+  limit?: number;
+}
+
+/**
+ * A call edge found by a query, with the level at which it was reached
+ */
+export interface CallQueryEdge extends CallEdge {
+  depth: number;
+  resolved: boolean;
+}
+
+/**
+ * Result of a callers or callees query
+ */
+export interface CallQueryResult {
+  symbol: string;
+  direction: 'callers' | 'callees';
+  depth: number;
+  // Symbols matching the query that the search started from
+  targets: SymbolRef[];
+  total: number;
+  truncated: boolean;
+  edges: CallQueryEdge[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+// Receivers that refer to the object or class the caller belongs to
+const SELF_RECEIVERS = new Set(['this', 'self', '$this', 'cls', 'static', 'Self']);
+
+// Languages where members of the enclosing class are called without a receiver
+const IMPLICIT_THIS_LANGUAGES = new Set(['java', 'csharp', 'cpp', 'c', 'swift', 'ruby']);
+
+// Container kinds that hold members rather than nested helpers
+const TYPE_CONTAINERS = new Set(['class', 'struct', 'union', 'interface', 'enum', 'record', 'trait', 'protocol', 'extension', 'object', 'type']);
+
+/**
+ * Get the name of an entity with its enclosing scopes
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `Cart.addItem`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Get the member scope of an entity: the container for class members and Go methods
+ * @param entity Code entity
+ * @returns Container name, or undefined for free functions
+ */
+function getMemberScope(entity: CodeEntity): string | undefined {
+  if (entity.receiver) {
+    return entity.receiver.type;
+  }
+  return entity.container && entity.containerKind && TYPE_CONTAINERS.has(entity.containerKind) ? entity.container : undefined;
+}
+
+/**
+ * Create a symbol reference for an entity
+ * @param entity Code entity
+ * @returns Symbol reference
+ */
+function toSymbolRef(entity: CodeEntity): SymbolRef {
+  const qualifiedName = getQualifiedName(entity);
+  return {
+    id: `${entity.relativePath.replace(/\\/g, '/')}:${entity.line}:${qualifiedName}`,
+    name: entity.name,
+    qualifiedName,
+    kind: entity.kind || entity.type,
+    relativePath: entity.relativePath,
+    line: entity.line
+  };
+}
+
+/**
+ * Create the symbol reference standing for the top-level code of a file
+ * @param file Indexed file
+ * @returns Symbol reference
+ */
+function toModuleRef(file: IndexedFile): SymbolRef {
+  return {
+    id: `${file.relativePath}:0:<module>`,
+    name: '<module>',
+    qualifiedName: '<module>',
+    kind: 'module',
+    relativePath: file.relativePath,
+    line: 1
+  };
+}
+
+/**
+ * Add a value to a list in a map
+ * @param map Map of lists
+ * @param key Key
+ * @param value Value to append
+ */
+function addTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Resolves call sites to entities, using the scopes of the caller, the imports of its file and
+ * the declarations of the whole project
+ */
+class CallResolver {
+  private readonly refs = new Map<CodeEntity, SymbolRef>();
+  // Members by `scope.name`, across files so partial classes and Go methods resolve
+  private readonly members = new Map<string, CodeEntity[]>();
+  // Free functions and classes by name, across the project
+  private readonly topLevel = new Map<string, CodeEntity[]>();
+  private readonly constructors = new Map<string, CodeEntity>();
+  private readonly byFile = new Map<string, IndexedFile>();
+  private readonly resolver: ModuleResolver;
+
+  constructor(files: IndexedFile[], resolver: ModuleResolver) {
+    this.resolver = resolver;
+    for (const file of files) {
+      this.byFile.set(file.relativePath, file);
+      for (const entity of file.entities) {
+        this.refs.set(entity, toSymbolRef(entity));
+        const scope = getMemberScope(entity);
+        if (scope) {
+          addTo(this.members, `${scope}.${entity.name}`, entity);
+          if (entity.kind === 'constructor' && !this.constructors.has(scope)) {
+            this.constructors.set(scope, entity);
+          }
+        } else if (!entity.container || entity.type === 'class' || entity.containerKind === 'namespace' || entity.containerKind === 'module') {
+          addTo(this.topLevel, entity.name, entity);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the symbol reference of an entity
+   * @param entity Code entity
+   * @returns Symbol reference
+   */
+  getRef(entity: CodeEntity): SymbolRef {
+    return this.refs.get(entity) || toSymbolRef(entity);
+  }
+
+  /**
+   * Resolve a call made in a file
+   * @param file File containing the call
+   * @param caller Calling entity, or null for top-level code
+   * @param call Call site
+   * @returns Called entity, or null if it is unknown
+   */
+  resolve(file: IndexedFile, caller: CodeEntity | null, call: CallSite): CodeEntity | null {
+    const language = getFileLanguage(file.relativePath);
+    const qualifier = call.qualifier;
+    const scope = caller ? this.getCallerScope(caller) : undefined;
+
+    // `this.save()`, `self.save()`, `$this->save()`, or the receiver of a Go method
+    if (qualifier && (SELF_RECEIVERS.has(qualifier) || qualifier === caller?.receiver?.name)) {
+      return scope ? this.pick(this.members.get(`${scope}.${call.name}`), file) : null;
+    }
+
+    if (!qualifier) {
+      if (scope && IMPLICIT_THIS_LANGUAGES.has(language)) {
+        const member = this.pick(this.members.get(`${scope}.${call.name}`), file);
+        if (member) {
+          return member;
+        }
+      }
+      const entity = this.lookupName(file, caller, call.name, language);
+      return entity ? this.toCallable(entity) : null;
+    }
+
+    // `utils.format()`, `os.path.join()` or `pkg.Func()` through an import
+    const imported = this.resolveImported(file, qualifier, call.name);
+    if (imported || qualifier === '<expression>' || /\.|->|::/.test(qualifier)) {
+      return imported;
+    }
+    // `Repository.create()` or `Math::max()` on a declared class
+    const type = this.lookupName(file, caller, qualifier, language);
+    return type && type.type === 'class' ? this.pick(this.members.get(`${getQualifiedName(type)}.${call.name}`), file) : null;
+  }
+
+  /**
+   * Look up a name used without a receiver
+   * @param file File containing the call
+   * @param caller Calling entity, or null for top-level code
+   * @param name Called name
+   * @param language Language of the file
+   * @returns Function or class, or null if unknown
+   */
+  private lookupName(file: IndexedFile, caller: CodeEntity | null, name: string, language: string): CodeEntity | null {
+    const callerPath = caller ? getQualifiedName(caller) : '';
+
+    // Free functions and classes of the file, including helpers nested in the caller's enclosing functions
+    const local = file.entities.filter(entity =>
+      entity.name === name &&
+      entity.type !== 'namespace' &&
+      !getMemberScope(entity) &&
+      (!entity.container || callerPath === entity.container || callerPath.startsWith(`${entity.container}.`))
+    );
+    if (local.length > 0) {
+      return local[local.length - 1];
+    }
+
+    const imported = this.resolveImported(file, name);
+    if (imported) {
+      return imported;
+    }
+
+    const candidates = (this.topLevel.get(name) || []).filter(entity => getFileLanguage(entity.relativePath) === language);
+    // Go functions are visible across the files of a package
+    if (language === 'go') {
+      const dir = path.posix.dirname(file.relativePath);
+      const sibling = candidates.find(entity => path.posix.dirname(entity.relativePath.replace(/\\/g, '/')) === dir);
+      if (sibling) {
+        return sibling;
+      }
+    }
+    // A name declared exactly once in the project
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Resolve a name through the imports of a file
+   * @param file File containing the call
+   * @param name Name used in the file: the called name, or the receiver of a member call
+   * @param member Called member when the name is a receiver
+   * @returns Imported entity, the member of an imported module or class, or null
+   */
+  private resolveImported(file: IndexedFile, name: string, member?: string): CodeEntity | null {
+    for (const info of file.imports) {
+      for (const binding of info.bindings) {
+        const wildcard = binding.local === '*';
+        if (!wildcard && binding.local !== name) {
+          continue;
+        }
+        const targets = this.resolver.resolve(file.relativePath, info.source);
+        if (targets.length === 0) {
+          continue;
+        }
+
+        // `import * as utils`, Python modules and Go packages expose their top-level names
+        if (!wildcard && binding.imported === '*') {
+          const found = member ? this.findDeclared(targets, member) : null;
+          if (found) {
+            return found;
+          }
+          continue;
+        }
+
+        const isDefault = binding.imported === 'default';
+        const found = this.findDeclared(targets, wildcard || isDefault ? name : binding.imported, isDefault);
+        if (!found) {
+          continue;
+        }
+        if (!member) {
+          return found;
+        }
+        // `import a.b.User` followed by `User.find()` calls a member of the imported class
+        return found.type === 'class' ? this.pick(this.members.get(`${getQualifiedName(found)}.${member}`), file) : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find a free function or class declared in one of a set of files
+   * @param files Paths relative to the root
+   * @param name Declared name
+   * @param isDefault Fall back to the first exported declaration, for default imports
+   * @returns Entity, or null if none of the files declares it
+   */
+  private findDeclared(files: string[], name: string, isDefault: boolean = false): CodeEntity | null {
+    for (const target of files) {
+      const entities = (this.byFile.get(target)?.entities || []).filter(entity => entity.type !== 'namespace' && !getMemberScope(entity));
+      const found = entities.find(entity => entity.name === name) || (isDefault ? entities.find(entity => entity.isExported) : undefined);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the class whose members a caller can call on itself
+   * @param caller Calling entity
+   * @returns Member scope of the caller or of its enclosing method
+   */
+  private getCallerScope(caller: CodeEntity): string | undefined {
+    const scope = getMemberScope(caller);
+    if (scope || !caller.container) {
+      return scope;
+    }
+    // A closure inside a method shares the method's receiver
+    const file = this.byFile.get(caller.relativePath.replace(/\\/g, '/'));
+    const parent = file?.entities.find(entity => entity.type === 'function' && getQualifiedName(entity) === caller.container);
+    return parent ? this.getCallerScope(parent) : undefined;
+  }
+
+  /**
+   * Map a class to the constructor that runs when it is called
+   * @param entity Resolved entity
+   * @returns Constructor of a class, or the entity itself
+   */
+  private toCallable(entity: CodeEntity): CodeEntity {
+    return entity.type === 'class' ? this.constructors.get(getQualifiedName(entity)) || entity : entity;
+  }
+
+  /**
+   * Choose among entities with the same name, preferring the calling file
+   * @param candidates Candidate entities
+   * @param file File containing the call
+   * @returns Chosen entity, or null if there are no candidates
+   */
+  private pick(candidates: CodeEntity[] | undefined, file: IndexedFile): CodeEntity | null {
+    if (!candidates || candidates.length === 0) {
+      return null;
+    }
+    return candidates.find(entity => entity.relativePath.replace(/\\/g, '/') === file.relativePath) || candidates[0];
+  }
+}
+
+/**
+ * Build the call graph of a set of indexed files
+ * @param files Indexed files with their entities, call sites and imports
+ * @param modules Resolver for the imports of the files; by default only relative paths are known
+ * @returns Symbols and call edges, resolved where possible
+ */
+export function buildCallGraph(files: IndexedFile[], modules: ModuleResolver = new ModuleResolver(files.map(file => file.relativePath))): CallGraph {
+  const resolver = new CallResolver(files, modules);
+  const symbols: SymbolRef[] = [];
+  const edges: CallEdge[] = [];
+
+  for (const file of files) {
+    const moduleRef = toModuleRef(file);
+    for (const entity of file.entities) {
+      if (entity.type !== 'namespace') {
+        symbols.push(resolver.getRef(entity));
+      }
+    }
+    for (const call of file.calls) {
+      const caller = call.caller >= 0 ? file.entities[call.caller] : null;
+      const callee = resolver.resolve(file, caller, call);
+      const edge: CallEdge = {
+        caller: caller ? resolver.getRef(caller) : moduleRef,
+        callee: callee ? resolver.getRef(callee) : null,
+        name: call.name,
+        relativePath: file.relativePath,
+        line: call.line,
+        column: call.column
+      };
+      if (call.qualifier) {
+        edge.qualifier = call.qualifier;
+      }
+      edges.push(edge);
+    }
+  }
+
+  return { symbols, edges };
+}
+
+/**
+ * Find the symbols a query refers to
+ * @param graph Call graph
+ * @param symbol Name or qualified name, e.g. `save` or `Repo.save`
+ * @param options File and line used to pick one of several matches
+ * @param root Absolute path of the analyzed directory, which absolute file filters are relative to
+ * @returns Matching functions and classes
+ */
+function findTargets(graph: CallGraph, symbol: string, options: CallQueryOptions, root: string): SymbolRef[] {
+  const file = options.file && (path.isAbsolute(options.file) ? path.relative(root, options.file) : options.file).replace(/\\/g, '/');
+  return graph.symbols.filter(ref => {
+    if (ref.name !== symbol && ref.qualifiedName !== symbol && !ref.qualifiedName.endsWith(`.${symbol}`)) {
+      return false;
+    }
+    if (file && !(ref.relativePath === file || ref.relativePath.endsWith(`/${file}`))) {
+      return false;
+    }
+    return options.line === undefined || ref.line <= options.line;
+  }).filter((ref, _index, matches) =>
+    // With a line, keep the innermost symbol starting at or before it
+    options.line === undefined || ref.line === Math.max(...matches.filter(other => other.relativePath === ref.relativePath).map(other => other.line))
+  );
+}
+
+/**
+ * Walk the call graph from a set of symbols
+ * @param graph Call graph
+ * @param targets Symbols to start from
+ * @param direction Follow calls into the targets or out of them
+ * @param options Depth, unresolved calls and limit
+ * @returns Edges in breadth-first order and whether the limit cut the walk short
+ */
+function walk(graph: CallGraph, targets: SymbolRef[], direction: 'callers' | 'callees', options: CallQueryOptions): { edges: CallQueryEdge[]; total: number } {
+  const depth = options.depth ?? 1;
+  const includeUnresolved = options.includeUnresolved ?? true;
+  const visited = new Set(targets.map(ref => ref.id));
+  const seenEdges = new Set<CallEdge>();
+  const edges: CallQueryEdge[] = [];
+  let frontier = targets;
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const ids = new Set(frontier.map(ref => ref.id));
+    const names = new Set(frontier.map(ref => ref.name));
+    const next: SymbolRef[] = [];
+
+    for (const edge of graph.edges) {
+      if (seenEdges.has(edge)) {
+        continue;
+      }
+      let resolved: boolean;
+      if (direction === 'callers') {
+        // Unresolved calls with a matching name are possible callers
+        resolved = !!edge.callee && ids.has(edge.callee.id);
+        if (!resolved && !(includeUnresolved && !edge.callee && names.has(edge.name))) {
+          continue;
+        }
+      } else {
+        resolved = !!edge.callee;
+        if (!ids.has(edge.caller.id) || (!resolved && !includeUnresolved)) {
+          continue;
+        }
+      }
+
+      seenEdges.add(edge);
+      edges.push({ ...edge, depth: level, resolved });
+      // Only resolved edges are followed, so guesses do not spread through the graph
+      const reached = direction === 'callers' ? edge.caller : edge.callee;
+      if (resolved && reached && reached.name !== '<module>' && !visited.has(reached.id)) {
+        visited.add(reached.id);
+        next.push(reached);
+      }
+    }
+    frontier = next;
+  }
+
+  return { edges, total: edges.length };
+}
+
+/**
+ * Query the call graph of a directory
+ * @param dirPath Directory path to analyze
+ * @param symbol Name or qualified name of the function, method or class
+ * @param direction Find the callers or the callees of the symbol
+ * @param options Query and discovery settings
+ * @returns Call edges with file and line, up to the limit
+ */
+async function queryCallGraph(dirPath: string, symbol: string, direction: 'callers' | 'callees', options: CallQueryOptions): Promise<CallQueryResult> {
+  const depth = options.depth ?? 1;
+  const limit = options.limit ?? 200;
+  try {
+    const root = path.resolve(dirPath);
+    const { files, discovery } = await getProjectFiles(root, options);
+    const graph = buildCallGraph(files, ModuleResolver.load(root, files.map(file => file.relativePath)));
+    const targets = findTargets(graph, symbol, options, root);
+    const { edges, total } = walk(graph, targets, direction, options);
+    return {
+      symbol,
+      direction,
+      depth,
+      targets,
+      total,
+      truncated: total > limit,
+      edges: edges.slice(0, limit),
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error getting ${direction}: ${error}`);
+    return { symbol, direction, depth, targets: [], total: 0, truncated: false, edges: [] };
+  }
+}
+
+/**
+ * Find the functions that call a symbol, following callers up to the given depth
+ * @param dirPath Directory path to analyze
+ * @param symbol Name or qualified name of the function, method or class
+ * @param options Query and discovery settings
+ * @returns Call edges into the symbol and, at deeper levels, into its callers
+ */
+export async function getCallers(dirPath: string, symbol: string, options: CallQueryOptions = {}): Promise<CallQueryResult> {
+  return queryCallGraph(dirPath, symbol, 'callers', options);
+}
+
+/**
+ * Find the functions a symbol calls, following callees down to the given depth
+ * @param dirPath Directory path to analyze
+ * @param symbol Name or qualified name of the function, method or class
+ * @param options Query and discovery settings
+ * @returns Call edges out of the symbol and, at deeper levels, out of its callees
+ */
+export async function getCallees(dirPath: string, symbol: string, options: CallQueryOptions = {}): Promise<CallQueryResult> {
+  return queryCallGraph(dirPath, symbol, 'callees', options);
+}
+
+/**
+ * Format call query results as a table
+ * @param result Callers or callees query result
+ * @returns Formatted table string
+ */
+export function formatCallsTable(result: CallQueryResult): string {
+  if (result.targets.length === 0) {
+    return `Symbol ${result.symbol} not found.`;
+  }
+  if (result.edges.length === 0) {
+    return `No ${result.direction} found for ${result.symbol}.`;
+  }
+
+  let table = 'depth | caller | callee | call | resolved | line | path\n';
+  table += '------|--------|--------|------|----------|------|------\n';
+
+  for (const edge of result.edges) {
+    const call = edge.qualifier ? `${edge.qualifier}.${edge.name}` : edge.name;
+    const callee = edge.callee ? `${edge.callee.qualifiedName} (${edge.callee.relativePath}:${edge.callee.line})` : '?';
+    table += `${edge.depth} | ${edge.caller.qualifiedName} | ${callee} | ${call} | ${edge.resolved ? 'yes' : 'no'} | ${edge.line} | ${edge.relativePath}\n`;
+  }
+
+  if (result.truncated) {
+    table += `\nShowing ${result.edges.length} of ${result.total}`;
+  }
+  return table;
+}
@@ -1,6 +1,15 @@
-import * as path from 'path';
-import { getFilesInDirectory } from '../utils/fileUtils';
-import { CodeEntity, getParserForFile } from '../utils/parsers';
+import { DEFAULT_MAX_DEPTH, DiscoveryOptions, DiscoverySummary } from '../utils/fileUtils';
+import { CodeEntity } from '../utils/parsers';
+import { formatEntityTable, listEntitiesOfType } from './entities';
+
+/**
+ * Classes found in a directory and the discovery settings that selected their files
+ */
+export interface ClassesResult {
+  classes: CodeEntity[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
 
 /**
  * Get all classes in the specified directory
@@ -8,33 +17,19 @@ import { CodeEntity, getParserForFile } from '../utils/parsers';
  * @param maxDepth Maximum directory depth to search (default: 3)
  * @returns Array of class entities
  */
-export async function getClasses(dirPath: string, maxDepth: number = 3): Promise<CodeEntity[]> {
-  try {
-    // Normalize the path
-    const normalizedPath = path.resolve(dirPath);
-    
-    // Get all files in the directory
-    const files = await getFilesInDirectory(normalizedPath, maxDepth);
-    
-    // Parse each file and collect classes
-    const allClasses: CodeEntity[] = [];
-    
-    for (const file of files) {
-      const parser = getParserForFile(file);
-      if (parser) {
-        // Pass the base directory to the parser for relative path calculation
-        const entities = parser.parseFile(file, normalizedPath);
-        // Filter only classes
-        const classes = entities.filter(entity => entity.type === 'class');
-        allClasses.push(...classes);
-      }
-    }
-    
-    return allClasses;
-  } catch (error) {
-    console.error(`Error getting classes: ${error}`);
-    return [];
-  }
+export async function getClasses(dirPath: string, maxDepth: number = DEFAULT_MAX_DEPTH): Promise<CodeEntity[]> {
+  return (await listClasses(dirPath, { maxDepth })).classes;
+}
+
+/**
+ * Get all classes in the specified directory with the discovery settings that selected their files
+ * @param dirPath Directory path to search
+ * @param options File discovery settings (depth, globs, languages, size and count limits)
+ * @returns Class entities and the effective discovery settings
+ */
+export async function listClasses(dirPath: string, options: DiscoveryOptions = {}): Promise<ClassesResult> {
+  const { entities, discovery } = await listEntitiesOfType(dirPath, 'class', options);
+  return { classes: entities, discovery };
 }
 
 /**
@@ -43,18 +38,5 @@ export async function getClasses(dirPath: string, maxDepth: number = 3): Promise
  * @returns Formatted table string
  */
 export function formatClassesTable(classes: CodeEntity[]): string {
-  if (classes.length === 0) {
-    return 'No classes found.';
-  }
-  
-  // Header
-  let table = 'class | line | file | path\n';
-  table += '------|------|------|------\n';
-  
-  // Rows
-  for (const cls of classes) {
-    table += `class ${cls.name} | ${cls.line} | ${cls.file} | ${cls.relativePath}\n`;
-  }
-  
-  return table;
+  return formatEntityTable(classes, 'class', 'classes');
 }
@@ -0,0 +1,412 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { ModuleResolver } from '../utils/moduleResolver';
+import { ImportInfo } from '../utils/parsers';
+
+/**
+ * Languages whose imports name files or packages of the project; C# and Swift import
+ * namespaces and modules, which do not map to files
+ */
+const DEPENDENCY_LANGUAGES = new Set(['javascript', 'typescript', 'python', 'go', 'java', 'php', 'ruby', 'c', 'cpp']);
+
+/**
+ * A project file in the dependency graph
+ */
+export interface DependencyNode {
+  file: string;
+  relativePath: string;
+  language: string;
+  // Number of project files this file imports
+  dependencies: number;
+  // Number of project files importing this file
+  dependents: number;
+}
+
+/**
+ * An import of one project file by another
+ */
+export interface DependencyEdge {
+  // Paths relative to the root
+  from: string;
+  to: string;
+  // Import source as written, e.g. `./utils` or `github.com/acme/app/store`
+  source: string;
+  line: number;
+}
+
+/**
+ * An import of project code that matches no file
+ */
+export interface UnresolvedImport {
+  relativePath: string;
+  source: string;
+  line: number;
+}
+
+/**
+ * A package from outside the project: an installed dependency or the standard library
+ */
+export interface ExternalPackage {
+  name: string;
+  // Project files importing the package, relative to the root
+  importedBy: string[];
+}
+
+/**
+ * Module dependency graph of a directory
+ */
+export interface DependencyGraph {
+  root: string;
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  // Each cycle lists the files of a circular import chain, ending with the file it started from
+  cycles: string[][];
+  unresolved: UnresolvedImport[];
+  external: ExternalPackage[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Get the package an external import belongs to
+ * @param language Language of the importing file
+ * @param source Import source
+ * @returns Package name, e.g. `@scope/pkg` for `@scope/pkg/sub` or `os` for `os.path`
+ */
+function getPackageName(language: string, source: string): string {
+  switch (language) {
+    case 'javascript':
+    case 'typescript': {
+      const segments = source.split('/');
+      return source.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+    }
+    case 'python':
+      return source.split('.')[0];
+    case 'go': {
+      // Hosted modules are named by their first three segments, e.g. github.com/user/repo
+      const segments = source.split('/');
+      return segments[0].includes('.') ? segments.slice(0, 3).join('/') : source;
+    }
+    case 'java':
+      // Drop the class name
+      return /\.[A-Z]/.test(source) ? source.slice(0, source.search(/\.[A-Z]/)) : source;
+    case 'php':
+      return source.replace(/^\\/, '').split('\\')[0];
+    case 'ruby':
+      return source.split('/')[0];
+    default:
+      return source;
+  }
+}
+
+/**
+ * Get the modules an unresolved import tried to load, as reported to the user
+ * @param file Importing file
+ * @param info Import statement
+ * @returns Module names; `from . import models` tried `.models`, since `.` alone is the package
+ */
+function getAttemptedSources(file: IndexedFile, info: ImportInfo): string[] {
+  if (getFileLanguage(file.relativePath) !== 'python' || !/^\.+$/.test(info.source)) {
+    return [info.source];
+  }
+  const modules = info.bindings.filter(binding => binding.imported !== '*').map(binding => info.source + binding.imported);
+  return modules.length > 0 ? modules : [info.source];
+}
+
+/**
+ * Find the project files an import refers to
+ * @param resolver Module resolver
+ * @param file Importing file
+ * @param info Import statement
+ * @returns Files relative to the root
+ */
+function resolveImport(resolver: ModuleResolver, file: IndexedFile, info: ImportInfo): string[] {
+  // `from pkg import models` may import the submodule pkg/models.py rather than a name of the package
+  if (getFileLanguage(file.relativePath) === 'python') {
+    const prefix = info.source.endsWith('.') ? info.source : `${info.source}.`;
+    const submodules = info.bindings
+      .filter(binding => binding.imported !== '*')
+      .flatMap(binding => resolver.resolve(file.relativePath, prefix + binding.imported));
+    if (submodules.length > 0) {
+      return [...new Set(submodules)];
+    }
+  }
+  return resolver.resolve(file.relativePath, info.source);
+}
+
+/**
+ * Find the strongly connected components of a graph with Tarjan's algorithm, iteratively
+ * so deep import chains cannot overflow the stack
+ * @param nodes Node names
+ * @param successors Outgoing edges of each node
+ * @returns Components in reverse topological order
+ */
+function findStronglyConnected(nodes: string[], successors: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const start of nodes) {
+    if (index.has(start)) {
+      continue;
+    }
+    const work: Array<{ node: string; next: number }> = [{ node: start, next: 0 }];
+    index.set(start, counter);
+    lowLink.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = successors.get(frame.node) || [];
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Find one import cycle through every circular group of files
+ * @param nodes Node names
+ * @param successors Outgoing edges of each node
+ * @returns Cycles as file lists that end with their first file
+ */
+function findCycles(nodes: string[], successors: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  for (const component of findStronglyConnected(nodes, successors)) {
+    const start = [...component].sort()[0];
+    if (component.length === 1 && !(successors.get(start) || []).includes(start)) {
+      continue;
+    }
+    // Shortest path from the first file back to itself, inside the group
+    const members = new Set(component);
+    const previous = new Map<string, string>();
+    const queue = [start];
+    let closing: string | null = null;
+    while (queue.length > 0 && !closing) {
+      const node = queue.shift()!;
+      for (const target of successors.get(node) || []) {
+        if (target === start) {
+          closing = node;
+          break;
+        }
+        if (members.has(target) && !previous.has(target)) {
+          previous.set(target, node);
+          queue.push(target);
+        }
+      }
+    }
+    const cycle = [start];
+    for (let node = closing; node && node !== start; node = previous.get(node) || null) {
+      cycle.splice(1, 0, node);
+    }
+    cycle.push(start);
+    cycles.push(cycle);
+  }
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * Build the dependency graph of a set of indexed files
+ * @param root Absolute project root
+ * @param files Indexed files with their imports
+ * @param resolver Resolver for the imports of the files
+ * @returns Graph of project files, with cycles, unresolved imports and external packages
+ */
+export function buildDependencyGraph(root: string, files: IndexedFile[], resolver: ModuleResolver): DependencyGraph {
+  const sources = files.filter(file => DEPENDENCY_LANGUAGES.has(getFileLanguage(file.relativePath)));
+  const edges: DependencyEdge[] = [];
+  const unresolved: UnresolvedImport[] = [];
+  const external = new Map<string, Set<string>>();
+  const successors = new Map<string, string[]>();
+  const dependents = new Map<string, number>();
+
+  for (const file of sources) {
+    const language = getFileLanguage(file.relativePath);
+    const targets: string[] = [];
+    for (const info of file.imports) {
+      const resolved = resolveImport(resolver, file, info);
+      if (resolved.length === 0) {
+        if (resolver.isLocal(file.relativePath, info.source)) {
+          for (const source of getAttemptedSources(file, info)) {
+            unresolved.push({ relativePath: file.relativePath, source, line: info.line });
+          }
+        } else {
+          const name = getPackageName(language, info.source);
+          const importers = external.get(name) || new Set<string>();
+          importers.add(file.relativePath);
+          external.set(name, importers);
+        }
+        continue;
+      }
+      for (const target of resolved) {
+        // One edge per pair of files, from the first import between them
+        if (target !== file.relativePath && !targets.includes(target)) {
+          targets.push(target);
+          edges.push({ from: file.relativePath, to: target, source: info.source, line: info.line });
+          dependents.set(target, (dependents.get(target) || 0) + 1);
+        }
+      }
+    }
+    successors.set(file.relativePath, targets);
+  }
+
+  const nodes: DependencyNode[] = sources.map(file => ({
+    file: file.file,
+    relativePath: file.relativePath,
+    language: getFileLanguage(file.relativePath),
+    dependencies: successors.get(file.relativePath)?.length || 0,
+    dependents: dependents.get(file.relativePath) || 0
+  }));
+
+  return {
+    root,
+    nodes,
+    edges,
+    cycles: findCycles(nodes.map(node => node.relativePath), successors),
+    unresolved,
+    external: [...external.entries()]
+      .map(([name, importers]) => ({ name, importedBy: [...importers].sort() }))
+      .sort((a, b) => b.importedBy.length - a.importedBy.length || a.name.localeCompare(b.name))
+  };
+}
+
+/**
+ * Get the module dependency graph of a directory
+ * @param dirPath Directory path to analyze
+ * @param options File discovery settings
+ * @returns Dependency graph and the effective discovery settings
+ */
+export async function getDependencies(dirPath: string, options: DiscoveryOptions = {}): Promise<DependencyGraph> {
+  const root = path.resolve(dirPath);
+  try {
+    const { files, discovery } = await getProjectFiles(root, options);
+    const resolver = ModuleResolver.load(root, files.map(file => file.relativePath));
+    return { ...buildDependencyGraph(root, files, resolver), discovery };
+  } catch (error) {
+    logger.error(`Error getting dependencies: ${error}`);
+    return { root, nodes: [], edges: [], cycles: [], unresolved: [], external: [] };
+  }
+}
+
+/**
+ * Get the edges that belong to an import cycle
+ * @param graph Dependency graph
+ * @returns Keys `from -> to` of edges on a cycle
+ */
+function getCycleEdges(graph: DependencyGraph): Set<string> {
+  const keys = new Set<string>();
+  for (const cycle of graph.cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      keys.add(`${cycle[i]} -> ${cycle[i + 1]}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Format a dependency graph in Graphviz DOT, with cycle edges in red
+ * @param graph Dependency graph
+ * @returns DOT source
+ */
+export function formatDependenciesDot(graph: DependencyGraph): string {
+  const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const cycleEdges = getCycleEdges(graph);
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.relativePath)};`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = cycleEdges.has(`${edge.from} -> ${edge.to}`) ? ' [color=red]' : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Format a dependency graph as a Mermaid flowchart, with cycle edges in red
+ * @param graph Dependency graph
+ * @returns Mermaid source
+ */
+export function formatDependenciesMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.relativePath, `n${index}`]));
+  const cycleEdges = getCycleEdges(graph);
+  const lines = ['graph LR'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.relativePath)}["${node.relativePath.replace(/"/g, '#quot;')}"]`);
+  }
+  const highlighted: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    if (cycleEdges.has(`${edge.from} -> ${edge.to}`)) {
+      highlighted.push(index);
+    }
+  });
+  if (highlighted.length > 0) {
+    lines.push(`  linkStyle ${highlighted.join(',')} stroke:#d33,stroke-width:2px`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a dependency graph as a table of files followed by its problems
+ * @param graph Dependency graph
+ * @returns Formatted table string
+ */
+export function formatDependenciesTable(graph: DependencyGraph): string {
+  if (graph.nodes.length === 0) {
+    return 'No modules found.';
+  }
+
+  let table = 'file | language | imports | imported by\n';
+  table += '-----|----------|---------|------------\n';
+  for (const node of graph.nodes) {
+    table += `${node.relativePath} | ${node.language} | ${node.dependencies} | ${node.dependents}\n`;
+  }
+
+  table += `\nCircular dependencies: ${graph.cycles.length}\n`;
+  for (const cycle of graph.cycles) {
+    table += `- ${cycle.join(' -> ')}\n`;
+  }
+  table += `\nUnresolved imports: ${graph.unresolved.length}\n`;
+  for (const item of graph.unresolved) {
+    table += `- ${item.source} (${item.relativePath}:${item.line})\n`;
+  }
+  table += `\nExternal packages: ${graph.external.map(item => item.name).join(', ') || 'none'}`;
+  return table;
+}
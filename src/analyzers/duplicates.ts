@@ -0,0 +1,541 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity, getParserForFile } from '../utils/parsers';
+
+/**
+ * Options for findDuplicates; discovery settings select the files compared
+ */
+export interface DuplicateOptions extends DiscoveryOptions {
+  // Shortest clone reported, in tokens
+  minTokens?: number;
+  // Lowest similarity (0 to 1) for two functions to be reported as near-duplicates
+  minSimilarity?: number;
+  // Only report duplicated functions or only duplicated blocks
+  kind?: 'function' | 'block';
+  limit?: number;
+}
+
+/**
+ * One copy of duplicated code
+ */
+export interface CloneLocation {
+  file: string;
+  relativePath: string;
+  startLine: number;
+  endLine: number;
+  tokens: number;
+  // Qualified name of the function, for function clones
+  symbol?: string;
+}
+
+/**
+ * Copies of the same code
+ */
+export interface CloneGroup {
+  // `function` for whole functions, `block` for copied token sequences anywhere in the files
+  kind: 'function' | 'block';
+  // 1 when the normalized tokens are identical; for near-duplicate functions, the lowest
+  // similarity between two copies of the group that were matched with each other
+  similarity: number;
+  // Tokens of the shortest copy
+  tokens: number;
+  locations: CloneLocation[];
+}
+
+/**
+ * Result of findDuplicates
+ */
+export interface DuplicatesResult {
+  groups: CloneGroup[];
+  total: number;
+  truncated: boolean;
+  summary: {
+    files: number;
+    lines: number;
+    tokens: number;
+    // Lines of the analyzed files that are part of any copy
+    duplicatedLines: number;
+    percent: number;
+  };
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Normalized tokens of a file
+ */
+interface TokenizedFile {
+  file: IndexedFile;
+  // Languages that can share code are compared together
+  family: string;
+  // Interned normalized tokens and the line of each
+  tokens: number[];
+  lines: number[];
+  lineCount: number;
+}
+
+/**
+ * A function long enough to compare
+ */
+interface FunctionTokens {
+  entity: CodeEntity;
+  source: TokenizedFile;
+  start: number;
+  end: number;
+  hash: number;
+  // Hashes of all SHINGLE_SIZE-token windows
+  shingles: Set<number>;
+  // Winnowed subset of the shingles, used to find candidate pairs
+  fingerprints: Set<number>;
+}
+
+const DEFAULT_MIN_TOKENS = 50;
+const DEFAULT_MIN_SIMILARITY = 0.85;
+
+// Tokens per shingle and shingles per winnowing window for near-duplicate functions
+const SHINGLE_SIZE = 5;
+const WINNOW_SIZE = 4;
+
+// Positions sharing a fingerprint beyond this are boilerplate and not paired with each other
+const MAX_BUCKET_SIZE = 50;
+
+// Distinct tokens a duplicated block needs to count as code
+const MIN_DISTINCT_TOKENS = 15;
+
+// Keywords keep their spelling so `if` and `while` do not match; other identifiers are normalized
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'begin', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'defer', 'delete', 'do', 'elif', 'else', 'elsif', 'end', 'ensure', 'enum', 'except', 'export', 'extends', 'false', 'final',
+  'finally', 'fn', 'for', 'foreach', 'func', 'function', 'go', 'guard', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'is', 'lambda', 'let', 'match', 'module', 'new', 'nil', 'none', 'None', 'not', 'null', 'or', 'package',
+  'pass', 'private', 'protected', 'public', 'raise', 'range', 'rescue', 'return', 'select', 'self', 'static', 'struct',
+  'super', 'switch', 'this', 'throw', 'throws', 'true', 'True', 'False', 'try', 'typeof', 'unless', 'until', 'var', 'void',
+  'when', 'while', 'with', 'yield'
+]);
+
+/**
+ * Hash a sequence of interned tokens
+ * @param tokens Token ids
+ * @param start First token
+ * @param end Token after the last one
+ * @returns 32-bit hash
+ */
+function hashTokens(tokens: number[], start: number, end: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = start; i < end; i++) {
+    hash = Math.imul(hash ^ tokens[i], 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split a file into normalized tokens: comments are dropped, and identifiers other than
+ * keywords, numbers and strings each become a single token
+ * @param file Indexed file
+ * @param intern Ids of the normalized tokens seen so far
+ * @returns Tokenized file, or undefined when no parser handles the file
+ */
+function tokenize(file: IndexedFile, intern: Map<string, number>): TokenizedFile | undefined {
+  const parser = getParserForFile(file.file);
+  if (!parser) {
+    return undefined;
+  }
+  const language = getFileLanguage(file.relativePath);
+  const family = language === 'typescript' ? 'javascript' : language === 'c' ? 'cpp' : language;
+  const masked = parser.maskCode(readFileContent(file.file));
+  const result: TokenizedFile = { file, family, tokens: [], lines: [], lineCount: masked.split('\n').length };
+
+  // Imports are left out: files importing the same modules are not copies of each other.
+  // An import statement runs to the first line end outside brackets.
+  const importLines = new Set(file.imports.map(info => info.line));
+  let inImport = false;
+  let depth = 0;
+
+  // Masked strings are quotes around blanks, so each becomes one token
+  const pattern = /([A-Za-z_$@][\w$]*)|(\d[\w.]*)|(\n)|(["'`])[ \t]*\4|(\S)/g;
+  let line = 1;
+  for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+    if (match[3]) {
+      line++;
+      inImport = inImport && depth > 0;
+      continue;
+    }
+    if (inImport || importLines.has(line)) {
+      inImport = true;
+      depth = Math.max(0, depth + ('([{'.includes(match[0]) ? 1 : ')]}'.includes(match[0]) ? -1 : 0));
+      continue;
+    }
+    const token = match[1] ? (KEYWORDS.has(match[1]) ? match[1] : '$id') : match[2] ? '$num' : match[4] ? '$str' : match[0];
+    let id = intern.get(token);
+    if (id === undefined) {
+      id = intern.size + 1;
+      intern.set(token, id);
+    }
+    result.tokens.push(id);
+    result.lines.push(line);
+  }
+  return result;
+}
+
+/**
+ * Get the name of an entity qualified with its container
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `ShoppingCart.getTotal`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Collect the functions of a file with at least minTokens tokens
+ * @param source Tokenized file
+ * @param minTokens Shortest function compared
+ * @returns Functions with their hashes, shingles and fingerprints
+ */
+function getFunctionTokens(source: TokenizedFile, minTokens: number): FunctionTokens[] {
+  const result: FunctionTokens[] = [];
+  for (const entity of source.file.entities) {
+    if (entity.type !== 'function' || entity.endLine === undefined) {
+      continue;
+    }
+    const endLine = entity.endLine;
+    const start = source.lines.findIndex(line => line >= entity.line);
+    let end = start;
+    while (end >= 0 && end < source.lines.length && source.lines[end] <= endLine) {
+      end++;
+    }
+    if (start < 0 || end - start < minTokens) {
+      continue;
+    }
+
+    const windows: number[] = [];
+    for (let i = start; i + SHINGLE_SIZE <= end; i++) {
+      windows.push(hashTokens(source.tokens, i, i + SHINGLE_SIZE));
+    }
+    // Winnowing keeps the smallest hash of each window, so shared code shares fingerprints
+    const fingerprints = new Set<number>();
+    for (let i = 0; i + WINNOW_SIZE <= windows.length; i++) {
+      fingerprints.add(Math.min(...windows.slice(i, i + WINNOW_SIZE)));
+    }
+    result.push({ entity, source, start, end, hash: hashTokens(source.tokens, start, end), shingles: new Set(windows), fingerprints });
+  }
+  return result;
+}
+
+/**
+ * Compute the Jaccard similarity of two sets of shingles
+ * @param a First set
+ * @param b Second set
+ * @returns Shared shingles divided by all shingles
+ */
+function jaccard(a: Set<number>, b: Set<number>): number {
+  let shared = 0;
+  for (const value of a) {
+    if (b.has(value)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group functions whose normalized tokens are identical or similar enough
+ * @param functions Functions long enough to compare
+ * @param minSimilarity Lowest similarity of a pair
+ * @returns Clone groups of functions
+ */
+function findFunctionClones(functions: FunctionTokens[], minSimilarity: number): Array<{ members: FunctionTokens[]; similarity: number }> {
+  // Union-find over the functions, with the lowest similarity of the pairs joining each set
+  const parent = functions.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const similarity = new Map<number, number>();
+  const join = (a: number, b: number, score: number): void => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const lowest = Math.min(score, similarity.get(rootA) ?? 1, similarity.get(rootB) ?? 1);
+    parent[rootB] = rootA;
+    similarity.set(rootA, lowest);
+  };
+
+  const byFingerprint = new Map<string, number[]>();
+  functions.forEach((fn, index) => {
+    for (const fingerprint of fn.fingerprints) {
+      const key = `${fn.source.family}:${fingerprint}`;
+      const list = byFingerprint.get(key) || [];
+      list.push(index);
+      byFingerprint.set(key, list);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const list of byFingerprint.values()) {
+    if (list.length < 2 || list.length > MAX_BUCKET_SIZE) {
+      continue;
+    }
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const a = functions[list[i]];
+        const b = functions[list[j]];
+        const key = `${list[i]}:${list[j]}`;
+        // Nested functions are not clones of the functions containing them
+        if (compared.has(key) || (a.source === b.source && a.start < b.end && b.start < a.end)) {
+          continue;
+        }
+        compared.add(key);
+        // Jaccard cannot exceed the ratio of the sizes, so very different lengths are skipped
+        if (Math.min(a.shingles.size, b.shingles.size) / Math.max(a.shingles.size, b.shingles.size) < minSimilarity) {
+          continue;
+        }
+        const score = a.hash === b.hash && a.end - a.start === b.end - b.start ? 1 : jaccard(a.shingles, b.shingles);
+        if (score >= minSimilarity) {
+          join(list[i], list[j], score);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, FunctionTokens[]>();
+  functions.forEach((fn, index) => {
+    const root = find(index);
+    const members = groups.get(root) || [];
+    members.push(fn);
+    groups.set(root, members);
+  });
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, similarity: Math.round((similarity.get(root) ?? 1) * 100) / 100 }));
+}
+
+/**
+ * Find token sequences of at least minTokens that appear more than once, with
+ * identifiers, literals and layout ignored
+ * @param sources Tokenized files
+ * @param minTokens Shortest sequence reported
+ * @returns Copies of each duplicated sequence, as token ranges
+ */
+function findBlockClones(sources: TokenizedFile[], minTokens: number): Array<Array<{ source: TokenizedFile; start: number; end: number }>> {
+  // Positions of every window of minTokens tokens, by family and hash
+  const windows = new Map<string, Array<{ source: TokenizedFile; start: number }>>();
+  const base = 0x01000193;
+  let power = 1;
+  for (let i = 0; i < minTokens; i++) {
+    power = Math.imul(power, base);
+  }
+  for (const source of sources) {
+    const tokens = source.tokens;
+    // Rolling hash: drop the token leaving the window, add the one entering it
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      hash = (Math.imul(hash, base) + tokens[i]) | 0;
+      if (i >= minTokens) {
+        hash = (hash - Math.imul(tokens[i - minTokens], power)) | 0;
+      }
+      if (i >= minTokens - 1) {
+        const key = `${source.family}:${hash}`;
+        const list = windows.get(key) || [];
+        if (list.length <= MAX_BUCKET_SIZE) {
+          list.push({ source, start: i - minTokens + 1 });
+          windows.set(key, list);
+        }
+      }
+    }
+  }
+
+  // Extend each pair of equal windows to the longest common run, keeping only runs
+  // that cannot be extended backwards so each copy is reported once
+  const groups = new Map<string, Map<string, { source: TokenizedFile; start: number; end: number }>>();
+  for (const list of windows.values()) {
+    if (list.length < 2 || list.length > MAX_BUCKET_SIZE) {
+      continue;
+    }
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const a = list[i];
+        const b = list[j];
+        const tokensA = a.source.tokens;
+        const tokensB = b.source.tokens;
+        if (a.start > 0 && b.start > 0 && tokensA[a.start - 1] === tokensB[b.start - 1]) {
+          continue;
+        }
+        let length = 0;
+        while (a.start + length < tokensA.length && b.start + length < tokensB.length && tokensA[a.start + length] === tokensB[b.start + length]) {
+          length++;
+        }
+        // Short runs are hash collisions; overlapping runs are repetitions within one region
+        if (length < minTokens || (a.source === b.source && Math.abs(a.start - b.start) < length)) {
+          continue;
+        }
+        // Runs of few distinct tokens are lists and tables (`'a', 'b', ...`) rather than logic
+        if (new Set(tokensA.slice(a.start, a.start + length)).size < Math.min(MIN_DISTINCT_TOKENS, minTokens / 4)) {
+          continue;
+        }
+        const key = `${a.source.family}:${hashTokens(tokensA, a.start, a.start + length)}:${length}`;
+        const copies = groups.get(key) || new Map();
+        copies.set(`${a.source.file.relativePath}:${a.start}`, { source: a.source, start: a.start, end: a.start + length });
+        copies.set(`${b.source.file.relativePath}:${b.start}`, { source: b.source, start: b.start, end: b.start + length });
+        groups.set(key, copies);
+      }
+    }
+  }
+  return [...groups.values()].map(copies => [...copies.values()]);
+}
+
+/**
+ * Describe a token range of a file as a clone location
+ * @param source Tokenized file
+ * @param start First token
+ * @param end Token after the last one
+ * @param symbol Function the range belongs to
+ * @returns Clone location
+ */
+function toLocation(source: TokenizedFile, start: number, end: number, symbol?: string): CloneLocation {
+  const location: CloneLocation = {
+    file: source.file.file,
+    relativePath: source.file.relativePath,
+    startLine: source.lines[start],
+    endLine: source.lines[end - 1],
+    tokens: end - start
+  };
+  if (symbol) {
+    location.symbol = symbol;
+  }
+  return location;
+}
+
+/**
+ * Find copy-pasted code across a directory. Tokens are normalized so renamed identifiers,
+ * changed literals, comments and whitespace do not hide a copy. Functions are compared
+ * whole, by exact match and by the similarity of their token shingles; blocks are
+ * sequences of at least minTokens identical normalized tokens anywhere in the files.
+ * @param dirPath Directory path to search
+ * @param options Thresholds, limit and discovery settings
+ * @returns Clone groups, largest amount of duplicated code first
+ */
+export async function findDuplicates(dirPath: string, options: DuplicateOptions = {}): Promise<DuplicatesResult> {
+  const minTokens = Math.max(options.minTokens ?? DEFAULT_MIN_TOKENS, SHINGLE_SIZE + WINNOW_SIZE);
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const limit = options.limit ?? 100;
+  const summary = { files: 0, lines: 0, tokens: 0, duplicatedLines: 0, percent: 0 };
+
+  try {
+    const { files, discovery } = await getProjectFiles(path.resolve(dirPath), options);
+    const intern = new Map<string, number>();
+    const sources = files
+      .map(file => tokenize(file, intern))
+      .filter((source): source is TokenizedFile => source !== undefined);
+    summary.files = sources.length;
+    summary.lines = sources.reduce((total, source) => total + source.lineCount, 0);
+    summary.tokens = sources.reduce((total, source) => total + source.tokens.length, 0);
+
+    const groups: CloneGroup[] = [];
+    // Token ranges already reported as function clones, by file
+    const covered = new Map<TokenizedFile, Array<{ start: number; end: number; group: number }>>();
+
+    if (options.kind !== 'block') {
+      const functions = sources.flatMap(source => getFunctionTokens(source, minTokens));
+      for (const { members, similarity } of findFunctionClones(functions, minSimilarity)) {
+        for (const member of members) {
+          const ranges = covered.get(member.source) || [];
+          ranges.push({ start: member.start, end: member.end, group: groups.length });
+          covered.set(member.source, ranges);
+        }
+        groups.push({
+          kind: 'function',
+          similarity,
+          tokens: Math.min(...members.map(member => member.end - member.start)),
+          locations: members.map(member => toLocation(member.source, member.start, member.end, getQualifiedName(member.entity)))
+        });
+      }
+    }
+
+    if (options.kind !== 'function') {
+      // Blocks inside functions of the same function clone group repeat what that group says
+      const groupOf = (source: TokenizedFile, start: number, end: number): number | undefined =>
+        (covered.get(source) || []).find(range => range.start <= start && end <= range.end)?.group;
+      for (const copies of findBlockClones(sources, minTokens)) {
+        const owners = new Set(copies.map(copy => groupOf(copy.source, copy.start, copy.end)));
+        if (owners.size === 1 && !owners.has(undefined)) {
+          continue;
+        }
+        copies.sort((a, b) => a.source.file.relativePath.localeCompare(b.source.file.relativePath) || a.start - b.start);
+        groups.push({
+          kind: 'block',
+          similarity: 1,
+          tokens: copies[0].end - copies[0].start,
+          locations: copies.map(copy => toLocation(copy.source, copy.start, copy.end))
+        });
+      }
+    }
+
+    // A copy found again as part of a larger clone is reported once, with the larger clone
+    groups.sort((a, b) => b.tokens * (b.locations.length - 1) - a.tokens * (a.locations.length - 1) ||
+      b.similarity - a.similarity || a.locations[0].relativePath.localeCompare(b.locations[0].relativePath));
+    const reported: CloneLocation[] = [];
+    const isReported = (location: CloneLocation): boolean => reported.some(other =>
+      other.relativePath === location.relativePath &&
+      Math.min(other.endLine, location.endLine) - Math.max(other.startLine, location.startLine) + 1 >= (location.endLine - location.startLine + 1) / 2);
+    const distinct = groups.filter(group => {
+      if (group.locations.every(isReported)) {
+        return false;
+      }
+      reported.push(...group.locations);
+      return true;
+    });
+
+    const duplicated = new Set<string>();
+    for (const group of distinct) {
+      for (const location of group.locations) {
+        for (let line = location.startLine; line <= location.endLine; line++) {
+          duplicated.add(`${location.relativePath}:${line}`);
+        }
+      }
+    }
+    summary.duplicatedLines = duplicated.size;
+    summary.percent = summary.lines > 0 ? Math.round(duplicated.size / summary.lines * 1000) / 10 : 0;
+
+    return {
+      groups: distinct.slice(0, limit),
+      total: distinct.length,
+      truncated: distinct.length > limit,
+      summary,
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error finding duplicates: ${error}`);
+    return { groups: [], total: 0, truncated: false, summary };
+  }
+}
+
+/**
+ * Format clone groups as a table with one row per copy
+ * @param result Result of findDuplicates
+ * @returns Formatted table string
+ */
+export function formatDuplicatesTable(result: DuplicatesResult): string {
+  if (result.groups.length === 0) {
+    return 'No duplicates found.';
+  }
+
+  let table = 'group | kind | similarity | tokens | lines | symbol | path\n';
+  table += '------|------|------------|--------|-------|--------|------\n';
+
+  result.groups.forEach((group, index) => {
+    for (const location of group.locations) {
+      table += `${index + 1} | ${group.kind} | ${group.similarity} | ${location.tokens} | ${location.startLine}-${location.endLine} | ${location.symbol || ''} | ${location.relativePath}\n`;
+    }
+  });
+
+  if (result.truncated) {
+    table += `\nShowing ${result.groups.length} of ${result.total} groups`;
+  }
+  table += `\n${result.summary.duplicatedLines} of ${result.summary.lines} lines (${result.summary.percent}%) are duplicated`;
+  return table;
+}
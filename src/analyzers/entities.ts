@@ -0,0 +1,56 @@
+import { DiscoveryOptions, DiscoverySummary } from '../utils/fileUtils';
+import { getProjectEntities } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity } from '../utils/parsers';
+import { formatLineRange, formatModifiers } from './format';
+
+/**
+ * Entities of one type found in a directory and the discovery settings that selected their files
+ */
+export interface EntityListing {
+  entities: CodeEntity[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Get the entities of one type in the specified directory
+ * @param dirPath Directory path to search
+ * @param type Entity type, e.g. `function` or `class`
+ * @param options File discovery settings (depth, globs, languages, size and count limits)
+ * @returns Matching entities and the effective discovery settings; no entities when discovery fails
+ */
+export async function listEntitiesOfType(dirPath: string, type: CodeEntity['type'], options: DiscoveryOptions = {}): Promise<EntityListing> {
+  try {
+    // Parsed entities come from the shared index, so only changed files are parsed again
+    const { entities, discovery } = await getProjectEntities(dirPath, options);
+    return { entities: entities.filter(entity => entity.type === type), discovery };
+  } catch (error) {
+    logger.error(`Error getting ${type} entities: ${error}`);
+    return { entities: [] };
+  }
+}
+
+/**
+ * Format entities as a table
+ * @param entities Entities to list
+ * @param label Word in the first column, e.g. `function`
+ * @param plural Word used when there are no entities, e.g. `functions`
+ * @returns Formatted table string
+ */
+export function formatEntityTable(entities: CodeEntity[], label: string, plural: string): string {
+  if (entities.length === 0) {
+    return `No ${plural} found.`;
+  }
+
+  // Header
+  let table = `${label} | container | signature | modifiers | line | file | path\n`;
+  table += `${'-'.repeat(label.length + 1)}|-----------|-----------|-----------|------|------|------\n`;
+
+  // Rows
+  for (const entity of entities) {
+    table += `${label} ${entity.name} | ${entity.container || ''} | ${entity.signature || ''} | ${formatModifiers(entity)} | ${formatLineRange(entity)} | ${entity.file} | ${entity.relativePath}\n`;
+  }
+
+  return table;
+}
@@ -0,0 +1,38 @@
+import { CodeEntity } from '../utils/parsers';
+
+/**
+ * Describe the modifiers and decorators of an entity for table output
+ * @param entity Code entity
+ * @returns Space-separated modifiers, e.g. "@Get() private static async"
+ */
+export function formatModifiers(entity: CodeEntity): string {
+  const parts: string[] = [...(entity.decorators || [])];
+  if (entity.isExported) {
+    parts.push('export');
+  }
+  if (entity.visibility) {
+    parts.push(entity.visibility);
+  }
+  if (entity.isStatic) {
+    parts.push('static');
+  }
+  if (entity.isAbstract) {
+    parts.push('abstract');
+  }
+  if (entity.isAsync) {
+    parts.push('async');
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Describe the line range of an entity for table output
+ * @param entity Code entity
+ * @returns "start-end", or just the start line when the end is unknown
+ */
+export function formatLineRange(entity: CodeEntity): string {
+  if (entity.endLine && entity.endLine !== entity.line) {
+    return `${entity.line}-${entity.endLine}`;
+  }
+  return String(entity.line);
+}
@@ -1,6 +1,15 @@
-import * as path from 'path';
-import { getFilesInDirectory } from '../utils/fileUtils';
-import { CodeEntity, getParserForFile } from '../utils/parsers';
+import { DEFAULT_MAX_DEPTH, DiscoveryOptions, DiscoverySummary } from '../utils/fileUtils';
+import { CodeEntity } from '../utils/parsers';
+import { formatEntityTable, listEntitiesOfType } from './entities';
+
+/**
+ * Functions found in a directory and the discovery settings that selected their files
+ */
+export interface FunctionsResult {
+  functions: CodeEntity[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
 
 /**
  * Get all functions in the specified directory
@@ -8,33 +17,19 @@ import { CodeEntity, getParserForFile } from '../utils/parsers';
  * @param maxDepth Maximum directory depth to search (default: 3)
  * @returns Array of function entities
  */
-export async function getFunctions(dirPath: string, maxDepth: number = 3): Promise<CodeEntity[]> {
-  try {
-    // Normalize the path
-    const normalizedPath = path.resolve(dirPath);
-    
-    // Get all files in the directory
-    const files = await getFilesInDirectory(normalizedPath, maxDepth);
-    
-    // Parse each file and collect functions
-    const allFunctions: CodeEntity[] = [];
-    
-    for (const file of files) {
-      const parser = getParserForFile(file);
-      if (parser) {
-        // Pass the base directory to the parser for relative path calculation
-        const entities = parser.parseFile(file, normalizedPath);
-        // Filter only functions
-        const functions = entities.filter(entity => entity.type === 'function');
-        allFunctions.push(...functions);
-      }
-    }
-    
-    return allFunctions;
-  } catch (error) {
-    console.error(`Error getting functions: ${error}`);
-    return [];
-  }
+export async function getFunctions(dirPath: string, maxDepth: number = DEFAULT_MAX_DEPTH): Promise<CodeEntity[]> {
+  return (await listFunctions(dirPath, { maxDepth })).functions;
+}
+
+/**
+ * Get all functions in the specified directory with the discovery settings that selected their files
+ * @param dirPath Directory path to search
+ * @param options File discovery settings (depth, globs, languages, size and count limits)
+ * @returns Function entities and the effective discovery settings
+ */
+export async function listFunctions(dirPath: string, options: DiscoveryOptions = {}): Promise<FunctionsResult> {
+  const { entities, discovery } = await listEntitiesOfType(dirPath, 'function', options);
+  return { functions: entities, discovery };
 }
 
 /**
@@ -43,18 +38,5 @@ export async function getFunctions(dirPath: string, maxDepth: number = 3): Promi
  * @returns Formatted table string
  */
 export function formatFunctionsTable(functions: CodeEntity[]): string {
-  if (functions.length === 0) {
-    return 'No functions found.';
-  }
-  
-  // Header
-  let table = 'function | line | file | path\n';
-  table += '---------|------|------|------\n';
-  
-  // Rows
-  for (const func of functions) {
-    table += `function ${func.name} | ${func.line} | ${func.file} | ${func.relativePath}\n`;
-  }
-  
-  return table;
+  return formatEntityTable(functions, 'function', 'functions');
 }
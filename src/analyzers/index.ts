@@ -1,9 +1,159 @@
-import { getFunctions, formatFunctionsTable } from './functions';
-import { getClasses, formatClassesTable } from './classes';
+import { getFunctions, listFunctions, formatFunctionsTable, FunctionsResult } from './functions';
+import { getClasses, listClasses, formatClassesTable, ClassesResult } from './classes';
+import { searchSymbols, formatSymbolsTable, SearchOptions, SearchResult, SymbolMatch } from './search';
+import {
+  buildCallGraph,
+  getCallers,
+  getCallees,
+  formatCallsTable,
+  CallGraph,
+  CallEdge,
+  CallQueryOptions,
+  CallQueryEdge,
+  CallQueryResult,
+  SymbolRef
+} from './callGraph';
+import {
+  buildDependencyGraph,
+  getDependencies,
+  formatDependenciesDot,
+  formatDependenciesMermaid,
+  formatDependenciesTable,
+  DependencyGraph,
+  DependencyNode,
+  DependencyEdge,
+  UnresolvedImport,
+  ExternalPackage
+} from './dependencies';
+import {
+  findReferences,
+  formatReferencesTable,
+  ReferenceKind,
+  ReferenceOptions,
+  ReferenceTarget,
+  ReferencesResult,
+  SymbolReference
+} from './references';
+import {
+  getSymbolSource,
+  formatSymbolSourceText,
+  SourceOptions,
+  SymbolSource,
+  SymbolSourceResult
+} from './source';
+import { getFileOutline, formatOutlineText, FileOutline, OutlineNode } from './outline';
+import {
+  getProjectOverview,
+  formatOverviewText,
+  OverviewOptions,
+  ProjectOverview,
+  LanguageStats,
+  DirectoryNode,
+  EntryPoint,
+  ReferencedSymbol,
+  RepoMapFile,
+  RepoMapSymbol
+} from './overview';
+import {
+  getMetrics,
+  formatMetricsTable,
+  MetricName,
+  MetricsOptions,
+  MetricsResult,
+  FunctionMetrics,
+  MetricsTotals,
+  FileMetrics,
+  DirectoryMetrics
+} from './metrics';
+import { findUnused, formatUnusedTable, UnusedConfidence, UnusedOptions, UnusedResult, UnusedSymbol } from './unused';
+import {
+  findDuplicates,
+  formatDuplicatesTable,
+  DuplicateOptions,
+  DuplicatesResult,
+  CloneGroup,
+  CloneLocation
+} from './duplicates';
 
 export {
   getFunctions,
+  listFunctions,
   formatFunctionsTable,
+  FunctionsResult,
   getClasses,
-  formatClassesTable
+  listClasses,
+  formatClassesTable,
+  ClassesResult,
+  searchSymbols,
+  formatSymbolsTable,
+  SearchOptions,
+  SearchResult,
+  SymbolMatch,
+  buildCallGraph,
+  getCallers,
+  getCallees,
+  formatCallsTable,
+  CallGraph,
+  CallEdge,
+  CallQueryOptions,
+  CallQueryEdge,
+  CallQueryResult,
+  SymbolRef,
+  buildDependencyGraph,
+  getDependencies,
+  formatDependenciesDot,
+  formatDependenciesMermaid,
+  formatDependenciesTable,
+  DependencyGraph,
+  DependencyNode,
+  DependencyEdge,
+  UnresolvedImport,
+  ExternalPackage,
+  findReferences,
+  formatReferencesTable,
+  ReferenceKind,
+  ReferenceOptions,
+  ReferenceTarget,
+  ReferencesResult,
+  SymbolReference,
+  getSymbolSource,
+  formatSymbolSourceText,
+  SourceOptions,
+  SymbolSource,
+  SymbolSourceResult,
+  getFileOutline,
+  formatOutlineText,
+  FileOutline,
+  OutlineNode,
+  getProjectOverview,
+  formatOverviewText,
+  OverviewOptions,
+  ProjectOverview,
+  LanguageStats,
+  DirectoryNode,
+  EntryPoint,
+  ReferencedSymbol,
+  RepoMapFile,
+  RepoMapSymbol,
+  getMetrics,
+  formatMetricsTable,
+  MetricName,
+  MetricsOptions,
+  MetricsResult,
+  FunctionMetrics,
+  MetricsTotals,
+  FileMetrics,
+  DirectoryMetrics,
+  findUnused,
+  formatUnusedTable,
+  UnusedConfidence,
+  UnusedOptions,
+  UnusedResult,
+  UnusedSymbol,
+  findDuplicates,
+  formatDuplicatesTable,
+  DuplicateOptions,
+  DuplicatesResult,
+  CloneGroup,
+  CloneLocation
 };
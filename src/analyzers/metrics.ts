@@ -0,0 +1,522 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity, getParserForFile } from '../utils/parsers';
+import { getLineStarts } from '../utils/parsers/lexer';
+
+/**
+ * Metrics a query can sort and filter functions by
+ */
+export type MetricName = 'cyclomatic' | 'cognitive' | 'nesting' | 'parameters' | 'lines';
+
+/**
+ * Options for getMetrics; discovery settings select the files measured
+ */
+export interface MetricsOptions extends DiscoveryOptions {
+  // Metric to sort functions by, highest first, or `name`/`file` for alphabetical order
+  sort?: MetricName | 'name' | 'file';
+  // Only list functions reaching these values
+  minCyclomatic?: number;
+  minCognitive?: number;
+  minNesting?: number;
+  minParameters?: number;
+  minLines?: number;
+  limit?: number;
+}
+
+/**
+ * Size and complexity of one function
+ */
+export interface FunctionMetrics {
+  name: string;
+  qualifiedName: string;
+  kind: string;
+  file: string;
+  relativePath: string;
+  language: string;
+  line: number;
+  endLine: number;
+  lines: number;
+  parameters: number;
+  // McCabe complexity: 1 plus the number of branches
+  cyclomatic: number;
+  // Cognitive complexity: branches weighted by how deeply they are nested
+  cognitive: number;
+  // Deepest nesting of control structures
+  nesting: number;
+}
+
+/**
+ * Totals over a set of functions
+ */
+export interface MetricsTotals {
+  files: number;
+  lines: number;
+  functions: number;
+  cyclomatic: number;
+  maxCyclomatic: number;
+  averageCyclomatic: number;
+  cognitive: number;
+  maxCognitive: number;
+  maxNesting: number;
+}
+
+/**
+ * Totals of one file
+ */
+export interface FileMetrics extends MetricsTotals {
+  file: string;
+  relativePath: string;
+  language: string;
+}
+
+/**
+ * Totals of a directory, including its subdirectories
+ */
+export interface DirectoryMetrics extends MetricsTotals {
+  path: string;
+}
+
+/**
+ * Result of getMetrics
+ */
+export interface MetricsResult {
+  // Functions matching the thresholds, sorted and limited
+  functions: FunctionMetrics[];
+  // Number of functions matching the thresholds
+  total: number;
+  truncated: boolean;
+  // Totals over all functions, regardless of the thresholds
+  summary: MetricsTotals;
+  files: FileMetrics[];
+  directories: DirectoryMetrics[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Complexity counts of a function body
+ */
+interface Complexity {
+  cyclomatic: number;
+  cognitive: number;
+  nesting: number;
+}
+
+/**
+ * Keywords of a language family, for the complexity scan
+ */
+interface KeywordSet {
+  // Each occurrence adds a path through the function
+  branches: Set<string>;
+  // Structures scored with their nesting level, whose bodies nest one level deeper
+  nested: Set<string>;
+  // Structures that continue another one (`else`, `elif`): +1 without nesting
+  continuations: Set<string>;
+  // Words used as `&&` and `||`
+  logical: Map<string, string>;
+}
+
+// `and` and `or` in Python, Ruby and PHP
+const WORD_OPERATORS = new Map([['and', '&&'], ['or', '||']]);
+
+const BRACE_KEYWORDS: KeywordSet = {
+  branches: new Set(['if', 'elseif', 'for', 'foreach', 'while', 'case', 'catch', 'guard']),
+  nested: new Set(['if', 'for', 'foreach', 'while', 'switch', 'select', 'catch', 'guard']),
+  continuations: new Set(['else', 'elseif']),
+  logical: new Map()
+};
+
+const PYTHON_KEYWORDS: KeywordSet = {
+  branches: new Set(['if', 'elif', 'for', 'while', 'except', 'case']),
+  nested: new Set(['if', 'for', 'while', 'except', 'match']),
+  continuations: new Set(['else', 'elif']),
+  logical: WORD_OPERATORS
+};
+
+const RUBY_KEYWORDS: KeywordSet = {
+  branches: new Set(['if', 'unless', 'elsif', 'while', 'until', 'for', 'when', 'rescue']),
+  nested: new Set(['if', 'unless', 'while', 'until', 'for', 'case', 'rescue']),
+  continuations: new Set(['else', 'elsif']),
+  logical: WORD_OPERATORS
+};
+
+// Loops whose condition comes after the body; the trailing `while` is what gets scored
+const POSTFIX_LOOPS = new Set(['do', 'repeat']);
+
+// Ruby keywords closed by `end`; only those in statement position open a block
+const RUBY_BLOCK_OPENERS = new Set(['if', 'unless', 'while', 'until', 'for', 'case', 'begin', 'def', 'class', 'module', 'do']);
+
+/**
+ * Get the name of an entity qualified with its container
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `ShoppingCart.getTotal`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Score the body of a function. Cyclomatic complexity counts branches, loops, `case`
+ * labels, handlers, ternaries and logical operators; cognitive complexity follows the
+ * SonarSource rules, adding the nesting level to each nested structure and one point per
+ * run of like logical operators and for recursion.
+ * @param code Masked source of the function, with nested functions blanked
+ * @param language Language of the file
+ * @param name Function name, to detect recursive calls
+ * @returns Complexity counts
+ */
+function measureComplexity(code: string, language: string, name: string): Complexity {
+  const keywords = language === 'python' ? PYTHON_KEYWORDS : language === 'ruby' ? RUBY_KEYWORDS : BRACE_KEYWORDS;
+  const logical = language === 'php' ? WORD_OPERATORS : keywords.logical;
+  const word = language === 'ruby' ? '[A-Za-z_]\\w*[?!]?' : '[A-Za-z_$][\\w$]*';
+  const pattern = new RegExp(`(${word})|(&&|\\|\\||\\?\\?)|(\\?)|([{}();\\n])`, 'g');
+
+  const result: Complexity = { cyclomatic: 1, cognitive: 0, nesting: 0 };
+  // Brace languages: one entry per open `{`, true for bodies of control structures
+  const braces: boolean[] = [];
+  // Python: indentation of the open control blocks; Ruby: open `end` blocks
+  const indents: number[] = [];
+  const blocks: boolean[] = [];
+  let pending = false;
+  let parens = 0;
+  let lastOperator: string | null = null;
+  let previous = '\n';
+  let lineStart = true;
+  // The first `name(` on the first line is the declaration; later ones are recursive calls
+  const firstLineEnd = code.includes('\n') ? code.indexOf('\n') : code.length;
+  let declared = false;
+  let recursive = false;
+
+  const depth = (): number => language === 'python' ? indents.length : language === 'ruby'
+    ? blocks.filter(Boolean).length
+    : braces.filter(Boolean).length;
+  const score = (keyword: string): void => {
+    // `else if` scores once, for the `else`
+    if (keyword === 'if' && previous === 'else') {
+      return;
+    }
+    if (keywords.continuations.has(keyword)) {
+      result.cognitive++;
+    } else if (keywords.nested.has(keyword)) {
+      result.cognitive += 1 + depth();
+    }
+  };
+
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    const [token, identifier, operator, question] = match;
+
+    if (language === 'python' && lineStart && token !== '\n') {
+      // Leaving the indentation of a control block closes it
+      const indent = match.index - code.lastIndexOf('\n', match.index) - 1;
+      while (indents.length > 0 && indents[indents.length - 1] >= indent) {
+        indents.pop();
+      }
+      lineStart = false;
+      if (identifier && (keywords.nested.has(identifier) || keywords.continuations.has(identifier) || identifier === 'case')) {
+        if (keywords.branches.has(identifier)) {
+          result.cyclomatic++;
+        }
+        score(identifier);
+        if (identifier !== 'case') {
+          indents.push(indent);
+          result.nesting = Math.max(result.nesting, indents.length);
+        }
+        previous = identifier;
+        continue;
+      }
+    }
+    lineStart = false;
+
+    if (identifier) {
+      const normalized = logical.get(identifier);
+      if (normalized) {
+        result.cyclomatic++;
+        if (normalized !== lastOperator) {
+          result.cognitive++;
+        }
+        lastOperator = normalized;
+      } else if (identifier === name && /^\s*\(/.test(code.slice(match.index + identifier.length))) {
+        if (match.index < firstLineEnd && !declared) {
+          declared = true;
+        } else {
+          recursive = true;
+        }
+      } else if (language === 'ruby') {
+        const statement = /(?:^|[\n;=(,|])\s*$/.test(code.slice(Math.max(0, match.index - 40), match.index));
+        if (identifier === 'end') {
+          blocks.pop();
+        } else {
+          if (keywords.branches.has(identifier)) {
+            result.cyclomatic++;
+          }
+          if (RUBY_BLOCK_OPENERS.has(identifier) && (statement || identifier === 'do')) {
+            score(identifier);
+            blocks.push(keywords.nested.has(identifier));
+            result.nesting = Math.max(result.nesting, depth());
+          } else if (keywords.nested.has(identifier) || keywords.continuations.has(identifier)) {
+            // Modifiers (`return if done`) and `rescue`, `else`, `elsif` inside an open block
+            score(identifier);
+          }
+        }
+      } else {
+        if (keywords.branches.has(identifier)) {
+          result.cyclomatic++;
+        }
+        score(identifier);
+        if (language !== 'python' && (keywords.nested.has(identifier) || keywords.continuations.has(identifier) || POSTFIX_LOOPS.has(identifier))) {
+          pending = true;
+        }
+      }
+      previous = identifier;
+      continue;
+    }
+
+    if (operator) {
+      result.cyclomatic++;
+      // `??` is a branch but not a logical sequence
+      if (operator !== '??' && operator !== lastOperator) {
+        result.cognitive++;
+      }
+      lastOperator = operator === '??' ? lastOperator : operator;
+      previous = operator;
+      continue;
+    }
+
+    if (question) {
+      // A ternary has spaces around `?`; `x?.y`, `T?` and Ruby `valid?` do not
+      if (/\s/.test(code[match.index - 1] || '') && /\s/.test(code[match.index + 1] || '')) {
+        result.cyclomatic++;
+        result.cognitive += 1 + depth();
+      }
+      previous = token;
+      continue;
+    }
+
+    switch (token) {
+      case '(':
+        parens++;
+        break;
+      case ')':
+        parens = Math.max(0, parens - 1);
+        break;
+      case '{':
+        if (language !== 'python' && language !== 'ruby') {
+          braces.push(pending);
+          pending = false;
+          result.nesting = Math.max(result.nesting, depth());
+        }
+        lastOperator = null;
+        break;
+      case '}':
+        if (language !== 'python' && language !== 'ruby') {
+          braces.pop();
+        }
+        lastOperator = null;
+        break;
+      case ';':
+        // A body without braces ends at the statement; Go and Swift always use braces
+        if (parens === 0 && language !== 'go' && language !== 'swift') {
+          pending = false;
+        }
+        lastOperator = null;
+        break;
+      case '\n':
+        if (parens === 0) {
+          lastOperator = null;
+        }
+        lineStart = true;
+        break;
+    }
+    previous = token;
+  }
+
+  if (recursive) {
+    result.cognitive++;
+  }
+  return result;
+}
+
+/**
+ * Measure the functions of a file
+ * @param file Indexed file
+ * @returns Metrics of each function, in file order
+ */
+function measureFile(file: IndexedFile): FunctionMetrics[] {
+  const parser = getParserForFile(file.file);
+  const functions = file.entities.filter(entity => entity.type === 'function');
+  if (!parser || functions.length === 0) {
+    return [];
+  }
+  const language = getFileLanguage(file.relativePath);
+  const masked = parser.maskCode(readFileContent(file.file));
+  const lineStarts = getLineStarts(masked);
+  const toOffset = (line: number, column?: number): number =>
+    column !== undefined ? (lineStarts[line - 1] ?? masked.length) + column - 1 : (lineStarts[line] ?? masked.length + 1) - 1;
+  const ranges = functions.map(entity => ({
+    entity,
+    start: toOffset(entity.line, entity.column ?? 1),
+    end: toOffset(entity.endLine ?? entity.line, entity.endColumn)
+  }));
+
+  return ranges.map(({ entity, start, end }) => {
+    // Nested functions are measured on their own
+    let code = masked.slice(start, end);
+    for (const inner of ranges) {
+      if (inner.entity !== entity && inner.start > start && inner.end <= end) {
+        const from = inner.start - start;
+        const to = inner.end - start;
+        code = code.slice(0, from) + code.slice(from, to).replace(/[^\n]/g, ' ') + code.slice(to);
+      }
+    }
+    const complexity = measureComplexity(code, language, entity.name);
+    const endLine = entity.endLine ?? entity.line;
+    return {
+      name: entity.name,
+      qualifiedName: getQualifiedName(entity),
+      kind: entity.kind || entity.type,
+      file: file.file,
+      relativePath: file.relativePath,
+      language,
+      line: entity.line,
+      endLine,
+      lines: endLine - entity.line + 1,
+      parameters: entity.parameters?.length ?? 0,
+      ...complexity
+    };
+  });
+}
+
+/**
+ * Sum the metrics of a set of functions
+ * @param functions Function metrics
+ * @param files Number of files
+ * @param lines Number of lines of the files
+ * @returns Totals
+ */
+function sumMetrics(functions: FunctionMetrics[], files: number, lines: number): MetricsTotals {
+  const cyclomatic = functions.reduce((total, metrics) => total + metrics.cyclomatic, 0);
+  return {
+    files,
+    lines,
+    functions: functions.length,
+    cyclomatic,
+    maxCyclomatic: functions.reduce((max, metrics) => Math.max(max, metrics.cyclomatic), 0),
+    averageCyclomatic: functions.length > 0 ? Math.round(cyclomatic / functions.length * 100) / 100 : 0,
+    cognitive: functions.reduce((total, metrics) => total + metrics.cognitive, 0),
+    maxCognitive: functions.reduce((max, metrics) => Math.max(max, metrics.cognitive), 0),
+    maxNesting: functions.reduce((max, metrics) => Math.max(max, metrics.nesting), 0)
+  };
+}
+
+/**
+ * Measure the size and complexity of the functions under a directory, with totals
+ * per file and per directory
+ * @param dirPath Directory path to analyze
+ * @param options Sorting, thresholds, limit and discovery settings
+ * @returns Function metrics matching the thresholds and the totals
+ */
+export async function getMetrics(dirPath: string, options: MetricsOptions = {}): Promise<MetricsResult> {
+  const limit = options.limit ?? 100;
+  const sort = options.sort ?? 'cyclomatic';
+  const empty = { files: 0, lines: 0, functions: 0, cyclomatic: 0, maxCyclomatic: 0, averageCyclomatic: 0, cognitive: 0, maxCognitive: 0, maxNesting: 0 };
+
+  try {
+    const { files, discovery } = await getProjectFiles(dirPath, options);
+    const all: FunctionMetrics[] = [];
+    const fileMetrics: FileMetrics[] = [];
+    // Directory totals include every directory above a file, up to the root (`.`)
+    const directories = new Map<string, { functions: FunctionMetrics[]; files: number; lines: number }>();
+
+    for (const file of files) {
+      const functions = measureFile(file);
+      const lines = readFileContent(file.file).split('\n').length;
+      all.push(...functions);
+      fileMetrics.push({
+        file: file.file,
+        relativePath: file.relativePath,
+        language: getFileLanguage(file.relativePath),
+        ...sumMetrics(functions, 1, lines)
+      });
+      for (let dir = path.posix.dirname(file.relativePath); ; dir = path.posix.dirname(dir)) {
+        const totals = directories.get(dir) || { functions: [], files: 0, lines: 0 };
+        totals.functions.push(...functions);
+        totals.files++;
+        totals.lines += lines;
+        directories.set(dir, totals);
+        if (dir === '.') {
+          break;
+        }
+      }
+    }
+
+    const matching = all.filter(metrics =>
+      metrics.cyclomatic >= (options.minCyclomatic ?? 0) &&
+      metrics.cognitive >= (options.minCognitive ?? 0) &&
+      metrics.nesting >= (options.minNesting ?? 0) &&
+      metrics.parameters >= (options.minParameters ?? 0) &&
+      metrics.lines >= (options.minLines ?? 0)
+    );
+    matching.sort((a, b) => {
+      if (sort === 'name') {
+        return a.qualifiedName.localeCompare(b.qualifiedName) || a.relativePath.localeCompare(b.relativePath);
+      }
+      if (sort === 'file') {
+        return a.relativePath.localeCompare(b.relativePath) || a.line - b.line;
+      }
+      return b[sort] - a[sort] || a.relativePath.localeCompare(b.relativePath) || a.line - b.line;
+    });
+
+    return {
+      functions: matching.slice(0, limit),
+      total: matching.length,
+      truncated: matching.length > limit,
+      summary: sumMetrics(all, files.length, fileMetrics.reduce((total, metrics) => total + metrics.lines, 0)),
+      files: fileMetrics,
+      directories: [...directories.entries()]
+        .map(([dir, totals]) => ({ path: dir, ...sumMetrics(totals.functions, totals.files, totals.lines) }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error getting metrics: ${error}`);
+    return { functions: [], total: 0, truncated: false, summary: empty, files: [], directories: [] };
+  }
+}
+
+/**
+ * Format metrics as tables of functions, files and directories
+ * @param result Metrics result
+ * @returns Formatted table string
+ */
+export function formatMetricsTable(result: MetricsResult): string {
+  if (result.functions.length === 0 && result.files.length === 0) {
+    return 'No functions found.';
+  }
+
+  let table = 'function | container | cyclomatic | cognitive | nesting | parameters | lines | line | path\n';
+  table += '---------|-----------|------------|-----------|---------|------------|-------|------|------\n';
+  for (const metrics of result.functions) {
+    const container = metrics.qualifiedName.slice(0, Math.max(0, metrics.qualifiedName.length - metrics.name.length - 1));
+    table += `${metrics.name} | ${container} | ${metrics.cyclomatic} | ${metrics.cognitive} | ${metrics.nesting} | ${metrics.parameters} | ${metrics.lines} | ${metrics.line} | ${metrics.relativePath}\n`;
+  }
+  if (result.truncated) {
+    table += `\nShowing ${result.functions.length} of ${result.total}\n`;
+  }
+
+  table += '\nfile | functions | lines | cyclomatic | max cyclomatic | avg cyclomatic | cognitive | max cognitive | max nesting\n';
+  table += '-----|-----------|-------|------------|----------------|----------------|-----------|---------------|------------\n';
+  for (const metrics of result.files) {
+    table += `${metrics.relativePath} | ${metrics.functions} | ${metrics.lines} | ${metrics.cyclomatic} | ${metrics.maxCyclomatic} | ${metrics.averageCyclomatic} | ${metrics.cognitive} | ${metrics.maxCognitive} | ${metrics.maxNesting}\n`;
+  }
+
+  table += '\ndirectory | files | functions | lines | cyclomatic | max cyclomatic | avg cyclomatic | cognitive | max cognitive | max nesting\n';
+  table += '----------|-------|-----------|-------|------------|----------------|----------------|-----------|---------------|------------\n';
+  for (const metrics of result.directories) {
+    table += `${metrics.path} | ${metrics.files} | ${metrics.functions} | ${metrics.lines} | ${metrics.cyclomatic} | ${metrics.maxCyclomatic} | ${metrics.averageCyclomatic} | ${metrics.cognitive} | ${metrics.maxCognitive} | ${metrics.maxNesting}\n`;
+  }
+
+  return table;
+}
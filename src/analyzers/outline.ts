@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFileLanguage, readFileContent } from '../utils/fileUtils';
+import { CodeEntity, getParserForFile } from '../utils/parsers';
+
+/**
+ * A symbol in a file outline; children are the symbols declared inside it
+ */
+export interface OutlineNode {
+  name: string;
+  // Entity kind (`class`, `method`, `struct`, ...) or `module` for the file itself
+  kind: string;
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  signature?: string;
+  visibility?: string;
+  isStatic?: boolean;
+  isExported?: boolean;
+  children: OutlineNode[];
+}
+
+/**
+ * Outline of one file
+ */
+export interface FileOutline {
+  file: string;
+  language: string;
+  // Number of symbols in the tree, not counting the module
+  symbols: number;
+  // Module node spanning the whole file
+  outline: OutlineNode;
+}
+
+/**
+ * Get the name of an entity qualified with its container
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `ShoppingCart.getTotal`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Create an outline node for an entity
+ * @param entity Code entity
+ * @returns Node without children
+ */
+function toNode(entity: CodeEntity): OutlineNode {
+  return {
+    name: entity.name,
+    kind: entity.kind || entity.type,
+    line: entity.line,
+    column: entity.column,
+    endLine: entity.endLine,
+    endColumn: entity.endColumn,
+    signature: entity.signature,
+    visibility: entity.visibility,
+    isStatic: entity.isStatic,
+    isExported: entity.isExported,
+    children: []
+  };
+}
+
+/**
+ * Check whether one range encloses another
+ * @param outer Enclosing candidate
+ * @param inner Node to place
+ * @returns True if inner lies inside outer
+ */
+function encloses(outer: OutlineNode, inner: OutlineNode): boolean {
+  if (outer.endLine === undefined) {
+    return false;
+  }
+  const starts = outer.line < inner.line || (outer.line === inner.line && (outer.column ?? 0) <= (inner.column ?? 0));
+  const ends = (inner.endLine ?? inner.line) < outer.endLine ||
+    ((inner.endLine ?? inner.line) === outer.endLine && (inner.endColumn ?? 0) <= (outer.endColumn ?? Infinity));
+  return starts && ends;
+}
+
+/**
+ * Sort the children of a tree by position
+ * @param node Root of the tree
+ */
+function sortTree(node: OutlineNode): void {
+  node.children.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+  node.children.forEach(sortTree);
+}
+
+/**
+ * Nest the entities of a file into a tree. An entity goes under the declaration its
+ * container names when that is in the file, so Go methods and C++ members defined
+ * outside their type are listed with it, and otherwise under the innermost symbol
+ * whose range contains it.
+ * @param entities Entities of the file
+ * @param root Module node to attach top-level symbols to
+ */
+function buildOutline(entities: CodeEntity[], root: OutlineNode): void {
+  const ordered = entities
+    .map(entity => ({ entity, node: toNode(entity) }))
+    .sort((a, b) => a.entity.line - b.entity.line || (a.entity.column ?? 0) - (b.entity.column ?? 0) ||
+      (b.entity.endLine ?? b.entity.line) - (a.entity.endLine ?? a.entity.line));
+
+  const byName = new Map<string, OutlineNode>();
+  for (const { entity, node } of ordered) {
+    const name = getQualifiedName(entity);
+    if (!byName.has(name)) {
+      byName.set(name, node);
+    }
+  }
+
+  // Symbols whose ranges are still open, outermost first
+  const open: OutlineNode[] = [];
+  for (const { entity, node } of ordered) {
+    while (open.length > 0 && !encloses(open[open.length - 1], node)) {
+      open.pop();
+    }
+    let parent = entity.container ? byName.get(entity.container) : undefined;
+    if (!parent || parent === node) {
+      parent = open[open.length - 1];
+    }
+    // Members of a container that is not a symbol of the file, such as an object literal
+    // or a type declared elsewhere, are grouped under a node named after it
+    if (!parent && entity.container) {
+      parent = { name: entity.container, kind: entity.containerKind || 'namespace', line: entity.line, children: [] };
+      byName.set(entity.container, parent);
+      root.children.push(parent);
+    }
+    (parent || root).children.push(node);
+    open.push(node);
+  }
+  sortTree(root);
+}
+
+/**
+ * Count the symbols below a node
+ * @param node Outline node
+ * @returns Number of descendants
+ */
+function countSymbols(node: OutlineNode): number {
+  return node.children.reduce((total, child) => total + 1 + countSymbols(child), 0);
+}
+
+/**
+ * Get the hierarchical outline of a file: its classes, their members and nested
+ * functions, with their ranges and kinds
+ * @param filePath Path to the file
+ * @returns File outline
+ * @throws Error when the path is not a file or its language has no parser
+ */
+export async function getFileOutline(filePath: string): Promise<FileOutline> {
+  const file = path.resolve(filePath);
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(file);
+  } catch {
+    throw new Error(`No such file: ${filePath}`);
+  }
+  if (!stats.isFile()) {
+    throw new Error(`Not a file: ${filePath}`);
+  }
+  const parser = getParserForFile(file);
+  if (!parser) {
+    throw new Error(`Unsupported language for ${filePath}`);
+  }
+
+  const content = readFileContent(file);
+  const outline: OutlineNode = { name: path.basename(file), kind: 'module', line: 1, endLine: content.split('\n').length, children: [] };
+  buildOutline(parser.parseFile(file, path.dirname(file)), outline);
+  return { file, language: getFileLanguage(file), symbols: countSymbols(outline), outline };
+}
+
+/**
+ * Format a file outline as an indented tree
+ * @param result File outline
+ * @returns One line per symbol, indented by depth
+ */
+export function formatOutlineText(result: FileOutline): string {
+  const lines: string[] = [];
+  const visit = (node: OutlineNode, depth: number): void => {
+    const range = node.endLine !== undefined ? `${node.line}-${node.endLine}` : `${node.line}`;
+    lines.push(`${'  '.repeat(depth)}${node.name} (${node.kind}) ${range}`);
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  visit(result.outline, 0);
+  return lines.join('\n');
+}
@@ -0,0 +1,556 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { ModuleResolver, readGoModules } from '../utils/moduleResolver';
+import { CodeEntity } from '../utils/parsers';
+import { buildCallGraph } from './callGraph';
+import { buildDependencyGraph } from './dependencies';
+
+/**
+ * Options for getProjectOverview; discovery settings select the files summarised
+ */
+export interface OverviewOptions extends DiscoveryOptions {
+  // Approximate size of the overview, counted as 4 characters of JSON per token
+  maxTokens?: number;
+  // Levels of directories shown in the tree
+  treeDepth?: number;
+  // Number of most-referenced symbols to list before trimming
+  topSymbols?: number;
+}
+
+/**
+ * File and line counts of one language
+ */
+export interface LanguageStats {
+  language: string;
+  files: number;
+  lines: number;
+  // Share of all lines, in percent
+  percent: number;
+}
+
+/**
+ * A directory with the number of analyzed files below it
+ */
+export interface DirectoryNode {
+  name: string;
+  path: string;
+  files: number;
+  children: DirectoryNode[];
+}
+
+/**
+ * A way into the project declared by a manifest or found in the code
+ */
+export interface EntryPoint {
+  // `main`, `module`, `bin`, `export` or `script`
+  kind: string;
+  // Command, export path or package the entry point is known by
+  name?: string;
+  // File relative to the root, when it could be located
+  path?: string;
+  // Manifest target as written, e.g. `app.cli:main`
+  target?: string;
+  // Where the entry point was found: `package.json`, `pyproject.toml`, `go.mod` or `code`
+  source: string;
+}
+
+/**
+ * A symbol and how often resolved calls reach it
+ */
+export interface ReferencedSymbol {
+  name: string;
+  qualifiedName: string;
+  kind: string;
+  relativePath: string;
+  line: number;
+  // Resolved call sites targeting the symbol
+  references: number;
+  // Distinct functions calling it
+  callers: number;
+  // Distinct files calling it
+  files: number;
+}
+
+/**
+ * An exported symbol in the repo map
+ */
+export interface RepoMapSymbol {
+  name: string;
+  kind: string;
+  line: number;
+  signature?: string;
+  // Public members of classes
+  members?: string[];
+}
+
+/**
+ * Exported symbols of one file
+ */
+export interface RepoMapFile {
+  path: string;
+  symbols: RepoMapSymbol[];
+}
+
+/**
+ * Summary of a project
+ */
+export interface ProjectOverview {
+  root: string;
+  files: number;
+  lines: number;
+  symbols: number;
+  languages: LanguageStats[];
+  tree: DirectoryNode;
+  entryPoints: EntryPoint[];
+  mostReferenced: ReferencedSymbol[];
+  // Files ordered by how much the rest of the project uses them
+  repoMap: RepoMapFile[];
+  // Estimated size of the overview
+  tokens: number;
+  truncated: boolean;
+  // Entries dropped to fit the token budget
+  omitted: { repoMapFiles: number; referencedSymbols: number; directories: number };
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+const DEFAULT_MAX_TOKENS = 4000;
+
+// Containers whose members are listed as top-level symbols of a file
+const MODULE_CONTAINERS = new Set(['namespace', 'module']);
+
+/**
+ * Estimate the tokens a piece of JSON takes
+ * @param value Value to measure
+ * @returns Approximate token count
+ */
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/**
+ * Read a JSON file
+ * @param file Path to the file
+ * @returns Parsed content, or undefined when the file is missing or invalid
+ */
+function readJson(file: string): any {
+  try {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined;
+  } catch (error) {
+    logger.error(`Error reading ${file}: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Read the `key = "value"` entries of some sections of a TOML file
+ * @param file Path to the file
+ * @param sections Section names, e.g. `project.scripts`
+ * @returns Entries of the sections found
+ */
+function readTomlSections(file: string, sections: string[]): Array<{ key: string; value: string }> {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  const entries: Array<{ key: string; value: string }> = [];
+  let current = '';
+  for (const line of readFileContent(file).split('\n')) {
+    const header = /^\s*\[([^\]]+)\]\s*$/.exec(line);
+    if (header) {
+      current = header[1].trim();
+      continue;
+    }
+    const entry = /^\s*"?([\w.-]+)"?\s*=\s*["']([^"']+)["']/.exec(line);
+    if (entry && sections.includes(current)) {
+      entries.push({ key: entry[1], value: entry[2] });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Find a project file for a path written in a manifest
+ * @param known Relative paths of the analyzed files
+ * @param target Path as written, e.g. `./dist/bin.js`
+ * @returns Matching relative path, or the normalized target when no file matches
+ */
+function locateFile(known: Set<string>, target: string): string {
+  const normalized = path.posix.normalize(target.replace(/\\/g, '/')).replace(/^\.\//, '');
+  // Built output usually comes from a source file with the same name
+  const stem = normalized.replace(/\.[cm]?js$/, '');
+  const candidates = [normalized, `${stem}.ts`, `${stem}.tsx`, stem.replace(/^(?:dist|build|lib|out)\//, 'src/') + '.ts'];
+  return candidates.find(candidate => known.has(candidate)) || normalized;
+}
+
+/**
+ * Collect the entry points declared in package.json
+ * @param root Absolute project root
+ * @param known Relative paths of the analyzed files
+ * @returns Entry points
+ */
+function readPackageEntryPoints(root: string, known: Set<string>): EntryPoint[] {
+  const manifest = readJson(path.join(root, 'package.json'));
+  if (!manifest) {
+    return [];
+  }
+  const entries: EntryPoint[] = [];
+  for (const kind of ['main', 'module']) {
+    if (typeof manifest[kind] === 'string') {
+      entries.push({ kind, target: manifest[kind], path: locateFile(known, manifest[kind]), source: 'package.json' });
+    }
+  }
+  const bin = typeof manifest.bin === 'string' ? { [manifest.name || 'bin']: manifest.bin } : manifest.bin || {};
+  for (const [name, target] of Object.entries(bin)) {
+    if (typeof target === 'string') {
+      entries.push({ kind: 'bin', name, target, path: locateFile(known, target), source: 'package.json' });
+    }
+  }
+  // Conditional exports nest targets under conditions; the first string found for each subpath is enough
+  const exportsField = typeof manifest.exports === 'string' ? { '.': manifest.exports } : manifest.exports || {};
+  const firstTarget = (value: any): string | undefined =>
+    typeof value === 'string' ? value : value && typeof value === 'object' ? Object.values(value).map(firstTarget).find(Boolean) : undefined;
+  for (const [name, value] of Object.entries(exportsField)) {
+    const target = name.startsWith('.') ? firstTarget(value) : undefined;
+    if (target) {
+      entries.push({ kind: 'export', name, target, path: locateFile(known, target), source: 'package.json' });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Collect the scripts declared in pyproject.toml and the `__main__.py` modules
+ * @param root Absolute project root
+ * @param known Relative paths of the analyzed files
+ * @returns Entry points
+ */
+function readPythonEntryPoints(root: string, known: Set<string>): EntryPoint[] {
+  const entries: EntryPoint[] = [];
+  const scripts = readTomlSections(path.join(root, 'pyproject.toml'), ['project.scripts', 'project.gui-scripts', 'tool.poetry.scripts']);
+  for (const { key, value } of scripts) {
+    const modulePath = value.split(':')[0].trim().replace(/\./g, '/');
+    const file = [`${modulePath}.py`, `${modulePath}/__init__.py`, `src/${modulePath}.py`, `src/${modulePath}/__init__.py`]
+      .find(candidate => known.has(candidate));
+    entries.push({ kind: 'script', name: key, target: value, path: file, source: 'pyproject.toml' });
+  }
+  for (const file of known) {
+    if (path.posix.basename(file) === '__main__.py') {
+      entries.push({ kind: 'main', name: path.posix.dirname(file).replace(/^src\//, '').replace(/\//g, '.'), path: file, source: 'code' });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Collect the Go `main` packages, named by their import path when a go.mod declares the module
+ * @param root Absolute project root
+ * @param files Indexed files
+ * @returns Entry points
+ */
+function readGoEntryPoints(root: string, files: IndexedFile[]): EntryPoint[] {
+  const goFiles = files.filter(file => getFileLanguage(file.relativePath) === 'go');
+  if (goFiles.length === 0) {
+    return [];
+  }
+  const modules = readGoModules(root, goFiles.map(file => file.relativePath));
+  const entries: EntryPoint[] = [];
+  for (const file of goFiles) {
+    const hasMain = file.entities.some(entity => entity.name === 'main' && entity.type === 'function' && !entity.receiver);
+    if (!hasMain || !/^\s*package\s+main\b/m.test(readFileContent(file.file))) {
+      continue;
+    }
+    const dir = path.posix.dirname(file.relativePath);
+    const module = modules
+      .filter(candidate => candidate.dir === '.' || candidate.dir.startsWith('..') || dir === candidate.dir || dir.startsWith(`${candidate.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    let name: string | undefined;
+    if (module) {
+      const inside = path.posix.relative(module.dir === '.' ? '' : module.dir, dir === '.' ? '' : dir);
+      name = inside && !module.dir.startsWith('..') ? `${module.path}/${inside}` : module.path;
+    }
+    entries.push({ kind: 'main', name, path: file.relativePath, source: module ? 'go.mod' : 'code' });
+  }
+  return entries;
+}
+
+/**
+ * Collect the entry points a project declares in its manifests or its code
+ * @param root Absolute project root
+ * @param files Indexed files
+ * @returns Entry points from package.json, pyproject.toml and Go `main` packages
+ */
+export function readEntryPoints(root: string, files: IndexedFile[]): EntryPoint[] {
+  const known = new Set(files.map(file => file.relativePath));
+  return [
+    ...readPackageEntryPoints(root, known),
+    ...readPythonEntryPoints(root, known),
+    ...readGoEntryPoints(root, files)
+  ];
+}
+
+/**
+ * Build the directory tree of the analyzed files
+ * @param files Relative paths of the files
+ * @param depth Levels of directories to show
+ * @returns Root node
+ */
+function buildTree(files: string[], depth: number): DirectoryNode {
+  const root: DirectoryNode = { name: '.', path: '.', files: files.length, children: [] };
+  for (const file of files) {
+    const parts = file.split('/').slice(0, -1).slice(0, depth);
+    let node = root;
+    for (let i = 0; i < parts.length; i++) {
+      let child = node.children.find(candidate => candidate.name === parts[i]);
+      if (!child) {
+        child = { name: parts[i], path: parts.slice(0, i + 1).join('/'), files: 0, children: [] };
+        node.children.push(child);
+      }
+      child.files++;
+      node = child;
+    }
+  }
+  const sort = (node: DirectoryNode): void => {
+    node.children.sort((a, b) => b.files - a.files || a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+/**
+ * Check whether an entity is part of the public surface of its file
+ * @param entity Code entity
+ * @returns True if exported, or public in languages without exports
+ */
+function isPublic(entity: CodeEntity): boolean {
+  if (entity.isExported !== undefined) {
+    return entity.isExported;
+  }
+  return entity.visibility !== 'private' && entity.visibility !== 'protected' && !entity.name.startsWith('_');
+}
+
+/**
+ * List the exported symbols of a file, with the public members of its classes
+ * @param file Indexed file
+ * @returns Repo map entry, or undefined when the file exports nothing
+ */
+function mapFile(file: IndexedFile): RepoMapFile | undefined {
+  const topLevel = file.entities.filter(entity =>
+    entity.type !== 'namespace' && (!entity.container || MODULE_CONTAINERS.has(entity.containerKind || '')) && isPublic(entity));
+  if (topLevel.length === 0) {
+    return undefined;
+  }
+  const symbols = topLevel.map(entity => {
+    const symbol: RepoMapSymbol = { name: entity.name, kind: entity.kind || entity.type, line: entity.line };
+    if (entity.signature) {
+      symbol.signature = entity.signature;
+    }
+    if (entity.type === 'class') {
+      const qualifiedName = entity.container ? `${entity.container}.${entity.name}` : entity.name;
+      const members = file.entities
+        .filter(member => member.container === qualifiedName && member.visibility !== 'private' && member.visibility !== 'protected' && !member.name.startsWith('_'))
+        .map(member => member.name);
+      if (members.length > 0) {
+        symbol.members = [...new Set(members)];
+      }
+    }
+    return symbol;
+  });
+  return { path: file.relativePath, symbols };
+}
+
+/**
+ * Summarise a project: languages, directory tree, entry points, most-referenced symbols
+ * and a map of the exported symbols of each file. When the overview is larger than the
+ * token budget, the repo map is trimmed first, from the least used files, then the
+ * most-referenced list from the bottom, then the deepest directories of the tree.
+ * @param dirPath Project root
+ * @param options Budget, tree depth and discovery settings
+ * @returns Project overview
+ */
+export async function getProjectOverview(dirPath: string, options: OverviewOptions = {}): Promise<ProjectOverview> {
+  const root = path.resolve(dirPath);
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overview: ProjectOverview = {
+    root,
+    files: 0,
+    lines: 0,
+    symbols: 0,
+    languages: [],
+    tree: { name: '.', path: '.', files: 0, children: [] },
+    entryPoints: [],
+    mostReferenced: [],
+    repoMap: [],
+    tokens: 0,
+    truncated: false,
+    omitted: { repoMapFiles: 0, referencedSymbols: 0, directories: 0 }
+  };
+
+  try {
+    const { files, discovery } = await getProjectFiles(root, options);
+    const relativePaths = files.map(file => file.relativePath);
+    overview.discovery = discovery;
+
+    // Languages by file and line count
+    const languages = new Map<string, LanguageStats>();
+    for (const file of files) {
+      const language = getFileLanguage(file.relativePath);
+      const stats = languages.get(language) || { language, files: 0, lines: 0, percent: 0 };
+      stats.files++;
+      stats.lines += readFileContent(file.file).split('\n').length;
+      languages.set(language, stats);
+    }
+    overview.files = files.length;
+    overview.lines = [...languages.values()].reduce((total, stats) => total + stats.lines, 0);
+    overview.symbols = files.reduce((total, file) => total + file.entities.filter(entity => entity.type !== 'namespace').length, 0);
+    overview.languages = [...languages.values()]
+      .map(stats => ({ ...stats, percent: overview.lines > 0 ? Math.round(stats.lines / overview.lines * 1000) / 10 : 0 }))
+      .sort((a, b) => b.lines - a.lines);
+
+    overview.tree = buildTree(relativePaths, options.treeDepth ?? 2);
+    overview.entryPoints = readEntryPoints(root, files);
+
+    // Resolved calls rank symbols; calls and imports together rank files
+    const modules = ModuleResolver.load(root, relativePaths);
+    const graph = buildCallGraph(files, modules);
+    const referenced = new Map<string, ReferencedSymbol & { callerIds: Set<string>; fileIds: Set<string> }>();
+    for (const edge of graph.edges) {
+      if (!edge.callee || edge.callee.id === edge.caller.id) {
+        continue;
+      }
+      let entry = referenced.get(edge.callee.id);
+      if (!entry) {
+        const { name, qualifiedName, kind, relativePath, line } = edge.callee;
+        entry = { name, qualifiedName, kind, relativePath, line, references: 0, callers: 0, files: 0, callerIds: new Set(), fileIds: new Set() };
+        referenced.set(edge.callee.id, entry);
+      }
+      entry.references++;
+      entry.callerIds.add(edge.caller.id);
+      entry.fileIds.add(edge.relativePath);
+    }
+    const ranked = [...referenced.values()]
+      .map(({ callerIds, fileIds, ...entry }) => ({ ...entry, callers: callerIds.size, files: fileIds.size }))
+      .sort((a, b) => b.references - a.references || b.callers - a.callers || a.qualifiedName.localeCompare(b.qualifiedName));
+    overview.mostReferenced = ranked.slice(0, options.topSymbols ?? 20);
+
+    const usage = new Map<string, number>();
+    for (const symbol of ranked) {
+      usage.set(symbol.relativePath, (usage.get(symbol.relativePath) || 0) + symbol.references);
+    }
+    for (const node of buildDependencyGraph(root, files, modules).nodes) {
+      usage.set(node.relativePath, (usage.get(node.relativePath) || 0) + node.dependents);
+    }
+    overview.repoMap = files
+      .map(mapFile)
+      .filter((entry): entry is RepoMapFile => entry !== undefined)
+      .sort((a, b) => (usage.get(b.path) || 0) - (usage.get(a.path) || 0) || a.path.localeCompare(b.path));
+
+    fitBudget(overview, maxTokens);
+  } catch (error) {
+    logger.error(`Error getting project overview: ${error}`);
+  }
+
+  overview.tokens = estimateTokens(overview);
+  return overview;
+}
+
+/**
+ * Drop the least important entries of an overview until it fits the budget
+ * @param overview Overview to trim in place
+ * @param maxTokens Token budget
+ */
+function fitBudget(overview: ProjectOverview, maxTokens: number): void {
+  // Sizes are tracked in characters; each removed entry also frees its separating comma
+  let size = JSON.stringify(overview).length;
+  const limit = maxTokens * 4;
+
+  while (size > limit && overview.repoMap.length > 0) {
+    size -= JSON.stringify(overview.repoMap.pop()).length + 1;
+    overview.omitted.repoMapFiles++;
+  }
+  while (size > limit && overview.mostReferenced.length > 0) {
+    size -= JSON.stringify(overview.mostReferenced.pop()).length + 1;
+    overview.omitted.referencedSymbols++;
+  }
+
+  // Deepest directories first, smaller ones before larger ones; top-level directories stay
+  const nested: Array<{ node: DirectoryNode; parent: DirectoryNode; depth: number }> = [];
+  const collect = (node: DirectoryNode, depth: number): void => {
+    for (const child of node.children) {
+      if (depth >= 1) {
+        nested.push({ node: child, parent: node, depth: depth + 1 });
+      }
+      collect(child, depth + 1);
+    }
+  };
+  collect(overview.tree, 0);
+  nested.sort((a, b) => b.depth - a.depth || a.node.files - b.node.files);
+  for (const { node, parent } of nested) {
+    if (size <= limit) {
+      break;
+    }
+    size -= JSON.stringify(node).length + 1;
+    parent.children.splice(parent.children.indexOf(node), 1);
+    overview.omitted.directories++;
+  }
+
+  overview.truncated = overview.omitted.repoMapFiles + overview.omitted.referencedSymbols + overview.omitted.directories > 0;
+}
+
+/**
+ * Format an overview as compact text
+ * @param overview Project overview
+ * @returns Sections for languages, tree, entry points, most-referenced symbols and the repo map
+ */
+export function formatOverviewText(overview: ProjectOverview): string {
+  const lines: string[] = [
+    `${overview.root}: ${overview.files} files, ${overview.lines} lines, ${overview.symbols} symbols`,
+    '',
+    'Languages:'
+  ];
+  for (const stats of overview.languages) {
+    lines.push(`  ${stats.language}: ${stats.files} files, ${stats.lines} lines (${stats.percent}%)`);
+  }
+
+  lines.push('', 'Directories:');
+  const visit = (node: DirectoryNode, depth: number): void => {
+    for (const child of node.children) {
+      lines.push(`${'  '.repeat(depth + 1)}${child.name}/ (${child.files})`);
+      visit(child, depth + 1);
+    }
+  };
+  visit(overview.tree, 0);
+
+  if (overview.entryPoints.length > 0) {
+    lines.push('', 'Entry points:');
+    for (const entry of overview.entryPoints) {
+      lines.push(`  ${entry.kind}${entry.name ? ` ${entry.name}` : ''}: ${entry.path || entry.target} (${entry.source})`);
+    }
+  }
+
+  if (overview.mostReferenced.length > 0) {
+    lines.push('', 'Most referenced:');
+    for (const symbol of overview.mostReferenced) {
+      lines.push(`  ${symbol.qualifiedName} (${symbol.kind}) ${symbol.relativePath}:${symbol.line} - ${symbol.references} calls from ${symbol.callers} callers`);
+    }
+  }
+
+  if (overview.repoMap.length > 0) {
+    lines.push('', 'Repo map:');
+    for (const file of overview.repoMap) {
+      lines.push(`  ${file.path}`);
+      for (const symbol of file.symbols) {
+        lines.push(`    ${symbol.signature || `${symbol.kind} ${symbol.name}`}${symbol.members ? ` { ${symbol.members.join(', ')} }` : ''}`);
+      }
+    }
+  }
+
+  if (overview.truncated) {
+    const { repoMapFiles, referencedSymbols, directories } = overview.omitted;
+    lines.push('', `Trimmed to ~${overview.tokens} tokens: ${repoMapFiles} repo map files, ${referencedSymbols} symbols and ${directories} directories omitted`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,767 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, getLineContent, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { readCompilerOptions } from '../utils/moduleResolver';
+import { CodeEntity, getParserForFile } from '../utils/parsers';
+import { createLineIndex, getLineStarts } from '../utils/parsers/lexer';
+import { isInContainer } from './search';
+
+/**
+ * How a reference uses the symbol
+ */
+export type ReferenceKind = 'declaration' | 'read' | 'write' | 'call' | 'type' | 'import';
+
+/**
+ * Options for a reference search; discovery settings select the files searched
+ */
+export interface ReferenceOptions extends DiscoveryOptions {
+  // File declaring the symbol, to pick one of several symbols with the same name
+  file?: string;
+  // Name of the class, namespace or module declaring the symbol
+  container?: string;
+  // Only return references of these kinds
+  kinds?: ReferenceKind[];
+  limit?: number;
+}
+
+/**
+ * A declaration the references were collected for
+ */
+export interface ReferenceTarget {
+  name: string;
+  kind: string;
+  container?: string;
+  file: string;
+  relativePath: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * One usage of the symbol
+ */
+export interface SymbolReference {
+  kind: ReferenceKind;
+  file: string;
+  relativePath: string;
+  line: number;
+  column: number;
+  // Source line of the reference, trimmed
+  snippet: string;
+  // Qualified name of the function or class containing the reference
+  scope?: string;
+  // Declaration the reference was bound to, as `relativePath:line`; missing for name matches
+  declaration?: string;
+  // `symbol` when the compiler bound the reference to the declaration, `name` for identifier matches
+  match: 'symbol' | 'name';
+  language: string;
+}
+
+/**
+ * Result of a reference search
+ */
+export interface ReferencesResult {
+  symbol: string;
+  declarations: ReferenceTarget[];
+  total: number;
+  truncated: boolean;
+  references: SymbolReference[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Name and filters of the symbol being searched
+ */
+interface ReferenceQuery {
+  name: string;
+  file?: string;
+  container?: string;
+}
+
+const MAX_SNIPPET_LENGTH = 200;
+
+// Declarations whose `name` is the declared identifier
+const DECLARATION_KINDS = new Set([
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.FunctionExpression,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.ClassExpression,
+  ts.SyntaxKind.MethodDeclaration,
+  ts.SyntaxKind.MethodSignature,
+  ts.SyntaxKind.PropertyDeclaration,
+  ts.SyntaxKind.PropertySignature,
+  ts.SyntaxKind.PropertyAssignment,
+  ts.SyntaxKind.GetAccessor,
+  ts.SyntaxKind.SetAccessor,
+  ts.SyntaxKind.VariableDeclaration,
+  ts.SyntaxKind.Parameter,
+  ts.SyntaxKind.BindingElement,
+  ts.SyntaxKind.InterfaceDeclaration,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.EnumDeclaration,
+  ts.SyntaxKind.EnumMember,
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.TypeParameter
+]);
+
+// Words that come before a call without being its return type
+const PRECEDING_KEYWORDS = new Set(['return', 'new', 'await', 'throw', 'else', 'case', 'yield', 'delete', 'in', 'is', 'as', 'sizeof', 'typeof', 'goto']);
+
+/**
+ * Get the trimmed source line of a reference
+ * @param lineText Line of the file holding the reference
+ * @returns Snippet, shortened to MAX_SNIPPET_LENGTH characters
+ */
+function getSnippet(lineText: string): string {
+  const text = lineText.trim();
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 3)}...` : text;
+}
+
+/**
+ * Find the innermost function or class containing a line
+ * @param entities Entities of the file
+ * @param line 1-based line number
+ * @returns Qualified name of the entity, or undefined at top level
+ */
+function findScope(entities: CodeEntity[], line: number): string | undefined {
+  let best: CodeEntity | undefined;
+  for (const entity of entities) {
+    if (entity.type !== 'namespace' && entity.line <= line && (entity.endLine ?? entity.line) >= line &&
+        (!best || entity.line > best.line || (entity.line === best.line && (entity.endLine ?? 0) < (best.endLine ?? 0)))) {
+      best = entity;
+    }
+  }
+  return best ? (best.container ? `${best.container}.${best.name}` : best.name) : undefined;
+}
+
+/**
+ * Check whether a path matches the file filter of a query
+ * @param filter File filter: absolute, relative to the root, or a trailing part of the path
+ * @param file Absolute file path
+ * @param relativePath Path relative to the root
+ * @returns True if the file is selected
+ */
+function matchesFile(filter: string, file: string, relativePath: string): boolean {
+  const normalized = filter.replace(/\\/g, '/');
+  return relativePath === normalized || relativePath.endsWith(`/${normalized}`) || path.resolve(file) === path.resolve(filter);
+}
+
+/**
+ * Get the names of the declarations enclosing a node
+ * @param node Declaration node
+ * @returns Dotted container path, e.g. `Outer.Inner`
+ */
+function getScriptContainer(node: ts.Node): string | undefined {
+  const names: string[] = [];
+  for (let current = node.parent; current; current = current.parent) {
+    if ((ts.isClassLike(current) || ts.isInterfaceDeclaration(current) || ts.isModuleDeclaration(current) ||
+        ts.isFunctionLike(current) || ts.isEnumDeclaration(current)) && current.name && ts.isIdentifier(current.name)) {
+      names.unshift(current.name.text);
+    } else if (ts.isClassExpression(current) && ts.isVariableDeclaration(current.parent) && ts.isIdentifier(current.parent.name)) {
+      names.unshift(current.parent.name.text);
+    }
+  }
+  return names.length > 0 ? names.join('.') : undefined;
+}
+
+/**
+ * Check whether a declaration can be named from outside its file: a statement
+ * of the file or a namespace, or a member of such a class, interface or enum.
+ * Locals, parameters and object literal properties cannot.
+ * @param node Declaration node
+ * @returns True if the declaration is not nested in a function body or an expression
+ */
+function isOuterDeclaration(node: ts.Node): boolean {
+  let current = node;
+  for (;;) {
+    if (ts.isVariableDeclaration(current) && ts.isVariableDeclarationList(current.parent)) {
+      current = current.parent.parent;
+    } else if (ts.isBinaryExpression(current) && ts.isExpressionStatement(current.parent)) {
+      // CommonJS exports such as `exports.save = ...`
+      current = current.parent;
+    }
+    const parent = current.parent;
+    if (!parent || ts.isSourceFile(parent)) {
+      return true;
+    }
+    if (ts.isModuleBlock(parent)) {
+      current = parent.parent;
+    } else if (ts.isModuleDeclaration(parent) || ts.isClassLike(parent) || ts.isInterfaceDeclaration(parent) || ts.isEnumDeclaration(parent) ||
+               (ts.isVariableDeclaration(parent) && ts.isClassExpression(current))) {
+      current = parent;
+    } else {
+      return false;
+    }
+  }
+}
+
+/**
+ * Check whether a symbol has a declaration with a name
+ * @param symbol Symbol
+ * @param name Identifier text
+ * @returns True if one of its declarations is named `name`
+ */
+function declaresName(symbol: ts.Symbol, name: string): boolean {
+  return (symbol.declarations || []).some(declaration => {
+    const declared = ts.getNameOfDeclaration(declaration);
+    return !!declared && ts.isIdentifier(declared) && declared.text === name;
+  });
+}
+
+/**
+ * Get the symbol an identifier refers to, following imports and re-exports to
+ * the declaration they name
+ * @param checker Type checker
+ * @param node Identifier
+ * @returns Symbol, or undefined when the identifier is not bound
+ */
+function resolveScriptSymbol(checker: ts.TypeChecker, node: ts.Identifier): ts.Symbol | undefined {
+  const symbol = ts.isShorthandPropertyAssignment(node.parent)
+    ? checker.getShorthandAssignmentValueSymbol(node.parent)
+    : checker.getSymbolAtLocation(node);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    const aliased = checker.getAliasedSymbol(symbol);
+    if (aliased.declarations && aliased.declarations.length > 0) {
+      return aliased;
+    }
+  }
+  return symbol;
+}
+
+/**
+ * Collect the names a symbol is imported or re-exported under, such as
+ * `persist` in `import { save as persist } from './store'`
+ * @param checker Type checker
+ * @param sourceFiles Files of the project
+ * @param name Declared name of the symbol
+ * @returns Declared name and its aliases
+ */
+function collectAliasNames(checker: ts.TypeChecker, sourceFiles: ts.SourceFile[], name: string): Set<string> {
+  const names = new Set([name]);
+  const bindings: ts.Identifier[] = [];
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      let elements: ReadonlyArray<ts.ImportSpecifier | ts.ExportSpecifier> = [];
+      if (ts.isImportDeclaration(statement) && statement.importClause) {
+        const { name: defaultName, namedBindings } = statement.importClause;
+        if (defaultName) {
+          bindings.push(defaultName);
+        }
+        elements = namedBindings && ts.isNamedImports(namedBindings) ? namedBindings.elements : [];
+      } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        elements = statement.exportClause.elements;
+      }
+      for (const element of elements) {
+        if (element.propertyName && ts.isIdentifier(element.name)) {
+          bindings.push(element.name);
+        }
+      }
+    }
+  }
+
+  // Aliases of aliases are found on later passes
+  let remaining = bindings;
+  for (let size = 0; size !== names.size;) {
+    size = names.size;
+    remaining = remaining.filter(binding => {
+      if (names.has(binding.text)) {
+        return false;
+      }
+      const symbol = resolveScriptSymbol(checker, binding);
+      if (symbol && declaresName(symbol, name)) {
+        names.add(binding.text);
+        return false;
+      }
+      return true;
+    });
+  }
+  return names;
+}
+
+/**
+ * Describe the kind of a declaration node
+ * @param node Declaration node
+ * @returns Kind name, e.g. `method` or `variable`
+ */
+function getDeclarationKind(node: ts.Node): string {
+  switch (node.kind) {
+    case ts.SyntaxKind.FunctionDeclaration:
+    case ts.SyntaxKind.FunctionExpression:
+      return 'function';
+    case ts.SyntaxKind.ClassDeclaration:
+    case ts.SyntaxKind.ClassExpression:
+      return 'class';
+    case ts.SyntaxKind.MethodDeclaration:
+    case ts.SyntaxKind.MethodSignature:
+      return 'method';
+    case ts.SyntaxKind.GetAccessor:
+      return 'getter';
+    case ts.SyntaxKind.SetAccessor:
+      return 'setter';
+    case ts.SyntaxKind.PropertyDeclaration:
+    case ts.SyntaxKind.PropertySignature:
+    case ts.SyntaxKind.PropertyAssignment:
+    case ts.SyntaxKind.ShorthandPropertyAssignment:
+      return 'property';
+    case ts.SyntaxKind.Parameter:
+      return 'parameter';
+    case ts.SyntaxKind.InterfaceDeclaration:
+      return 'interface';
+    case ts.SyntaxKind.TypeAliasDeclaration:
+      return 'type';
+    case ts.SyntaxKind.EnumDeclaration:
+      return 'enum';
+    case ts.SyntaxKind.EnumMember:
+      return 'enum member';
+    case ts.SyntaxKind.ModuleDeclaration:
+      return 'namespace';
+    case ts.SyntaxKind.TypeParameter:
+      return 'type parameter';
+    default:
+      return 'variable';
+  }
+}
+
+/**
+ * Create a TypeScript program over the JavaScript and TypeScript files of a project.
+ * Only the project's own files are loaded; library and package types are not needed
+ * to bind names.
+ * @param root Absolute project root, where tsconfig.json is read
+ * @param files Indexed JavaScript and TypeScript files
+ * @returns Program to bind identifiers with
+ */
+export function createScriptProgram(root: string, files: IndexedFile[]): ts.Program {
+  const { options } = readCompilerOptions(root);
+  return ts.createProgram(files.map(file => file.file), {
+    baseUrl: options.baseUrl,
+    paths: options.paths,
+    jsx: options.jsx ?? ts.JsxEmit.Preserve,
+    allowJs: true,
+    noLib: true,
+    noResolve: true,
+    types: [],
+    noEmit: true
+  });
+}
+
+/**
+ * Classify how a JavaScript or TypeScript identifier uses its symbol
+ * @param node Identifier
+ * @returns Reference kind
+ */
+export function classifyScriptReference(node: ts.Identifier): ReferenceKind {
+  const parent = node.parent;
+  if (ts.isImportSpecifier(parent) || ts.isImportClause(parent) || ts.isNamespaceImport(parent) || ts.isImportEqualsDeclaration(parent) ||
+      (ts.isExportSpecifier(parent) && !!parent.parent.parent.moduleSpecifier)) {
+    return 'import';
+  }
+  if (DECLARATION_KINDS.has(parent.kind) && (parent as ts.NamedDeclaration).name === node) {
+    return 'declaration';
+  }
+
+  // The member name of `a.b` stands for the whole access
+  let expression: ts.Node = node;
+  while ((ts.isPropertyAccessExpression(expression.parent) && expression.parent.name === expression) ||
+         (ts.isQualifiedName(expression.parent) && expression.parent.right === expression)) {
+    expression = expression.parent;
+  }
+  const user = expression.parent;
+
+  if ((ts.isCallExpression(user) || ts.isNewExpression(user) || ts.isDecorator(user)) && user.expression === expression) {
+    return 'call';
+  }
+  if (ts.isTaggedTemplateExpression(user) && user.tag === expression) {
+    return 'call';
+  }
+  if (ts.isBinaryExpression(user) && user.left === expression &&
+      user.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && user.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+    return 'write';
+  }
+  if ((ts.isPrefixUnaryExpression(user) || ts.isPostfixUnaryExpression(user)) &&
+      (user.operator === ts.SyntaxKind.PlusPlusToken || user.operator === ts.SyntaxKind.MinusMinusToken)) {
+    return 'write';
+  }
+
+  // Left parts of `a.B` in types are namespaces used by the type
+  let typePart: ts.Node = expression;
+  while (ts.isQualifiedName(typePart.parent) || (ts.isPropertyAccessExpression(typePart.parent) && ts.isExpressionWithTypeArguments(typePart.parent.parent))) {
+    typePart = typePart.parent;
+  }
+  if (ts.isTypeReferenceNode(typePart.parent) || ts.isTypeQueryNode(typePart.parent) ||
+      (ts.isExpressionWithTypeArguments(typePart.parent) && ts.isHeritageClause(typePart.parent.parent))) {
+    return 'type';
+  }
+  return 'read';
+}
+
+/**
+ * Find references in JavaScript and TypeScript files with the TypeScript checker,
+ * so each identifier is bound to the declaration it refers to in its scope
+ * @param root Absolute project root
+ * @param files Indexed JavaScript and TypeScript files
+ * @param query Name and filters
+ * @returns Matching declarations and their references
+ */
+function findScriptReferences(root: string, files: IndexedFile[], query: ReferenceQuery): { declarations: ReferenceTarget[]; references: SymbolReference[] } {
+  if (files.length === 0) {
+    return { declarations: [], references: [] };
+  }
+  const program = createScriptProgram(root, files);
+  const checker = program.getTypeChecker();
+  const sourceFiles = files
+    .map(file => ({ file, sourceFile: program.getSourceFile(file.file) }))
+    .filter((entry): entry is { file: IndexedFile; sourceFile: ts.SourceFile } => !!entry.sourceFile);
+  const names = collectAliasNames(checker, sourceFiles.map(entry => entry.sourceFile), query.name);
+
+  // Every identifier with the name or one of its aliases, grouped by the symbol it resolves to.
+  // Imports and re-exports are grouped with the declaration they import.
+  const bySymbol = new Map<ts.Symbol, Array<{ node: ts.Identifier; file: IndexedFile }>>();
+  const unbound: Array<{ node: ts.Identifier; file: IndexedFile }> = [];
+  for (const { file, sourceFile } of sourceFiles) {
+    if (![...names].some(name => sourceFile.text.includes(name))) {
+      continue;
+    }
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && names.has(node.text)) {
+        const symbol = resolveScriptSymbol(checker, node);
+        if (node.text !== query.name) {
+          // An alias is only a use of the symbol when it resolves to it. In
+          // `{ save as persist }` the property name is already the reference.
+          const renamed = (ts.isImportSpecifier(node.parent) || ts.isExportSpecifier(node.parent)) && node.parent.name === node && !!node.parent.propertyName;
+          if (symbol && !renamed && declaresName(symbol, query.name)) {
+            const list = bySymbol.get(symbol) || [];
+            list.push({ node, file });
+            bySymbol.set(symbol, list);
+          }
+        } else if (symbol && symbol.declarations && symbol.declarations.length > 0) {
+          const list = bySymbol.get(symbol) || [];
+          list.push({ node, file });
+          bySymbol.set(symbol, list);
+        } else {
+          unbound.push({ node, file });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  const indexedByPath = new Map(files.map(file => [path.resolve(file.file), file]));
+  const declarations: ReferenceTarget[] = [];
+  const references: SymbolReference[] = [];
+  let hasMembers = false;
+
+  for (const [symbol, uses] of bySymbol) {
+    const targets: Array<{ target: ReferenceTarget; declaration: ts.Declaration }> = [];
+    for (const declaration of symbol.declarations || []) {
+      const declaringFile = indexedByPath.get(path.resolve(declaration.getSourceFile().fileName));
+      if (!declaringFile || ts.isImportSpecifier(declaration) || ts.isImportClause(declaration) || ts.isNamespaceImport(declaration)) {
+        continue;
+      }
+      const sourceFile = declaration.getSourceFile();
+      const name = ts.getNameOfDeclaration(declaration) || declaration;
+      const position = sourceFile.getLineAndCharacterOfPosition(name.getStart(sourceFile));
+      targets.push({
+        declaration,
+        target: {
+          name: query.name,
+          kind: getDeclarationKind(declaration),
+          container: getScriptContainer(declaration),
+          file: declaringFile.file,
+          relativePath: declaringFile.relativePath,
+          line: position.line + 1,
+          column: position.character + 1
+        }
+      });
+    }
+    // A filtered query names a symbol visible from outside its file, so locals
+    // and object literal properties with the same name do not match
+    const selected = targets
+      .filter(({ target, declaration }) =>
+        (!query.file || matchesFile(query.file, target.file, target.relativePath)) &&
+        (!query.container || isInContainer({ container: target.container } as CodeEntity, query.container)) &&
+        ((!query.file && !query.container) || isOuterDeclaration(declaration))
+      )
+      .map(({ target }) => target);
+    // Symbols declared outside the project (globals, packages) only match without filters
+    if (selected.length === 0 && (targets.length > 0 || query.file || query.container)) {
+      continue;
+    }
+    // Object literal members may resolve to one symbol per use of the object
+    declarations.push(...selected.filter(target => !declarations.some(known =>
+      known.file === target.file && known.line === target.line && known.column === target.column)));
+    hasMembers = hasMembers || selected.some(target => ['method', 'property', 'getter', 'setter'].includes(target.kind));
+
+    const declaredAt = selected[0] ? `${selected[0].relativePath}:${selected[0].line}` : undefined;
+    for (const { node, file } of uses) {
+      references.push(createScriptReference(node, file, 'symbol', declaredAt));
+    }
+  }
+
+  // Members accessed on untyped values (`obj.save()` in JavaScript) cannot be bound
+  if (hasMembers || (!query.file && !query.container)) {
+    for (const { node, file } of unbound) {
+      if (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+        references.push(createScriptReference(node, file, 'name'));
+      }
+    }
+  }
+
+  return { declarations, references };
+}
+
+/**
+ * Create a reference for a JavaScript or TypeScript identifier
+ * @param node Identifier
+ * @param file Indexed file containing it
+ * @param match How the identifier was matched
+ * @param declaration Declaration it was bound to
+ * @returns Reference
+ */
+function createScriptReference(node: ts.Identifier, file: IndexedFile, match: 'symbol' | 'name', declaration?: string): SymbolReference {
+  const sourceFile = node.getSourceFile();
+  const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const line = position.line + 1;
+  const reference: SymbolReference = {
+    kind: classifyScriptReference(node),
+    file: file.file,
+    relativePath: file.relativePath,
+    line,
+    column: position.character + 1,
+    snippet: getSnippet(getLineContent(sourceFile.text, position.line)),
+    scope: findScope(file.entities, line),
+    match,
+    language: getFileLanguage(file.relativePath)
+  };
+  if (declaration) {
+    reference.declaration = declaration;
+  }
+  return reference;
+}
+
+/**
+ * Classify an identifier token found by text matching
+ * @param masked Masked source code
+ * @param start Offset of the token
+ * @param end Offset after the token
+ * @param language Language of the file
+ * @returns Reference kind (declarations and imports are recognized by the caller)
+ */
+function classifyToken(masked: string, start: number, end: number, language: string): ReferenceKind {
+  const before = masked.slice(Math.max(0, start - 40), start);
+  const after = masked.slice(end, end + 40);
+
+  if (/^\s*\(/.test(after)) {
+    // `bool save(...)` after a type is a prototype or member declaration in C-family languages
+    const type = /([\w>*&\]])\s+$/.exec(before) && /([A-Za-z_]\w*)\W*\s+$/.exec(before);
+    if (['java', 'csharp', 'c', 'cpp'].includes(language) && type && !PRECEDING_KEYWORDS.has(type[1])) {
+      return 'declaration';
+    }
+    return 'call';
+  }
+  if (/\bnew\s+$/.test(before)) {
+    return 'call';
+  }
+  // `x = 1`, `x += 1`, `x := 1`, `x++`, but not `x == 1` or `x => ...`
+  if (/^\s*(?:[-+*/%&|^]|<<|>>|\*\*|\?\?|\|\||&&)?:?=(?![=>])/.test(after) || /^\s*(?:\+\+|--)/.test(after) || /(?:\+\+|--)\s*$/.test(before)) {
+    return 'write';
+  }
+  // Annotations, base types and casts
+  if (/(?:->|\b(?:extends|implements|instanceof|is|as|except|throws)\s)\s*$/.test(before) || /\b(?:sizeof|typeof|nameof)\s*\(\s*$/.test(before)) {
+    return 'type';
+  }
+  // `name: Type` annotations and `class A : Base` clauses
+  if (/(?:^|[^:]):\s*$/.test(before) && !['python', 'go', 'ruby'].includes(language)) {
+    return 'type';
+  }
+  if (['java', 'csharp', 'c', 'cpp'].includes(language)) {
+    // A type followed by a variable name: `User user =` or `List<User> users;`
+    if (/^\s*(?:<[^;(){}]*>\s*)?[*&]?\s*[A-Za-z_]\w*\s*[=;,)]/.test(after)) {
+      return 'type';
+    }
+    // A type argument: `List<User>`
+    if (/<[\w\s,.<?]*$/.test(before) && /^[\w\s,.<>?[\]]*>/.test(after)) {
+      return 'type';
+    }
+  }
+  // Go writes types after names and in `[]T`, `map[K]T` and `*T`
+  if (language === 'go') {
+    const previous = /(?:(\])|(\*)|([A-Za-z_]\w*)\s+)$/.exec(before);
+    if (previous && (!previous[3] || !['return', 'go', 'defer', 'case', 'range', 'else', 'package', 'import'].includes(previous[3]))) {
+      return 'type';
+    }
+    if (/\(\s*$/.test(before) && /^\s*,/.test(after)) {
+      return 'type';
+    }
+  }
+  if (language === 'python' && /(?:->|\w\s*:)\s*$/.test(before)) {
+    return 'type';
+  }
+  return 'read';
+}
+
+/**
+ * Find references in a file of another language by identifier tokens
+ * @param file Indexed file
+ * @param query Name and filters
+ * @returns References in source order
+ */
+function findTokenReferences(file: IndexedFile, query: ReferenceQuery): SymbolReference[] {
+  const parser = getParserForFile(file.file);
+  const content = readFileContent(file.file);
+  if (!parser || !content.includes(query.name)) {
+    return [];
+  }
+  const masked = parser.maskCode(content);
+  const language = getFileLanguage(file.relativePath);
+  const lines = content.split('\n');
+  const toPosition = createLineIndex(content);
+  const lineStarts = getLineStarts(content);
+
+  const escaped = query.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Ruby method names may end in `?` or `!`, so those continue a name there
+  const tail = language === 'ruby' && /\w$/.test(query.name) ? '(?![\\w$?!])' : '(?![\\w$])';
+  const pattern = new RegExp(`(?<![\\w$])${escaped}${tail}`, 'g');
+
+  // The first occurrence of the name after the start of a declaration is the declared name
+  const declared = new Set<number>();
+  for (const entity of file.entities) {
+    if (entity.name !== query.name) {
+      continue;
+    }
+    pattern.lastIndex = lineStarts[entity.line - 1] + (entity.column ?? 1) - 1;
+    const match = pattern.exec(masked);
+    if (match) {
+      declared.add(match.index);
+    }
+  }
+  const importLines = new Set(file.imports.map(info => info.line));
+
+  const references: SymbolReference[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+    const { line, column } = toPosition(match.index);
+    const lineText = masked.slice(lineStarts[line - 1], lineStarts[line] ?? masked.length);
+    let kind: ReferenceKind;
+    if (declared.has(match.index)) {
+      kind = 'declaration';
+    } else if (importLines.has(line) || /^\s*(?:import|from|using|use|require(?:_relative|_once)?|include(?:_once)?|#\s*include)\b/.test(lineText)) {
+      kind = 'import';
+    } else {
+      kind = classifyToken(masked, match.index, match.index + match[0].length, language);
+    }
+    references.push({
+      kind,
+      file: file.file,
+      relativePath: file.relativePath,
+      line,
+      column,
+      snippet: getSnippet(lines[line - 1] || ''),
+      scope: findScope(file.entities, line),
+      match: 'name',
+      language
+    });
+  }
+  return references;
+}
+
+/**
+ * Find the usages of a symbol across a directory. JavaScript and TypeScript references
+ * are bound to their declarations by the TypeScript checker; other languages are matched
+ * by identifier tokens, skipping comments and strings.
+ * @param dirPath Directory path to search
+ * @param symbol Symbol name, optionally qualified with its container (e.g. `Repo.save`)
+ * @param options Filters, limit and discovery settings
+ * @returns Declarations of the symbol and its references
+ */
+export async function findReferences(dirPath: string, symbol: string, options: ReferenceOptions = {}): Promise<ReferencesResult> {
+  const limit = options.limit ?? 500;
+  const root = path.resolve(dirPath);
+  const separator = symbol.lastIndexOf('.');
+  const query: ReferenceQuery = {
+    name: separator > 0 ? symbol.slice(separator + 1) : symbol,
+    file: options.file,
+    container: options.container || (separator > 0 ? symbol.slice(0, separator) : undefined)
+  };
+
+  try {
+    const { files, discovery } = await getProjectFiles(root, options);
+    const isScript = (file: IndexedFile): boolean => ['javascript', 'typescript'].includes(getFileLanguage(file.relativePath));
+    const script = findScriptReferences(root, files.filter(isScript), query);
+    const declarations = [...script.declarations];
+    const references = [...script.references];
+
+    // Without a matching declaration, other languages are searched when no filter rules them out
+    const others = files.filter(file => !isScript(file));
+    const declaring = others.flatMap(file => file.entities
+      .filter(entity =>
+        entity.name === query.name &&
+        (!query.file || matchesFile(query.file, file.file, file.relativePath)) &&
+        (!query.container || isInContainer(entity, query.container)))
+      .map(entity => ({ entity, file })));
+    const languages = new Set(declaring.map(({ file }) => getFileLanguage(file.relativePath).replace(/^c$/, 'cpp')));
+    const searched = declaring.length > 0 || (!query.file && !query.container);
+
+    for (const { entity, file } of declaring) {
+      declarations.push({
+        name: entity.name,
+        kind: entity.kind || entity.type,
+        container: entity.container,
+        file: file.file,
+        relativePath: file.relativePath,
+        line: entity.line,
+        column: entity.column ?? 1
+      });
+    }
+    if (searched) {
+      for (const file of others) {
+        if (languages.size === 0 || languages.has(getFileLanguage(file.relativePath).replace(/^c$/, 'cpp'))) {
+          references.push(...findTokenReferences(file, query));
+        }
+      }
+    }
+
+    const kinds = options.kinds?.map(kind => kind.toLowerCase());
+    const filtered = references
+      .filter(reference => !kinds || kinds.length === 0 || kinds.includes(reference.kind))
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath) || a.line - b.line || a.column - b.column);
+
+    return {
+      symbol,
+      declarations,
+      total: filtered.length,
+      truncated: filtered.length > limit,
+      references: filtered.slice(0, limit),
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error finding references: ${error}`);
+    return { symbol, declarations: [], total: 0, truncated: false, references: [] };
+  }
+}
+
+/**
+ * Format references as a table
+ * @param result Reference search result
+ * @returns Formatted table string
+ */
+export function formatReferencesTable(result: ReferencesResult): string {
+  if (result.references.length === 0) {
+    return `No references found for ${result.symbol}.`;
+  }
+
+  let table = 'kind | line | column | scope | match | path | snippet\n';
+  table += '-----|------|--------|-------|-------|------|--------\n';
+
+  for (const reference of result.references) {
+    table += `${reference.kind} | ${reference.line} | ${reference.column} | ${reference.scope || ''} | ${reference.match} | ${reference.relativePath} | ${reference.snippet}\n`;
+  }
+
+  if (result.truncated) {
+    table += `\nShowing ${result.references.length} of ${result.total}`;
+  }
+  return table;
+}
@@ -0,0 +1,242 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, matchesAnyGlob } from '../utils/fileUtils';
+import { getProjectEntities } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity } from '../utils/parsers';
+import { formatLineRange, formatModifiers } from './format';
+
+/**
+ * Options for a symbol search; discovery settings select the files searched
+ */
+export interface SearchOptions extends DiscoveryOptions {
+  // Entity kinds or types to include, e.g. ['method', 'class']
+  kinds?: string[];
+  // Glob matched against the path relative to the search root
+  pathGlob?: string;
+  exportedOnly?: boolean;
+  // Name of an enclosing class, namespace or module
+  container?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A ranked search match
+ */
+export interface SymbolMatch extends CodeEntity {
+  language: string;
+  score: number;
+}
+
+/**
+ * One page of search results
+ */
+export interface SearchResult {
+  query: string;
+  total: number;
+  offset: number;
+  limit: number;
+  matches: SymbolMatch[];
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * Split an identifier into lower-case words at camelCase, snake_case and digit boundaries
+ * @param name Identifier
+ * @returns Words, e.g. ['get', 'user', 'by', 'id'] for getUserById
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * Check whether a query can be spelled by taking a prefix of each word in order,
+ * so `gubi`, `getUsrId` and `get_user` all match getUserById
+ * @param query Lower-case query without separators
+ * @param words Lower-case words of the name
+ * @returns True if the query matches word prefixes in order
+ */
+function matchesWordPrefixes(query: string, words: string[]): boolean {
+  const failed = new Set<number>();
+  const match = (q: number, w: number): boolean => {
+    if (q === query.length) {
+      return true;
+    }
+    if (w === words.length || failed.has(q * words.length + w)) {
+      return false;
+    }
+    const word = words[w];
+    for (let length = Math.min(word.length, query.length - q); length > 0; length--) {
+      if (word.startsWith(query.slice(q, q + length)) && match(q + length, w + 1)) {
+        return true;
+      }
+    }
+    if (match(q, w + 1)) {
+      return true;
+    }
+    failed.add(q * words.length + w);
+    return false;
+  };
+  return match(0, 0);
+}
+
+/**
+ * Score how well a name matches a query. Higher is better; 0 means no match.
+ * @param query Search query
+ * @param name Symbol name
+ * @returns Match score
+ */
+function scoreMatch(query: string, name: string): number {
+  if (!query) {
+    return 1;
+  }
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+  // Prefer shorter names among otherwise equal matches
+  const lengthPenalty = Math.min(name.length - query.length, 50);
+
+  if (name === query) {
+    return 1000;
+  }
+  if (lowerName === lowerQuery) {
+    return 950;
+  }
+  if (lowerName.startsWith(lowerQuery)) {
+    return 900 - lengthPenalty;
+  }
+
+  const words = splitWords(name);
+  const compactQuery = lowerQuery.replace(/[^a-z0-9]/g, '');
+  if (compactQuery && matchesWordPrefixes(compactQuery, words)) {
+    // Queries made of initials (`gubi`) or abbreviated words (`getUsrId`)
+    return 800 - lengthPenalty;
+  }
+
+  const index = lowerName.indexOf(lowerQuery);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /[^A-Za-z0-9]/.test(name[index - 1]) || (/[A-Z]/.test(name[index]) && /[a-z0-9]/.test(name[index - 1]));
+    return (atWordStart ? 700 : 600) - lengthPenalty;
+  }
+
+  // Subsequence match, rewarding consecutive characters and word starts
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const ch of lowerQuery) {
+    const found = lowerName.indexOf(ch, position);
+    if (found === -1) {
+      return 0;
+    }
+    score += found === previous + 1 ? 10 : 1;
+    if (found === 0 || /[^A-Za-z0-9]/.test(name[found - 1]) || /[A-Z]/.test(name[found])) {
+      score += 5;
+    }
+    previous = found;
+    position = found + 1;
+  }
+  return Math.max(1, Math.min(score, 500) - lengthPenalty);
+}
+
+/**
+ * Check whether an entity is inside the named container
+ * @param entity Code entity
+ * @param container Container name or dotted path
+ * @returns True if any enclosing scope has the given name
+ */
+export function isInContainer(entity: CodeEntity, container: string): boolean {
+  if (!entity.container) {
+    return false;
+  }
+  const expected = container.toLowerCase();
+  const actual = entity.container.toLowerCase();
+  return actual === expected || actual.endsWith(`.${expected}`) || actual.split('.').includes(expected);
+}
+
+/**
+ * Search symbols of every kind in a directory, ranked by fuzzy match
+ * @param dirPath Directory path to search
+ * @param query Search query; camelCase initials and abbreviations are accepted
+ * @param options Filters and pagination
+ * @returns One page of ranked matches
+ */
+export async function searchSymbols(dirPath: string, query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  const limit = options.limit ?? 50;
+  const offset = options.offset ?? 0;
+  const normalizedPath = path.resolve(dirPath);
+  const kinds = (options.kinds || []).map(kind => kind.toLowerCase());
+  const pathGlobs = options.pathGlob ? [options.pathGlob] : [];
+
+  try {
+    const matches: SymbolMatch[] = [];
+
+    const { entities, discovery } = await getProjectEntities(normalizedPath, options);
+    for (const entity of entities) {
+      const language = getFileLanguage(entity.relativePath);
+      if (pathGlobs.length > 0 && !matchesAnyGlob(entity.relativePath.replace(/\\/g, '/'), pathGlobs)) {
+        continue;
+      }
+      if (kinds.length > 0 && !kinds.includes(entity.type) && !(entity.kind && kinds.includes(entity.kind))) {
+        continue;
+      }
+      if (options.exportedOnly && !entity.isExported) {
+        continue;
+      }
+      if (options.container && !isInContainer(entity, options.container)) {
+        continue;
+      }
+      // Dotted queries such as `Repo.save` match the qualified name
+      const target = query.includes('.') && entity.container ? `${entity.container}.${entity.name}` : entity.name;
+      const score = scoreMatch(query, target);
+      if (score > 0) {
+        matches.push({ ...entity, language, score });
+      }
+    }
+
+    matches.sort((a, b) =>
+      b.score - a.score ||
+      a.name.length - b.name.length ||
+      a.relativePath.localeCompare(b.relativePath) ||
+      a.line - b.line
+    );
+
+    return {
+      query,
+      total: matches.length,
+      offset,
+      limit,
+      matches: matches.slice(offset, offset + limit),
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error searching symbols: ${error}`);
+    return { query, total: 0, offset, limit, matches: [] };
+  }
+}
+
+/**
+ * Format search results as a table
+ * @param result Search result page
+ * @returns Formatted table string
+ */
+export function formatSymbolsTable(result: SearchResult): string {
+  if (result.matches.length === 0) {
+    return 'No symbols found.';
+  }
+
+  let table = 'score | symbol | kind | container | modifiers | line | file | path\n';
+  table += '------|--------|------|-----------|-----------|------|------|------\n';
+
+  for (const match of result.matches) {
+    table += `${match.score} | ${match.name} | ${match.kind || match.type} | ${match.container || ''} | ${formatModifiers(match)} | ${formatLineRange(match)} | ${match.file} | ${match.relativePath}\n`;
+  }
+
+  const last = result.offset + result.matches.length;
+  table += `\nShowing ${result.offset + 1}-${last} of ${result.total}`;
+  return table;
+}
@@ -0,0 +1,401 @@
+import * as path from 'path';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, getLineRange, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity } from '../utils/parsers';
+
+/**
+ * Options for getSymbolSource; discovery settings select the files searched
+ */
+export interface SourceOptions extends DiscoveryOptions {
+  // File declaring the symbol, to pick one of several symbols with the same name
+  file?: string;
+  // A line inside the symbol, to pick one of several symbols in the file
+  line?: number;
+  // Lines of surrounding code to add before and after the symbol
+  context?: number;
+  // Include the comment written right above the symbol
+  includeDocumentation?: boolean;
+  // Budget for all returned code, counted over source, documentation and context lines
+  maxLines?: number;
+  maxBytes?: number;
+  // Maximum number of symbols to return
+  limit?: number;
+}
+
+/**
+ * Source code of one symbol
+ */
+export interface SymbolSource {
+  name: string;
+  qualifiedName: string;
+  type: CodeEntity['type'];
+  kind?: string;
+  file: string;
+  relativePath: string;
+  language: string;
+  // Lines of the declaration, including decorators and attributes written above it
+  startLine: number;
+  endLine: number;
+  // Declaration source; a comment line marks where it was cut when it did not fit the budget
+  source: string;
+  // Comment block right above the declaration, and the line it starts on
+  documentation?: string;
+  documentationLine?: number;
+  // Surrounding lines, when context was requested
+  contextBefore?: string;
+  contextAfter?: string;
+  truncated: boolean;
+  // Lines of the declaration left out of `source`
+  omittedLines: number;
+}
+
+/**
+ * Result of getSymbolSource
+ */
+export interface SymbolSourceResult {
+  symbol: string;
+  // Number of symbols matching the name and filters
+  total: number;
+  // Set when symbols were skipped or cut to fit the limit or budget
+  truncated: boolean;
+  sources: SymbolSource[];
+  usedLines: number;
+  usedBytes: number;
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * A symbol and the indexed file declaring it
+ */
+interface SymbolMatch {
+  entity: CodeEntity;
+  file: IndexedFile;
+}
+
+/**
+ * Lines and bytes left of the budget
+ */
+interface Budget {
+  lines: number;
+  bytes: number;
+}
+
+const DEFAULT_MAX_LINES = 400;
+const DEFAULT_MAX_BYTES = 32768;
+
+// Languages whose comments start with `#`; the rest use `//` and `/* */`
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'ruby']);
+
+/**
+ * Get the name of an entity qualified with its container
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `ShoppingCart.getTotal`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Count the bytes a line takes in the output, including its line break
+ * @param line Line text
+ * @returns Byte count
+ */
+function lineBytes(line: string): number {
+  return Buffer.byteLength(line, 'utf8') + 1;
+}
+
+/**
+ * Count how many leading lines fit in a budget
+ * @param lines Lines to fit
+ * @param budget Lines and bytes available
+ * @returns Number of lines that fit
+ */
+function countFitting(lines: string[], budget: Budget): number {
+  let bytes = 0;
+  for (let i = 0; i < lines.length; i++) {
+    bytes += lineBytes(lines[i]);
+    if (i + 1 > budget.lines || bytes > budget.bytes) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+/**
+ * Take lines from the budget
+ * @param lines Lines included in the output
+ * @param budget Budget to update
+ */
+function consume(lines: string[], budget: Budget): void {
+  budget.lines -= lines.length;
+  budget.bytes -= lines.reduce((total, line) => total + lineBytes(line), 0);
+}
+
+/**
+ * Check whether a line is part of a comment
+ * @param line Trimmed line
+ * @param language Language of the file
+ * @returns True for comment lines
+ */
+function isCommentLine(line: string, language: string): boolean {
+  if (HASH_COMMENT_LANGUAGES.has(language)) {
+    return line.startsWith('#');
+  }
+  return line.startsWith('//') || line.startsWith('/*') || line.startsWith('*') || line.endsWith('*/') ||
+    (language === 'php' && line.startsWith('#') && !line.startsWith('#['));
+}
+
+/**
+ * Find the first line of the comment block right above a declaration
+ * @param lines Lines of the file
+ * @param start 0-based index of the first line of the declaration
+ * @param language Language of the file
+ * @returns 0-based index of the first comment line, or `start` when there is none
+ */
+function findDocumentationStart(lines: string[], start: number, language: string): number {
+  let first = start;
+  for (let i = start - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line || !isCommentLine(line, language)) {
+      break;
+    }
+    // Walk up to the opening of a block comment
+    if (line.endsWith('*/') && !line.includes('/*')) {
+      while (i > 0 && !lines[i].includes('/*')) {
+        i--;
+      }
+    }
+    first = i;
+  }
+  return first;
+}
+
+/**
+ * Find the first line of a declaration, moving up over decorators and attributes
+ * written above the line the parser reports
+ * @param lines Lines of the file
+ * @param line 0-based index of the declaration line
+ * @returns 0-based index of the first line
+ */
+function findDeclarationStart(lines: string[], line: number): number {
+  let first = line;
+  while (first > 0 && /^(?:@[A-Za-z_]|#\[|\[[A-Za-z_])/.test(lines[first - 1].trim())) {
+    first--;
+  }
+  return first;
+}
+
+/**
+ * Select the entities a query refers to
+ * @param files Indexed files
+ * @param symbol Name, optionally qualified with its container
+ * @param options File and line filters
+ * @returns Matching entities with their files
+ */
+function findSymbols(files: IndexedFile[], symbol: string, options: SourceOptions): SymbolMatch[] {
+  const filter = options.file?.replace(/\\/g, '/');
+  const matches = files.flatMap(file => file.entities.map(entity => ({ entity, file }))).filter(({ entity, file }) => {
+    const qualifiedName = getQualifiedName(entity);
+    if (entity.name !== symbol && qualifiedName !== symbol && !qualifiedName.endsWith(`.${symbol}`)) {
+      return false;
+    }
+    if (filter && !(file.relativePath === filter || file.relativePath.endsWith(`/${filter}`) || path.resolve(file.file) === path.resolve(filter))) {
+      return false;
+    }
+    return options.line === undefined || (entity.line <= options.line && (entity.endLine ?? entity.line) >= options.line);
+  });
+  if (options.line === undefined) {
+    return matches;
+  }
+  // With a line, keep the innermost symbol of each file containing it
+  return matches.filter(({ entity, file }) => entity.line === Math.max(...matches
+    .filter(other => other.file === file)
+    .map(other => other.entity.line)));
+}
+
+/**
+ * Cut the code of a symbol to fit the budget
+ * @param match Symbol and its file
+ * @param lines Lines of the file
+ * @param options Context and documentation settings
+ * @param budget Budget left, updated with the lines used
+ * @returns Symbol source, or undefined when not even its first line fits
+ */
+function extractSource({ entity, file }: SymbolMatch, lines: string[], options: SourceOptions, budget: Budget): SymbolSource | undefined {
+  const language = getFileLanguage(file.relativePath);
+  const start = findDeclarationStart(lines, entity.line - 1);
+  const end = Math.min(lines.length, Math.max(entity.endLine ?? entity.line, entity.line));
+  const body = lines.slice(start, end);
+
+  // The declaration comes first; a marker line replaces what does not fit
+  let kept = countFitting(body, budget);
+  let omittedLines = 0;
+  if (kept < body.length) {
+    const indent = /^\s*/.exec(body[0])?.[0] ?? '';
+    const marker = (remaining: number): string =>
+      `${indent}${HASH_COMMENT_LANGUAGES.has(language) ? '#' : '//'} ... ${remaining} more lines truncated (${start + 1 + body.length - remaining}-${end})`;
+    kept = countFitting(body, { lines: budget.lines - 1, bytes: budget.bytes - lineBytes(marker(body.length)) });
+    if (kept === 0) {
+      return undefined;
+    }
+    omittedLines = body.length - kept;
+    body.splice(kept, omittedLines, marker(omittedLines));
+  }
+  consume(body, budget);
+
+  const result: SymbolSource = {
+    name: entity.name,
+    qualifiedName: getQualifiedName(entity),
+    type: entity.type,
+    kind: entity.kind,
+    file: file.file,
+    relativePath: file.relativePath,
+    language,
+    startLine: start + 1,
+    endLine: end,
+    source: body.join('\n'),
+    truncated: omittedLines > 0,
+    omittedLines
+  };
+
+  let before = start;
+  if (options.includeDocumentation ?? true) {
+    const docStart = findDocumentationStart(lines, start, language);
+    const documentation = lines.slice(docStart, start);
+    if (documentation.length > 0) {
+      if (countFitting(documentation, budget) === documentation.length) {
+        consume(documentation, budget);
+        result.documentation = documentation.join('\n');
+        result.documentationLine = docStart + 1;
+        before = docStart;
+      } else {
+        result.truncated = true;
+      }
+    }
+  }
+
+  // Context lines are added in pairs, one above and one below, while they fit
+  const context = options.context ?? 0;
+  if (context > 0) {
+    const above: string[] = [];
+    const below: string[] = [];
+    for (let i = 0; i < context; i++) {
+      const pair = [
+        ...(before - i - 1 >= 0 ? [lines[before - i - 1]] : []),
+        ...(end + i < lines.length ? [lines[end + i]] : [])
+      ];
+      if (pair.length === 0) {
+        break;
+      }
+      if (countFitting(pair, budget) < pair.length) {
+        result.truncated = true;
+        break;
+      }
+      consume(pair, budget);
+      if (before - i - 1 >= 0) {
+        above.unshift(lines[before - i - 1]);
+      }
+      if (end + i < lines.length) {
+        below.push(lines[end + i]);
+      }
+    }
+    if (above.length > 0) {
+      result.contextBefore = above.join('\n');
+    }
+    if (below.length > 0) {
+      result.contextAfter = below.join('\n');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the source code of a function, class or method, with its documentation comment
+ * and optional surrounding lines, cut to a line and byte budget
+ * @param dirPath Directory path to search
+ * @param symbol Symbol name, optionally qualified with its container (e.g. `Repo.save`)
+ * @param options Filters, context, budget and discovery settings
+ * @returns Source of the matching symbols
+ */
+export async function getSymbolSource(dirPath: string, symbol: string, options: SourceOptions = {}): Promise<SymbolSourceResult> {
+  const limit = options.limit ?? 10;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  try {
+    const { files, discovery } = await getProjectFiles(dirPath, options);
+    const matches = findSymbols(files, symbol, options)
+      .sort((a, b) => a.file.relativePath.localeCompare(b.file.relativePath) || a.entity.line - b.entity.line);
+
+    const budget: Budget = { lines: maxLines, bytes: maxBytes };
+    const sources: SymbolSource[] = [];
+    const contents = new Map<string, string[]>();
+    for (const match of matches.slice(0, limit)) {
+      if (!contents.has(match.file.file)) {
+        const content = readFileContent(match.file.file);
+        contents.set(match.file.file, getLineRange(content, 1, content.length));
+      }
+      const source = extractSource(match, contents.get(match.file.file) as string[], options, budget);
+      if (!source) {
+        break;
+      }
+      sources.push(source);
+    }
+
+    return {
+      symbol,
+      total: matches.length,
+      truncated: sources.length < matches.length || sources.some(source => source.truncated),
+      sources,
+      usedLines: maxLines - budget.lines,
+      usedBytes: maxBytes - budget.bytes,
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error getting symbol source: ${error}`);
+    return { symbol, total: 0, truncated: false, sources: [], usedLines: 0, usedBytes: 0 };
+  }
+}
+
+/**
+ * Format symbol sources as numbered code listings
+ * @param result Symbol source result
+ * @returns Listings separated by blank lines
+ */
+export function formatSymbolSourceText(result: SymbolSourceResult): string {
+  if (result.sources.length === 0) {
+    return `No source found for ${result.symbol}.`;
+  }
+
+  const listings = result.sources.map(source => {
+    const parts = [
+      { text: source.contextBefore, from: (source.documentationLine ?? source.startLine) - (source.contextBefore?.split('\n').length ?? 0) },
+      { text: source.documentation, from: source.documentationLine ?? source.startLine },
+      { text: source.source, from: source.startLine, declaration: true },
+      { text: source.contextAfter, from: source.endLine + 1 }
+    ];
+    const width = String(source.endLine + (source.contextAfter?.split('\n').length ?? 0)).length;
+    let listing = `${source.relativePath}:${source.startLine}-${source.endLine} ${source.kind || source.type} ${source.qualifiedName}\n`;
+    // The truncation marker is not a line of the file, so it gets no number
+    const marker = source.omittedLines > 0 ? source.endLine - source.omittedLines + 1 : Infinity;
+    for (const part of parts) {
+      if (part.text === undefined) {
+        continue;
+      }
+      part.text.split('\n').forEach((line, index) => {
+        const number = part.from + index;
+        listing += `${(part.declaration && number >= marker ? '' : String(number)).padStart(width)} | ${line}\n`;
+      });
+    }
+    return listing;
+  });
+
+  let text = listings.join('\n');
+  if (result.truncated) {
+    text += `\nShowing ${result.sources.length} of ${result.total} symbols; output cut to ${result.usedLines} lines`;
+  }
+  return text;
+}
@@ -0,0 +1,563 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DiscoveryOptions, DiscoverySummary, getFileLanguage, isTestFile, readFileContent } from '../utils/fileUtils';
+import { IndexedFile, getProjectFiles } from '../utils/indexCache';
+import { logger } from '../utils/logger';
+import { CodeEntity, getParserForFile } from '../utils/parsers';
+import { getLineStarts } from '../utils/parsers/lexer';
+import { readEntryPoints } from './overview';
+import { classifyScriptReference, createScriptProgram } from './references';
+
+/**
+ * How likely a symbol reported by findUnused is really dead code
+ */
+export type UnusedConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Options for findUnused; discovery settings select the files searched
+ */
+export interface UnusedOptions extends DiscoveryOptions {
+  // Only report functions or only classes
+  type?: 'function' | 'class';
+  // Lowest confidence to report
+  minConfidence?: UnusedConfidence;
+  // Report exported symbols, which code outside the project may use (default true)
+  includeExported?: boolean;
+  // Also check the symbols declared in test files (default false)
+  includeTests?: boolean;
+  // Count references from test files as usage (default true)
+  countTestReferences?: boolean;
+  limit?: number;
+}
+
+/**
+ * A function or class nothing references
+ */
+export interface UnusedSymbol {
+  name: string;
+  qualifiedName: string;
+  kind: string;
+  type: 'function' | 'class';
+  file: string;
+  relativePath: string;
+  line: number;
+  endLine?: number;
+  language: string;
+  isExported: boolean;
+  confidence: UnusedConfidence;
+  // Why the confidence is not `high`, or for `high` results what the finding rests on
+  reasons: string[];
+  // `symbol` when references were bound by the TypeScript checker, `name` for identifier matches
+  match: 'symbol' | 'name';
+  // References from test files, set when those are not counted as usage
+  testReferences?: number;
+}
+
+/**
+ * Result of findUnused
+ */
+export interface UnusedResult {
+  symbols: UnusedSymbol[];
+  total: number;
+  truncated: boolean;
+  // Number of functions and classes checked
+  checked: number;
+  // Declarations left out because a runtime, a test runner or a framework calls them,
+  // or because they are properties of object literals
+  skipped: {
+    entryPoints: number;
+    tests: number;
+    conventions: number;
+    objectProperties: number;
+  };
+  // Missing when discovery failed
+  discovery?: DiscoverySummary;
+}
+
+/**
+ * A declaration being checked
+ */
+interface Candidate {
+  entity: CodeEntity;
+  file: IndexedFile;
+  language: string;
+}
+
+/**
+ * Where a name or symbol is used
+ */
+interface Use {
+  relativePath: string;
+  line: number;
+  test: boolean;
+}
+
+/**
+ * Uses of a declaration outside its own definition
+ */
+interface Usage {
+  references: number;
+  testReferences: number;
+  // Exported by an `export { name }` or `export default name` elsewhere in the file
+  exported: boolean;
+  match: 'symbol' | 'name';
+  // Another member with the same name is used, so this one may be reached through a base type
+  sameNameUsed: boolean;
+}
+
+const CONFIDENCE_RANK: Record<UnusedConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+// Containers whose functions are free functions rather than members
+const FREE_CONTAINERS = new Set(['namespace', 'module', 'function']);
+
+// Members the runtime, the standard library or a common framework calls by name
+const CONVENTION_METHODS = new Set([
+  // JavaScript and its frameworks
+  'constructor', 'toString', 'toJSON', 'valueOf', 'render', 'componentDidMount', 'componentDidUpdate', 'componentWillUnmount',
+  'shouldComponentUpdate', 'getDerivedStateFromProps', 'getSnapshotBeforeUpdate', 'componentDidCatch', 'connectedCallback',
+  'disconnectedCallback', 'attributeChangedCallback', 'ngOnInit', 'ngOnChanges', 'ngOnDestroy', 'ngAfterViewInit',
+  // Java and C#
+  'equals', 'hashCode', 'compareTo', 'clone', 'finalize', 'Equals', 'GetHashCode', 'ToString', 'Dispose', 'DisposeAsync',
+  // Go interfaces of the standard library
+  'String', 'Error', 'ServeHTTP', 'Len', 'Less', 'Swap', 'MarshalJSON', 'UnmarshalJSON', 'Read', 'Write', 'Close',
+  // Ruby
+  'initialize', 'to_s', 'to_str', 'inspect', 'each', 'method_missing', 'respond_to_missing?', 'eql?', 'hash',
+  // Swift
+  'init', 'deinit', 'viewDidLoad', 'viewWillAppear', 'viewDidAppear', 'viewWillDisappear', 'viewDidDisappear',
+  // unittest
+  'setUp', 'tearDown', 'setUpClass', 'tearDownClass'
+]);
+
+// Decorators that change how a member is defined rather than register it with a framework
+const DEFINITION_DECORATORS = new Set([
+  'staticmethod', 'classmethod', 'property', 'abstractmethod', 'cached_property', 'functools.cached_property', 'overload',
+  'typing.overload', 'SuppressWarnings', 'Deprecated', 'deprecated', 'Obsolete', 'Serializable', 'MainActor', 'Nullable', 'NonNull'
+]);
+
+/**
+ * Get the name of an entity qualified with its container
+ * @param entity Code entity
+ * @returns Qualified name, e.g. `ShoppingCart.getTotal`
+ */
+function getQualifiedName(entity: CodeEntity): string {
+  return entity.container ? `${entity.container}.${entity.name}` : entity.name;
+}
+
+/**
+ * Check whether an entity is a member of a type
+ * @param entity Code entity
+ * @returns True for methods, accessors and nested types
+ */
+function isMember(entity: CodeEntity): boolean {
+  return !!entity.container && !FREE_CONTAINERS.has(entity.containerKind || '');
+}
+
+/**
+ * Get the name a decorator or attribute is known by
+ * @param decorator Decorator as written, e.g. `@app.route("/")` or `[HttpGet]`
+ * @returns Name without markers and arguments, e.g. `app.route`
+ */
+function getDecoratorName(decorator: string): string {
+  return decorator.replace(/^(?:@|#?\[)\s*/, '').replace(/[(\]][\s\S]*$/, '').trim();
+}
+
+/**
+ * Check whether the runtime, a test runner or a framework calls a declaration by name
+ * @param entity Code entity
+ * @param test Whether the file holds tests
+ * @returns True for constructors, magic methods, well-known interface methods and test functions
+ */
+function isConvention(entity: CodeEntity, test: boolean): boolean {
+  const name = entity.name;
+  if (entity.kind === 'constructor' || entity.kind === 'destructor' || /^__\w+__$/.test(name)) {
+    return true;
+  }
+  if (test && entity.type === 'function' && /^(?:test|Test|Benchmark|Example|Fuzz)/.test(name)) {
+    return true;
+  }
+  // PHP magic methods, C++ operators and destructors
+  return isMember(entity) && (CONVENTION_METHODS.has(name) || name.startsWith('__') || name.startsWith('operator') || name.startsWith('~'));
+}
+
+/**
+ * Find the declarations a class member overrides or implements, in every base class
+ * and interface up the heritage chain
+ * @param checker Type checker
+ * @param declaration Member declaration
+ * @returns Base member declarations
+ */
+function getBaseDeclarations(checker: ts.TypeChecker, declaration: ts.Node): ts.Node[] {
+  const bases: ts.Node[] = [];
+  const seen = new Set<ts.Node>([declaration]);
+  const queue = [declaration];
+  while (queue.length > 0) {
+    const member = queue.shift() as ts.Node;
+    const owner = member.parent;
+    const name = ts.isClassElement(member) || ts.isTypeElement(member) ? member.name : undefined;
+    if (!name || !ts.isIdentifier(name) || !(ts.isClassLike(owner) || ts.isInterfaceDeclaration(owner))) {
+      continue;
+    }
+    for (const clause of owner.heritageClauses || []) {
+      for (const type of clause.types) {
+        const property = checker.getTypeAtLocation(type).getProperty(name.text);
+        for (const base of property?.declarations || []) {
+          if (!seen.has(base)) {
+            seen.add(base);
+            bases.push(base);
+            queue.push(base);
+          }
+        }
+      }
+    }
+  }
+  return bases;
+}
+
+/**
+ * Collect the uses of JavaScript and TypeScript declarations with the TypeScript checker
+ * @param root Absolute project root
+ * @param files Indexed JavaScript and TypeScript files
+ * @param candidates Declarations to check, all in those files
+ * @returns Usage of each candidate that could be bound to a symbol
+ */
+function collectScriptUsage(root: string, files: IndexedFile[], candidates: Candidate[]): Map<Candidate, Usage> {
+  const usage = new Map<Candidate, Usage>();
+  if (candidates.length === 0) {
+    return usage;
+  }
+  const program = createScriptProgram(root, files);
+  const checker = program.getTypeChecker();
+  const names = new Set(candidates.map(candidate => candidate.entity.name));
+
+  // Uses are keyed by declaration: members reached through an instance type resolve to
+  // transient symbols that share the declarations of the member but not its identity
+  const uses = new Map<ts.Node, Use[]>();
+  const exported = new Set<ts.Node>();
+  // Declared names by file, to find the declaration of each candidate
+  const declared = new Map<string, Array<{ name: string; line: number; declaration: ts.Node }>>();
+  const usedMembers = new Set<string>();
+  // Member names accessed on values the checker cannot type, like `obj.save()` in JavaScript
+  const unboundMembers = new Map<string, Use[]>();
+
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(file.file);
+    if (!sourceFile) {
+      continue;
+    }
+    const test = isTestFile(file.relativePath);
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && names.has(node.text)) {
+        let symbol = ts.isShorthandPropertyAssignment(node.parent)
+          ? checker.getShorthandAssignmentValueSymbol(node.parent)
+          : checker.getSymbolAtLocation(node);
+        if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+          const aliased = checker.getAliasedSymbol(symbol);
+          if (aliased.declarations && aliased.declarations.length > 0) {
+            symbol = aliased;
+          }
+        }
+        const kind = classifyScriptReference(node);
+        const use: Use = { relativePath: file.relativePath, line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1, test };
+        const declarations = symbol?.declarations || [];
+        if (kind === 'declaration') {
+          const list = declared.get(file.relativePath) || [];
+          list.push({ name: node.text, line: use.line, declaration: node.parent });
+          declared.set(file.relativePath, list);
+        } else if (kind !== 'import') {
+          if (ts.isExportSpecifier(node.parent) || ts.isExportAssignment(node.parent)) {
+            declarations.forEach(declaration => exported.add(declaration));
+          } else if (declarations.length > 0) {
+            for (const declaration of declarations) {
+              const list = uses.get(declaration) || [];
+              list.push(use);
+              uses.set(declaration, list);
+            }
+            if (symbol && symbol.flags & (ts.SymbolFlags.Method | ts.SymbolFlags.Property | ts.SymbolFlags.Accessor)) {
+              usedMembers.add(node.text);
+            }
+          } else if (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+            const list = unboundMembers.get(node.text) || [];
+            list.push(use);
+            unboundMembers.set(node.text, list);
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  for (const candidate of candidates) {
+    const { entity, file } = candidate;
+    const endLine = entity.endLine ?? entity.line;
+    const found = (declared.get(file.relativePath) || [])
+      .find(entry => entry.name === entity.name && entry.line >= entity.line && entry.line <= endLine);
+    // Entities whose declaration is not found in the syntax tree are left out rather than reported
+    if (!found) {
+      continue;
+    }
+    // Properties of object literals are called through the object, often by code that only
+    // knows the type it is passed as, so they are not checked
+    if (ts.isObjectLiteralExpression(found.declaration.parent)) {
+      continue;
+    }
+    const member = isMember(entity);
+    const outside = [...(uses.get(found.declaration) || []), ...(member ? unboundMembers.get(entity.name) || [] : [])]
+      .filter(use => use.relativePath !== file.relativePath || use.line < entity.line || use.line > endLine);
+    // Calls bound to the member it overrides or implements dispatch to this one
+    if (member) {
+      for (const base of getBaseDeclarations(checker, found.declaration)) {
+        outside.push(...uses.get(base) || []);
+      }
+    }
+    usage.set(candidate, {
+      references: outside.filter(use => !use.test).length,
+      testReferences: outside.filter(use => use.test).length,
+      exported: exported.has(found.declaration),
+      match: 'symbol',
+      sameNameUsed: member && usedMembers.has(entity.name)
+    });
+  }
+  return usage;
+}
+
+/**
+ * Collect the uses of declarations in other languages by identifier tokens, skipping
+ * comments and strings. Names are matched across files of the same language.
+ * @param files Indexed files of languages other than JavaScript and TypeScript
+ * @param candidates Declarations to check, all in those files
+ * @returns Usage of each candidate
+ */
+function collectTokenUsage(files: IndexedFile[], candidates: Candidate[]): Map<Candidate, Usage> {
+  const usage = new Map<Candidate, Usage>();
+  const names = new Set(candidates.map(candidate => candidate.entity.name));
+  // C and C++ share headers, so they are one language here
+  const family = (language: string): string => language === 'c' ? 'cpp' : language;
+  const uses = new Map<string, Use[]>();
+
+  for (const file of files) {
+    const parser = getParserForFile(file.file);
+    if (!parser) {
+      continue;
+    }
+    const language = getFileLanguage(file.relativePath);
+    const masked = parser.maskCode(readFileContent(file.file));
+    const test = isTestFile(file.relativePath);
+    const lineStarts = getLineStarts(masked);
+    // Ruby method names may end in `?` or `!`
+    const pattern = language === 'ruby' ? /(?<![\w$@:])[A-Za-z_]\w*[?!]?/g : /(?<![\w$])[A-Za-z_$][\w$]*/g;
+
+    // The first occurrence of the name after the start of a declaration is the declared name
+    const declaredAt = new Set<number>();
+    for (const entity of file.entities) {
+      if (!names.has(entity.name)) {
+        continue;
+      }
+      pattern.lastIndex = (lineStarts[entity.line - 1] ?? 0) + (entity.column ?? 1) - 1;
+      for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+        if (match[0] === entity.name) {
+          declaredAt.add(match.index);
+          break;
+        }
+      }
+    }
+
+    pattern.lastIndex = 0;
+    let line = 1;
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      if (!names.has(match[0]) || declaredAt.has(match.index)) {
+        continue;
+      }
+      while (line < lineStarts.length && lineStarts[line] <= match.index) {
+        line++;
+      }
+      const key = `${family(language)}:${match[0]}`;
+      const list = uses.get(key) || [];
+      list.push({ relativePath: file.relativePath, line, test });
+      uses.set(key, list);
+    }
+  }
+
+  for (const candidate of candidates) {
+    const { entity, file } = candidate;
+    const endLine = entity.endLine ?? entity.line;
+    const outside = (uses.get(`${family(candidate.language)}:${entity.name}`) || [])
+      .filter(use => use.relativePath !== file.relativePath || use.line < entity.line || use.line > endLine);
+    usage.set(candidate, {
+      references: outside.filter(use => !use.test).length,
+      testReferences: outside.filter(use => use.test).length,
+      exported: false,
+      match: 'name',
+      sameNameUsed: false
+    });
+  }
+  return usage;
+}
+
+/**
+ * Find the functions and classes of a directory that nothing references outside their
+ * own definition. JavaScript and TypeScript references are bound by the TypeScript
+ * checker; other languages are matched by name, so a symbol sharing its name with a
+ * used one is not reported. Entry points, test functions, members the runtime or
+ * frameworks call by name and object literal properties are skipped, and each result gets a confidence that drops
+ * for exported symbols, methods and decorated declarations.
+ * @param dirPath Directory path to search
+ * @param options Filters, limit and discovery settings
+ * @returns Unreferenced symbols, most certain first
+ */
+export async function findUnused(dirPath: string, options: UnusedOptions = {}): Promise<UnusedResult> {
+  const limit = options.limit ?? 200;
+  const root = path.resolve(dirPath);
+  const countTests = options.countTestReferences ?? true;
+  const minRank = CONFIDENCE_RANK[options.minConfidence || 'low'] ?? 0;
+  const skipped = { entryPoints: 0, tests: 0, conventions: 0, objectProperties: 0 };
+
+  try {
+    const { files, discovery } = await getProjectFiles(root, options);
+
+    // Public API files and the functions manifests name as commands
+    const entryPoints = readEntryPoints(root, files);
+    const apiFiles = new Set(entryPoints
+      .filter(entry => entry.path && ['main', 'module', 'export'].includes(entry.kind) && entry.source === 'package.json')
+      .map(entry => entry.path as string));
+    const scriptFunctions = new Set(entryPoints
+      .filter(entry => entry.kind === 'script' && entry.path && entry.target?.includes(':'))
+      .map(entry => `${entry.path}:${(entry.target as string).split(':')[1].trim().split('.')[0]}`));
+
+    const candidates: Candidate[] = [];
+    for (const file of files) {
+      const test = isTestFile(file.relativePath);
+      const language = getFileLanguage(file.relativePath);
+      for (const entity of file.entities) {
+        if ((entity.type !== 'function' && entity.type !== 'class') || (options.type && entity.type !== options.type)) {
+          continue;
+        }
+        if (test && !options.includeTests) {
+          skipped.tests++;
+        } else if ((!isMember(entity) && ['main', 'init'].includes(entity.name)) || entity.name === 'Main' ||
+            scriptFunctions.has(`${file.relativePath}:${entity.name}`)) {
+          skipped.entryPoints++;
+        } else if (isConvention(entity, test)) {
+          skipped.conventions++;
+        } else if (entity.containerKind === 'object') {
+          skipped.objectProperties++;
+        } else {
+          candidates.push({ entity, file, language });
+        }
+      }
+    }
+
+    const isScript = (language: string): boolean => language === 'javascript' || language === 'typescript';
+    const scriptFiles = files.filter(file => isScript(getFileLanguage(file.relativePath)));
+    const usage = new Map([
+      ...collectScriptUsage(root, scriptFiles, candidates.filter(candidate => isScript(candidate.language))),
+      ...collectTokenUsage(files.filter(file => !scriptFiles.includes(file)), candidates.filter(candidate => !isScript(candidate.language)))
+    ]);
+
+    const symbols: UnusedSymbol[] = [];
+    for (const candidate of candidates) {
+      const found = usage.get(candidate);
+      if (!found || found.references > 0 || (countTests && found.testReferences > 0)) {
+        continue;
+      }
+      const { entity, file } = candidate;
+      const isExported = entity.isExported === true || found.exported;
+      let confidence: UnusedConfidence = 'high';
+      const reasons: string[] = [];
+      const lower = (to: UnusedConfidence, reason: string): void => {
+        reasons.push(reason);
+        if (CONFIDENCE_RANK[to] < CONFIDENCE_RANK[confidence]) {
+          confidence = to;
+        }
+      };
+
+      const decorators = (entity.decorators || []).map(getDecoratorName);
+      const framework = decorators.filter(name => name !== 'Override' && !DEFINITION_DECORATORS.has(name) && !/\.(?:setter|getter|deleter)$/.test(name));
+      if (framework.length > 0) {
+        lower('low', `decorated with ${framework.map(name => `@${name}`).join(', ')}; a framework may call it`);
+      }
+      if (decorators.includes('Override') || /\boverride\b/.test(entity.signature || '')) {
+        lower('low', 'overrides a base member, which callers may use instead');
+      }
+      if (isExported && apiFiles.has(file.relativePath)) {
+        lower('low', `exported from ${file.relativePath}, an entry point in package.json`);
+      } else if (isExported) {
+        lower('medium', 'exported; code outside the analyzed files may use it');
+      }
+      if (found.sameNameUsed) {
+        lower('low', `another member named ${entity.name} is used; this one may be called through a base type`);
+      } else if (isMember(entity)) {
+        lower('medium', 'member; may be called dynamically or through an interface');
+      }
+      if (!countTests && found.testReferences > 0) {
+        lower('medium', 'only referenced from tests');
+      }
+      if (reasons.length === 0) {
+        reasons.push(found.match === 'symbol'
+          ? 'not exported, and the TypeScript checker binds no reference to it'
+          : `not exported, and no other ${candidate.language} code uses the name ${entity.name}`);
+      }
+
+      if (CONFIDENCE_RANK[confidence] < minRank || (isExported && options.includeExported === false)) {
+        continue;
+      }
+      const symbol: UnusedSymbol = {
+        name: entity.name,
+        qualifiedName: getQualifiedName(entity),
+        kind: entity.kind || entity.type,
+        type: entity.type as 'function' | 'class',
+        file: file.file,
+        relativePath: file.relativePath,
+        line: entity.line,
+        endLine: entity.endLine,
+        language: candidate.language,
+        isExported,
+        confidence,
+        reasons,
+        match: found.match
+      };
+      if (!countTests) {
+        symbol.testReferences = found.testReferences;
+      }
+      symbols.push(symbol);
+    }
+
+    symbols.sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] ||
+      a.relativePath.localeCompare(b.relativePath) || a.line - b.line);
+
+    return {
+      symbols: symbols.slice(0, limit),
+      total: symbols.length,
+      truncated: symbols.length > limit,
+      checked: candidates.length,
+      skipped,
+      discovery
+    };
+  } catch (error) {
+    logger.error(`Error finding unused symbols: ${error}`);
+    return { symbols: [], total: 0, truncated: false, checked: 0, skipped };
+  }
+}
+
+/**
+ * Format unused symbols as a table
+ * @param result Result of findUnused
+ * @returns Formatted table string
+ */
+export function formatUnusedTable(result: UnusedResult): string {
+  if (result.symbols.length === 0) {
+    return 'No unused functions or classes found.';
+  }
+
+  let table = 'name | kind | confidence | line | path | reasons\n';
+  table += '-----|------|------------|------|------|--------\n';
+
+  for (const symbol of result.symbols) {
+    table += `${symbol.qualifiedName} | ${symbol.kind} | ${symbol.confidence} | ${symbol.line} | ${symbol.relativePath} | ${symbol.reasons.join('; ')}\n`;
+  }
+
+  if (result.truncated) {
+    table += `\nShowing ${result.symbols.length} of ${result.total}`;
+  }
+  return table;
+}
@@ -1,39 +1,167 @@
 #!/usr/bin/env node
 
 import * as http from 'http';
+import * as path from 'path';
 import * as url from 'url';
-import { getFunctions, formatFunctionsTable, getClasses, formatClassesTable } from './analyzers';
+import { UsageError, formatFlags, parseArgs } from './cli/args';
+import { COMMANDS, EXIT_ERROR, formatCommandUsage, runCommand } from './cli/commands';
+import { SERVE_FLAGS, resolveServeConfig } from './cli/serve';
+import { McpServer } from './mcp/server';
+import { HttpAccessOptions, authorizeRequest, getRequestId, handleMcpHttpRequest, openEventStream, readPostParameters } from './mcp/http';
+import { startStdioTransport } from './mcp/stdio';
+import { ToolInputError } from './mcp/tools';
+import { createToolRegistry } from './tools';
+import { AnalyzerConfig, ConfigError, applyAnalysisSettings } from './utils/config';
+import { logger } from './utils/logger';
+import { PathAccessError, sandbox } from './utils/sandbox';
+import { IndexChange, ProjectWatcher } from './utils/watcher';
+import { WorkspaceError, workspaces } from './utils/workspaces';
 
-// Define the port for the MCP server
-// Use a random port if the default port is in use
-const PORT = process.env.MCP_PORT ? parseInt(process.env.MCP_PORT, 10) : 3000;
+// Host names that reach a loopback address; other Host headers are refused there
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+const USAGE = `Usage: mcp-code-analyzer [serve] [options]
+       mcp-code-analyzer <command> [arguments] [options]
+
+Start the MCP Code Analyzer server. Settings are read from the config file,
+then environment variables, then these options; later sources win.
+
+Options:
+${formatFlags(SERVE_FLAGS)}
+
+Commands that print results and exit (see \`mcp-code-analyzer <command> --help\`):
+${Object.values(COMMANDS).map(command => `  ${`${command.name} ${command.arguments}`.padEnd(20)}  ${command.description}`).join('\n')}`;
+
+// Legacy REST routes and the tools they map to
+const LEGACY_ROUTES: Record<string, string> = {
+  '/get_functions': 'get_functions',
+  '/get_classes': 'get_classes',
+  '/search_symbols': 'search_symbols',
+  '/get_callers': 'get_callers',
+  '/get_callees': 'get_callees',
+  '/get_dependencies': 'get_dependencies',
+  '/find_references': 'find_references',
+  '/get_symbol_source': 'get_symbol_source',
+  '/get_file_outline': 'get_file_outline',
+  '/get_project_overview': 'get_project_overview',
+  '/get_metrics': 'get_metrics',
+  '/find_unused': 'find_unused',
+  '/find_duplicates': 'find_duplicates',
+  '/add_workspace': 'add_workspace',
+  '/remove_workspace': 'remove_workspace',
+  '/list_workspaces': 'list_workspaces'
+};
+
+// Legacy routes that change server state; they only accept POST
+const POST_ROUTES = new Set(['/add_workspace', '/remove_workspace']);
+
+const mcpServer = new McpServer(createToolRegistry());
+
+/**
+ * Apply the analysis settings, restrict the readable paths and register the
+ * configured workspaces
+ * @param config Server configuration
+ * @param workspaceFile Workspace config file path
+ */
+function applyConfiguration(config: AnalyzerConfig, workspaceFile: string | undefined): void {
+  applyAnalysisSettings(config);
+  mcpServer.registry.setDefaultTimeout(config.timeouts.toolMs);
+  mcpServer.registry.setArgumentDefaults({ ...config.output });
+
+  sandbox.setRoots(config.server.allowedRoots);
+  if (sandbox.isRestricted()) {
+    logger.info(`Allowed roots: ${sandbox.getRoots().join(', ')}`);
+  }
+
+  const registered = config.workspaces.map(workspace => workspaces.add(workspace, process.cwd(), true));
+  if (workspaceFile) {
+    registered.push(...workspaces.loadFile(workspaceFile));
+  }
+  for (const workspace of registered) {
+    logger.info(`Workspace ${workspace.name}: ${workspace.roots.map(root => `${root.name}=${root.path}`).join(', ')}`);
+  }
+}
+
+// Listeners of the legacy /events stream
+const eventListeners = new Set<(change: IndexChange) => void>();
+
+/**
+ * Get the URI of the index resource of a watched root
+ * @param root Absolute root path
+ * @returns Resource URI
+ */
+function getIndexResourceUri(root: string): string {
+  return `index://${root.replace(/\\/g, '/')}`;
+}
 
 /**
- * Log a message to the console with a timestamp
- * @param message Message to log
+ * Start watching project roots and publish their indexes as resources
+ * @param roots Absolute directory paths
  */
-function log(message: string): void {
-  const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] ${message}`);
+async function startWatchers(roots: string[]): Promise<void> {
+  for (const root of roots) {
+    const watcher = new ProjectWatcher(root);
+    const uri = getIndexResourceUri(root);
+    let lastChange: IndexChange | null = null;
+    let updatedAt = new Date().toISOString();
+
+    mcpServer.resources.register({
+      uri,
+      name: `Index of ${path.basename(root) || root}`,
+      description: `Files and entity counts of the watched project ${root}`,
+      mimeType: 'application/json',
+      read: async () => {
+        const files = watcher.getFiles();
+        const entities = watcher.getEntities();
+        return JSON.stringify({ root, files: files.length, entities: entities.length, lastChange, updatedAt }, null, 2);
+      }
+    });
+
+    watcher.on('change', (change: IndexChange) => {
+      lastChange = change;
+      updatedAt = new Date().toISOString();
+      logger.info(`Index of ${root} updated: ${change.added.length} added, ${change.changed.length} changed, ${change.removed.length} removed`);
+      mcpServer.notifyResourceUpdated(uri);
+      for (const listener of eventListeners) {
+        listener(change);
+      }
+    });
+
+    await watcher.start();
+    logger.info(`Watching ${root} (${watcher.getFiles().length} files)`);
+  }
 }
 
 /**
  * Start the MCP server
+ * @param config Server configuration
  */
-async function startServer(): Promise<void> {
+async function startServer(config: AnalyzerConfig): Promise<void> {
+  const { port, host, corsOrigins } = config.server;
+  const requestMs = config.timeouts.requestMs;
+
+  // Who may call the HTTP server
+  const access: HttpAccessOptions = {
+    token: process.env.MCP_AUTH_TOKEN || undefined,
+    allowedOrigins: corsOrigins,
+    allowedHosts: LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : undefined
+  };
+
   // Create and start the server
   const server = http.createServer((req, res) => {
-    // Set a timeout for the server response (30 seconds)
-    res.setTimeout(30000, () => {
-      console.error('Response timeout reached (30s)');  
+    // Set a timeout for the server response
+    res.setTimeout(requestMs, () => {
+      logger.warn(`Response timeout reached (${requestMs / 1000}s)`);
       res.writeHead(408, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Request timeout' }));
     });
     
-    // Handle the request
-    handleRequest(req, res).catch(error => {
+    // Handle the request; its log entries carry the ID returned to the caller
+    const requestId = getRequestId(req);
+    res.setHeader('X-Request-Id', requestId);
+    logger.withContext({ requestId }, () => handleRequest(req, res, access)).catch(error => {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Unhandled error: ${errorMessage}`);
+      logger.error(`Unhandled error: ${errorMessage}`);
       if (!res.headersSent) {
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Internal server error' }));
@@ -41,32 +169,53 @@ async function startServer(): Promise<void> {
     });
   });
 
-  server.timeout = 30000; // Set server-wide timeout to 30 seconds
+  server.timeout = requestMs;
 
   // Handle server errors
   server.on('error', (error: any) => {
     if (error.code === 'EADDRINUSE') {
-      log(`Port ${PORT} is already in use. Please specify a different port using the MCP_PORT environment variable.`);
+      logger.error(`Port ${port} is already in use. Please specify a different port with --port or the MCP_PORT environment variable.`);
       process.exit(1);
     } else {
-      log(`Server error: ${error}`);
+      logger.error(`Server error: ${error}`);
       process.exit(1);
     }
   });
 
   // Start the server
-  server.listen(PORT, () => {
-    log(`MCP Code Analyzer server running at http://localhost:${PORT}`);
-    log(`Available endpoints:`);
-    log(`- GET /get_functions?path=<directory_path> - Get all functions in the specified directory`);
-    log(`- GET /get_classes?path=<directory_path> - Get all classes in the specified directory`);
+  server.listen(port, host, () => {
+    const address = host.includes(':') ? `[${host}]` : host;
+    logger.info(`MCP Code Analyzer server running at http://${address}:${port}`);
+    logger.info(`MCP endpoint (Streamable HTTP): POST http://${address}:${port}/mcp`);
+    if (!access.token && !access.allowedHosts) {
+      logger.warn(`Listening on ${host} without MCP_AUTH_TOKEN; anyone who can reach this port can read the allowed roots`);
+    }
+    logger.info(`Available endpoints:`);
+    logger.info(`- GET /get_functions?path=<directory_path> - Get all functions in the specified directory`);
+    logger.info(`- GET /get_classes?path=<directory_path> - Get all classes in the specified directory`);
+    logger.info(`- GET /search_symbols?path=<directory_path>&query=<name> - Search symbols by name`);
+    logger.info(`- GET /get_callers?path=<directory_path>&symbol=<name> - Find the callers of a function`);
+    logger.info(`- GET /get_callees?path=<directory_path>&symbol=<name> - Find the functions a function calls`);
+    logger.info(`- GET /get_dependencies?path=<directory_path> - Get the import graph of the files in the specified directory`);
+    logger.info(`- GET /find_references?path=<directory_path>&symbol=<name> - Find the usages of a symbol`);
+    logger.info(`- GET /get_symbol_source?path=<directory_path>&symbol=<name> - Get the source code of a symbol`);
+    logger.info(`- GET /get_file_outline?path=<file_path> - Get the symbol tree of a file`);
+    logger.info(`- GET /get_project_overview?path=<directory_path> - Summarise a project`);
+    logger.info(`- GET /get_metrics?path=<directory_path> - Get the size and complexity of each function`);
+    logger.info(`- GET /find_unused?path=<directory_path> - Find functions and classes nothing references`);
+    logger.info(`- GET /find_duplicates?path=<directory_path> - Find copy-pasted functions and blocks`);
+    logger.info(`- POST /add_workspace {"name": <name>, "roots": [<dir>, ...]} - Register a named workspace`);
+    logger.info(`- POST /remove_workspace {"name": <name>} - Unregister a workspace`);
+    logger.info(`- GET /list_workspaces - List the registered workspaces`);
+    logger.info(`  Every analysis endpoint accepts workspace=<name> instead of path=<directory_path>`);
+    logger.info(`- GET /events - Server-Sent Events for changes in watched projects`);
   });
 
   // Handle process termination
   process.on('SIGINT', () => {
-    log('Shutting down MCP server...');
+    logger.info('Shutting down MCP server...');
     server.close(() => {
-      log('MCP server stopped');
+      logger.info('MCP server stopped');
       process.exit(0);
     });
   });
@@ -76,17 +225,11 @@ async function startServer(): Promise<void> {
  * Handle MCP requests
  * @param req HTTP request
  * @param res HTTP response
+ * @param access Who may call the server
  */
-async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  
-  // Handle preflight requests
-  if (req.method === 'OPTIONS') {
-    res.writeHead(200);
-    res.end();
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, access: HttpAccessOptions): Promise<void> {
+  // Check the host, origin and token, set CORS headers and answer preflight requests
+  if (!authorizeRequest(req, res, access)) {
     return;
   }
   
@@ -96,148 +239,147 @@ async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse
   
   // Handle different endpoints
   try {
-    if (pathname === '/get_functions') {
-      await handleGetFunctions(req, res, parsedUrl.query);
-    } else if (pathname === '/get_classes') {
-      await handleGetClasses(req, res, parsedUrl.query);
+    if (pathname === '/mcp') {
+      await handleMcpHttpRequest(mcpServer, req, res);
+    } else if (pathname === '/events') {
+      const send = openEventStream(req, res);
+      const listener = (change: IndexChange) => send(change, 'index-changed');
+      eventListeners.add(listener);
+      req.on('close', () => eventListeners.delete(listener));
+    } else if (POST_ROUTES.has(pathname)) {
+      const params = await readPostParameters(req, res, parsedUrl.query);
+      if (params) {
+        await handleToolRoute(LEGACY_ROUTES[pathname], res, params);
+      }
+    } else if (LEGACY_ROUTES[pathname]) {
+      await handleToolRoute(LEGACY_ROUTES[pathname], res, parsedUrl.query);
     } else {
       // Return available endpoints
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
-        endpoints: [
-          {
-            name: 'get_functions',
-            description: 'Get all functions in the specified directory',
-            params: { path: 'Directory path to search' }
-          },
-          {
-            name: 'get_classes',
-            description: 'Get all classes in the specified directory',
-            params: { path: 'Directory path to search' }
-          }
-        ]
+        mcp: '/mcp',
+        endpoints: mcpServer.registry.list().map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          params: tool.inputSchema.properties
+        }))
       }));
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    log(`Error handling request: ${errorMessage}`);
-    res.writeHead(500, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Internal server error' }));
+    logger.error(`Error handling request: ${errorMessage}`);
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
   }
 }
 
 /**
- * Handle get_functions endpoint
- * @param req HTTP request
+ * Handle a legacy REST route by calling the matching tool
+ * @param toolName Name of the tool to call
  * @param res HTTP response
  * @param query URL query parameters
  */
-async function handleGetFunctions(
-  req: http.IncomingMessage,
+async function handleToolRoute(
+  toolName: string,
   res: http.ServerResponse,
   query: any
 ): Promise<void> {
-  const path = query.path;
-  const maxDepth = query.maxDepth ? parseInt(query.maxDepth, 10) : 3;
-  
-  if (!path) {
-    res.writeHead(400, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Path parameter is required' }));
-    return;
-  }
-  
-  log(`Getting functions from ${path} with max depth ${maxDepth}`);
-  console.time('getFunctions');
+  logger.info(`Calling ${toolName} with ${JSON.stringify(query)}`);
   try {
-    // Set a timeout for this operation
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Operation timed out after 25 seconds')), 25000);
-    });
-    
-    // Run the operation with a timeout
-    const functions = await Promise.race([
-      getFunctions(path, maxDepth),
-      timeoutPromise
-    ]);
+    const result = await mcpServer.registry.call(toolName, query, { coerce: true });
     
-    console.timeEnd('getFunctions');
-    log(`Found ${functions.length} functions in ${path}`);
-    
-    // Check if format=table is specified
-    if (query.format === 'table') {
+    // Tables, diagrams and code listings are returned as plain text
+    if (result.text !== undefined) {
       res.writeHead(200, { 'Content-Type': 'text/plain' });
-      res.end(formatFunctionsTable(functions));
+      res.end(result.text);
     } else {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ functions }));
+      res.end(JSON.stringify(result.data));
     }
   } catch (error) {
-    console.timeEnd('getFunctions');
     const errorMessage = error instanceof Error ? error.message : String(error);
-    log(`Error getting functions: ${errorMessage}`);
+    if (error instanceof ToolInputError) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: errorMessage }));
+      return;
+    }
+    if (error instanceof PathAccessError) {
+      logger.warn(`Denied ${toolName}: ${errorMessage}`);
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: errorMessage }));
+      return;
+    }
+    logger.error(`Error in ${toolName}: ${errorMessage}`);
     res.writeHead(500, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: `Error getting functions: ${errorMessage}` }));
+    res.end(JSON.stringify({ error: `Error in ${toolName}: ${errorMessage}` }));
   }
 }
 
 /**
- * Handle get_classes endpoint
- * @param req HTTP request
- * @param res HTTP response
- * @param query URL query parameters
+ * Parse the command line and start the server
+ * @param argv Arguments after the executable name
  */
-async function handleGetClasses(
-  req: http.IncomingMessage,
-  res: http.ServerResponse,
-  query: any
-): Promise<void> {
-  const path = query.path;
-  const maxDepth = query.maxDepth ? parseInt(query.maxDepth, 10) : 3;
-  
-  if (!path) {
-    res.writeHead(400, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Path parameter is required' }));
+async function main(argv: string[]): Promise<void> {
+  // `serve` is the default command, so `mcp-code-analyzer --port 4000` still starts the server
+  const [command, ...rest] = argv.length > 0 && !argv[0].startsWith('-') ? argv : ['serve', ...argv];
+  if (command === 'help') {
+    console.log(USAGE);
     return;
   }
-  
-  log(`Getting classes from ${path} with max depth ${maxDepth}`);
-  console.time('getClasses');
-  try {
-    // Set a timeout for this operation
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Operation timed out after 25 seconds')), 25000);
-    });
-    
-    // Run the operation with a timeout
-    const classes = await Promise.race([
-      getClasses(path, maxDepth),
-      timeoutPromise
-    ]);
-    
-    console.timeEnd('getClasses');
-    log(`Found ${classes.length} classes in ${path}`);
-    
-    // Check if format=table is specified
-    if (query.format === 'table') {
-      res.writeHead(200, { 'Content-Type': 'text/plain' });
-      res.end(formatClassesTable(classes));
-    } else {
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ classes }));
+  if (COMMANDS[command]) {
+    try {
+      process.exitCode = await runCommand(COMMANDS[command], rest);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(error instanceof UsageError ? `${message}\n\n${formatCommandUsage(COMMANDS[command])}` : message);
+      process.exitCode = EXIT_ERROR;
     }
-  } catch (error) {
-    console.timeEnd('getClasses');
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    log(`Error getting classes: ${errorMessage}`);
-    res.writeHead(500, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: `Error getting classes: ${errorMessage}` }));
+    return;
+  }
+  if (command !== 'serve') {
+    throw new UsageError(`Unknown command "${command}"`);
   }
+
+  const { positionals, flags } = parseArgs(rest, SERVE_FLAGS);
+  if (flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length > 0) {
+    throw new UsageError(`Unexpected argument "${positionals[0]}"`);
+  }
+  const { config, workspaceFile } = resolveServeConfig(flags);
+
+  // The transport starts first so stdio mode has redirected logging before indexing begins
+  if (config.server.transport === 'stdio') {
+    const closed = startStdioTransport(mcpServer);
+    logger.configure({ level: config.server.logLevel, format: config.server.logFormat });
+    applyConfiguration(config, workspaceFile);
+    await startWatchers(config.server.watch);
+    await closed;
+    process.exit(0);
+  }
+
+  logger.configure({ level: config.server.logLevel, format: config.server.logFormat });
+  applyConfiguration(config, workspaceFile);
+  await startServer(config);
+  await startWatchers(config.server.watch);
 }
 
 // Start the server when this script is run directly
 if (require.main === module) {
-  startServer().catch(error => {
-    log(`Failed to start server: ${error}`);
+  main(process.argv.slice(2)).catch(error => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    if (error instanceof ConfigError || error instanceof WorkspaceError) {
+      console.error(error.message);
+      process.exit(2);
+    }
+    logger.error(`Failed to start server: ${error}`);
     process.exit(1);
   });
 }
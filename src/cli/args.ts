@@ -0,0 +1,109 @@
+/**
+ * Command line parsing shared by the subcommands of the executable
+ */
+
+/**
+ * Definition of one `--flag`
+ */
+export interface FlagSpec {
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  // Name of the value in the help text, e.g. `<dir>`
+  value?: string;
+  // The flag may be repeated; its values are collected in a list
+  multiple?: boolean;
+  choices?: readonly string[];
+}
+
+/**
+ * Parsed command line
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  // Keyed by flag name without the dashes
+  flags: Record<string, any>;
+}
+
+/**
+ * Error raised when the command line is invalid; the executable prints it with the usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Parse `--name value`, `--name=value` and boolean `--name` flags
+ * @param argv Arguments after the subcommand
+ * @param specs Accepted flags, keyed by name without the dashes
+ * @returns Positional arguments and flag values
+ * @throws UsageError for unknown flags, missing values and invalid numbers or choices
+ */
+export function parseArgs(argv: string[], specs: Record<string, FlagSpec>): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, any> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const name = arg.slice(2, equals === -1 ? undefined : equals);
+    const spec = specs[name];
+    if (!spec) {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+
+    let raw: string | undefined = equals === -1 ? undefined : arg.slice(equals + 1);
+    if (spec.type === 'boolean') {
+      if (raw !== undefined && raw !== 'true' && raw !== 'false') {
+        throw new UsageError(`--${name} takes no value`);
+      }
+      flags[name] = raw !== 'false';
+      continue;
+    }
+    if (raw === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new UsageError(`--${name} needs a value`);
+      }
+      raw = argv[++i];
+    }
+
+    let value: string | number = raw;
+    if (spec.type === 'number') {
+      value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new UsageError(`--${name} must be a number, got "${raw}"`);
+      }
+    }
+    if (spec.choices && !spec.choices.includes(raw)) {
+      throw new UsageError(`--${name} must be one of ${spec.choices.join(', ')}, got "${raw}"`);
+    }
+    flags[name] = spec.multiple ? [...(flags[name] || []), value] : value;
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Format the flags of a subcommand for the help text
+ * @param specs Accepted flags
+ * @returns One indented line per flag
+ */
+export function formatFlags(specs: Record<string, FlagSpec>): string {
+  const entries = Object.entries(specs).map(([name, spec]) => {
+    const value = spec.type === 'boolean' ? '' : ` ${spec.value || (spec.choices ? spec.choices.join('|') : `<${spec.type}>`)}`;
+    return { usage: `--${name}${value}`, description: spec.description + (spec.multiple ? ' (repeatable)' : '') };
+  });
+  const width = Math.max(...entries.map(entry => entry.usage.length));
+  return entries.map(entry => `  ${entry.usage.padEnd(width)}  ${entry.description}`).join('\n');
+}
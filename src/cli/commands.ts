@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import {
+  OutlineNode,
+  formatClassesTable,
+  formatFunctionsTable,
+  formatOutlineText,
+  formatSymbolsTable,
+  getFileOutline,
+  listClasses,
+  listFunctions,
+  searchSymbols
+} from '../analyzers';
+import { formatModifiers } from '../analyzers/format';
+import { AnalyzerConfig, applyAnalysisSettings, createDefaultConfig, loadConfigFile, mergeConfig } from '../utils/config';
+import { DiscoveryOptions } from '../utils/fileUtils';
+import { LOG_FORMATS, LOG_LEVELS, logger } from '../utils/logger';
+import { CodeEntity } from '../utils/parsers';
+import { FlagSpec, UsageError, formatFlags, parseArgs } from './args';
+import { OUTPUT_FORMATS, OutputFormat, formatCsv, formatJsonLines } from './output';
+
+/**
+ * Exit codes of the one-shot commands, as with grep
+ */
+export const EXIT_FOUND = 0;
+export const EXIT_NOT_FOUND = 1;
+export const EXIT_ERROR = 2;
+
+/**
+ * Error raised when a command cannot run, e.g. because its path does not exist
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Result of a command in every output format
+ */
+interface CommandOutput<T> {
+  // Whole result, printed with --format json
+  data: unknown;
+  // One entry per result, printed with --format jsonl and csv
+  records: T[];
+  // CSV column names and how to read each from a record
+  columns: Record<string, (record: T) => unknown>;
+  // Human-readable output, printed with --format table
+  table: string;
+}
+
+/**
+ * A one-shot subcommand of the executable
+ */
+export interface CliCommand {
+  name: string;
+  // Positional arguments in the help text, e.g. `<query> [dir]`
+  arguments: string;
+  description: string;
+  flags: Record<string, FlagSpec>;
+  run(positionals: string[], flags: Record<string, any>): Promise<CommandOutput<any>>;
+}
+
+/**
+ * Flags of every command
+ */
+const COMMON_FLAGS: Record<string, FlagSpec> = {
+  format: { type: 'string', choices: OUTPUT_FORMATS, description: 'Output format (default table)' },
+  config: { type: 'string', value: '<file>', description: 'JSON or YAML config file for ignores, languages and timeouts (env MCP_CONFIG)' },
+  'log-level': { type: 'string', choices: LOG_LEVELS, description: 'Least severe messages to log on stderr (default warn)' },
+  'log-format': { type: 'string', choices: LOG_FORMATS, description: 'Write log lines as text or JSON (default text)' },
+  help: { type: 'boolean', description: 'Show this help' }
+};
+
+/**
+ * Flags of the commands that scan a directory
+ */
+const DISCOVERY_FLAGS: Record<string, FlagSpec> = {
+  'max-depth': { type: 'number', value: '<n>', description: 'Maximum directory depth to search (default 3)' },
+  include: { type: 'string', value: '<glob>', multiple: true, description: 'Only analyze files matching this glob' },
+  exclude: { type: 'string', value: '<glob>', multiple: true, description: 'Skip files matching this glob' },
+  language: { type: 'string', value: '<name>', multiple: true, description: 'Only analyze files in this language' },
+  'max-file-size': { type: 'number', value: '<bytes>', description: 'Skip files larger than this (default 1048576)' },
+  'max-files': { type: 'number', value: '<n>', description: 'Analyze at most this many files (default 5000)' }
+};
+
+/**
+ * CSV columns of code entities
+ */
+const ENTITY_COLUMNS: Record<string, (entity: CodeEntity) => unknown> = {
+  name: entity => entity.name,
+  kind: entity => entity.kind || entity.type,
+  container: entity => entity.container,
+  signature: entity => entity.signature,
+  modifiers: entity => formatModifiers(entity),
+  line: entity => entity.line,
+  endLine: entity => entity.endLine,
+  path: entity => entity.relativePath
+};
+
+/**
+ * Split repeated flag values that also hold comma-separated lists
+ * @param values Flag values, or undefined when the flag is not given
+ * @returns Separate values, or undefined
+ */
+function splitList(values: string[] | undefined): string[] | undefined {
+  return values?.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+/**
+ * Read discovery settings from command flags
+ * @param flags Parsed flags
+ * @returns Discovery options
+ */
+function getDiscoveryFlags(flags: Record<string, any>): DiscoveryOptions {
+  return {
+    maxDepth: flags['max-depth'],
+    include: splitList(flags.include),
+    exclude: splitList(flags.exclude),
+    languages: splitList(flags.language),
+    maxFileSize: flags['max-file-size'],
+    maxFiles: flags['max-files']
+  };
+}
+
+/**
+ * Check that a path exists and is of the expected kind
+ * @param target Path given on the command line
+ * @param kind Whether a directory or a file is expected
+ * @returns The path
+ * @throws CommandError when the path is missing or of the other kind
+ */
+function checkPath(target: string, kind: 'directory' | 'file'): string {
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(target);
+  } catch {
+    throw new CommandError(`No such ${kind}: ${target}`);
+  }
+  if (kind === 'directory' ? !stats.isDirectory() : !stats.isFile()) {
+    throw new CommandError(`Not a ${kind}: ${target}`);
+  }
+  return target;
+}
+
+/**
+ * Flatten an outline tree, parents before their children
+ * @param node Outline node
+ * @param container Qualified name of the enclosing symbol
+ * @param depth Nesting depth of the node
+ * @returns Nodes without children, with their container and depth
+ */
+function flattenOutline(node: OutlineNode, container = '', depth = 0): Array<Omit<OutlineNode, 'children'> & { container: string; depth: number }> {
+  const { children, ...rest } = node;
+  const qualified = container ? `${container}.${node.name}` : node.name;
+  return [
+    { ...rest, container, depth },
+    ...children.flatMap(child => flattenOutline(child, depth === 0 ? '' : qualified, depth + 1))
+  ];
+}
+
+/**
+ * Commands that print analysis results instead of starting the server
+ */
+export const COMMANDS: Record<string, CliCommand> = {
+  functions: {
+    name: 'functions',
+    arguments: '[dir]',
+    description: 'List the functions and methods in a directory (default: the current directory)',
+    flags: { ...DISCOVERY_FLAGS, ...COMMON_FLAGS },
+    async run(positionals, flags) {
+      const result = await listFunctions(checkPath(positionals[0] || '.', 'directory'), getDiscoveryFlags(flags));
+      return { data: result, records: result.functions, columns: ENTITY_COLUMNS, table: formatFunctionsTable(result.functions) };
+    }
+  },
+  classes: {
+    name: 'classes',
+    arguments: '[dir]',
+    description: 'List the classes, interfaces and other types in a directory (default: the current directory)',
+    flags: { ...DISCOVERY_FLAGS, ...COMMON_FLAGS },
+    async run(positionals, flags) {
+      const result = await listClasses(checkPath(positionals[0] || '.', 'directory'), getDiscoveryFlags(flags));
+      return { data: result, records: result.classes, columns: ENTITY_COLUMNS, table: formatClassesTable(result.classes) };
+    }
+  },
+  outline: {
+    name: 'outline',
+    arguments: '<file>',
+    description: 'Show the symbol tree of a file',
+    flags: COMMON_FLAGS,
+    async run(positionals) {
+      if (!positionals[0]) {
+        throw new UsageError('outline needs a file');
+      }
+      const result = await getFileOutline(checkPath(positionals[0], 'file'));
+      // The module node stands for the file itself and is only kept in the tree
+      const records = flattenOutline(result.outline).slice(1);
+      return {
+        data: result,
+        records,
+        columns: {
+          name: node => node.name,
+          kind: node => node.kind,
+          container: node => node.container,
+          depth: node => node.depth,
+          signature: node => node.signature,
+          line: node => node.line,
+          endLine: node => node.endLine
+        },
+        table: formatOutlineText(result)
+      };
+    }
+  },
+  search: {
+    name: 'search',
+    arguments: '<query> [dir]',
+    description: 'Search symbols by name with fuzzy, camelCase-aware ranking',
+    flags: {
+      kind: { type: 'string', value: '<kind>', multiple: true, description: 'Only include this kind or type, e.g. method or class' },
+      container: { type: 'string', value: '<name>', description: 'Only include symbols inside this class, namespace or module' },
+      'exported-only': { type: 'boolean', description: 'Only include exported symbols' },
+      'path-glob': { type: 'string', value: '<glob>', description: 'Only include files whose relative path matches this glob' },
+      limit: { type: 'number', value: '<n>', description: 'Maximum number of matches (default 50)' },
+      offset: { type: 'number', value: '<n>', description: 'Number of matches to skip' },
+      ...DISCOVERY_FLAGS,
+      ...COMMON_FLAGS
+    },
+    async run(positionals, flags) {
+      if (!positionals[0]) {
+        throw new UsageError('search needs a query');
+      }
+      const result = await searchSymbols(checkPath(positionals[1] || '.', 'directory'), positionals[0], {
+        ...getDiscoveryFlags(flags),
+        kinds: splitList(flags.kind),
+        container: flags.container,
+        exportedOnly: flags['exported-only'],
+        pathGlob: flags['path-glob'],
+        limit: flags.limit,
+        offset: flags.offset
+      });
+      return {
+        data: result,
+        records: result.matches,
+        columns: { score: match => match.score, ...ENTITY_COLUMNS },
+        table: formatSymbolsTable(result)
+      };
+    }
+  }
+};
+
+/**
+ * Format the help text of a command
+ * @param command Command
+ * @returns Usage line, description and flags
+ */
+export function formatCommandUsage(command: CliCommand): string {
+  return `Usage: mcp-code-analyzer ${command.name} ${command.arguments} [options]\n\n${command.description}\n\nOptions:\n${formatFlags(command.flags)}`;
+}
+
+/**
+ * Run a command and print its result to stdout. Log messages go to stderr so
+ * the output can be piped.
+ * @param command Command to run
+ * @param argv Arguments after the command name
+ * @param env Environment
+ * @returns Exit code: EXIT_FOUND when there are results, EXIT_NOT_FOUND when there are none
+ * @throws UsageError, ConfigError or CommandError when the command cannot run
+ */
+export async function runCommand(command: CliCommand, argv: string[], env: NodeJS.ProcessEnv = process.env): Promise<number> {
+  const { positionals, flags } = parseArgs(argv, command.flags);
+  if (flags.help) {
+    process.stdout.write(formatCommandUsage(command) + '\n');
+    return EXIT_FOUND;
+  }
+  const maxArguments = command.arguments.split(' ').length;
+  if (positionals.length > maxArguments) {
+    throw new UsageError(`Unexpected argument "${positionals[maxArguments]}"`);
+  }
+
+  // stdout carries the result only
+  logger.configure({ level: flags['log-level'] || 'warn', format: flags['log-format'], stderrOnly: true });
+  console.log = console.error;
+  console.info = console.error;
+  // A reader such as `head` may close the pipe before everything is written
+  process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EPIPE') {
+      throw error;
+    }
+    process.exit();
+  });
+
+  let config: AnalyzerConfig = createDefaultConfig();
+  const configFile = flags.config ?? env.MCP_CONFIG;
+  if (configFile) {
+    config = mergeConfig(config, loadConfigFile(configFile));
+  }
+  applyAnalysisSettings(config);
+
+  const format: OutputFormat = flags.format || 'table';
+  const output = await command.run(positionals, flags);
+  switch (format) {
+    case 'json':
+      process.stdout.write(JSON.stringify(output.data, null, 2) + '\n');
+      break;
+    case 'jsonl':
+      process.stdout.write(formatJsonLines(output.records));
+      break;
+    case 'csv':
+      process.stdout.write(formatCsv(output.records, output.columns));
+      break;
+    default:
+      process.stdout.write(output.table.replace(/\n?$/, '\n'));
+  }
+  return output.records.length > 0 ? EXIT_FOUND : EXIT_NOT_FOUND;
+}
@@ -0,0 +1,42 @@
+/**
+ * Output formats of the one-shot commands
+ */
+export const OUTPUT_FORMATS = ['table', 'json', 'jsonl', 'csv'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Quote a CSV field when it holds a separator, quote or line break
+ * @param value Field value
+ * @returns Field as written in the file
+ */
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format records as CSV with a header line
+ * @param records Records to write, one per line
+ * @param columns Column names and how to read each from a record
+ * @returns CSV text, ending with a line break
+ */
+export function formatCsv<T>(records: T[], columns: Record<string, (record: T) => unknown>): string {
+  const lines = [Object.keys(columns).join(',')];
+  for (const record of records) {
+    lines.push(Object.values(columns).map(read => escapeCsv(read(record))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format records as JSON Lines, one compact JSON object per line
+ * @param records Records to write
+ * @returns JSON Lines text, empty when there are no records
+ */
+export function formatJsonLines(records: unknown[]): string {
+  return records.map(record => JSON.stringify(record) + '\n').join('');
+}
@@ -0,0 +1,157 @@
+import * as path from 'path';
+import {
+  AnalyzerConfig,
+  ConfigError,
+  ConfigFile,
+  createDefaultConfig,
+  loadConfigFile,
+  mergeConfig,
+  validateConfig
+} from '../utils/config';
+import { LOG_FORMATS, LOG_LEVELS } from '../utils/logger';
+import { FlagSpec } from './args';
+
+/**
+ * Flags of the `serve` subcommand
+ */
+export const SERVE_FLAGS: Record<string, FlagSpec> = {
+  port: { type: 'number', value: '<port>', description: 'Port of the HTTP server (default 3000, env MCP_PORT)' },
+  host: { type: 'string', value: '<address>', description: 'Address the HTTP server listens on (default 127.0.0.1, env MCP_HOST)' },
+  transport: { type: 'string', choices: ['http', 'stdio'], description: 'Serve MCP over HTTP or stdin/stdout (default http, env MCP_TRANSPORT)' },
+  stdio: { type: 'boolean', description: 'Same as --transport stdio' },
+  config: { type: 'string', value: '<file>', description: 'JSON or YAML config file (env MCP_CONFIG)' },
+  'log-level': { type: 'string', choices: LOG_LEVELS, description: 'Least severe messages to log (default info, env MCP_LOG_LEVEL)' },
+  'log-format': { type: 'string', choices: LOG_FORMATS, description: 'Write log lines as text or JSON (default text, env MCP_LOG_FORMAT)' },
+  watch: { type: 'string', value: '<dir>', multiple: true, description: 'Keep the index of a project root live (env MCP_WATCH)' },
+  'allow-root': { type: 'string', value: '<dir>', multiple: true, description: 'Only allow analyzing paths inside this directory (env MCP_ALLOWED_ROOTS)' },
+  workspaces: { type: 'string', value: '<file>', description: 'JSON file of workspaces to register (env MCP_WORKSPACES)' },
+  help: { type: 'boolean', description: 'Show this help' }
+};
+
+/**
+ * Environment variable of each server setting
+ */
+const ENVIRONMENT_NAMES: Record<string, string> = {
+  port: 'MCP_PORT',
+  host: 'MCP_HOST',
+  transport: 'MCP_TRANSPORT',
+  logLevel: 'MCP_LOG_LEVEL',
+  logFormat: 'MCP_LOG_FORMAT',
+  watch: 'MCP_WATCH',
+  allowedRoots: 'MCP_ALLOWED_ROOTS',
+  corsOrigins: 'MCP_CORS_ORIGINS'
+};
+
+/**
+ * Flag of each server setting
+ */
+const FLAG_NAMES: Record<string, string> = {
+  port: '--port',
+  host: '--host',
+  transport: '--transport',
+  logLevel: '--log-level',
+  logFormat: '--log-format',
+  watch: '--watch',
+  allowedRoots: '--allow-root'
+};
+
+/**
+ * Check settings read from the environment or the command line, naming the
+ * variable or flag instead of the config file key in problems
+ * @param raw Settings in config file form
+ * @param source Where the settings come from
+ * @param names Variable or flag name of each server setting
+ * @returns Valid settings
+ */
+function validateServerSettings(raw: Record<string, unknown>, source: string, names: Record<string, string>): ConfigFile {
+  try {
+    return validateConfig(raw, source, process.cwd());
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw new ConfigError(source, error.problems.map(problem => problem.replace(/^server\.(\w+)/, (key, name) => names[name] || key)));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Split a list of directories separated like PATH entries
+ * @param value Environment variable value
+ * @returns Directories, or undefined when the variable is unset
+ */
+function splitDirectories(value: string | undefined): string[] | undefined {
+  return value ? value.split(path.delimiter).filter(Boolean) : undefined;
+}
+
+/**
+ * Read server settings from environment variables
+ * @param env Environment
+ * @returns Settings in config file form, not yet validated
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): Record<string, unknown> {
+  const server: Record<string, unknown> = {
+    port: env.MCP_PORT ? Number(env.MCP_PORT) : undefined,
+    host: env.MCP_HOST || undefined,
+    transport: env.MCP_TRANSPORT || undefined,
+    logLevel: env.MCP_LOG_LEVEL || undefined,
+    logFormat: env.MCP_LOG_FORMAT || undefined,
+    watch: splitDirectories(env.MCP_WATCH),
+    allowedRoots: splitDirectories(env.MCP_ALLOWED_ROOTS),
+    corsOrigins: env.MCP_CORS_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean)
+  };
+  return { server: dropUndefined(server) };
+}
+
+/**
+ * Read server settings from `serve` flags
+ * @param flags Parsed flags
+ * @returns Settings in config file form, not yet validated
+ */
+function readFlags(flags: Record<string, any>): Record<string, unknown> {
+  const server: Record<string, unknown> = {
+    port: flags.port,
+    host: flags.host,
+    transport: flags.stdio ? 'stdio' : flags.transport,
+    logLevel: flags['log-level'],
+    logFormat: flags['log-format'],
+    watch: flags.watch,
+    allowedRoots: flags['allow-root']
+  };
+  return { server: dropUndefined(server) };
+}
+
+/**
+ * Remove the keys of an object whose value is undefined
+ * @param values Object to clean
+ * @returns Object with the defined values only
+ */
+function dropUndefined(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Work out the server configuration. Later sources win: built-in defaults, the
+ * config file, environment variables, then command line flags. Roots to watch
+ * and allow are collected from all of them.
+ * @param flags Parsed `serve` flags
+ * @param env Environment
+ * @returns Configuration, and the workspace file to load if one was given
+ * @throws ConfigError when a setting is invalid
+ */
+export function resolveServeConfig(
+  flags: Record<string, any>,
+  env: NodeJS.ProcessEnv = process.env
+): { config: AnalyzerConfig; workspaceFile?: string } {
+  let config = createDefaultConfig();
+
+  const configFile = flags.config ?? env.MCP_CONFIG;
+  if (configFile) {
+    config = mergeConfig(config, loadConfigFile(configFile));
+  }
+
+  const environment = validateServerSettings(readEnvironment(env), 'environment variables', ENVIRONMENT_NAMES);
+  const commandLine = validateServerSettings(readFlags(flags), 'command line', FLAG_NAMES);
+  config = mergeConfig(mergeConfig(config, environment), commandLine);
+
+  return { config, workspaceFile: flags.workspaces ?? (env.MCP_WORKSPACES || undefined) };
+}
@@ -3,5 +3,22 @@
 
 // Export all analyzers and utilities for use as a library
 export * from './analyzers';
+export * from './utils/config';
 export * from './utils/fileUtils';
+export * from './utils/ignore';
 export * from './utils/parsers';
+export * from './utils/indexCache';
+export * from './utils/logger';
+export * from './utils/moduleResolver';
+export * from './utils/sandbox';
+export * from './utils/watcher';
+export * from './utils/workspaces';
+
+// Export the MCP protocol layer and built-in tools
+export * from './mcp/jsonrpc';
+export * from './mcp/tools';
+export * from './mcp/resources';
+export * from './mcp/server';
+export * from './mcp/http';
+export * from './mcp/stdio';
+export * from './tools';
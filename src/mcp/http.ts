@@ -0,0 +1,259 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { ErrorCodes, JsonRpcError, errorResponse } from './jsonrpc';
+import { McpServer } from './server';
+import { createRequestId } from '../utils/logger';
+
+/**
+ * Maximum accepted request body size (4 MB)
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Read the full request body as a string
+ * @param req HTTP request
+ * @returns Request body
+ */
+export function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Who may call the HTTP server
+ */
+export interface HttpAccessOptions {
+  // Bearer token every request must carry; requests are not authenticated when unset
+  token?: string;
+  // Origins browsers may call from; `*` allows any origin
+  allowedOrigins: string[];
+  // Accepted Host header names, to stop DNS rebinding; any host is accepted when unset
+  allowedHosts?: string[];
+}
+
+/**
+ * Get the correlation ID of a request: the caller's `X-Request-Id` when it is
+ * a plain token, or a new one
+ * @param req HTTP request
+ * @returns Request ID
+ */
+export function getRequestId(req: http.IncomingMessage): string {
+  const header = req.headers['x-request-id'];
+  return typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : createRequestId();
+}
+
+/**
+ * Compare a bearer token in constant time
+ * @param header Authorization header
+ * @param token Expected token
+ * @returns True if the header carries the token
+ */
+function hasBearerToken(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '');
+  if (!match) {
+    return false;
+  }
+  const given = crypto.createHash('sha256').update(match[1].trim()).digest();
+  const expected = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Reject a request with a JSON error
+ * @param res HTTP response
+ * @param status HTTP status code
+ * @param message Error message
+ * @param headers Extra response headers
+ */
+function deny(res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: message }));
+}
+
+/**
+ * Check the host, origin and token of a request and set its CORS headers.
+ * Answers the request itself when it is rejected or is a CORS preflight.
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param options Access settings
+ * @returns True if the request should be handled
+ */
+export function authorizeRequest(req: http.IncomingMessage, res: http.ServerResponse, options: HttpAccessOptions): boolean {
+  if (options.allowedHosts) {
+    const host = (req.headers.host || '').replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    if (!options.allowedHosts.includes(host)) {
+      deny(res, 403, `Host ${req.headers.host || '(none)'} is not allowed`);
+      return false;
+    }
+  }
+
+  // Requests from scripts and CLIs carry no Origin; browsers always send one on cross-origin calls
+  const origin = req.headers.origin;
+  if (origin) {
+    const wildcard = options.allowedOrigins.includes('*');
+    if (!wildcard && !options.allowedOrigins.includes(origin)) {
+      deny(res, 403, `Origin ${origin} is not allowed`);
+      return false;
+    }
+    res.setHeader('Access-Control-Allow-Origin', wildcard ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, X-Request-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
+  }
+
+  // Preflights never carry credentials
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return false;
+  }
+
+  if (options.token && !hasBearerToken(req.headers.authorization, options.token)) {
+    deny(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Read the parameters of a route that changes server state. Such routes only
+ * accept POST with a JSON body: browsers cannot send one cross-site without a
+ * CORS preflight, so a web page the user visits cannot call them.
+ * Answers the request itself when it is rejected.
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param query URL query parameters, overridden by the body
+ * @returns Parameters, or null if the request was rejected
+ */
+export async function readPostParameters(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  query: Record<string, unknown>
+): Promise<Record<string, unknown> | null> {
+  if (req.method !== 'POST') {
+    deny(res, 405, 'Method not allowed; use POST with a JSON body', { 'Allow': 'POST' });
+    return null;
+  }
+  if (req.headers['sec-fetch-site'] === 'cross-site') {
+    deny(res, 403, 'Cross-site requests cannot change the server state');
+    return null;
+  }
+  if (!/^application\/json\s*(;|$)/i.test(req.headers['content-type'] || '')) {
+    deny(res, 415, 'Content-Type must be application/json');
+    return null;
+  }
+
+  let body: unknown;
+  try {
+    const text = await readRequestBody(req);
+    body = text.trim() ? JSON.parse(text) : {};
+  } catch {
+    body = undefined;
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    deny(res, 400, 'Request body must be a JSON object');
+    return null;
+  }
+  return { ...query, ...body };
+}
+
+/**
+ * Interval between keep-alive comments on event streams
+ */
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Open a Server-Sent Events stream on a response
+ * @param req HTTP request
+ * @param res HTTP response
+ * @returns Function that sends one event, and is a no-op once the client disconnects
+ */
+export function openEventStream(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): (data: unknown, event?: string) => void {
+  // Streams stay open until the client goes away
+  res.setTimeout(0);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.write(': connected\n\n');
+
+  let open = true;
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    open = false;
+    clearInterval(heartbeat);
+  });
+
+  return (data, event) => {
+    if (open) {
+      res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+}
+
+/**
+ * Handle a request to the Streamable HTTP MCP endpoint
+ * @param server MCP server instance
+ * @param req HTTP request
+ * @param res HTTP response
+ */
+export async function handleMcpHttpRequest(
+  server: McpServer,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  // GET opens a stream of server-initiated notifications, such as resource updates
+  if (req.method === 'GET' && (req.headers.accept || '').includes('text/event-stream')) {
+    const send = openEventStream(req, res);
+    const unsubscribe = server.onNotification(notification => send(notification, 'message'));
+    req.on('close', unsubscribe);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json', 'Allow': 'GET, POST' });
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+
+  let payload: unknown;
+  try {
+    const body = await readRequestBody(req);
+    payload = JSON.parse(body);
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(errorResponse(null, new JsonRpcError(ErrorCodes.PARSE_ERROR, 'Parse error'))));
+    return;
+  }
+
+  const response = await server.handlePayload(payload);
+
+  if (!response) {
+    // Only notifications or responses were received
+    res.writeHead(202);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(response));
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON-RPC 2.0 message types and helpers shared by the MCP transports
+ */
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+/**
+ * Standard JSON-RPC 2.0 error codes, plus the MCP resource-not-found code
+ */
+export const ErrorCodes = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002
+} as const;
+
+/**
+ * Error carrying a JSON-RPC error code, thrown by method handlers
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  toObject(): JsonRpcErrorObject {
+    const error: JsonRpcErrorObject = { code: this.code, message: this.message };
+    if (this.data !== undefined) {
+      error.data = this.data;
+    }
+    return error;
+  }
+}
+
+/**
+ * Check whether a parsed value is a structurally valid JSON-RPC request or notification
+ * @param message Parsed JSON value
+ * @returns True if the value can be dispatched
+ */
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return false;
+  }
+  const candidate = message as Record<string, unknown>;
+  if (candidate.jsonrpc !== '2.0' || typeof candidate.method !== 'string') {
+    return false;
+  }
+  if ('id' in candidate && candidate.id !== null && typeof candidate.id !== 'string' && typeof candidate.id !== 'number') {
+    return false;
+  }
+  if ('params' in candidate && (typeof candidate.params !== 'object' || candidate.params === null)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether a request is a notification (no response expected)
+ * @param request JSON-RPC request
+ * @returns True if the request has no id
+ */
+export function isNotification(request: JsonRpcRequest): boolean {
+  return !('id' in request) || request.id === undefined;
+}
+
+/**
+ * Build a successful JSON-RPC response
+ * @param id Request id
+ * @param result Method result
+ * @returns JSON-RPC response
+ */
+export function successResponse(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * Build a JSON-RPC error response
+ * @param id Request id (null when it could not be determined)
+ * @param error Error to report
+ * @returns JSON-RPC response
+ */
+export function errorResponse(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: error.toObject() };
+}
@@ -0,0 +1,84 @@
+/**
+ * Resource registry exposed through the MCP resources/* methods
+ */
+
+/**
+ * Resource description returned by resources/list
+ */
+export interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Contents returned by resources/read
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+/**
+ * A resource together with the function that produces its current contents
+ */
+export interface ResourceProvider extends Resource {
+  read(): Promise<string>;
+}
+
+/**
+ * Error raised when a resource URI is not registered
+ */
+export class UnknownResourceError extends Error {
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'UnknownResourceError';
+  }
+}
+
+/**
+ * Registry of resources available to clients
+ */
+export class ResourceRegistry {
+  private readonly providers = new Map<string, ResourceProvider>();
+
+  /**
+   * Register a resource
+   * @param provider Resource description and reader
+   */
+  register(provider: ResourceProvider): void {
+    this.providers.set(provider.uri, provider);
+  }
+
+  /**
+   * Check whether a resource is registered
+   * @param uri Resource URI
+   * @returns True if the resource exists
+   */
+  has(uri: string): boolean {
+    return this.providers.has(uri);
+  }
+
+  /**
+   * List registered resources
+   * @returns Resource descriptions
+   */
+  list(): Resource[] {
+    return [...this.providers.values()].map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+  }
+
+  /**
+   * Read the current contents of a resource
+   * @param uri Resource URI
+   * @returns Resource contents
+   */
+  async read(uri: string): Promise<ResourceContents> {
+    const provider = this.providers.get(uri);
+    if (!provider) {
+      throw new UnknownResourceError(uri);
+    }
+    return { uri, mimeType: provider.mimeType, text: await provider.read() };
+  }
+}
@@ -0,0 +1,267 @@
+import {
+  ErrorCodes,
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  errorResponse,
+  isJsonRpcRequest,
+  isNotification,
+  successResponse
+} from './jsonrpc';
+import { ResourceRegistry, UnknownResourceError } from './resources';
+import { ToolInputError, ToolRegistry, UnknownToolError } from './tools';
+import { PathAccessError } from '../utils/sandbox';
+import { readPackageVersion } from '../utils/fileUtils';
+
+/**
+ * MCP protocol revisions this server understands, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * Server-initiated JSON-RPC notification
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type NotificationListener = (notification: JsonRpcNotification) => void;
+
+/**
+ * Transport-independent MCP server: dispatches JSON-RPC messages to protocol handlers
+ */
+export class McpServer {
+  readonly registry: ToolRegistry;
+  readonly resources: ResourceRegistry;
+  private readonly serverInfo = { name: 'mcp-code-analyzer', version: readPackageVersion() };
+  private readonly listeners = new Set<NotificationListener>();
+  // Resource URIs a client asked to be notified about
+  private readonly subscriptions = new Set<string>();
+
+  constructor(registry: ToolRegistry, resources: ResourceRegistry = new ResourceRegistry()) {
+    this.registry = registry;
+    this.resources = resources;
+  }
+
+  /**
+   * Receive server-initiated notifications, e.g. to forward them over a transport
+   * @param listener Function called with each notification
+   * @returns Function that removes the listener
+   */
+  onNotification(listener: NotificationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a notification to every listener
+   * @param method Notification method
+   * @param params Notification parameters
+   */
+  notify(method: string, params?: Record<string, unknown>): void {
+    const notification: JsonRpcNotification = { jsonrpc: '2.0', method, params };
+    for (const listener of this.listeners) {
+      listener(notification);
+    }
+  }
+
+  /**
+   * Tell subscribed clients that a resource changed
+   * @param uri Resource URI
+   */
+  notifyResourceUpdated(uri: string): void {
+    if (this.subscriptions.has(uri)) {
+      this.notify('notifications/resources/updated', { uri });
+    }
+  }
+
+  /**
+   * Handle a raw JSON-RPC payload (single message or batch)
+   * @param payload Parsed JSON value
+   * @returns Response(s) to send, or null if nothing should be sent
+   */
+  async handlePayload(payload: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(payload)) {
+      if (payload.length === 0) {
+        return errorResponse(null, new JsonRpcError(ErrorCodes.INVALID_REQUEST, 'Empty batch'));
+      }
+      const responses = await Promise.all(payload.map(message => this.handleMessage(message)));
+      const filtered = responses.filter((response): response is JsonRpcResponse => response !== null);
+      return filtered.length > 0 ? filtered : null;
+    }
+    return this.handleMessage(payload);
+  }
+
+  /**
+   * Handle a single JSON-RPC message
+   * @param message Parsed JSON value
+   * @returns Response to send, or null for notifications and client responses
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    // Responses from the client (to server-initiated requests) need no reply
+    if (message && typeof message === 'object' && !('method' in message) && ('result' in message || 'error' in message)) {
+      return null;
+    }
+
+    if (!isJsonRpcRequest(message)) {
+      return errorResponse(null, new JsonRpcError(ErrorCodes.INVALID_REQUEST, 'Invalid JSON-RPC request'));
+    }
+
+    const notification = isNotification(message);
+
+    try {
+      const result = await this.dispatch(message);
+      return notification ? null : successResponse(message.id as string | number, result);
+    } catch (error) {
+      if (notification) {
+        return null;
+      }
+      const rpcError = error instanceof JsonRpcError
+        ? error
+        : new JsonRpcError(ErrorCodes.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+      return errorResponse(message.id as string | number, rpcError);
+    }
+  }
+
+  /**
+   * Route a request to its method handler
+   * @param request JSON-RPC request
+   * @returns Method result
+   */
+  private async dispatch(request: JsonRpcRequest): Promise<unknown> {
+    const params = request.params || {};
+
+    switch (request.method) {
+      case 'initialize':
+        return this.handleInitialize(params);
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return this.handleToolsList();
+      case 'tools/call':
+        return this.handleToolsCall(params);
+      case 'resources/list':
+        return { resources: this.resources.list() };
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+      case 'resources/read':
+        return this.handleResourcesRead(params);
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return this.handleSubscription(request.method, params);
+      default:
+        throw new JsonRpcError(ErrorCodes.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  /**
+   * Handle the initialize handshake
+   * @param params Initialize parameters
+   * @returns Server capabilities
+   */
+  private handleInitialize(params: Record<string, any>): Record<string, unknown> {
+    const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: true, listChanged: false }
+      },
+      serverInfo: this.serverInfo
+    };
+  }
+
+  /**
+   * Handle tools/list
+   * @returns Tool definitions
+   */
+  private handleToolsList(): Record<string, unknown> {
+    return {
+      tools: this.registry.list().map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }))
+    };
+  }
+
+  /**
+   * Handle resources/read
+   * @param params Read parameters (uri)
+   * @returns Resource contents
+   */
+  private async handleResourcesRead(params: Record<string, any>): Promise<Record<string, unknown>> {
+    if (typeof params.uri !== 'string') {
+      throw new JsonRpcError(ErrorCodes.INVALID_PARAMS, 'Resource URI is required');
+    }
+    try {
+      return { contents: [await this.resources.read(params.uri)] };
+    } catch (error) {
+      if (error instanceof UnknownResourceError) {
+        throw new JsonRpcError(ErrorCodes.RESOURCE_NOT_FOUND, error.message, { uri: params.uri });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle resources/subscribe and resources/unsubscribe
+   * @param method Request method
+   * @param params Subscription parameters (uri)
+   * @returns Empty result
+   */
+  private handleSubscription(method: string, params: Record<string, any>): Record<string, unknown> {
+    if (typeof params.uri !== 'string') {
+      throw new JsonRpcError(ErrorCodes.INVALID_PARAMS, 'Resource URI is required');
+    }
+    if (method === 'resources/unsubscribe') {
+      this.subscriptions.delete(params.uri);
+    } else if (this.resources.has(params.uri)) {
+      this.subscriptions.add(params.uri);
+    } else {
+      throw new JsonRpcError(ErrorCodes.RESOURCE_NOT_FOUND, `Resource not found: ${params.uri}`, { uri: params.uri });
+    }
+    return {};
+  }
+
+  /**
+   * Handle tools/call
+   * @param params Call parameters (name and arguments)
+   * @returns MCP tool result
+   */
+  private async handleToolsCall(params: Record<string, any>): Promise<Record<string, unknown>> {
+    if (typeof params.name !== 'string') {
+      throw new JsonRpcError(ErrorCodes.INVALID_PARAMS, 'Tool name is required');
+    }
+
+    try {
+      const result = await this.registry.call(params.name, params.arguments || {});
+      return {
+        content: [{ type: 'text', text: result.text ?? JSON.stringify(result.data, null, 2) }],
+        structuredContent: result.data,
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof UnknownToolError || error instanceof ToolInputError || error instanceof PathAccessError) {
+        throw new JsonRpcError(ErrorCodes.INVALID_PARAMS, error.message);
+      }
+      // Execution failures are reported inside the result so the model can see them
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: 'text', text: errorMessage }],
+        isError: true
+      };
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import * as readline from 'readline';
+import { ErrorCodes, JsonRpcError, errorResponse } from './jsonrpc';
+import { McpServer } from './server';
+import { createRequestId, logger } from '../utils/logger';
+
+/**
+ * Serve MCP over stdio: newline-delimited JSON-RPC messages on stdin/stdout
+ * @param server MCP server instance
+ * @returns Promise that resolves when stdin closes
+ */
+export function startStdioTransport(server: McpServer): Promise<void> {
+  // stdout carries protocol messages only; log to stderr and route stray console output there too
+  logger.configure({ stderrOnly: true });
+  console.log = console.error;
+  console.info = console.error;
+
+  const write = (message: unknown): void => {
+    process.stdout.write(JSON.stringify(message) + '\n');
+  };
+
+  // Resource updates and other server-initiated messages share stdout with responses
+  server.onNotification(write);
+
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+  const pending = new Set<Promise<void>>();
+
+  rl.on('line', line => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(trimmed);
+    } catch {
+      write(errorResponse(null, new JsonRpcError(ErrorCodes.PARSE_ERROR, 'Parse error')));
+      return;
+    }
+
+    const task: Promise<void> = logger.withContext({ requestId: createRequestId() }, () => server.handlePayload(payload))
+      .then(response => {
+        if (response) {
+          write(response);
+        }
+      })
+      .catch(error => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        write(errorResponse(null, new JsonRpcError(ErrorCodes.INTERNAL_ERROR, errorMessage)));
+      })
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  // Finish in-flight requests before reporting that the transport has closed
+  return new Promise(resolve => {
+    rl.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * Tool registry shared by the MCP transports and the legacy REST routes
+ */
+
+import { logger } from '../utils/logger';
+
+/**
+ * Subset of JSON Schema used to describe tool inputs
+ */
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  additionalProperties?: boolean;
+}
+
+/**
+ * Result of a tool invocation
+ */
+export interface ToolResult {
+  // JSON payload returned to REST clients and as MCP structured content
+  data: Record<string, unknown>;
+  // Plain-text rendering, used instead of JSON when the caller asks for format=table
+  text?: string;
+}
+
+/**
+ * Definition of a tool exposed over MCP and REST
+ */
+export interface Tool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  execute(args: Record<string, any>): Promise<ToolResult>;
+}
+
+/**
+ * Options for a single tool call
+ */
+export interface ToolCallOptions {
+  // Convert string values (e.g. from a URL query) to the schema type
+  coerce?: boolean;
+  // Abort the call after this many milliseconds
+  timeoutMs?: number;
+}
+
+/**
+ * Error raised when tool arguments do not match the input schema
+ */
+export class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolInputError';
+  }
+}
+
+/**
+ * Error raised when a tool name is not registered
+ */
+export class UnknownToolError extends Error {
+  constructor(name: string) {
+    super(`Unknown tool: ${name}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+/**
+ * Default timeout for a tool call (25 seconds)
+ */
+export const DEFAULT_TOOL_TIMEOUT_MS = 25000;
+
+/**
+ * Coerce and validate a single value against a schema
+ * @param value Raw value
+ * @param schema Schema for the value
+ * @param name Argument name used in error messages
+ * @param coerce Whether string values should be converted to the schema type
+ * @returns Validated value
+ */
+function normalizeValue(value: any, schema: JsonSchema, name: string, coerce: boolean): any {
+  let result = value;
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      if (coerce && typeof result === 'string' && result.trim() !== '') {
+        result = Number(result);
+      }
+      if (typeof result !== 'number' || Number.isNaN(result)) {
+        throw new ToolInputError(`Argument "${name}" must be a number`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(result)) {
+        throw new ToolInputError(`Argument "${name}" must be an integer`);
+      }
+      if (schema.minimum !== undefined && result < schema.minimum) {
+        throw new ToolInputError(`Argument "${name}" must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && result > schema.maximum) {
+        throw new ToolInputError(`Argument "${name}" must be <= ${schema.maximum}`);
+      }
+      break;
+    }
+    case 'boolean': {
+      if (coerce && typeof result === 'string') {
+        if (result === 'true' || result === '1') {
+          result = true;
+        } else if (result === 'false' || result === '0') {
+          result = false;
+        }
+      }
+      if (typeof result !== 'boolean') {
+        throw new ToolInputError(`Argument "${name}" must be a boolean`);
+      }
+      break;
+    }
+    case 'string': {
+      if (typeof result !== 'string') {
+        throw new ToolInputError(`Argument "${name}" must be a string`);
+      }
+      break;
+    }
+    case 'array': {
+      if (coerce && typeof result === 'string') {
+        result = result.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      }
+      if (!Array.isArray(result)) {
+        throw new ToolInputError(`Argument "${name}" must be an array`);
+      }
+      if (schema.items) {
+        const itemSchema = schema.items;
+        result = result.map((item: any, index: number) => normalizeValue(item, itemSchema, `${name}[${index}]`, coerce));
+      }
+      break;
+    }
+    case 'object': {
+      if (!result || typeof result !== 'object' || Array.isArray(result)) {
+        throw new ToolInputError(`Argument "${name}" must be an object`);
+      }
+      break;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(result)) {
+    throw new ToolInputError(`Argument "${name}" must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  return result;
+}
+
+/**
+ * Validate tool arguments against an object schema and apply defaults
+ * @param schema Tool input schema
+ * @param args Raw arguments
+ * @param coerce Whether string values should be converted to the schema type
+ * @returns Normalized arguments
+ */
+export function normalizeArguments(schema: JsonSchema, args: Record<string, any> = {}, coerce: boolean = false): Record<string, any> {
+  const properties = schema.properties || {};
+  const normalized: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) {
+      continue;
+    }
+    const propertySchema = properties[key];
+    if (!propertySchema) {
+      if (schema.additionalProperties === false) {
+        throw new ToolInputError(`Unknown argument "${key}"`);
+      }
+      normalized[key] = value;
+      continue;
+    }
+    // Repeated query parameters arrive as arrays; keep the last one for scalar arguments
+    const raw = coerce && Array.isArray(value) && propertySchema.type !== 'array' ? value[value.length - 1] : value;
+    normalized[key] = normalizeValue(raw, propertySchema, key, coerce);
+  }
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (normalized[key] === undefined && propertySchema.default !== undefined) {
+      normalized[key] = propertySchema.default;
+    }
+  }
+
+  for (const key of schema.required || []) {
+    if (normalized[key] === undefined) {
+      throw new ToolInputError(`Argument "${key}" is required`);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Registry of tools available to clients
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+  private timeoutMs = DEFAULT_TOOL_TIMEOUT_MS;
+  // Values used for arguments a caller leaves out, in place of the schema defaults
+  private argumentDefaults: Record<string, unknown> = {};
+
+  /**
+   * Change how long a tool call may run when the caller sets no timeout
+   * @param timeoutMs Timeout in milliseconds
+   */
+  setDefaultTimeout(timeoutMs: number): void {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Override argument defaults for every tool that has the argument and accepts the value,
+   * e.g. `{ format: 'table' }` for the tools that can render tables
+   * @param defaults Default values keyed by argument name
+   */
+  setArgumentDefaults(defaults: Record<string, unknown>): void {
+    this.argumentDefaults = { ...defaults };
+  }
+
+  /**
+   * Register a tool, replacing any tool with the same name
+   * @param tool Tool definition
+   */
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Look up a tool by name
+   * @param name Tool name
+   * @returns Tool definition or undefined
+   */
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * List all registered tools
+   * @returns Array of tool definitions
+   */
+  list(): Tool[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Validate arguments and run a tool
+   * @param name Tool name
+   * @param args Raw arguments
+   * @param options Call options
+   * @returns Tool result
+   */
+  async call(name: string, args: Record<string, any> = {}, options: ToolCallOptions = {}): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new UnknownToolError(name);
+    }
+
+    const normalized = normalizeArguments(tool.inputSchema, this.applyArgumentDefaults(tool, args), options.coerce);
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Operation timed out after ${timeoutMs / 1000} seconds`)), timeoutMs);
+    });
+
+    const span = logger.span('tool', { tool: name }, 'info');
+    try {
+      const result = await Promise.race([tool.execute(normalized), timeoutPromise]);
+      span.end();
+      return result;
+    } catch (error) {
+      span.end({ error });
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Fill in the configured argument defaults a tool accepts
+   * @param tool Tool definition
+   * @param args Raw arguments
+   * @returns Arguments with the defaults added
+   */
+  private applyArgumentDefaults(tool: Tool, args: Record<string, any>): Record<string, any> {
+    const result = { ...args };
+    const properties = tool.inputSchema.properties || {};
+    for (const [key, value] of Object.entries(this.argumentDefaults)) {
+      const schema = properties[key];
+      if (!schema || result[key] !== undefined) {
+        continue;
+      }
+      if (schema.enum && !schema.enum.includes(value as string | number)) {
+        continue;
+      }
+      if (typeof value === 'number' && (
+        (schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)
+      )) {
+        continue;
+      }
+      result[key] = value;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,74 @@
+import { CallQueryOptions, formatCallsTable, getCallees, getCallers } from '../analyzers';
+import { JsonSchema, Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Input properties shared by the call graph tools
+ */
+const CALL_QUERY_PROPERTIES: Record<string, JsonSchema> = {
+  path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+  symbol: { type: 'string', description: 'Function, method or class name, optionally qualified (e.g. "Repo.save")' },
+  file: { type: 'string', description: 'File declaring the symbol, to pick one of several symbols with the same name' },
+  line: { type: 'integer', description: 'A line inside the symbol, to pick one of several symbols in the file', minimum: 1 },
+  depth: { type: 'integer', description: 'Levels of the call graph to follow; 1 returns direct calls only', minimum: 1, maximum: 10, default: 1 },
+  includeUnresolved: { type: 'boolean', description: 'Include calls whose target could not be resolved, marked with resolved: false', default: true },
+  ...DISCOVERY_PROPERTIES,
+  limit: { type: 'integer', description: 'Maximum number of call edges to return', minimum: 1, maximum: 5000, default: 200 },
+  format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+};
+
+/**
+ * Read call query settings from tool arguments
+ * @param args Validated tool arguments
+ * @returns Query options
+ */
+function getCallQueryOptions(args: Record<string, any>): CallQueryOptions {
+  return {
+    ...getDiscoveryOptions(args),
+    file: args.file,
+    line: args.line,
+    depth: args.depth,
+    includeUnresolved: args.includeUnresolved,
+    limit: args.limit
+  };
+}
+
+/**
+ * Tool exposing getCallers
+ */
+export const getCallersTool: Tool = {
+  name: 'get_callers',
+  description: 'Find the functions that call a symbol, with the file and line of each call, following callers up to the given depth',
+  inputSchema: {
+    type: 'object',
+    properties: CALL_QUERY_PROPERTIES,
+    required: ['symbol']
+  },
+  async execute(args) {
+    const result = await getCallers(getTargetPath(args), args.symbol, getCallQueryOptions(args));
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatCallsTable(result) : undefined
+    };
+  }
+};
+
+/**
+ * Tool exposing getCallees
+ */
+export const getCalleesTool: Tool = {
+  name: 'get_callees',
+  description: 'Find the functions a symbol calls, with the file and line of each call, following callees down to the given depth',
+  inputSchema: {
+    type: 'object',
+    properties: CALL_QUERY_PROPERTIES,
+    required: ['symbol']
+  },
+  async execute(args) {
+    const result = await getCallees(getTargetPath(args), args.symbol, getCallQueryOptions(args));
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatCallsTable(result) : undefined
+    };
+  }
+};
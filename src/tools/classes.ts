@@ -0,0 +1,26 @@
+import { formatClassesTable, listClasses } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing listClasses
+ */
+export const getClassesTool: Tool = {
+  name: 'get_classes',
+  description: 'Get all classes in the specified directory',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to search; optional when `workspace` is given' },
+      ...DISCOVERY_PROPERTIES,
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const { classes, discovery } = await listClasses(getTargetPath(args), getDiscoveryOptions(args));
+    return {
+      data: { classes, discovery },
+      text: args.format === 'table' ? formatClassesTable(classes) : undefined
+    };
+  }
+};
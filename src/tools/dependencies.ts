@@ -0,0 +1,31 @@
+import { formatDependenciesDot, formatDependenciesMermaid, formatDependenciesTable, getDependencies } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing getDependencies
+ */
+export const getDependenciesTool: Tool = {
+  name: 'get_dependencies',
+  description: 'Get the import graph between the files of a directory, with circular dependencies, unresolved imports and external packages',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      ...DISCOVERY_PROPERTIES,
+      format: { type: 'string', description: 'Output format; dot and mermaid export the graph as a diagram', enum: ['json', 'table', 'dot', 'mermaid'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const graph = await getDependencies(getTargetPath(args), getDiscoveryOptions(args));
+    const formatters: Record<string, (value: typeof graph) => string> = {
+      table: formatDependenciesTable,
+      dot: formatDependenciesDot,
+      mermaid: formatDependenciesMermaid
+    };
+    return {
+      data: { ...graph },
+      text: formatters[args.format]?.(graph)
+    };
+  }
+};
@@ -0,0 +1,112 @@
+import { DiscoveryOptions } from '../utils/fileUtils';
+import { sandbox } from '../utils/sandbox';
+import { WorkspaceError, mergeDiscoveryOptions, workspaces } from '../utils/workspaces';
+import { JsonSchema, ToolInputError } from '../mcp/tools';
+
+/**
+ * Input properties selecting which files of a directory are analyzed
+ */
+export const DISCOVERY_SETTINGS: Record<string, JsonSchema> = {
+  maxDepth: { type: 'integer', description: 'Maximum directory depth to search; 0 only scans the directory itself (default 3)', minimum: 0 },
+  include: { type: 'array', items: { type: 'string' }, description: 'Only analyze files whose path relative to the directory matches one of these globs' },
+  exclude: { type: 'array', items: { type: 'string' }, description: 'Skip files whose path relative to the directory matches one of these globs' },
+  language: { type: 'array', items: { type: 'string' }, description: 'Only analyze files of these languages (e.g. typescript, python, go)' },
+  maxFileSize: { type: 'integer', description: 'Skip files larger than this many bytes (default 1048576)', minimum: 1 },
+  maxFiles: { type: 'integer', description: 'Analyze at most this many files (default 5000)', minimum: 1 }
+};
+
+/**
+ * Input property naming a registered workspace
+ */
+export const WORKSPACE_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: 'Name of a registered workspace to analyze instead of a path; with `path`, the path is taken relative to the workspace'
+};
+
+/**
+ * Input properties shared by tools that scan a directory
+ */
+export const DISCOVERY_PROPERTIES: Record<string, JsonSchema> = {
+  workspace: WORKSPACE_PROPERTY,
+  ...DISCOVERY_SETTINGS
+};
+
+/**
+ * Read discovery settings from tool arguments. With a workspace, the settings
+ * of its roots are applied first and the arguments on top of them.
+ * @param args Validated tool arguments
+ * @returns Discovery options
+ */
+export function getDiscoveryOptions(args: Record<string, any>): DiscoveryOptions {
+  const settings: DiscoveryOptions = {
+    maxDepth: args.maxDepth,
+    include: args.include,
+    exclude: args.exclude,
+    languages: args.language,
+    maxFileSize: args.maxFileSize,
+    maxFiles: args.maxFiles
+  };
+  if (args.workspace === undefined) {
+    return settings;
+  }
+  const workspace = workspaces.get(args.workspace);
+  if (!workspace) {
+    throw new ToolInputError(`Unknown workspace "${args.workspace}"`);
+  }
+  if (args.path !== undefined) {
+    const { root } = withWorkspace(() => workspaces.resolvePath(workspace.name, args.path));
+    return { ...mergeDiscoveryOptions(root.options, settings), workspace: workspace.name };
+  }
+  if (workspace.roots.length === 1) {
+    return { ...mergeDiscoveryOptions(workspace.roots[0].options, settings), workspace: workspace.name };
+  }
+  return {
+    workspace: workspace.name,
+    roots: workspace.roots.map(root => ({
+      ...root,
+      path: sandbox.check(root.path),
+      options: mergeDiscoveryOptions(root.options, settings)
+    }))
+  };
+}
+
+/**
+ * Get the path a tool should analyze
+ * @param args Validated tool arguments
+ * @returns The `path` argument, resolved against the workspace when one is given,
+ * or the first root of the workspace
+ * @throws PathAccessError when the path is outside the allowed roots
+ */
+export function getTargetPath(args: Record<string, any>): string {
+  if (args.workspace === undefined) {
+    if (args.path === undefined) {
+      throw new ToolInputError('Argument "path" or "workspace" is required');
+    }
+    return sandbox.check(args.path);
+  }
+  if (args.path !== undefined) {
+    return sandbox.check(withWorkspace(() => workspaces.resolvePath(args.workspace, args.path)).path);
+  }
+  const workspace = workspaces.get(args.workspace);
+  if (!workspace) {
+    throw new ToolInputError(`Unknown workspace "${args.workspace}"`);
+  }
+  return sandbox.check(workspace.roots[0].path);
+}
+
+/**
+ * Run a workspace registry call, reporting invalid definitions and unknown
+ * names as input errors
+ * @param action Registry call
+ * @returns Result of the call
+ */
+export function withWorkspace<T>(action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      throw new ToolInputError(error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,36 @@
+import { findDuplicates, formatDuplicatesTable } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing findDuplicates
+ */
+export const findDuplicatesTool: Tool = {
+  name: 'find_duplicates',
+  description: 'Find copy-pasted functions and blocks, matching code with renamed identifiers, changed literals and different whitespace, grouped with their locations and similarity',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      minTokens: { type: 'integer', description: 'Shortest duplicated function or block to report, in tokens', minimum: 10, maximum: 10000, default: 50 },
+      minSimilarity: { type: 'number', description: 'Lowest similarity (0 to 1) for two functions to be reported as near-duplicates', minimum: 0.5, maximum: 1, default: 0.85 },
+      kind: { type: 'string', description: 'Only report duplicated functions or only duplicated blocks', enum: ['function', 'block'] },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of clone groups to return', minimum: 1, maximum: 5000, default: 100 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const result = await findDuplicates(getTargetPath(args), {
+      ...getDiscoveryOptions(args),
+      minTokens: args.minTokens,
+      minSimilarity: args.minSimilarity,
+      kind: args.kind,
+      limit: args.limit
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatDuplicatesTable(result) : undefined
+    };
+  }
+};
@@ -0,0 +1,26 @@
+import { formatFunctionsTable, listFunctions } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing listFunctions
+ */
+export const getFunctionsTool: Tool = {
+  name: 'get_functions',
+  description: 'Get all functions in the specified directory',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to search; optional when `workspace` is given' },
+      ...DISCOVERY_PROPERTIES,
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const { functions, discovery } = await listFunctions(getTargetPath(args), getDiscoveryOptions(args));
+    return {
+      data: { functions, discovery },
+      text: args.format === 'table' ? formatFunctionsTable(functions) : undefined
+    };
+  }
+};
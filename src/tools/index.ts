@@ -0,0 +1,58 @@
+import { ToolRegistry } from '../mcp/tools';
+import { getFunctionsTool } from './functions';
+import { getClassesTool } from './classes';
+import { searchSymbolsTool } from './search';
+import { getCalleesTool, getCallersTool } from './calls';
+import { getDependenciesTool } from './dependencies';
+import { findReferencesTool } from './references';
+import { getSymbolSourceTool } from './source';
+import { getFileOutlineTool } from './outline';
+import { getProjectOverviewTool } from './overview';
+import { getMetricsTool } from './metrics';
+import { findUnusedTool } from './unused';
+import { findDuplicatesTool } from './duplicates';
+import { addWorkspaceTool, listWorkspacesTool, removeWorkspaceTool } from './workspaces';
+
+/**
+ * Create a registry containing all built-in analyzer tools
+ * @returns Tool registry
+ */
+export function createToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.register(getFunctionsTool);
+  registry.register(getClassesTool);
+  registry.register(searchSymbolsTool);
+  registry.register(getCallersTool);
+  registry.register(getCalleesTool);
+  registry.register(getDependenciesTool);
+  registry.register(findReferencesTool);
+  registry.register(getSymbolSourceTool);
+  registry.register(getFileOutlineTool);
+  registry.register(getProjectOverviewTool);
+  registry.register(getMetricsTool);
+  registry.register(findUnusedTool);
+  registry.register(findDuplicatesTool);
+  registry.register(addWorkspaceTool);
+  registry.register(removeWorkspaceTool);
+  registry.register(listWorkspacesTool);
+  return registry;
+}
+
+export {
+  getFunctionsTool,
+  getClassesTool,
+  searchSymbolsTool,
+  getCallersTool,
+  getCalleesTool,
+  getDependenciesTool,
+  findReferencesTool,
+  getSymbolSourceTool,
+  getFileOutlineTool,
+  getProjectOverviewTool,
+  getMetricsTool,
+  findUnusedTool,
+  findDuplicatesTool,
+  addWorkspaceTool,
+  removeWorkspaceTool,
+  listWorkspacesTool
+};
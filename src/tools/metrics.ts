@@ -0,0 +1,42 @@
+import { formatMetricsTable, getMetrics } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing getMetrics
+ */
+export const getMetricsTool: Tool = {
+  name: 'get_metrics',
+  description: 'Get the line count, parameter count, cyclomatic complexity, maximum nesting depth and cognitive complexity of each function, with totals per file and per directory',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      sort: { type: 'string', description: 'Metric to sort functions by, highest first; `name` and `file` sort alphabetically', enum: ['cyclomatic', 'cognitive', 'nesting', 'parameters', 'lines', 'name', 'file'], default: 'cyclomatic' },
+      minCyclomatic: { type: 'integer', description: 'Only list functions with at least this cyclomatic complexity', minimum: 0 },
+      minCognitive: { type: 'integer', description: 'Only list functions with at least this cognitive complexity', minimum: 0 },
+      minNesting: { type: 'integer', description: 'Only list functions nesting at least this deep', minimum: 0 },
+      minParameters: { type: 'integer', description: 'Only list functions with at least this many parameters', minimum: 0 },
+      minLines: { type: 'integer', description: 'Only list functions with at least this many lines', minimum: 0 },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of functions to return', minimum: 1, maximum: 10000, default: 100 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const result = await getMetrics(getTargetPath(args), {
+      ...getDiscoveryOptions(args),
+      sort: args.sort,
+      minCyclomatic: args.minCyclomatic,
+      minCognitive: args.minCognitive,
+      minNesting: args.minNesting,
+      minParameters: args.minParameters,
+      minLines: args.minLines,
+      limit: args.limit
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatMetricsTable(result) : undefined
+    };
+  }
+};
@@ -0,0 +1,27 @@
+import { formatOutlineText, getFileOutline } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { WORKSPACE_PROPERTY, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing getFileOutline
+ */
+export const getFileOutlineTool: Tool = {
+  name: 'get_file_outline',
+  description: 'Get the symbol tree of a single file: modules, classes, their methods and nested functions, with ranges and kinds',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Path of the file to outline, relative to the workspace when `workspace` is given' },
+      workspace: WORKSPACE_PROPERTY,
+      format: { type: 'string', description: 'Output format', enum: ['json', 'text'], default: 'json' }
+    },
+    required: ['path']
+  },
+  async execute(args) {
+    const result = await getFileOutline(getTargetPath(args));
+    return {
+      data: { ...result },
+      text: args.format === 'text' ? formatOutlineText(result) : undefined
+    };
+  }
+};
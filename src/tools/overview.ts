@@ -0,0 +1,34 @@
+import { formatOverviewText, getProjectOverview } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing getProjectOverview
+ */
+export const getProjectOverviewTool: Tool = {
+  name: 'get_project_overview',
+  description: 'Summarise a project for onboarding: languages, directory tree, entry points, most-referenced symbols and a map of exported symbols per file, within a token budget',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Project root directory; optional when `workspace` is given' },
+      maxTokens: { type: 'integer', description: 'Approximate size of the overview in tokens; the least important entries are dropped to fit', minimum: 100, maximum: 200000, default: 4000 },
+      treeDepth: { type: 'integer', description: 'Levels of directories to show in the tree', minimum: 1, maximum: 10, default: 2 },
+      topSymbols: { type: 'integer', description: 'Number of most-referenced symbols to list', minimum: 0, maximum: 500, default: 20 },
+      ...DISCOVERY_PROPERTIES,
+      format: { type: 'string', description: 'Output format', enum: ['json', 'text'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const result = await getProjectOverview(getTargetPath(args), {
+      ...getDiscoveryOptions(args),
+      maxTokens: args.maxTokens,
+      treeDepth: args.treeDepth,
+      topSymbols: args.topSymbols
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'text' ? formatOverviewText(result) : undefined
+    };
+  }
+};
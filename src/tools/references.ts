@@ -0,0 +1,42 @@
+import { findReferences, formatReferencesTable } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing findReferences
+ */
+export const findReferencesTool: Tool = {
+  name: 'find_references',
+  description: 'Find every usage of a symbol with its file, line, column and source line, classified as declaration, read, write, call, type or import',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      symbol: { type: 'string', description: 'Symbol name, optionally qualified with its container (e.g. "Repo.save")' },
+      file: { type: 'string', description: 'File declaring the symbol, to pick one of several symbols with the same name' },
+      container: { type: 'string', description: 'Class, namespace or module declaring the symbol' },
+      kind: {
+        type: 'array',
+        description: 'Only return references of these kinds',
+        items: { type: 'string', enum: ['declaration', 'read', 'write', 'call', 'type', 'import'] }
+      },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of references to return', minimum: 1, maximum: 10000, default: 500 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    },
+    required: ['symbol']
+  },
+  async execute(args) {
+    const result = await findReferences(getTargetPath(args), args.symbol, {
+      ...getDiscoveryOptions(args),
+      file: args.file,
+      container: args.container,
+      kinds: args.kind,
+      limit: args.limit
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatReferencesTable(result) : undefined
+    };
+  }
+};
@@ -0,0 +1,42 @@
+import { formatSymbolsTable, searchSymbols } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing searchSymbols
+ */
+export const searchSymbolsTool: Tool = {
+  name: 'search_symbols',
+  description: 'Search functions, methods, classes and other symbols by name with fuzzy, camelCase-aware ranking',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to search; optional when `workspace` is given' },
+      query: { type: 'string', description: 'Symbol name, prefix, camelCase initials (e.g. "gUBI") or qualified name (e.g. "Repo.save")' },
+      kind: { type: 'array', items: { type: 'string' }, description: 'Only include these kinds or types (e.g. method, class, function)' },
+      pathGlob: { type: 'string', description: 'Only include files whose path relative to the search root matches this glob' },
+      exportedOnly: { type: 'boolean', description: 'Only include exported symbols', default: false },
+      container: { type: 'string', description: 'Only include symbols inside this class, namespace or module' },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of matches to return', minimum: 1, maximum: 1000, default: 50 },
+      offset: { type: 'integer', description: 'Number of matches to skip', minimum: 0, default: 0 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    },
+    required: ['query']
+  },
+  async execute(args) {
+    const result = await searchSymbols(getTargetPath(args), args.query, {
+      ...getDiscoveryOptions(args),
+      kinds: args.kind,
+      pathGlob: args.pathGlob,
+      exportedOnly: args.exportedOnly,
+      container: args.container,
+      limit: args.limit,
+      offset: args.offset
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatSymbolsTable(result) : undefined
+    };
+  }
+};
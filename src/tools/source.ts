@@ -0,0 +1,44 @@
+import { formatSymbolSourceText, getSymbolSource } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing getSymbolSource
+ */
+export const getSymbolSourceTool: Tool = {
+  name: 'get_symbol_source',
+  description: 'Get the source code of a function, class or method with its documentation comment and optional surrounding lines, cut to a line and byte budget',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      symbol: { type: 'string', description: 'Function, method or class name, optionally qualified (e.g. "Repo.save")' },
+      file: { type: 'string', description: 'File declaring the symbol, to pick one of several symbols with the same name' },
+      line: { type: 'integer', description: 'A line inside the symbol, to pick one of several symbols in the file', minimum: 1 },
+      context: { type: 'integer', description: 'Lines of surrounding code to include before and after the symbol', minimum: 0, maximum: 200, default: 0 },
+      includeDocumentation: { type: 'boolean', description: 'Include the comment block written right above the symbol', default: true },
+      maxLines: { type: 'integer', description: 'Maximum number of lines returned over all symbols', minimum: 1, maximum: 20000, default: 400 },
+      maxBytes: { type: 'integer', description: 'Maximum number of bytes returned over all symbols', minimum: 1, maximum: 1048576, default: 32768 },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of symbols to return', minimum: 1, maximum: 100, default: 10 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'text'], default: 'json' }
+    },
+    required: ['symbol']
+  },
+  async execute(args) {
+    const result = await getSymbolSource(getTargetPath(args), args.symbol, {
+      ...getDiscoveryOptions(args),
+      file: args.file,
+      line: args.line,
+      context: args.context,
+      includeDocumentation: args.includeDocumentation,
+      maxLines: args.maxLines,
+      maxBytes: args.maxBytes,
+      limit: args.limit
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'text' ? formatSymbolSourceText(result) : undefined
+    };
+  }
+};
@@ -0,0 +1,40 @@
+import { findUnused, formatUnusedTable } from '../analyzers';
+import { Tool } from '../mcp/tools';
+import { DISCOVERY_PROPERTIES, getDiscoveryOptions, getTargetPath } from './discovery';
+
+/**
+ * Tool exposing findUnused
+ */
+export const findUnusedTool: Tool = {
+  name: 'find_unused',
+  description: 'Find functions and classes that nothing references outside their own definition, skipping entry points, tests and framework hooks, with a confidence level per result',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Directory path to analyze; optional when `workspace` is given' },
+      type: { type: 'string', description: 'Only report functions or only classes', enum: ['function', 'class'] },
+      minConfidence: { type: 'string', description: 'Lowest confidence to report', enum: ['high', 'medium', 'low'], default: 'low' },
+      includeExported: { type: 'boolean', description: 'Report exported symbols, which code outside the project may use', default: true },
+      includeTests: { type: 'boolean', description: 'Also check the functions and classes declared in test files', default: false },
+      countTestReferences: { type: 'boolean', description: 'Count references from test files as usage', default: true },
+      ...DISCOVERY_PROPERTIES,
+      limit: { type: 'integer', description: 'Maximum number of symbols to return', minimum: 1, maximum: 10000, default: 200 },
+      format: { type: 'string', description: 'Output format', enum: ['json', 'table'], default: 'json' }
+    }
+  },
+  async execute(args) {
+    const result = await findUnused(getTargetPath(args), {
+      ...getDiscoveryOptions(args),
+      type: args.type,
+      minConfidence: args.minConfidence,
+      includeExported: args.includeExported,
+      includeTests: args.includeTests,
+      countTestReferences: args.countTestReferences,
+      limit: args.limit
+    });
+    return {
+      data: { ...result },
+      text: args.format === 'table' ? formatUnusedTable(result) : undefined
+    };
+  }
+};
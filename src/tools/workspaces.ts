@@ -0,0 +1,79 @@
+import { Tool } from '../mcp/tools';
+import { sandbox } from '../utils/sandbox';
+import { workspaces } from '../utils/workspaces';
+import { DISCOVERY_SETTINGS, withWorkspace } from './discovery';
+
+/**
+ * Tool registering a named workspace
+ */
+export const addWorkspaceTool: Tool = {
+  name: 'add_workspace',
+  description: 'Register a named workspace of one or more project roots, each with its own ignore globs, languages and depth, so other tools can take `workspace` instead of `path`',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Workspace name: letters, digits, "_", "-" and "."' },
+      roots: {
+        type: 'array',
+        description: 'Root directories, as paths or as objects with `path` and optional `name`, `include`, `exclude`, `language`, `maxDepth`, `maxFileSize` and `maxFiles`; root names label results from several roots'
+      },
+      ...DISCOVERY_SETTINGS,
+      replace: { type: 'boolean', description: 'Replace a workspace with the same name', default: false }
+    },
+    required: ['name', 'roots']
+  },
+  async execute(args) {
+    const config = {
+      name: args.name,
+      roots: args.roots,
+      maxDepth: args.maxDepth,
+      include: args.include,
+      exclude: args.exclude,
+      language: args.language,
+      maxFileSize: args.maxFileSize,
+      maxFiles: args.maxFiles
+    };
+    // Checked before registering so a rejected root never replaces an existing workspace
+    for (const root of Array.isArray(args.roots) ? args.roots : []) {
+      const rootPath = typeof root === 'string' ? root : root?.path;
+      if (typeof rootPath === 'string') {
+        sandbox.check(rootPath);
+      }
+    }
+    const workspace = withWorkspace(() => workspaces.add(config, process.cwd(), args.replace));
+    return { data: { workspace } };
+  }
+};
+
+/**
+ * Tool unregistering a workspace
+ */
+export const removeWorkspaceTool: Tool = {
+  name: 'remove_workspace',
+  description: 'Unregister a workspace; its files and index cache are left untouched',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Workspace name' }
+    },
+    required: ['name']
+  },
+  async execute(args) {
+    return { data: { name: args.name, removed: workspaces.remove(args.name) } };
+  }
+};
+
+/**
+ * Tool listing the registered workspaces
+ */
+export const listWorkspacesTool: Tool = {
+  name: 'list_workspaces',
+  description: 'List the registered workspaces with their roots and the discovery settings of each root',
+  inputSchema: {
+    type: 'object',
+    properties: {}
+  },
+  async execute() {
+    return { data: { workspaces: workspaces.list() } };
+  }
+};
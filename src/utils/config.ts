@@ -0,0 +1,450 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { LanguageOptions, SUPPORTED_LANGUAGES, configureLanguages, setScanTimeout } from './fileUtils';
+import { COMMON_IGNORES, setCommonIgnores } from './ignore';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel } from './logger';
+import { WorkspaceConfig } from './workspaces';
+
+/**
+ * How the server is reached
+ */
+export interface ServerSettings {
+  port: number;
+  host: string;
+  transport: 'http' | 'stdio';
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  // Project roots indexed at startup and kept live
+  watch: string[];
+  // Directories clients may analyze; empty allows any path
+  allowedRoots: string[];
+  // Origins browsers may call the HTTP server from
+  corsOrigins: string[];
+}
+
+/**
+ * Time limits, in milliseconds
+ */
+export interface TimeoutSettings {
+  // Whole HTTP request
+  requestMs: number;
+  // One tool call
+  toolMs: number;
+  // One directory scan
+  scanMs: number;
+}
+
+/**
+ * Defaults for tool arguments that shape results
+ */
+export interface OutputSettings {
+  // Used by the tools that accept the value
+  format?: 'json' | 'table' | 'text';
+  limit?: number;
+}
+
+/**
+ * Complete server configuration
+ */
+export interface AnalyzerConfig {
+  server: ServerSettings;
+  timeouts: TimeoutSettings;
+  // Directories and patterns skipped in every project, in .gitignore syntax
+  ignore: string[];
+  languages: Record<string, LanguageOptions>;
+  output: OutputSettings;
+  workspaces: WorkspaceConfig[];
+}
+
+/**
+ * Contents of a config file; every section and setting is optional
+ */
+export interface ConfigFile {
+  server?: Partial<ServerSettings>;
+  timeouts?: Partial<TimeoutSettings>;
+  ignore?: string[];
+  languages?: Record<string, LanguageOptions>;
+  output?: OutputSettings;
+  workspaces?: WorkspaceConfig[];
+}
+
+/**
+ * Error raised when a config file or setting is invalid; lists every problem found
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Expected type and range of one setting
+ */
+interface SettingRule {
+  type: 'integer' | 'string' | 'boolean' | 'string[]';
+  minimum?: number;
+  maximum?: number;
+  choices?: readonly string[];
+  // Relative paths are resolved against the directory of the config file
+  paths?: boolean;
+}
+
+/**
+ * Settings of the sections that hold plain values
+ */
+const SECTION_RULES: Record<string, Record<string, SettingRule>> = {
+  server: {
+    port: { type: 'integer', minimum: 0, maximum: 65535 },
+    host: { type: 'string' },
+    transport: { type: 'string', choices: ['http', 'stdio'] },
+    logLevel: { type: 'string', choices: LOG_LEVELS },
+    logFormat: { type: 'string', choices: LOG_FORMATS },
+    watch: { type: 'string[]', paths: true },
+    allowedRoots: { type: 'string[]', paths: true },
+    corsOrigins: { type: 'string[]' }
+  },
+  timeouts: {
+    requestMs: { type: 'integer', minimum: 1 },
+    toolMs: { type: 'integer', minimum: 1 },
+    scanMs: { type: 'integer', minimum: 1 }
+  },
+  output: {
+    format: { type: 'string', choices: ['json', 'table', 'text'] },
+    limit: { type: 'integer', minimum: 1 }
+  }
+};
+
+/**
+ * Settings of each entry of `languages`
+ */
+const LANGUAGE_RULES: Record<string, SettingRule> = {
+  enabled: { type: 'boolean' },
+  extensions: { type: 'string[]' }
+};
+
+/**
+ * Parser settings that only apply to one language
+ */
+const PARSER_RULES: Record<string, Record<string, SettingRule>> = {
+  typescript: {
+    jsx: { type: 'boolean' }
+  },
+  python: {
+    docstrings: { type: 'boolean' }
+  }
+};
+
+const TOP_LEVEL_KEYS = [...Object.keys(SECTION_RULES), 'ignore', 'languages', 'workspaces'];
+
+/**
+ * Create the configuration used when nothing is configured
+ * @returns A new configuration object
+ */
+export function createDefaultConfig(): AnalyzerConfig {
+  return {
+    server: {
+      port: 3000,
+      host: '127.0.0.1',
+      transport: 'http',
+      logLevel: 'info',
+      logFormat: 'text',
+      watch: [],
+      allowedRoots: [],
+      corsOrigins: []
+    },
+    timeouts: { requestMs: 30000, toolMs: 25000, scanMs: 20000 },
+    ignore: [...COMMON_IGNORES],
+    languages: {},
+    output: {},
+    workspaces: []
+  };
+}
+
+/**
+ * Count the single-character edits between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Describe an unknown key, suggesting the closest known one
+ * @param key Key path as written
+ * @param name Last part of the key
+ * @param known Keys allowed at that level
+ * @returns Problem description
+ */
+function unknownKey(key: string, name: string, known: readonly string[]): string {
+  const closest = known
+    .map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const hint = closest && closest.distance <= 2 ? ` (did you mean "${closest.candidate}"?)` : ` (expected one of: ${known.join(', ')})`;
+  return `unknown setting "${key}"${hint}`;
+}
+
+/**
+ * Check one setting against its rule
+ * @param value Value as written
+ * @param rule Expected type and range
+ * @param key Key path used in problem descriptions
+ * @param problems Problems found so far; appended to
+ * @param baseDir Directory relative paths are resolved against
+ * @returns The value, with paths resolved, or undefined when it is invalid
+ */
+function checkSetting(value: unknown, rule: SettingRule, key: string, problems: string[], baseDir: string): unknown {
+  const shown = JSON.stringify(value);
+  switch (rule.type) {
+    case 'integer': {
+      const inRange = typeof value === 'number' && Number.isInteger(value) &&
+        (rule.minimum === undefined || value >= rule.minimum) && (rule.maximum === undefined || value <= rule.maximum);
+      if (!inRange) {
+        const range = rule.maximum !== undefined ? ` between ${rule.minimum} and ${rule.maximum}` : ` >= ${rule.minimum}`;
+        problems.push(`${key} must be an integer${range}, got ${shown}`);
+        return undefined;
+      }
+      return value;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        problems.push(`${key} must be true or false, got ${shown}`);
+        return undefined;
+      }
+      return value;
+    case 'string':
+      if (typeof value !== 'string' || (rule.choices && !rule.choices.includes(value))) {
+        problems.push(rule.choices
+          ? `${key} must be one of ${rule.choices.join(', ')}, got ${shown}`
+          : `${key} must be a string, got ${shown}`);
+        return undefined;
+      }
+      return value;
+    case 'string[]':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        problems.push(`${key} must be a list of strings, got ${shown}`);
+        return undefined;
+      }
+      return rule.paths ? value.map(item => path.resolve(baseDir, item)) : value;
+  }
+}
+
+/**
+ * Check that a value is a plain object
+ * @param value Value as written
+ * @param key Key path used in problem descriptions
+ * @param problems Problems found so far; appended to
+ * @returns True for objects that are not arrays
+ */
+function isSection(value: unknown, key: string, problems: string[]): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    problems.push(`${key} must be a mapping of settings, got ${JSON.stringify(value)}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check the `languages` section
+ * @param value Section as written
+ * @param problems Problems found so far; appended to
+ * @returns Valid language settings
+ */
+function checkLanguages(value: Record<string, unknown>, problems: string[]): Record<string, LanguageOptions> {
+  const languages: Record<string, LanguageOptions> = {};
+  const owners = new Map<string, string>();
+
+  for (const [language, settings] of Object.entries(value)) {
+    const key = `languages.${language}`;
+    if (!SUPPORTED_LANGUAGES.includes(language)) {
+      problems.push(unknownKey(key, language, SUPPORTED_LANGUAGES));
+      continue;
+    }
+    if (!isSection(settings, key, problems)) {
+      continue;
+    }
+    const options: LanguageOptions = {};
+    const rules = { ...LANGUAGE_RULES, ...PARSER_RULES[language] };
+    for (const [name, setting] of Object.entries(settings)) {
+      const rule = rules[name];
+      if (!rule) {
+        problems.push(unknownKey(`${key}.${name}`, name, Object.keys(rules)));
+        continue;
+      }
+      (options as Record<string, unknown>)[name] = checkSetting(setting, rule, `${key}.${name}`, problems, '');
+    }
+    for (const extension of options.extensions || []) {
+      if (!/^\.[\w.+-]+$/.test(extension)) {
+        problems.push(`${key}.extensions: "${extension}" must start with a dot, like ".mts"`);
+      } else if (owners.has(extension.toLowerCase())) {
+        problems.push(`${key}.extensions: "${extension}" is already used by ${owners.get(extension.toLowerCase())}`);
+      } else {
+        owners.set(extension.toLowerCase(), language);
+      }
+    }
+    languages[language] = options;
+  }
+  return languages;
+}
+
+/**
+ * Check the `workspaces` section. Names and roots are checked again when the
+ * workspaces are registered; this only resolves root paths.
+ * @param value Section as written
+ * @param problems Problems found so far; appended to
+ * @param baseDir Directory relative root paths are resolved against
+ * @returns Workspace definitions with absolute root paths
+ */
+function checkWorkspaces(value: unknown, problems: string[], baseDir: string): WorkspaceConfig[] {
+  if (!Array.isArray(value)) {
+    problems.push(`workspaces must be a list, got ${JSON.stringify(value)}`);
+    return [];
+  }
+  const workspaces: WorkspaceConfig[] = [];
+  value.forEach((workspace, index) => {
+    const key = `workspaces[${index}]`;
+    if (!isSection(workspace, key, problems)) {
+      return;
+    }
+    if (!Array.isArray(workspace.roots)) {
+      problems.push(`${key}.roots must be a list of directories`);
+      return;
+    }
+    const roots = workspace.roots.map((root: unknown) => {
+      if (typeof root === 'string') {
+        return path.resolve(baseDir, root);
+      }
+      if (root && typeof root === 'object' && typeof (root as { path?: unknown }).path === 'string') {
+        return { ...root, path: path.resolve(baseDir, (root as { path: string }).path) };
+      }
+      return root;
+    });
+    workspaces.push({ ...workspace, roots } as WorkspaceConfig);
+  });
+  return workspaces;
+}
+
+/**
+ * Check parsed configuration values
+ * @param raw Parsed file contents
+ * @param source File name or other source, used in the error message
+ * @param baseDir Directory relative paths are resolved against
+ * @returns Valid settings, with paths made absolute
+ * @throws ConfigError listing every problem
+ */
+export function validateConfig(raw: unknown, source: string, baseDir: string): ConfigFile {
+  const problems: string[] = [];
+  const config: ConfigFile = {};
+  if (raw === null || raw === undefined) {
+    return config;
+  }
+  if (!isSection(raw, 'the top level', problems)) {
+    throw new ConfigError(source, problems);
+  }
+
+  for (const [section, value] of Object.entries(raw)) {
+    const rules = SECTION_RULES[section];
+    if (rules) {
+      if (!isSection(value, section, problems)) {
+        continue;
+      }
+      const settings: Record<string, unknown> = {};
+      for (const [name, setting] of Object.entries(value)) {
+        if (!rules[name]) {
+          problems.push(unknownKey(`${section}.${name}`, name, Object.keys(rules)));
+          continue;
+        }
+        const checked = checkSetting(setting, rules[name], `${section}.${name}`, problems, baseDir);
+        if (checked !== undefined) {
+          settings[name] = checked;
+        }
+      }
+      (config as Record<string, unknown>)[section] = settings;
+    } else if (section === 'ignore') {
+      config.ignore = checkSetting(value, { type: 'string[]' }, 'ignore', problems, baseDir) as string[] | undefined;
+    } else if (section === 'languages') {
+      if (isSection(value, section, problems)) {
+        config.languages = checkLanguages(value, problems);
+      }
+    } else if (section === 'workspaces') {
+      config.workspaces = checkWorkspaces(value, problems, baseDir);
+    } else {
+      problems.push(unknownKey(section, section, TOP_LEVEL_KEYS));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+  return config;
+}
+
+/**
+ * Read and check a JSON or YAML config file. Files ending in `.json` are read
+ * as JSON, anything else as YAML.
+ * @param configPath Path of the file
+ * @returns Valid settings, with paths resolved against the file's directory
+ * @throws ConfigError when the file cannot be read, parsed or validated
+ */
+export function loadConfigFile(configPath: string): ConfigFile {
+  const file = path.resolve(configPath);
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(file, [`cannot read the file: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError(file, [`cannot parse the file: ${error instanceof Error ? error.message : error}`]);
+  }
+  return validateConfig(raw, file, path.dirname(file));
+}
+
+/**
+ * Apply settings on top of a configuration. Lists of roots to watch and
+ * allow are added to; every other setting is replaced.
+ * @param base Configuration to start from
+ * @param overrides Settings from a file, the environment or the command line
+ * @returns New configuration
+ */
+export function mergeConfig(base: AnalyzerConfig, overrides: ConfigFile): AnalyzerConfig {
+  const server = { ...base.server, ...overrides.server };
+  server.watch = [...new Set([...base.server.watch, ...(overrides.server?.watch || [])])];
+  server.allowedRoots = [...new Set([...base.server.allowedRoots, ...(overrides.server?.allowedRoots || [])])];
+  return {
+    server,
+    timeouts: { ...base.timeouts, ...overrides.timeouts },
+    ignore: overrides.ignore ?? base.ignore,
+    languages: { ...base.languages, ...overrides.languages },
+    output: { ...base.output, ...overrides.output },
+    workspaces: [...base.workspaces, ...(overrides.workspaces || [])]
+  };
+}
+
+/**
+ * Apply the settings that change which files are analyzed and how
+ * @param config Configuration
+ */
+export function applyAnalysisSettings(config: AnalyzerConfig): void {
+  setCommonIgnores(config.ignore);
+  configureLanguages(config.languages);
+  setScanTimeout(config.timeouts.scanMs);
+}
@@ -1,146 +1,450 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+import { COMMON_IGNORES, IgnoreMatcher } from './ignore';
+import { logger } from './logger';
+import { sandbox } from './sandbox';
 
 /**
- * Supported file extensions for code analysis
+ * Give up on a directory scan after this long, unless changed with setScanTimeout
  */
-export const SUPPORTED_EXTENSIONS = [
-  '.js', '.ts', '.jsx', '.tsx',  // JavaScript/TypeScript
-  '.py',                         // Python
-  '.java',                       // Java
-  '.cs',                         // C#
-  '.go',                         // Go
-  '.rb',                         // Ruby
-  '.php',                        // PHP
-  '.swift',                      // Swift
-  '.c', '.cpp', '.h', '.hpp'     // C/C++
-];
+export const SEARCH_TIMEOUT_MS = 20000;
+
+// Scan timeout in effect
+let scanTimeoutMs = SEARCH_TIMEOUT_MS;
+
+/**
+ * Built-in language of each file extension
+ */
+const DEFAULT_EXTENSION_LANGUAGES: Record<string, string> = {
+  '.js': 'javascript', '.jsx': 'javascript',
+  '.ts': 'typescript', '.tsx': 'typescript',
+  '.py': 'python',
+  '.java': 'java',
+  '.cs': 'csharp',
+  '.go': 'go',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.swift': 'swift',
+  '.c': 'c', '.h': 'c',
+  '.cpp': 'cpp', '.hpp': 'cpp'
+};
+
+/**
+ * Languages that have a parser
+ */
+export const SUPPORTED_LANGUAGES = [...new Set(Object.values(DEFAULT_EXTENSION_LANGUAGES))];
+
+// Extensions in effect and their languages
+let extensionLanguages = new Map(Object.entries(DEFAULT_EXTENSION_LANGUAGES));
+
+/**
+ * Extensions that are parsed, updated in place when the language settings change
+ * @deprecated Use getSupportedExtensions()
+ */
+export const SUPPORTED_EXTENSIONS: string[] = Object.keys(DEFAULT_EXTENSION_LANGUAGES);
+
+// Settings in effect, keyed by language
+let languageSettings: Record<string, LanguageOptions> = {};
+
+/**
+ * Per-language settings
+ */
+export interface LanguageOptions {
+  // False skips files of the language entirely
+  enabled?: boolean;
+  // Extensions parsed as this language, replacing the built-in ones (e.g. [".ts", ".mts", ".cts"])
+  extensions?: string[];
+  // TypeScript only: allow JSX in every file, not just `.tsx`
+  jsx?: boolean;
+  // Python only: false leaves docstrings out of the entities
+  docstrings?: boolean;
+}
+
+/**
+ * Default limits applied by discoverFiles
+ */
+export const DEFAULT_MAX_DEPTH = 3;
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+export const DEFAULT_MAX_FILES = 5000;
+
+/**
+ * Request-level settings for file discovery
+ */
+export interface DiscoveryOptions {
+  // Maximum directory depth below the root; 0 only scans the root itself
+  maxDepth?: number;
+  // Globs matched against the path relative to the root; a file must match one of them
+  include?: string[];
+  // Globs matched against the path relative to the root; matching files are skipped
+  exclude?: string[];
+  // Languages to include, as returned by getFileLanguage
+  languages?: string[];
+  // Files larger than this many bytes are skipped
+  maxFileSize?: number;
+  // At most this many files are analyzed, in path order
+  maxFiles?: number;
+  // Workspace the query was made in, reported in the discovery summary
+  workspace?: string;
+  // Directories analyzed instead of the given one; file paths are prefixed with the root name
+  roots?: DiscoveryRoot[];
+}
+
+/**
+ * A named directory analyzed as part of a workspace
+ */
+export interface DiscoveryRoot {
+  name: string;
+  path: string;
+  // Settings of this root; a query's own settings are applied on top of them
+  options: DiscoveryOptions;
+}
+
+/**
+ * Effective discovery settings and what they selected
+ */
+export interface DiscoverySummary {
+  root: string;
+  // null when the depth is unlimited
+  maxDepth: number | null;
+  include: string[];
+  exclude: string[];
+  languages: string[];
+  maxFileSize: number;
+  maxFiles: number;
+  // Files that passed every filter, before the file count cap
+  filesMatched: number;
+  filesScanned: number;
+  skippedLargeFiles: number;
+  truncated: boolean;
+  workspace?: string;
+  // Label of a workspace root, prefixed to its file paths
+  name?: string;
+  // Summary of each root when several were analyzed; the settings above are those of the first
+  roots?: DiscoverySummary[];
+}
+
+/**
+ * Files selected by discoverFiles
+ */
+export interface DiscoveryResult {
+  files: string[];
+  summary: DiscoverySummary;
+}
+
+/**
+ * Check whether a relative path matches any of a list of globs.
+ * A pattern without a slash matches the file name at any depth.
+ * @param relativePath Path relative to the root, with forward slashes
+ * @param patterns Glob patterns
+ * @returns True if a pattern matches
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') }));
+}
+
+/**
+ * Give up on directory scans after a different time
+ * @param timeoutMs Milliseconds a scan may take
+ */
+export function setScanTimeout(timeoutMs: number): void {
+  scanTimeoutMs = timeoutMs;
+}
+
+/**
+ * Change which extensions are parsed as which language. Languages without
+ * settings keep their built-in extensions, except those claimed by another language.
+ * @param languages Settings keyed by language, as returned by getFileLanguage
+ */
+export function configureLanguages(languages: Record<string, LanguageOptions>): void {
+  const mapping = new Map<string, string>();
+  // Configured extensions are mapped last so they win over the built-in ones of other languages
+  const ordered = [...SUPPORTED_LANGUAGES].sort((a, b) => Number(!!languages[a]?.extensions) - Number(!!languages[b]?.extensions));
+  for (const language of ordered) {
+    const options = languages[language] || {};
+    if (options.enabled === false) {
+      continue;
+    }
+    const extensions = options.extensions ||
+      Object.keys(DEFAULT_EXTENSION_LANGUAGES).filter(extension => DEFAULT_EXTENSION_LANGUAGES[extension] === language);
+    for (const extension of extensions) {
+      mapping.set(extension.toLowerCase(), language);
+    }
+  }
+  extensionLanguages = mapping;
+  languageSettings = { ...languages };
+  SUPPORTED_EXTENSIONS.splice(0, SUPPORTED_EXTENSIONS.length, ...mapping.keys());
+}
+
+/**
+ * Get the extensions that are parsed
+ * @returns Extensions of the enabled languages, with their leading dot
+ */
+export function getSupportedExtensions(): string[] {
+  return [...extensionLanguages.keys()];
+}
+
+/**
+ * Get the settings of a language
+ * @param language Language, as returned by getFileLanguage
+ * @returns Settings given to configureLanguages, or none
+ */
+export function getLanguageOptions(language: string): LanguageOptions {
+  return languageSettings[language] || {};
+}
+
+/**
+ * Describe the language settings that change parse results, so indexes built
+ * with other settings can be told apart
+ * @returns Stable text of the extension mapping and the per-language settings
+ */
+export function describeLanguageSettings(): string {
+  const options = Object.keys(languageSettings).sort().map(language => [language, languageSettings[language]]);
+  return JSON.stringify({ extensions: [...extensionLanguages].sort(), options });
+}
+
+/**
+ * Check whether a file has an extension that is parsed
+ * @param filePath File path or name
+ * @returns True if the extension belongs to an enabled language
+ */
+export function isSupportedFile(filePath: string): boolean {
+  return extensionLanguages.has(path.extname(filePath).toLowerCase());
+}
 
 /**
  * Read and parse .gitignore file
+ * @deprecated Use IgnoreMatcher, which also applies nested ignore files, `.analyzerignore` and `.git/info/exclude`
  * @param dirPath Directory path where .gitignore file is located
  * @returns Array of ignore patterns
  */
 export function readGitignore(dirPath: string): string[] {
   try {
     const gitignorePath = path.join(dirPath, '.gitignore');
-    
-    // Check if .gitignore exists
     if (!fs.existsSync(gitignorePath)) {
-      console.log('No .gitignore file found in', dirPath);
       return [];
     }
-    
-    // Read and parse .gitignore file
-    const content = fs.readFileSync(gitignorePath, 'utf8');
-    const lines = content.split('\n')
+    return fs.readFileSync(gitignorePath, 'utf8').split('\n')
       .map(line => line.trim())
-      .filter(line => {
-        // Filter out empty lines and comments
-        return line.length > 0 && !line.startsWith('#');
-      });
-    
-    console.log('Gitignore patterns:', lines);
-    return lines;
+      .filter(line => line.length > 0 && !line.startsWith('#'));
   } catch (error) {
-    console.error(`Error reading .gitignore: ${error}`);
+    logger.error(`Error reading .gitignore: ${error}`);
     return [];
   }
 }
 
 /**
  * Convert gitignore patterns to glob ignore patterns
+ * @deprecated Use IgnoreMatcher, which follows gitignore semantics
  * @param patterns Array of gitignore patterns
  * @param basePath Base path for the patterns
  * @returns Array of glob ignore patterns
  */
 export function convertGitignorePatternsToGlob(patterns: string[], basePath: string): string[] {
   const normalizedBasePath = basePath.replace(/\\/g, '/');
-  
+
   return patterns.map(pattern => {
     // Remove leading slash if present
     let normalizedPattern = pattern.startsWith('/') ? pattern.substring(1) : pattern;
-    
+
     // Handle directory-specific patterns (ending with /)
     if (normalizedPattern.endsWith('/')) {
       normalizedPattern = normalizedPattern + '**';
     }
-    
+
     // Handle negation patterns (starting with !)
     if (normalizedPattern.startsWith('!')) {
       return `!${normalizedBasePath}/${normalizedPattern.substring(1)}`;
     }
-    
-    // Handle normal patterns
+
     return `${normalizedBasePath}/${normalizedPattern}`;
   });
 }
 
 /**
- * Get all files in a directory with supported extensions
+ * Build the glob ignore patterns for a directory: its .gitignore rules plus
+ * common build and tooling directories
+ * @deprecated Use `new IgnoreMatcher(dirPath)`
+ * @param dirPath Directory path the patterns are anchored to
+ * @returns Array of absolute glob ignore patterns
+ */
+export function getIgnorePatterns(dirPath: string): string[] {
+  const normalizedPath = dirPath.replace(/\\/g, '/');
+  return [
+    ...convertGitignorePatternsToGlob(readGitignore(dirPath), normalizedPath),
+    ...convertGitignorePatternsToGlob(COMMON_IGNORES, normalizedPath)
+  ];
+}
+
+/**
+ * Check whether a file has a supported extension and is not ignored
+ * @param filePath Absolute file path
+ * @param ignore Ignore rules of the project root, or glob patterns from the deprecated getIgnorePatterns
+ * @returns True if the file would be returned by getFilesInDirectory
+ */
+export function isAnalyzableFile(filePath: string, ignore: IgnoreMatcher | string[]): boolean {
+  if (!isSupportedFile(filePath)) {
+    return false;
+  }
+  if (Array.isArray(ignore)) {
+    const normalized = filePath.replace(/\\/g, '/');
+    return !ignore.some(pattern => minimatch(normalized, pattern, { dot: true }));
+  }
+  return !ignore.isIgnored(filePath, false) && (!isSymbolicLink(filePath) || sandbox.allows(filePath));
+}
+
+/**
+ * Get all files in a directory with supported extensions, skipping files and
+ * directories excluded by ignore files or the common ignores
  * @param dirPath Directory path to search
- * @param maxDepth Maximum directory depth to search (default: 3)
+ * @param maxDepth Maximum directory depth to search (default: 3); files directly in the directory are at depth 0
  * @returns Array of file paths
  */
-export async function getFilesInDirectory(dirPath: string, maxDepth: number = 3): Promise<string[]> {
+export async function getFilesInDirectory(dirPath: string, maxDepth: number = DEFAULT_MAX_DEPTH): Promise<string[]> {
   try {
-    console.time('getFilesInDirectory');
-    
-    // Normalize path for glob pattern
-    const normalizedPath = dirPath.replace(/\\/g, '/');
-    
-    // Read .gitignore patterns
-    const gitignorePatterns = readGitignore(dirPath);
-    let ignorePatterns = convertGitignorePatternsToGlob(gitignorePatterns, normalizedPath);
-    
-    // Always ignore node_modules, dist, and other common directories
-    const commonIgnores = [
-      'node_modules/**',
-      'dist/**',
-      '.git/**',
-      'coverage/**',
-      'build/**',
-      '.cache/**',
-      '.vscode/**',
-      '.idea/**'
-    ].map(pattern => `${normalizedPath}/${pattern}`);
-    
-    // Combine with gitignore patterns
-    ignorePatterns = [...ignorePatterns, ...commonIgnores];
-    
-    // Create patterns for each supported extension
-    const patterns = SUPPORTED_EXTENSIONS.map(ext => `${normalizedPath}/**/*${ext}`);
-    
-    console.log('Searching with patterns:', patterns);
-    console.log('Ignoring patterns:', ignorePatterns);
-    
-    // Set a timeout for the glob operation
-    const timeoutPromise = new Promise<string[]>((_, reject) => {
-      setTimeout(() => reject(new Error('File search timed out after 20 seconds')), 20000);
-    });
-    
-    // Run the glob operation with a timeout
-    const files = await Promise.race([
-      glob(patterns, { 
-        nodir: true,
-        ignore: ignorePatterns
-      }),
-      timeoutPromise
-    ]) as string[];
-    
-    console.timeEnd('getFilesInDirectory');
-    console.log(`Found ${files.length} files in ${dirPath}`);
-    if (files.length < 20) {
-      console.log('Files:', files);
-    }
+    const root = path.resolve(dirPath);
+    const span = logger.span('scan', { root });
+    const ignore = new IgnoreMatcher(root);
+    const timeoutMs = scanTimeoutMs;
+    const deadline = Date.now() + timeoutMs;
+    const files: string[] = [];
+
+    const walk = async (directory: string, depth: number): Promise<void> => {
+      if (Date.now() > deadline) {
+        throw new Error(`File search timed out after ${timeoutMs / 1000} seconds`);
+      }
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+      } catch (error) {
+        logger.error(`Error reading directory ${directory}: ${error}`);
+        return;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          // Nothing inside an ignored directory can be re-included, so it is not read at all
+          if (depth < maxDepth && !ignore.matches(fullPath, true)) {
+            await walk(fullPath, depth + 1);
+          }
+        } else if (entry.isFile() || (entry.isSymbolicLink() && isRegularFile(fullPath) && sandbox.allows(fullPath))) {
+          // Linked files are only read when their target is inside the allowed roots
+          if (isSupportedFile(entry.name) && !ignore.matches(fullPath, false)) {
+            files.push(fullPath);
+          }
+        }
+      }
+    };
+
+    await walk(root, 0);
+    files.sort();
+
+    span.end({ files: files.length });
     return files;
   } catch (error) {
-    console.error(`Error getting files: ${error}`);
+    logger.error(`Error getting files: ${error}`);
     return [];
   }
 }
 
+/**
+ * Select the files to analyze under a directory
+ * @param dirPath Directory path to search
+ * @param options Depth, glob, language, size and count settings
+ * @param candidates Files already known to be under the root and not ignored (e.g. from a watcher); scanned when omitted
+ * @returns Selected files, in path order, and the effective settings
+ */
+export async function discoverFiles(
+  dirPath: string,
+  options: DiscoveryOptions = {},
+  candidates?: string[]
+): Promise<DiscoveryResult> {
+  const root = path.resolve(dirPath);
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const include = options.include || [];
+  const exclude = options.exclude || [];
+  const languages = (options.languages || []).map(language => language.toLowerCase());
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+
+  const files = candidates || await getFilesInDirectory(root, maxDepth);
+  const selected: string[] = [];
+  let skippedLargeFiles = 0;
+
+  for (const file of files) {
+    const relativePath = path.relative(root, file).replace(/\\/g, '/');
+    // Candidates supplied by the caller were not limited by depth yet
+    if (relativePath.split('/').length - 1 > maxDepth) {
+      continue;
+    }
+    if (languages.length > 0 && !languages.includes(getFileLanguage(file))) {
+      continue;
+    }
+    if ((include.length > 0 && !matchesAnyGlob(relativePath, include)) || matchesAnyGlob(relativePath, exclude)) {
+      continue;
+    }
+    try {
+      if (fs.statSync(file).size > maxFileSize) {
+        skippedLargeFiles++;
+        continue;
+      }
+    } catch {
+      continue;
+    }
+    selected.push(file);
+  }
+
+  selected.sort();
+  const truncated = selected.length > maxFiles;
+  if (truncated) {
+    logger.info(`Analyzing the first ${maxFiles} of ${selected.length} files in ${root}`);
+  }
+
+  return {
+    files: truncated ? selected.slice(0, maxFiles) : selected,
+    summary: {
+      root,
+      maxDepth: Number.isFinite(maxDepth) ? maxDepth : null,
+      include,
+      exclude,
+      languages,
+      maxFileSize,
+      maxFiles,
+      filesMatched: selected.length,
+      filesScanned: Math.min(selected.length, maxFiles),
+      skippedLargeFiles,
+      truncated
+    }
+  };
+}
+
+/**
+ * Check whether a path resolves to a regular file
+ * @param filePath Path to check
+ * @returns True for files and links to files
+ */
+function isRegularFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path is a symbolic link
+ * @param filePath Path to check
+ * @returns True for links, false for anything else or missing paths
+ */
+function isSymbolicLink(filePath: string): boolean {
+  try {
+    return fs.lstatSync(filePath).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Read file content
  * @param filePath Path to the file
@@ -150,56 +454,54 @@ export function readFileContent(filePath: string): string {
   try {
     return fs.readFileSync(filePath, 'utf8');
   } catch (error) {
-    console.error(`Error reading file ${filePath}: ${error}`);
+    logger.error(`Error reading file ${filePath}: ${error}`);
     return '';
   }
 }
 
+/**
+ * Read the version of this package
+ * @returns Package version, or '0.0.0' if it cannot be determined
+ */
+export function readPackageVersion(): string {
+  try {
+    // Works from both src/utils and dist/utils
+    const packagePath = path.join(__dirname, '..', '..', 'package.json');
+    return JSON.parse(fs.readFileSync(packagePath, 'utf8')).version || '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
 /**
  * Determine the language of a file based on its extension
  * @param filePath Path to the file
  * @returns Language identifier
  */
 export function getFileLanguage(filePath: string): string {
-  const ext = path.extname(filePath).toLowerCase();
-  
-  switch (ext) {
-    case '.js':
-    case '.jsx':
-      return 'javascript';
-    case '.ts':
-    case '.tsx':
-      return 'typescript';
-    case '.py':
-      return 'python';
-    case '.java':
-      return 'java';
-    case '.cs':
-      return 'csharp';
-    case '.go':
-      return 'go';
-    case '.rb':
-      return 'ruby';
-    case '.php':
-      return 'php';
-    case '.swift':
-      return 'swift';
-    case '.c':
-    case '.h':
-      return 'c';
-    case '.cpp':
-    case '.hpp':
-      return 'cpp';
-    default:
-      return 'unknown';
-  }
+  return extensionLanguages.get(path.extname(filePath).toLowerCase()) || 'unknown';
+}
+
+/**
+ * Check whether a file holds tests, by the naming conventions of the common test runners
+ * @param relativePath Path relative to the project root, with `/` separators
+ * @returns True for files under `test`, `tests`, `__tests__` or `spec` directories and
+ * files named like `*.test.ts`, `*_test.go`, `test_*.py`, `*_spec.rb` or `*Test.java`
+ */
+export function isTestFile(relativePath: string): boolean {
+  const name = path.posix.basename(relativePath);
+  return /(?:^|\/)(?:tests?|__tests__|specs?)\//.test(relativePath) ||
+    /\.(?:test|spec)\.[^.]+$/.test(name) ||
+    /_(?:test|spec)\.[^.]+$/.test(name) ||
+    /^test_[^/]*\.py$/.test(name) ||
+    /[a-z0-9](?:Tests?|Spec)\.(?:java|cs|swift|php|kt)$/.test(name);
 }
 
 /**
- * Count the number of lines in a file
+ * Get one line of a file
  * @param content File content
- * @param lineNumber Target line number
- * @returns Line content
+ * @param lineNumber 0-based line number
+ * @returns Line content, or an empty string outside the file
  */
 export function getLineContent(content: string, lineNumber: number): string {
   const lines = content.split('\n');
@@ -208,3 +510,15 @@ export function getLineContent(content: string, lineNumber: number): string {
   }
   return '';
 }
+
+/**
+ * Get a range of lines of a file
+ * @param content File content
+ * @param startLine First line, 1-based
+ * @param endLine Last line, inclusive; clamped to the end of the file
+ * @returns Lines without their line breaks
+ */
+export function getLineRange(content: string, startLine: number, endLine: number): string[] {
+  const lines = content.split('\n');
+  return lines.slice(Math.max(0, startLine - 1), Math.max(0, endLine)).map(line => line.replace(/\r$/, ''));
+}
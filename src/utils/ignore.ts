@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { logger } from './logger';
+
+/**
+ * Ignore files read in every directory, lowest precedence first
+ */
+export const IGNORE_FILES = ['.gitignore', '.analyzerignore'];
+
+/**
+ * Directories that are always skipped unless an ignore file re-includes them
+ */
+export const COMMON_IGNORES = [
+  'node_modules/',
+  'dist/',
+  '.git/',
+  'coverage/',
+  'build/',
+  '.cache/',
+  '.vscode/',
+  '.idea/'
+];
+
+/**
+ * Patterns skipped in every project: COMMON_IGNORES unless replaced by setCommonIgnores
+ */
+let commonIgnores: string[] = COMMON_IGNORES;
+
+/**
+ * Replace the directories and patterns that are skipped in every project
+ * @param patterns Gitignore-style patterns
+ */
+export function setCommonIgnores(patterns: string[]): void {
+  commonIgnores = [...patterns];
+}
+
+/**
+ * One parsed line of an ignore file
+ */
+export interface IgnoreRule {
+  // Directory the pattern is relative to
+  base: string;
+  pattern: string;
+  negate: boolean;
+  directoryOnly: boolean;
+  matcher: Minimatch;
+}
+
+/**
+ * Parse the lines of a gitignore-style file
+ * @param lines Lines of the file
+ * @param base Directory the patterns are relative to
+ * @returns Rules in file order
+ */
+export function parseIgnorePatterns(lines: string[], base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of lines) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let pattern = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const negate = pattern.startsWith('!');
+    if (negate) {
+      pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) {
+      continue;
+    }
+
+    // A slash at the start or in the middle anchors the pattern to its directory;
+    // otherwise it matches at any depth
+    if (pattern.includes('/')) {
+      pattern = pattern.replace(/^\//, '');
+    } else {
+      pattern = `**/${pattern}`;
+    }
+
+    rules.push({
+      base,
+      pattern,
+      negate,
+      directoryOnly,
+      matcher: new Minimatch(pattern, { dot: true, nocomment: true, nonegate: true })
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Read and parse an ignore file
+ * @param filePath Path of the ignore file
+ * @param base Directory the patterns are relative to
+ * @returns Rules, or an empty list if the file does not exist
+ */
+export function readIgnoreFile(filePath: string, base: string = path.dirname(filePath)): IgnoreRule[] {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    return parseIgnorePatterns(fs.readFileSync(filePath, 'utf8').split('\n'), base);
+  } catch (error) {
+    logger.error(`Error reading ${filePath}: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Find the working tree that contains a directory
+ * @param dirPath Absolute directory path
+ * @returns Directory containing `.git`, or null outside a repository
+ */
+function findRepositoryRoot(dirPath: string): string | null {
+  let current = dirPath;
+  while (true) {
+    if (fs.existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Decides which paths under a root are ignored, following gitignore semantics:
+ * `.git/info/exclude`, `.gitignore` files of the repository above the root and
+ * in every directory below it, then `.analyzerignore` files. Rules in deeper
+ * directories and later lines take precedence, negations re-include paths, and
+ * nothing inside an ignored directory can be re-included.
+ */
+export class IgnoreMatcher {
+  readonly root: string;
+  // Rules in effect in each directory, including those inherited from its parents
+  private readonly rules = new Map<string, IgnoreRule[]>();
+
+  constructor(rootPath: string) {
+    this.root = path.resolve(rootPath);
+    this.rules.set(this.root, [...this.loadInheritedRules(), ...this.loadDirectoryRules(this.root)]);
+  }
+
+  /**
+   * Check whether a path is ignored, either directly or through an ignored parent directory
+   * @param filePath Absolute path inside the root
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path is ignored
+   */
+  isIgnored(filePath: string, isDirectory: boolean): boolean {
+    const relative = path.relative(this.root, path.resolve(filePath));
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false;
+    }
+    const segments = relative.split(path.sep);
+    let current = this.root;
+    for (let i = 0; i < segments.length; i++) {
+      current = path.join(current, segments[i]);
+      const last = i === segments.length - 1;
+      if (this.matches(current, last ? isDirectory : true)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check a path against the rules of its directory, assuming its parents are not ignored.
+   * Directory walks use this since they never descend into ignored directories.
+   * @param filePath Absolute path inside the root
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path is ignored
+   */
+  matches(filePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    // The last matching rule decides
+    for (const rule of this.getRules(path.dirname(filePath))) {
+      if (ignored === !rule.negate || (rule.directoryOnly && !isDirectory)) {
+        continue;
+      }
+      const relative = path.relative(rule.base, filePath).replace(/\\/g, '/');
+      if (rule.matcher.match(relative)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * Get the rules in effect inside a directory
+   * @param dirPath Absolute directory path inside the root
+   * @returns Inherited rules followed by the directory's own
+   */
+  private getRules(dirPath: string): IgnoreRule[] {
+    const cached = this.rules.get(dirPath);
+    if (cached) {
+      return cached;
+    }
+    const parent = path.dirname(dirPath);
+    const inherited = dirPath === this.root || parent === dirPath ? [] : this.getRules(parent);
+    const own = this.loadDirectoryRules(dirPath);
+    const rules = own.length > 0 ? [...inherited, ...own] : inherited;
+    this.rules.set(dirPath, rules);
+    return rules;
+  }
+
+  /**
+   * Load the ignore files of one directory
+   * @param dirPath Absolute directory path
+   * @returns Rules of its `.gitignore` and `.analyzerignore`
+   */
+  private loadDirectoryRules(dirPath: string): IgnoreRule[] {
+    return IGNORE_FILES.flatMap(name => readIgnoreFile(path.join(dirPath, name), dirPath));
+  }
+
+  /**
+   * Load the rules that apply to the root from outside it: the common ignores,
+   * the repository's exclude file and `.gitignore` files of parent directories
+   * @returns Rules, lowest precedence first
+   */
+  private loadInheritedRules(): IgnoreRule[] {
+    const rules = parseIgnorePatterns(commonIgnores, this.root);
+    const repository = findRepositoryRoot(this.root);
+    if (!repository) {
+      return rules;
+    }
+
+    rules.push(...readIgnoreFile(path.join(repository, '.git', 'info', 'exclude'), repository));
+    const parents: string[] = [];
+    for (let current = this.root; current !== repository; current = path.dirname(current)) {
+      parents.unshift(path.dirname(current));
+    }
+    for (const parent of parents) {
+      rules.push(...this.loadDirectoryRules(parent));
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,420 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiscoveryOptions, DiscoveryRoot, DiscoverySummary, describeLanguageSettings, discoverFiles, readPackageVersion } from './fileUtils';
+import { logger } from './logger';
+import { CallSite, CodeEntity, ImportInfo, getParserForFile } from './parsers';
+
+/**
+ * Bump when the shape of cached entities changes so old indexes are discarded
+ */
+const INDEX_FORMAT_VERSION = 2;
+
+const PACKAGE_VERSION = readPackageVersion();
+
+/**
+ * Parsed entities of one file, with the data used to detect changes
+ */
+export interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  // SHA-1 of the content, used when the mtime changed but the content did not
+  hash: string;
+  entities: CodeEntity[];
+  calls: CallSite[];
+  imports: ImportInfo[];
+}
+
+/**
+ * Everything indexed for one file
+ */
+export interface IndexedFile {
+  file: string;
+  relativePath: string;
+  entities: CodeEntity[];
+  calls: CallSite[];
+  imports: ImportInfo[];
+}
+
+/**
+ * On-disk representation of a project index
+ */
+interface IndexData {
+  version: string;
+  root: string;
+  // Keyed by path relative to the root, with forward slashes
+  files: Record<string, CachedFile>;
+}
+
+/**
+ * Counters describing how an index lookup was served
+ */
+export interface IndexStats {
+  files: number;
+  parsed: number;
+  reused: number;
+}
+
+/**
+ * Entities of the files selected for a query
+ */
+export interface ProjectEntities {
+  entities: CodeEntity[];
+  discovery: DiscoverySummary;
+}
+
+/**
+ * Indexed files selected for a query
+ */
+export interface ProjectFiles {
+  files: IndexedFile[];
+  discovery: DiscoverySummary;
+}
+
+/**
+ * Get the directory where project indexes are stored
+ * @returns Value of MCP_CACHE_DIR, or a directory under the user's cache folder
+ */
+export function getCacheDirectory(): string {
+  if (process.env.MCP_CACHE_DIR) {
+    return path.resolve(process.env.MCP_CACHE_DIR);
+  }
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'mcp-code-analyzer');
+}
+
+/**
+ * Hash file content
+ * @param content File content
+ * @returns Hex SHA-1 digest
+ */
+function hashContent(content: Buffer | string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Get the version written to indexes; an index with another version is discarded
+ * @returns Format version, package version and a hash of the language settings,
+ * which change which files are parsed and what is extracted from them
+ */
+function getIndexVersion(): string {
+  return `${INDEX_FORMAT_VERSION}:${PACKAGE_VERSION}:${hashContent(describeLanguageSettings()).slice(0, 16)}`;
+}
+
+/**
+ * Persistent, incremental index of the entities in a project. Files are only
+ * re-parsed when their size and mtime changed and their content hash differs.
+ */
+export class ProjectIndex {
+  private static readonly instances = new Map<string, ProjectIndex>();
+
+  readonly root: string;
+  private readonly cacheFile: string;
+  private readonly version: string;
+  private data: IndexData;
+  private dirty = false;
+  // File list maintained by a watcher; when set, queries skip the directory scan
+  private tracked: Set<string> | null = null;
+
+  private constructor(root: string) {
+    this.root = root;
+    this.version = getIndexVersion();
+    this.cacheFile = path.join(getCacheDirectory(), `${hashContent(root).slice(0, 16)}.json`);
+    this.data = this.load();
+  }
+
+  /**
+   * Get the shared index for a project root
+   * @param rootPath Project root directory
+   * @returns Index instance, loaded from disk on first use
+   */
+  static for(rootPath: string): ProjectIndex {
+    const root = path.resolve(rootPath);
+    let index = ProjectIndex.instances.get(root);
+    // Indexes built before the language settings changed are rebuilt
+    if (!index || index.version !== getIndexVersion()) {
+      index = new ProjectIndex(root);
+      ProjectIndex.instances.set(root, index);
+    }
+    return index;
+  }
+
+  /**
+   * Get the entities of a set of files, parsing only files that changed
+   * @param files Absolute file paths inside the root
+   * @returns Entities of all files, in file order, and lookup counters
+   */
+  getEntities(files: string[]): { entities: CodeEntity[]; stats: IndexStats } {
+    const { files: indexed, stats } = this.getFiles(files);
+    return { entities: indexed.flatMap(entry => entry.entities), stats };
+  }
+
+  /**
+   * Get the entities, call sites and imports of a set of files, parsing only files that changed
+   * @param files Absolute file paths inside the root
+   * @returns Indexed files, in file order, and lookup counters
+   */
+  getFiles(files: string[]): { files: IndexedFile[]; stats: IndexStats } {
+    const indexed: IndexedFile[] = [];
+    const stats: IndexStats = { files: files.length, parsed: 0, reused: 0 };
+
+    for (const file of files) {
+      const cached = this.getFile(file);
+      if (!cached) {
+        continue;
+      }
+      if (cached.reused) {
+        stats.reused++;
+      } else {
+        stats.parsed++;
+      }
+      const { entities, calls, imports } = cached.entry;
+      indexed.push({ file, relativePath: this.getKey(file), entities, calls, imports });
+    }
+
+    this.save();
+    return { files: indexed, stats };
+  }
+
+  /**
+   * Let a watcher supply the file list of this root instead of scanning the directory
+   * @param files Absolute file paths, or null to go back to scanning
+   */
+  track(files: string[] | null): void {
+    this.tracked = files ? new Set(files) : null;
+  }
+
+  /**
+   * Get the file list supplied by a watcher
+   * @returns Absolute file paths, or null if the root is not watched
+   */
+  getTrackedFiles(): string[] | null {
+    return this.tracked ? [...this.tracked].sort() : null;
+  }
+
+  /**
+   * Re-index one file after it was added or changed
+   * @param file Absolute file path
+   * @returns 'added', 'changed' or 'unchanged', or null if the file cannot be parsed
+   */
+  updateFile(file: string): 'added' | 'changed' | 'unchanged' | null {
+    const known = this.tracked ? this.tracked.has(file) : !!this.data.files[this.getKey(file)];
+    const result = this.getFile(file);
+    if (!result) {
+      return null;
+    }
+    this.tracked?.add(file);
+    if (!known) {
+      return 'added';
+    }
+    return result.reused ? 'unchanged' : 'changed';
+  }
+
+  /**
+   * Forget a file after it was deleted or renamed
+   * @param file Absolute file path
+   * @returns True if the file was indexed
+   */
+  removeFile(file: string): boolean {
+    const key = this.getKey(file);
+    const existed = !!this.data.files[key] || !!this.tracked?.has(file);
+    this.tracked?.delete(file);
+    if (this.data.files[key]) {
+      delete this.data.files[key];
+      this.dirty = true;
+    }
+    return existed;
+  }
+
+  /**
+   * Drop cached files that no longer exist on disk
+   * @returns Number of entries removed
+   */
+  prune(): number {
+    let removed = 0;
+    for (const key of Object.keys(this.data.files)) {
+      if (!fs.existsSync(path.join(this.root, key))) {
+        delete this.data.files[key];
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.dirty = true;
+    }
+    return removed;
+  }
+
+  /**
+   * Write the index to disk if it changed. The file is written to a temporary
+   * path and renamed so concurrent readers never see a partial index.
+   */
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      const temporary = `${this.cacheFile}.${process.pid}.tmp`;
+      fs.writeFileSync(temporary, JSON.stringify(this.data));
+      fs.renameSync(temporary, this.cacheFile);
+      this.dirty = false;
+    } catch (error) {
+      // The cache is an optimisation; analysis still works without it
+      logger.error(`Error writing index cache ${this.cacheFile}: ${error}`);
+    }
+  }
+
+  /**
+   * Look up or refresh the cache entry of one file
+   * @param file Absolute file path
+   * @returns Cache entry and whether it was reused, or null if the file cannot be parsed
+   */
+  private getFile(file: string): { entry: CachedFile; reused: boolean } | null {
+    const key = this.getKey(file);
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(file);
+    } catch {
+      delete this.data.files[key];
+      return null;
+    }
+
+    const cached = this.data.files[key];
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+      return { entry: cached, reused: true };
+    }
+
+    const parser = getParserForFile(file);
+    if (!parser) {
+      return null;
+    }
+
+    let hash: string;
+    try {
+      hash = hashContent(fs.readFileSync(file));
+    } catch {
+      return null;
+    }
+    // Touched but unchanged (e.g. after a checkout): keep the entities, record the new mtime
+    if (cached && cached.hash === hash) {
+      cached.mtimeMs = stat.mtimeMs;
+      cached.size = stat.size;
+      this.dirty = true;
+      return { entry: cached, reused: true };
+    }
+
+    const { entities, calls, imports } = parser.analyzeFile(file, this.root);
+    const entry: CachedFile = { mtimeMs: stat.mtimeMs, size: stat.size, hash, entities, calls, imports };
+    this.data.files[key] = entry;
+    this.dirty = true;
+    return { entry, reused: false };
+  }
+
+  /**
+   * Get the cache key of a file
+   * @param file Absolute file path
+   * @returns Path relative to the root, with forward slashes
+   */
+  private getKey(file: string): string {
+    return path.relative(this.root, file).replace(/\\/g, '/');
+  }
+
+  /**
+   * Load the index from disk, discarding it if it was written by another version
+   * @returns Index data
+   */
+  private load(): IndexData {
+    const empty: IndexData = { version: this.version, root: this.root, files: {} };
+    try {
+      if (!fs.existsSync(this.cacheFile)) {
+        return empty;
+      }
+      const data = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as IndexData;
+      if (data.version !== this.version || data.root !== this.root || !data.files) {
+        return empty;
+      }
+      return data;
+    } catch (error) {
+      logger.error(`Ignoring unreadable index cache ${this.cacheFile}: ${error}`);
+      return empty;
+    }
+  }
+}
+
+/**
+ * Get the entities of the supported files under a directory, using the
+ * persistent index so unchanged files are not parsed again
+ * @param dirPath Directory path to search
+ * @param options File discovery settings
+ * @returns Entities of the selected files and the effective discovery settings
+ */
+export async function getProjectEntities(dirPath: string, options: DiscoveryOptions = {}): Promise<ProjectEntities> {
+  const { files, discovery } = await getProjectFiles(dirPath, options);
+  return { entities: files.flatMap(entry => entry.entities), discovery };
+}
+
+/**
+ * Get the entities, call sites and imports of the supported files under a
+ * directory, using the persistent index
+ * @param dirPath Directory path to search
+ * @param options File discovery settings
+ * @returns Indexed files and the effective discovery settings
+ */
+export async function getProjectFiles(dirPath: string, options: DiscoveryOptions = {}): Promise<ProjectFiles> {
+  if (options.roots && options.roots.length > 0) {
+    return getWorkspaceFiles(options.roots, options.workspace);
+  }
+  const root = path.resolve(dirPath);
+  const index = ProjectIndex.for(root);
+  // Watched roots already know their files
+  const discovery = logger.span('discovery', { root });
+  const { files, summary } = await discoverFiles(root, options, index.getTrackedFiles() || undefined);
+  discovery.end({ files: files.length });
+  index.prune();
+  const parse = logger.span('parse', { root });
+  const { files: indexed, stats } = index.getFiles(files);
+  parse.end({ files: stats.files, parsed: stats.parsed, reused: stats.reused });
+  return { files: indexed, discovery: options.workspace ? { ...summary, workspace: options.workspace } : summary };
+}
+
+/**
+ * Get the indexed files of several roots as one project. Each root keeps its
+ * own index; relative paths are prefixed with the root name so results from
+ * different roots stay apart.
+ * @param roots Workspace roots with their effective settings
+ * @param workspace Name of the workspace, reported in the discovery summary
+ * @returns Indexed files of all roots, in root order, and a combined discovery summary
+ */
+async function getWorkspaceFiles(roots: DiscoveryRoot[], workspace?: string): Promise<ProjectFiles> {
+  const files: IndexedFile[] = [];
+  const summaries: DiscoverySummary[] = [];
+
+  for (const root of roots) {
+    const result = await getProjectFiles(root.path, root.options);
+    const prefix = `${root.name}/`;
+    for (const file of result.files) {
+      files.push({
+        ...file,
+        relativePath: prefix + file.relativePath,
+        // Cached entities are shared between queries, so they are copied rather than relabelled
+        entities: file.entities.map(entity => ({ ...entity, relativePath: prefix + entity.relativePath }))
+      });
+    }
+    summaries.push({ ...result.discovery, name: root.name });
+  }
+
+  return {
+    files,
+    discovery: {
+      ...summaries[0],
+      name: undefined,
+      workspace,
+      filesMatched: summaries.reduce((sum, summary) => sum + summary.filesMatched, 0),
+      filesScanned: summaries.reduce((sum, summary) => sum + summary.filesScanned, 0),
+      skippedLargeFiles: summaries.reduce((sum, summary) => sum + summary.skippedLargeFiles, 0),
+      truncated: summaries.some(summary => summary.truncated),
+      roots: summaries
+    }
+  };
+}
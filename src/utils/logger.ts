@@ -0,0 +1,188 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/**
+ * Log levels, least verbose first
+ */
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Log line formats: `text` for people, `json` for log collectors
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * Extra values attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Settings of a logger; omitted settings are left unchanged
+ */
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Write every level to stderr, e.g. when stdout carries the stdio transport
+  stderrOnly?: boolean;
+}
+
+/**
+ * A timed operation
+ */
+export interface Span {
+  /**
+   * Log the duration of the operation
+   * @param fields Values known at the end, such as counts
+   * @returns Duration in milliseconds
+   */
+  end(fields?: LogFields): number;
+}
+
+/**
+ * Create an identifier to correlate the log entries of one request
+ * @returns Random identifier
+ */
+export function createRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Format a field value for a text log line
+ * @param value Field value
+ * @returns The value, quoted when it holds spaces or quotes
+ */
+function formatFieldValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : value instanceof Error ? value.message : JSON.stringify(value);
+  return /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * Leveled logger writing text or JSON lines. Entries logged while handling a
+ * request carry the fields of its context, such as the request ID, without
+ * passing them through every call.
+ */
+export class Logger {
+  private level: LogLevel = 'info';
+  private format: LogFormat = 'text';
+  private stderrOnly = false;
+  private context = new AsyncLocalStorage<LogFields>();
+
+  /**
+   * Change the level, format or destination
+   * @param options Settings to change
+   */
+  configure(options: LoggerOptions): void {
+    this.level = options.level ?? this.level;
+    this.format = options.format ?? this.format;
+    this.stderrOnly = options.stderrOnly ?? this.stderrOnly;
+  }
+
+  /**
+   * Check whether entries of a level are written
+   * @param level Log level
+   * @returns True if the level is at or above the configured one
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+  }
+
+  /**
+   * Log an error
+   * @param message Message
+   * @param fields Extra values
+   */
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Log a warning
+   * @param message Message
+   * @param fields Extra values
+   */
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  /**
+   * Log an informational message
+   * @param message Message
+   * @param fields Extra values
+   */
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  /**
+   * Log a diagnostic message
+   * @param message Message
+   * @param fields Extra values
+   */
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  /**
+   * Run an action with fields added to every entry it logs, including from
+   * asynchronous work it starts
+   * @param fields Fields such as `requestId`
+   * @param action Action to run
+   * @returns Result of the action
+   */
+  withContext<T>(fields: LogFields, action: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...fields }, action);
+  }
+
+  /**
+   * Start timing an operation
+   * @param name Operation name, e.g. `discovery`
+   * @param fields Values known at the start
+   * @param level Level of the entry logged at the end
+   * @returns Span to end when the operation finishes
+   */
+  span(name: string, fields: LogFields = {}, level: LogLevel = 'debug'): Span {
+    const start = process.hrtime.bigint();
+    return {
+      end: (endFields: LogFields = {}) => {
+        const durationMs = Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10;
+        this.write(level, `${name} finished`, { span: name, ...fields, ...endFields, durationMs });
+        return durationMs;
+      }
+    };
+  }
+
+  /**
+   * Write one entry
+   * @param level Entry level
+   * @param message Message
+   * @param fields Extra values
+   */
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const time = new Date().toISOString();
+    const values = { ...this.context.getStore(), ...fields };
+    let line: string;
+    if (this.format === 'json') {
+      line = JSON.stringify({ time, level, message, ...values }, (_, value) => value instanceof Error ? value.message : value);
+    } else {
+      const extra = Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}=${formatFieldValue(value)}`)
+        .join('');
+      line = `[${time}] ${level.toUpperCase().padEnd(5)} ${message}${extra}`;
+    }
+    const stream = this.stderrOnly || level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+    stream.write(line + '\n');
+  }
+}
+
+/**
+ * Logger shared by the server, the tools and the analyzers
+ */
+export const logger = new Logger();
@@ -0,0 +1,465 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { getFileLanguage } from './fileUtils';
+import { logger } from './logger';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Project settings that change how non-relative imports resolve. Directories are
+ * relative to the project root with forward slashes and may point above it.
+ */
+export interface ResolverConfig {
+  // `compilerOptions.baseUrl` of the tsconfig
+  baseUrl?: string;
+  // `compilerOptions.paths`, with targets rewritten relative to the root
+  paths?: Record<string, string[]>;
+  // Module paths declared in go.mod files and the directories containing them
+  goModules?: Array<{ path: string; dir: string }>;
+}
+
+/**
+ * Convert an absolute path to a path relative to the root with forward slashes
+ * @param root Absolute project root
+ * @param target Absolute path
+ * @returns Relative path, `.` for the root itself
+ */
+function toRelative(root: string, target: string): string {
+  return path.relative(root, target).replace(/\\/g, '/') || '.';
+}
+
+/**
+ * Read the compiler options of the tsconfig.json nearest to a directory, following `extends`
+ * @param root Absolute project root
+ * @returns Compiler options with absolute paths, and the directory of the tsconfig; empty without one
+ */
+export function readCompilerOptions(root: string): { options: ts.CompilerOptions; configDir?: string } {
+  const configFile = ts.findConfigFile(root, ts.sys.fileExists, 'tsconfig.json');
+  if (!configFile) {
+    return { options: {} };
+  }
+  const read = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (read.error) {
+    logger.error(`Error reading ${configFile}: ${ts.flattenDiagnosticMessageText(read.error.messageText, '\n')}`);
+    return { options: {} };
+  }
+  // Only the compiler options are needed, so the file list is not expanded
+  const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+  const { options } = ts.parseJsonConfigFileContent(read.config, host, path.dirname(configFile));
+  return { options, configDir: path.dirname(configFile) };
+}
+
+/**
+ * Read `baseUrl` and `paths` from the tsconfig.json nearest to a directory
+ * @param root Absolute project root
+ * @returns Settings relative to the root, or an empty object without a tsconfig
+ */
+function readTsConfig(root: string): ResolverConfig {
+  const { options, configDir } = readCompilerOptions(root);
+  const config: ResolverConfig = {};
+  if (options.baseUrl) {
+    config.baseUrl = toRelative(root, options.baseUrl);
+  }
+  if (options.paths && configDir) {
+    const base = options.baseUrl || (options.pathsBasePath as string | undefined) || configDir;
+    config.paths = {};
+    for (const [pattern, targets] of Object.entries(options.paths)) {
+      config.paths[pattern] = targets.map(target => toRelative(root, path.resolve(base, target)));
+    }
+  }
+  return config;
+}
+
+/**
+ * Read the module paths of the go.mod files that apply to the Go files of a project:
+ * the nearest one above the root, and those in directories below it
+ * @param root Absolute project root
+ * @param files Paths relative to the root
+ * @returns Module paths and directories
+ */
+export function readGoModules(root: string, files: string[]): NonNullable<ResolverConfig['goModules']> {
+  const directories = new Set<string>();
+  for (const file of files.filter(name => name.endsWith('.go'))) {
+    for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+      directories.add(path.join(root, dir));
+    }
+  }
+  for (let dir = root; ; dir = path.dirname(dir)) {
+    directories.add(dir);
+    if (fs.existsSync(path.join(dir, 'go.mod')) || path.dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  const modules: NonNullable<ResolverConfig['goModules']> = [];
+  for (const dir of directories) {
+    const goMod = path.join(dir, 'go.mod');
+    try {
+      if (fs.existsSync(goMod)) {
+        const match = /^\s*module\s+"?([^\s"]+)"?/m.exec(fs.readFileSync(goMod, 'utf8'));
+        if (match) {
+          modules.push({ path: match[1], dir: toRelative(root, dir) });
+        }
+      }
+    } catch (error) {
+      logger.error(`Error reading ${goMod}: ${error}`);
+    }
+  }
+  return modules;
+}
+
+/**
+ * Maps import sources to the files of a project. Only files known to the
+ * resolver are returned, so imports of installed packages and the standard
+ * library resolve to nothing.
+ */
+export class ModuleResolver {
+  private readonly files: Set<string>;
+  // Files grouped by directory, both relative to the root with forward slashes
+  private readonly directories = new Map<string, string[]>();
+  private readonly config: ResolverConfig;
+
+  /**
+   * @param files Paths relative to the project root
+   * @param config Path aliases and module settings of the project
+   */
+  constructor(files: string[], config: ResolverConfig = {}) {
+    this.config = config;
+    this.files = new Set(files.map(file => file.replace(/\\/g, '/')));
+    for (const file of this.files) {
+      const dir = path.posix.dirname(file);
+      const entries = this.directories.get(dir) || [];
+      entries.push(file);
+      this.directories.set(dir, entries);
+    }
+  }
+
+  /**
+   * Create a resolver for a project, reading its tsconfig.json and go.mod
+   * @param root Absolute project root
+   * @param files Paths relative to the root
+   * @returns Module resolver
+   */
+  static load(root: string, files: string[]): ModuleResolver {
+    const hasGo = files.some(file => file.endsWith('.go'));
+    return new ModuleResolver(files, { ...readTsConfig(root), goModules: hasGo ? readGoModules(root, files) : [] });
+  }
+
+  /**
+   * Check whether an import refers to project code by its form alone: a relative path,
+   * a tsconfig path alias or a package of the Go module. Such imports are reported as
+   * unresolved rather than external when no file matches.
+   * @param fromFile Importing file, relative to the root
+   * @param source Import source as recorded by the parser
+   * @returns True if the import must be a project file
+   */
+  isLocal(fromFile: string, source: string): boolean {
+    switch (getFileLanguage(fromFile)) {
+      case 'javascript':
+      case 'typescript':
+        return source.startsWith('.') || source.startsWith('/') || this.matchPaths(source).length > 0;
+      case 'python':
+      case 'ruby':
+        return source.startsWith('.');
+      case 'php':
+        return source.startsWith('.') || source.includes('/');
+      case 'go':
+        return !!this.findGoModule(source);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Find the files an import refers to
+   * @param fromFile Importing file, relative to the root
+   * @param source Import source as recorded by the parser
+   * @returns Matching files relative to the root; several for package and wildcard imports
+   */
+  resolve(fromFile: string, source: string): string[] {
+    const from = fromFile.replace(/\\/g, '/');
+    switch (getFileLanguage(from)) {
+      case 'javascript':
+      case 'typescript':
+        return this.resolveScript(from, source);
+      case 'python':
+        return this.resolvePython(from, source);
+      case 'go':
+        return this.resolveGo(source);
+      case 'java':
+        return this.resolveQualifiedName(source, '.', '.java');
+      case 'php':
+        return source.startsWith('.') || source.includes('/') ? this.resolveRelative(from, source, ['', '.php']) : this.resolveQualifiedName(source, '\\', '.php');
+      case 'ruby':
+        return this.resolveRuby(from, source);
+      case 'c':
+      case 'cpp':
+        return this.resolveInclude(from, source);
+      default:
+        // C# and Swift import namespaces and modules, which do not map to files
+        return [];
+    }
+  }
+
+  /**
+   * Resolve a JavaScript or TypeScript module specifier
+   * @param from Importing file
+   * @param source Module specifier
+   * @returns Matching file, if any
+   */
+  private resolveScript(from: string, source: string): string[] {
+    if (source.startsWith('.') || source.startsWith('/')) {
+      return this.probeScript(this.join(from, source));
+    }
+    // Aliases from tsconfig `paths`, then modules under `baseUrl`
+    for (const target of this.matchPaths(source)) {
+      const found = this.probeScript(target);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return this.config.baseUrl ? this.probeScript(path.posix.join(this.config.baseUrl, source)) : [];
+  }
+
+  /**
+   * Find the file a script module path refers to, trying extensions and index files
+   * @param target Path relative to the root, as written in the import
+   * @returns Matching file, if any
+   */
+  private probeScript(target: string): string[] {
+    // TypeScript sources import their compiled `.js` names
+    const stripped = target.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+    const candidates = [
+      target,
+      ...SCRIPT_EXTENSIONS.map(extension => stripped + extension),
+      ...SCRIPT_EXTENSIONS.map(extension => `${target}/index${extension}`)
+    ];
+    return this.first(candidates);
+  }
+
+  /**
+   * Apply the tsconfig `paths` patterns matching a specifier. As in TypeScript, the pattern
+   * with the longest prefix before its `*` wins, and its targets are tried in order.
+   * @param source Module specifier
+   * @returns Substituted paths relative to the root
+   */
+  private matchPaths(source: string): string[] {
+    let best: { prefix: string; captured: string; targets: string[] } | null = null;
+    for (const [pattern, targets] of Object.entries(this.config.paths || {})) {
+      const star = pattern.indexOf('*');
+      if (star === -1) {
+        if (pattern === source) {
+          return targets;
+        }
+        continue;
+      }
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (source.length >= prefix.length + suffix.length && source.startsWith(prefix) && source.endsWith(suffix) && (!best || prefix.length > best.prefix.length)) {
+        best = { prefix, captured: source.slice(prefix.length, source.length - suffix.length), targets };
+      }
+    }
+    return best ? best.targets.map(target => path.posix.normalize(target.replace('*', best!.captured))) : [];
+  }
+
+  /**
+   * Resolve a Python module, relative (`.models`) or absolute (`app.models`)
+   * @param from Importing file
+   * @param source Module name
+   * @returns Module file or package `__init__.py`, if any
+   */
+  private resolvePython(from: string, source: string): string[] {
+    const dots = /^\.*/.exec(source)![0].length;
+    const modulePath = source.slice(dots).split('.').filter(Boolean).join('/');
+    const bases: string[] = [];
+    if (dots > 0) {
+      let base = path.posix.dirname(from);
+      for (let i = 1; i < dots; i++) {
+        base = path.posix.dirname(base);
+      }
+      bases.push(base);
+    } else {
+      // The package root is not known, so the importing file's directory and each of its parents are tried
+      for (let dir = path.posix.dirname(from); dir !== '.'; dir = path.posix.dirname(dir)) {
+        bases.push(dir);
+      }
+      bases.push('.', 'src');
+    }
+
+    for (const base of bases) {
+      const target = path.posix.normalize(modulePath ? `${base}/${modulePath}` : base);
+      const found = this.first([`${target}.py`, `${target}/__init__.py`]);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Resolve a Go import path to a package directory: below the go.mod directory when the
+   * path is inside a module of the project, otherwise, when the project has no go.mod,
+   * the directory sharing the most trailing segments
+   * @param source Import path
+   * @returns Files of the package, excluding tests
+   */
+  private resolveGo(source: string): string[] {
+    const module = this.findGoModule(source);
+    if (module) {
+      const dir = path.posix.normalize(path.posix.join(module.dir, source.slice(module.path.length)));
+      return (this.directories.get(dir) || []).filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+    }
+
+    if (this.config.goModules?.length) {
+      return [];
+    }
+
+    const segments = source.split('/');
+    // Standard library paths have no domain and only match a directory with the exact path
+    const minimum = segments[0].includes('.') ? 1 : segments.length;
+    let best: string | null = null;
+    let bestLength = minimum - 1;
+    for (const dir of this.directories.keys()) {
+      const parts = dir === '.' ? [] : dir.split('/');
+      let length = 0;
+      while (length < parts.length && length < segments.length && parts[parts.length - 1 - length] === segments[segments.length - 1 - length]) {
+        length++;
+      }
+      if (length > bestLength) {
+        best = dir;
+        bestLength = length;
+      }
+    }
+    if (!best) {
+      return [];
+    }
+    return this.directories.get(best)!.filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+  }
+
+  /**
+   * Find the Go module an import path belongs to
+   * @param source Import path
+   * @returns Module with the longest path prefixing the import, if any
+   */
+  private findGoModule(source: string): { path: string; dir: string } | undefined {
+    return (this.config.goModules || [])
+      .filter(module => source === module.path || source.startsWith(`${module.path}/`))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  /**
+   * Resolve a Java or PHP qualified name to the file declaring it, which is found
+   * under a directory per namespace segment; source roots like `src/main/java` are skipped
+   * @param source Qualified name, e.g. `com.acme.User` or `App\Models\User`
+   * @param separator Namespace separator
+   * @param extension File extension
+   * @returns Matching files; every file of the package for a wildcard import
+   */
+  private resolveQualifiedName(source: string, separator: string, extension: string): string[] {
+    const segments = source.split(separator).filter(Boolean);
+    const found = this.resolveSegments(segments, extension);
+    // PSR-4 maps the vendor namespace (`App\`) to a source directory such as `src/`
+    if (found.length === 0 && extension === '.php' && segments.length > 2) {
+      return this.resolveSegments(segments.slice(1), extension);
+    }
+    return found;
+  }
+
+  /**
+   * Find the file or directory named by the segments of a qualified name
+   * @param segments Namespace segments followed by the type name
+   * @param extension File extension
+   * @returns Matching files
+   */
+  private resolveSegments(segments: string[], extension: string): string[] {
+    // Static imports name a member of the class, so a shorter prefix is tried as well
+    for (let length = segments.length; length > 0; length--) {
+      const suffix = segments.slice(0, length).join('/');
+      const file = [...this.files].find(candidate => this.hasSuffix(candidate, suffix + extension));
+      if (file) {
+        return [file];
+      }
+      if (length === segments.length) {
+        // A wildcard import names a package directory
+        const dir = [...this.directories.keys()].find(candidate => this.hasSuffix(candidate, suffix));
+        if (dir) {
+          return this.directories.get(dir)!.filter(candidate => candidate.endsWith(extension));
+        }
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Resolve a Ruby `require` or `require_relative`
+   * @param from Importing file
+   * @param source Required path
+   * @returns Matching file, if any
+   */
+  private resolveRuby(from: string, source: string): string[] {
+    if (source.startsWith('.')) {
+      return this.resolveRelative(from, source, ['.rb', '']);
+    }
+    // Load path requires are usually relative to `lib`
+    return this.first([`lib/${source}.rb`, `${source}.rb`]);
+  }
+
+  /**
+   * Resolve a C or C++ `#include`, relative to the including file or any directory of the project
+   * @param from Including file
+   * @param source Included path
+   * @returns Matching file, if any
+   */
+  private resolveInclude(from: string, source: string): string[] {
+    const relative = this.first([this.join(from, source)]);
+    if (relative.length > 0) {
+      return relative;
+    }
+    const file = [...this.files].find(candidate => this.hasSuffix(candidate, source));
+    return file ? [file] : [];
+  }
+
+  /**
+   * Resolve a path relative to the importing file, trying extensions in order
+   * @param from Importing file
+   * @param source Relative path
+   * @param extensions Extensions to append
+   * @returns Matching file, if any
+   */
+  private resolveRelative(from: string, source: string, extensions: string[]): string[] {
+    const target = this.join(from, source);
+    return this.first(extensions.map(extension => target + extension));
+  }
+
+  /**
+   * Join a relative import to the directory of the importing file
+   * @param from Importing file
+   * @param source Relative path; a leading `/` is taken from the root
+   * @returns Normalized path relative to the root
+   */
+  private join(from: string, source: string): string {
+    const joined = source.startsWith('/') ? source.slice(1) : path.posix.join(path.posix.dirname(from), source);
+    return path.posix.normalize(joined);
+  }
+
+  /**
+   * Pick the first candidate that is a known file
+   * @param candidates Paths relative to the root
+   * @returns The first known path, or nothing
+   */
+  private first(candidates: string[]): string[] {
+    const found = candidates.find(candidate => this.files.has(candidate));
+    return found ? [found] : [];
+  }
+
+  /**
+   * Check whether a path ends with whole segments of another
+   * @param file Path relative to the root
+   * @param suffix Expected trailing segments
+   * @returns True if the path is the suffix or ends with `/suffix`
+   */
+  private hasSuffix(file: string, suffix: string): boolean {
+    return file === suffix || file.endsWith(`/${suffix}`);
+  }
+}
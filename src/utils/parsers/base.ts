@@ -0,0 +1,58 @@
+import { readFileContent } from '../fileUtils';
+import { CallOptions, collectCalls } from './calls';
+import { CodeEntity, FileAnalysis, ImportInfo, Parser } from './types';
+
+/**
+ * Base of the parsers that scan a masked copy of the source, with comments and
+ * string contents blanked. Subclasses find the entities and imports; this class
+ * reads the file and collects the call sites.
+ */
+export abstract class MaskedSourceParser implements Parser {
+  // How calls are written in the language
+  protected abstract readonly callSyntax: CallOptions;
+
+  abstract maskCode(content: string): string;
+
+  /**
+   * Collect the declarations of a file
+   * @param content File content
+   * @param masked Masked file content
+   * @param filePath Path to the file
+   * @param basePath Base path for relative paths
+   * @returns Entities in source order
+   */
+  protected abstract parseEntities(content: string, masked: string, filePath: string, basePath: string): CodeEntity[];
+
+  /**
+   * Read the import statements of a file
+   * @param content File content
+   * @param masked Masked file content
+   * @returns Imports in source order
+   */
+  protected abstract parseImports(content: string, masked: string): ImportInfo[];
+
+  /**
+   * Read the part of a file that holds code
+   * @param filePath Path to the file
+   * @returns File content
+   */
+  protected readContent(filePath: string): string {
+    return readFileContent(filePath);
+  }
+
+  parseFile(filePath: string, basePath: string = ''): CodeEntity[] {
+    const content = this.readContent(filePath);
+    return this.parseEntities(content, this.maskCode(content), filePath, basePath);
+  }
+
+  analyzeFile(filePath: string, basePath: string = ''): FileAnalysis {
+    const content = this.readContent(filePath);
+    const masked = this.maskCode(content);
+    const entities = this.parseEntities(content, masked, filePath, basePath);
+    return {
+      entities,
+      calls: collectCalls(content, masked, entities, this.callSyntax),
+      imports: this.parseImports(content, masked)
+    };
+  }
+}
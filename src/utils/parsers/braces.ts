@@ -0,0 +1,589 @@
+import * as path from 'path';
+import { MaskedSourceParser } from './base';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, maskSource, splitTopLevel } from './lexer';
+import { CodeEntity, ContainerKind, EntityKind, ImportInfo, ParameterInfo, Visibility } from './types';
+
+/**
+ * A `{ ... }` block on the scope stack
+ */
+export interface BlockScope {
+  // Name contributed to the container path (unnamed blocks contribute nothing)
+  name?: string;
+  kind: ContainerKind | 'block';
+  // Visibility of members declared without an explicit modifier
+  defaultVisibility?: Visibility;
+  // Entity whose body this block is
+  entity?: CodeEntity;
+  // Resolve the entity name from the text after the closing brace (C `typedef struct { } Name;`)
+  nameAfterBody?: boolean;
+}
+
+/**
+ * Text of a declaration header: everything between the previous `;`, `{` or `}` and the current one
+ */
+export interface HeaderContext {
+  // Header with comments and string contents blanked, trimmed
+  text: string;
+  // Original header text for the same span, trimmed
+  source: string;
+  // Enclosing scopes, outermost first
+  stack: BlockScope[];
+  // Innermost enclosing scope
+  scope: BlockScope;
+  filePath: string;
+}
+
+/**
+ * Declaration recognised in a header
+ */
+export interface Declaration {
+  name: string;
+  type: CodeEntity['type'];
+  kind: EntityKind;
+  // Scope path written in the declaration itself, e.g. ['User'] for `void User::save()`
+  qualifier?: string[];
+  qualifierKind?: ContainerKind;
+  signature?: string;
+  parameters?: ParameterInfo[];
+  returnType?: string;
+  visibility?: Visibility;
+  isStatic?: boolean;
+  isAsync?: boolean;
+  isAbstract?: boolean;
+  isExported?: boolean;
+  decorators?: string[];
+}
+
+/**
+ * Result of classifying the header of a block
+ */
+export interface BlockDeclaration {
+  // Entity to report, if the block declares one
+  declaration?: Declaration;
+  // Scope opened by the block body
+  scope: BlockScope;
+}
+
+/**
+ * Parsed shape of a C-style function header: `modifiers type name(params) suffix`
+ */
+export interface FunctionHeader {
+  modifiers: string[];
+  typeParameters?: string;
+  returnType?: string;
+  name: string;
+  qualifier: string[];
+  parameters: string;
+  suffix: string;
+}
+
+/**
+ * Options for parsing C-style function headers
+ */
+export interface FunctionHeaderOptions {
+  // Keywords allowed before the return type
+  modifiers: Set<string>;
+  // Keywords that rule out a declaration (control flow, operators)
+  keywords: Set<string>;
+  // Separator for qualified names (`::` in C++, `.` in C# explicit interface implementations)
+  qualifierSeparator?: string;
+}
+
+/**
+ * Class-like scope kinds, used to decide whether a function is a method
+ */
+const TYPE_SCOPES = new Set<string>(['class', 'struct', 'union', 'interface', 'enum', 'record', 'trait', 'protocol', 'extension']);
+
+/**
+ * Get the nearest class-like scope, stopping at function bodies
+ * @param stack Scope stack, outermost first
+ * @returns Enclosing type scope or undefined
+ */
+export function getEnclosingType(stack: BlockScope[]): BlockScope | undefined {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (TYPE_SCOPES.has(stack[i].kind)) {
+      return stack[i];
+    }
+    if (stack[i].kind === 'function') {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether the innermost non-block scope is a function body
+ * @param stack Scope stack, outermost first
+ * @returns True inside a function body
+ */
+export function isInsideFunction(stack: BlockScope[]): boolean {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].kind !== 'block') {
+      return stack[i].kind === 'function';
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove leading attributes/annotations from a header
+ * @param text Masked header
+ * @param source Original header
+ * @param style Attribute syntax: `@Name(...)`, `[Name(...)]` or `#[Name(...)]`
+ * @returns Remaining masked/original text and the attribute source texts
+ */
+export function stripAttributes(
+  text: string,
+  source: string,
+  style: 'at' | 'bracket' | 'hash'
+): { text: string; source: string; decorators: string[] } {
+  const decorators: string[] = [];
+  let offset = 0;
+
+  for (;;) {
+    while (offset < text.length && /\s/.test(text[offset])) {
+      offset++;
+    }
+    let end = -1;
+    if (style === 'at' && text[offset] === '@' && text.slice(offset + 1, offset + 10) !== 'interface') {
+      const match = /^@[A-Za-z_$][\w$.]*/.exec(text.slice(offset));
+      if (match) {
+        end = offset + match[0].length;
+        let next = end;
+        while (next < text.length && /\s/.test(text[next])) {
+          next++;
+        }
+        if (text[next] === '(') {
+          const close = findClosingBracket(text, next);
+          end = close === -1 ? text.length : close + 1;
+        }
+      }
+    } else if ((style === 'bracket' && text[offset] === '[') || (style === 'hash' && text.startsWith('#[', offset))) {
+      const open = style === 'hash' ? offset + 1 : offset;
+      const close = findClosingBracket(text, open);
+      end = close === -1 ? -1 : close + 1;
+    }
+    if (end === -1) {
+      break;
+    }
+    decorators.push(collapseWhitespace(source.slice(offset, end)));
+    offset = end;
+  }
+
+  return { text: text.slice(offset).trim(), source: source.slice(offset).trim(), decorators };
+}
+
+/**
+ * Remove the `<...>` type argument lists from a qualified name, including nested ones
+ * @param name Qualified name, e.g. `Repo<std::vector<int>>::touch`
+ * @returns Name without type arguments
+ */
+function removeTypeArguments(name: string): string {
+  let result = name;
+  for (let previous = ''; previous !== result;) {
+    previous = result;
+    result = result.replace(/<[^<>]*>/g, '');
+  }
+  return result;
+}
+
+/**
+ * Parse a C-style function header (`modifiers type name(params) suffix`)
+ * @param text Masked header without attributes
+ * @param source Original header without attributes
+ * @param options Language keywords
+ * @returns Parsed header, or null if the text is not a function header
+ */
+export function parseFunctionHeader(text: string, source: string, options: FunctionHeaderOptions): FunctionHeader | null {
+  let open = text.indexOf('(');
+  // `operator()` has its own parentheses before the parameter list
+  const operatorCall = /\boperator\s*\(\s*\)\s*$/.exec(text.slice(0, text.indexOf(')', open) + 1));
+  if (operatorCall) {
+    open = text.indexOf('(', text.indexOf(')', open) + 1);
+  }
+  if (open <= 0) {
+    return null;
+  }
+  const close = findClosingBracket(text, open);
+  if (close === -1) {
+    return null;
+  }
+
+  let prefix = text.slice(0, open).trim();
+
+  // Operator overloads: the operator symbol is part of the name
+  let operatorName: string | undefined;
+  const operatorIndex = prefix.search(/\boperator\b/);
+  if (operatorIndex !== -1) {
+    operatorName = prefix.slice(operatorIndex).replace(/\s+/g, ' ').replace(/^operator\s+(?=\W)/, 'operator');
+    prefix = prefix.slice(0, operatorIndex) + 'operator';
+  }
+
+  if (!/^[\w\s$:<>,*&~\[\].?]+$/.test(prefix)) {
+    return null;
+  }
+
+  const tokens = splitTopLevel(prefix.replace(/\s*([*&]+)\s*/g, ' $1'), ' ');
+  if (tokens.length === 0 || tokens.some(token => options.keywords.has(token))) {
+    return null;
+  }
+
+  // The name is the last token; pointer/reference markers belong to the return type
+  let nameToken = tokens.pop() as string;
+  const pointer = /^([*&]+)/.exec(nameToken);
+  if (pointer) {
+    nameToken = nameToken.slice(pointer[1].length);
+    tokens.push(pointer[1]);
+  }
+
+  // Generic parameters written after the name: `T Get<T>(...)`
+  let typeParameters: string | undefined;
+  const generic = /^([^<]+)(<.*>)$/.exec(nameToken);
+  if (generic && !operatorName) {
+    nameToken = generic[1];
+    typeParameters = generic[2];
+  }
+
+  const separator = options.qualifierSeparator;
+  // Template arguments do not change the scope a qualifier names: `Repo<int>::touch` belongs to `Repo`
+  const parts = separator ? removeTypeArguments(nameToken).split(separator) : [nameToken];
+  let name = parts.pop() as string;
+  if (operatorName && name === 'operator') {
+    name = operatorName;
+  } else if (!/^~?[A-Za-z_$][\w$]*$/.test(name)) {
+    return null;
+  }
+
+  const modifiers: string[] = [];
+  while (tokens.length > 0 && options.modifiers.has(tokens[0])) {
+    modifiers.push(tokens.shift() as string);
+  }
+  if (tokens.length > 0 && tokens[0].startsWith('<')) {
+    typeParameters = tokens.shift();
+  }
+  // Modifiers may also follow generic type parameters
+  while (tokens.length > 0 && options.modifiers.has(tokens[0])) {
+    modifiers.push(tokens.shift() as string);
+  }
+
+  return {
+    modifiers,
+    typeParameters,
+    returnType: tokens.length > 0 ? tokens.join(' ').replace(/\s+([*&]+)$/, '$1') : undefined,
+    name,
+    qualifier: parts.filter(part => part.length > 0),
+    parameters: source.slice(open + 1, close),
+    suffix: collapseWhitespace(source.slice(close + 1))
+  };
+}
+
+/**
+ * Split the default value off a parameter (`name = value`) and record it
+ * @param text Parameter text
+ * @param info Parameter information that receives the default value
+ * @returns Parameter text without the default value
+ */
+export function takeDefaultValue(text: string, info: ParameterInfo): string {
+  const assignment = splitTopLevel(text, '=');
+  if (assignment.length < 2) {
+    return text;
+  }
+  info.defaultValue = collapseWhitespace(assignment.slice(1).join('='));
+  info.optional = true;
+  return assignment[0];
+}
+
+/**
+ * Parse a C-style parameter list (`Type name = default, ...`)
+ * @param parameters Parameter list source text
+ * @param attributeStyle Attribute syntax to strip from each parameter
+ * @returns Parameter information
+ */
+export function parseCStyleParameters(parameters: string, attributeStyle: 'at' | 'bracket'): ParameterInfo[] {
+  const result: ParameterInfo[] = [];
+
+  for (const raw of splitTopLevel(parameters)) {
+    let text = stripAttributes(raw, raw, attributeStyle).text;
+    if (text === 'void' || text.length === 0) {
+      continue;
+    }
+    if (text === '...') {
+      result.push({ name: '...', rest: true });
+      continue;
+    }
+
+    const info: ParameterInfo = { name: '' };
+    text = takeDefaultValue(text, info);
+
+    // Function pointer: int (*callback)(int)
+    const functionPointer = /\(\s*[*&^]\s*([A-Za-z_]\w*)\s*\)/.exec(text);
+    if (functionPointer) {
+      info.name = functionPointer[1];
+      info.type = collapseWhitespace(text.replace(functionPointer[1], ''));
+      result.push(info);
+      continue;
+    }
+
+    if (text.includes('...')) {
+      info.rest = true;
+      text = text.replace('...', ' ');
+    } else if (/^params\s/.test(text)) {
+      info.rest = true;
+    }
+
+    const match = /^(.*?)([A-Za-z_$][\w$]*)\s*((?:\[[^\]]*\]\s*)*)$/.exec(text.trim());
+    if (match && match[1].trim().length > 0) {
+      info.name = match[2];
+      info.type = collapseWhitespace(match[1] + match[3]);
+    } else {
+      // Unnamed parameter in a prototype: `int foo(int, char *)`
+      info.type = collapseWhitespace(text);
+    }
+    result.push(info);
+  }
+
+  return result;
+}
+
+/**
+ * Base class for parsers of languages that delimit declarations with braces
+ * (Java, C#, PHP, Swift, C/C++). Subclasses recognise declaration headers; this
+ * class tracks the block structure, ranges and containers.
+ */
+export abstract class BraceLanguageParser extends MaskedSourceParser {
+  // Comment and string syntax of the language
+  protected abstract readonly lexer: LexerOptions;
+
+  // Treat `public:` style access labels as header boundaries (C++)
+  protected readonly accessLabels: boolean = false;
+
+  /**
+   * Classify the header in front of a `{`
+   * @param header Header context
+   * @returns Block declaration, or null for an anonymous block
+   */
+  protected abstract classifyBlock(header: HeaderContext): BlockDeclaration | null;
+
+  /**
+   * Classify a `namespace Name {` header
+   * @param header Header context
+   * @param pattern Namespace syntax of the language, capturing the name
+   * @returns Block declaration, or null if the header is not a namespace
+   */
+  protected classifyNamespace(header: HeaderContext, pattern: RegExp): BlockDeclaration | null {
+    const namespace = pattern.exec(header.text);
+    if (!namespace) {
+      return null;
+    }
+    return {
+      declaration: { name: namespace[1], type: 'namespace', kind: 'namespace', signature: collapseWhitespace(header.source) },
+      scope: { name: namespace[1], kind: 'namespace' }
+    };
+  }
+
+  /**
+   * Classify a header terminated by `;` (abstract methods, prototypes, file-scoped namespaces)
+   * @param header Header context
+   * @returns Declaration, or null if the statement declares nothing
+   */
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    return null;
+  }
+
+  /**
+   * Decide whether a line break ends a statement (for languages without semicolons)
+   * @param masked Masked file content
+   * @param headerStart Offset where the current header starts
+   * @param index Offset of the line break
+   * @returns True if the text since headerStart is a complete statement
+   */
+  protected isStatementEnd(masked: string, headerStart: number, index: number): boolean {
+    return false;
+  }
+
+  /**
+   * Adjust the raw file content before masking (e.g. blank out text outside PHP tags)
+   * @param content File content
+   * @returns Content of the same length
+   */
+  protected prepare(content: string): string {
+    return content;
+  }
+
+  /**
+   * Read the import statements of a file
+   * @param content File content
+   * @param masked Masked file content
+   * @returns Imports in source order
+   */
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    return [];
+  }
+
+  maskCode(content: string): string {
+    return maskSource(this.prepare(content), this.lexer);
+  }
+
+  /**
+   * Walk the block structure of a file and collect its declarations
+   * @param content File content
+   * @param masked Masked file content
+   * @param filePath Path to the file
+   * @param basePath Base path for relative paths
+   * @returns Entities sorted by position
+   */
+  protected parseEntities(content: string, masked: string, filePath: string, basePath: string): CodeEntity[] {
+    const toPosition = createLineIndex(content);
+    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
+
+    const entities: CodeEntity[] = [];
+    const prototypes = new Set<CodeEntity>();
+    const stack: BlockScope[] = [{ kind: 'block' }];
+    let headerStart = 0;
+    let parenDepth = 0;
+    let bracketDepth = 0;
+
+    const buildHeader = (end: number): { context: HeaderContext; start: number } | null => {
+      const raw = masked.slice(headerStart, end);
+      const text = raw.trim();
+      if (!text) {
+        return null;
+      }
+      const start = headerStart + (raw.length - raw.trimStart().length);
+      return {
+        start,
+        context: {
+          text,
+          source: content.slice(start, start + text.length),
+          stack,
+          scope: stack[stack.length - 1],
+          filePath
+        }
+      };
+    };
+
+    const basename = path.basename(filePath);
+    const createEntity = (declaration: Declaration, start: number, end: number): CodeEntity => {
+      const begin = toPosition(start);
+      const finish = toPosition(end);
+      const scopes = stack.filter(scope => scope.name);
+      const scopePath = [...scopes.map(scope => scope.name as string), ...(declaration.qualifier || [])];
+      const innermost = scopes[scopes.length - 1];
+      const { qualifier, qualifierKind, ...fields } = declaration;
+
+      const entity: CodeEntity = {
+        ...fields,
+        line: begin.line,
+        column: begin.column,
+        endLine: finish.line,
+        endColumn: finish.column,
+        file: basename,
+        relativePath
+      };
+      if (scopePath.length > 0) {
+        entity.container = scopePath.join('.');
+        entity.containerKind = qualifier && qualifier.length > 0
+          ? (qualifierKind || 'class')
+          : (innermost.kind as ContainerKind);
+      }
+      return entity;
+    };
+
+    const endStatement = (end: number): void => {
+      const header = buildHeader(end);
+      const declaration = header ? this.classifyStatement(header.context) : null;
+      if (declaration && header) {
+        if (declaration.type === 'namespace' && stack.length === 1) {
+          // File-scoped namespace: applies to the rest of the file
+          const entity = createEntity(declaration, header.start, masked.length);
+          stack[0] = { name: declaration.name, kind: 'namespace' };
+          entities.push(entity);
+        } else {
+          const entity = createEntity(declaration, header.start, masked[end] === ';' ? end + 1 : end);
+          entities.push(entity);
+          if (declaration.type === 'function') {
+            prototypes.add(entity);
+          }
+        }
+      }
+      headerStart = end + 1;
+    };
+
+    for (let i = 0; i < masked.length; i++) {
+      const ch = masked[i];
+
+      if (ch === '(') {
+        parenDepth++;
+        continue;
+      }
+      if (ch === ')') {
+        parenDepth = Math.max(0, parenDepth - 1);
+        continue;
+      }
+      if (ch === '[') {
+        bracketDepth++;
+        continue;
+      }
+      if (ch === ']') {
+        bracketDepth = Math.max(0, bracketDepth - 1);
+        continue;
+      }
+      // Braces inside argument lists belong to lambdas and initialisers, not declarations
+      if (parenDepth > 0 || bracketDepth > 0) {
+        continue;
+      }
+
+      if (ch === '{') {
+        const header = buildHeader(i);
+        const result = header ? this.classifyBlock(header.context) : null;
+        const scope: BlockScope = result ? result.scope : { kind: 'block' };
+        if (result && result.declaration && header) {
+          scope.entity = createEntity(result.declaration, header.start, i + 1);
+        }
+        stack.push(scope);
+        headerStart = i + 1;
+      } else if (ch === '}') {
+        // A statement before the closing brace on the same line: `protocol P { func req() }`
+        if (this.isStatementEnd(masked, headerStart, i)) {
+          endStatement(i);
+        }
+        if (stack.length > 1) {
+          const scope = stack.pop() as BlockScope;
+          if (scope.entity) {
+            const end = toPosition(i + 1);
+            scope.entity.endLine = end.line;
+            scope.entity.endColumn = end.column;
+            if (scope.nameAfterBody) {
+              const trailing = /^\s*([A-Za-z_]\w*)\s*[;,]/.exec(masked.slice(i + 1, i + 200));
+              if (trailing) {
+                scope.entity.name = trailing[1];
+                scope.entity.signature = `${scope.entity.signature} ${trailing[1]}`;
+              }
+            }
+            if (scope.entity.name) {
+              entities.push(scope.entity);
+            }
+          }
+        }
+        headerStart = i + 1;
+      } else if (ch === ';' || (ch === '\n' && this.isStatementEnd(masked, headerStart, i))) {
+        endStatement(i);
+      } else if (ch === ':' && this.accessLabels && masked[i + 1] !== ':' && masked[i - 1] !== ':') {
+        const label = /^\s*(public|protected|private)\s*$/.exec(masked.slice(headerStart, i));
+        if (label) {
+          stack[stack.length - 1].defaultVisibility = label[1] as Visibility;
+          headerStart = i + 1;
+        }
+      }
+    }
+
+    // Drop prototypes whose definition is in the same file
+    const defined = new Set(
+      entities.filter(entity => entity.type === 'function' && !prototypes.has(entity))
+        .map(entity => `${entity.container || ''}.${entity.name}`)
+    );
+    const result = entities.filter(entity => !prototypes.has(entity) || !defined.has(`${entity.container || ''}.${entity.name}`));
+
+    return result.sort((a, b) => a.line - b.line || (a.column || 0) - (b.column || 0));
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Token-based call site extraction shared by the text-based language parsers
+ */
+import { createLineIndex, getLineStarts } from './lexer';
+import { CallSite, CodeEntity } from './types';
+
+const CALL_PATTERN = /([A-Za-z_$][\w$]*[!?]?)\s*\(/g;
+
+// With command calls, every name is a candidate and the `(` is optional
+const COMMAND_CALL_PATTERN = /([A-Za-z_$][\w$]*[!?]?)(\s*\()?/g;
+
+// Text before a command call that starts a statement or an expression: `; puts x`, `then log x`
+const COMMAND_START = /(?:^|;|\b(?:then|do|else|begin|return|if|unless|while|until|and|or|not))\s*$/;
+
+// First argument of a command call: a name, literal, symbol, instance variable, array or heredoc
+const COMMAND_ARGUMENT = /^[ \t]+(?:([A-Za-z_]\w*)|[\d"'`@$[]|:[\w"']|<<[~-]?[\w"'`])/;
+
+// Words after a name that continue the statement instead of passing an argument: `value if ready`
+const COMMAND_MODIFIERS = new Set(['if', 'unless', 'while', 'until', 'and', 'or', 'do', 'then', 'rescue', 'in', 'end']);
+
+// Receiver chain before a member call: `this.repo.`, `$this->`, `Foo::`, `user&.`
+const QUALIFIER_PATTERN = /((?:[A-Za-z_$@][\w$]*(?:\s*(?:\?\.|\.|->|::|&\.)\s*))*[A-Za-z_$@][\w$]*)\s*(?:\?\.|\.|->|::|&\.)\s*$/;
+
+/**
+ * Options for collectCalls
+ */
+export interface CallOptions {
+  // Record calls outside any function (script languages)
+  topLevel: boolean;
+  // Words followed by `(` without being calls: keywords and language constructs
+  keywords: ReadonlySet<string>;
+  // Method calls may omit the parentheses, as in `puts "hi"` or `items.clear` (Ruby)
+  commandCalls?: boolean;
+  // `@name` is an instance variable that may receive calls (Ruby); elsewhere `@a.b(...)` is an annotation
+  instanceVariables?: boolean;
+}
+
+/**
+ * Find the receiver written before a member call
+ * @param masked Masked source code
+ * @param start Offset of the called name
+ * @returns Receiver text, `<expression>` for complex receivers, or undefined for plain calls
+ */
+function getQualifier(masked: string, start: number): string | undefined {
+  const before = masked.slice(Math.max(0, start - 200), start);
+  if (!/(?:\?\.|\.|->|::|&\.)\s*$/.test(before)) {
+    return undefined;
+  }
+  const match = QUALIFIER_PATTERN.exec(before);
+  if (!match) {
+    return '<expression>';
+  }
+  // A chain that continues a call or index (`a().b(`) has no plain receiver
+  const preceding = before.slice(0, before.length - match[0].length).replace(/[ \t]+$/, '');
+  if (/[)\]]$/.test(preceding) || /(?:\?\.|\.|->|::)$/.test(preceding)) {
+    return '<expression>';
+  }
+  return match[1].replace(/\s+/g, '');
+}
+
+/**
+ * Check whether a name written without parentheses is a method call, for languages with
+ * command calls. Member names are always calls (`items.clear`); a bare name is a call when
+ * it starts a statement and is followed by an argument (`puts "hi"`, `attr_reader :name`).
+ * @param masked Masked source code
+ * @param start Offset of the name
+ * @param end Offset after the name
+ * @param qualifier Receiver written before the name
+ * @returns True if the name is a call
+ */
+function isCommandCall(masked: string, start: number, end: number, qualifier: string | undefined): boolean {
+  // Constants such as `Foo::Bar` are not calls
+  if (!/^[a-z_]/.test(masked[start])) {
+    return false;
+  }
+  const lineStart = masked.lastIndexOf('\n', start - 1) + 1;
+  const before = masked.slice(lineStart, start);
+  // Method names in `def name` and `def self.name`
+  if (/\bdef\s+[\w.]*$/.test(before)) {
+    return false;
+  }
+  if (qualifier) {
+    // Ranges such as `first..last`
+    return !/\.\.\s*$/.test(before);
+  }
+  if (!COMMAND_START.test(before)) {
+    return false;
+  }
+  const argument = COMMAND_ARGUMENT.exec(masked.slice(end, end + 40));
+  return argument !== null && !(argument[1] && COMMAND_MODIFIERS.has(argument[1]));
+}
+
+/**
+ * Find the header of each declaration, from the start of the entity up to its own name, so the
+ * parameter list and annotations such as `@Get(...)` or `[Obsolete(...)]` are not taken for calls.
+ * The name is the first `name(` after the start of the entity, before its body opens.
+ * @param masked Masked source code
+ * @param entities Parsed entities
+ * @param toOffset Converts a 1-based line and column to an offset
+ * @returns Header ranges sorted by start, each ending at the offset of the name
+ */
+function findDeclarationHeaders(masked: string, entities: CodeEntity[], toOffset: (line: number, column?: number) => number): Array<{ start: number; end: number }> {
+  const headers: Array<{ start: number; end: number }> = [];
+  for (const entity of entities) {
+    const start = toOffset(entity.line, entity.column);
+    const escaped = entity.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(?<![\\w$])${escaped}\\s*\\(`, 'g');
+    pattern.lastIndex = start;
+    const match = pattern.exec(masked);
+    if (match && isHeader(masked.slice(start, match.index))) {
+      headers.push({ start, end: match.index });
+    }
+  }
+  return headers.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether text from the start of an entity up to a `name(` is only its header: it must not
+ * open a body (`{` or `;` outside parentheses and brackets), and every line before the name must
+ * be an annotation, attribute or template clause, e.g. `@SuppressWarnings({"a", "b"})`.
+ * Otherwise the name found is a later call and the declaration was written without parentheses.
+ * @param header Masked text from the start of the entity
+ * @returns True if the text is a declaration header
+ */
+function isHeader(header: string): boolean {
+  let depth = 0;
+  let lineStart = 0;
+  for (let i = 0; i < header.length; i++) {
+    const ch = header[i];
+    if (ch === '(' || ch === '[') {
+      depth++;
+    } else if ((ch === ')' || ch === ']') && depth > 0) {
+      depth--;
+    } else if ((ch === '{' || ch === ';') && depth === 0) {
+      return false;
+    } else if (ch === '\n' && depth === 0) {
+      const line = header.slice(lineStart, i).trim();
+      if (line && !/^(?:@|\[|#\[|template\b)/.test(line)) {
+        return false;
+      }
+      lineStart = i + 1;
+    }
+  }
+  return true;
+}
+
+/**
+ * Collect the call sites in a file and attribute each one to the innermost function containing it
+ * @param content Original source code
+ * @param masked Source code with comments and string contents blanked
+ * @param entities Entities parsed from the file, with 1-based ranges
+ * @param options Language options
+ * @returns Call sites in source order
+ */
+export function collectCalls(content: string, masked: string, entities: CodeEntity[], options: CallOptions): CallSite[] {
+  const lineStarts = getLineStarts(content);
+  const toOffset = (line: number, column: number = 1): number => (lineStarts[line - 1] ?? content.length) + column - 1;
+  const toPosition = createLineIndex(content);
+
+  // Function bodies sorted by start; they nest, so a stack yields the innermost one
+  const ranges = entities
+    .map((entity, index) => ({ entity, index }))
+    .filter(({ entity }) => entity.type === 'function' && entity.endLine !== undefined)
+    .map(({ entity, index }) => ({
+      index,
+      start: toOffset(entity.line, entity.column),
+      end: toOffset(entity.endLine as number, entity.endColumn)
+    }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+  const headers = findDeclarationHeaders(masked, entities, toOffset);
+
+  const calls: CallSite[] = [];
+  const open: typeof ranges = [];
+  let next = 0;
+  let header = 0;
+
+  const pattern = options.commandCalls ? COMMAND_CALL_PATTERN : CALL_PATTERN;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+    const start = match.index;
+    const name = match[1];
+    // Part of a longer word, an annotation (`@Get(`), a PHP attribute (`#[Route(`) or a destructor name
+    if ((start > 0 && /[\w$@#~]/.test(masked[start - 1])) || masked.startsWith('#[', start - 2)) {
+      continue;
+    }
+    while (header < headers.length && headers[header].end < start) {
+      header++;
+    }
+    if (header < headers.length && headers[header].start <= start) {
+      continue;
+    }
+
+    while (next < ranges.length && ranges[next].start <= start) {
+      open.push(ranges[next++]);
+    }
+    while (open.length > 0 && open[open.length - 1].end < start) {
+      open.pop();
+    }
+
+    const qualifier = getQualifier(masked, start);
+    if (!qualifier && options.keywords.has(name)) {
+      continue;
+    }
+    if (qualifier && qualifier.startsWith('@') && !options.instanceVariables) {
+      continue;
+    }
+    if (options.commandCalls && match[2] === undefined && !isCommandCall(masked, start, start + name.length, qualifier)) {
+      continue;
+    }
+    const position = toPosition(start);
+    const caller = open.length > 0 ? open[open.length - 1].index : -1;
+    if (caller === -1 && !options.topLevel) {
+      continue;
+    }
+
+    const call: CallSite = { caller, name, line: position.line, column: position.column };
+    if (qualifier) {
+      call.qualifier = qualifier;
+    }
+    calls.push(call);
+  }
+
+  return calls;
+}
@@ -0,0 +1,254 @@
+import {
+  BlockDeclaration,
+  BraceLanguageParser,
+  Declaration,
+  FunctionHeader,
+  HeaderContext,
+  getEnclosingType,
+  isInsideFunction,
+  parseCStyleParameters,
+  parseFunctionHeader,
+  stripAttributes
+} from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket } from './lexer';
+import { ContainerKind, EntityKind, ImportInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'catch', 'return', 'throw', 'sizeof', 'alignof',
+  'alignas', 'decltype', 'typeid', 'noexcept', 'static_assert', 'operator', 'template', 'requires', 'new', 'delete',
+  'defined', 'this', '__attribute__', '__declspec'
+]);
+
+const MODIFIERS = new Set([
+  'static', 'inline', 'extern', 'virtual', 'explicit', 'constexpr', 'consteval', 'constinit',
+  'friend', 'thread_local', '__inline', '__forceinline', 'register'
+]);
+
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'return', 'sizeof', 'new', 'delete',
+  'throw', 'catch', 'try', 'goto', 'typedef', 'using', 'alignof', 'static_assert', 'co_return',
+  'co_await', 'co_yield', 'defined', 'template', 'namespace'
+]);
+
+const TYPE_PATTERN = /^(typedef\s+)?(class|struct|union|enum\s+class|enum\s+struct|enum)\b\s*((?:[A-Z_][A-Z0-9_]*\s+)*)([A-Za-z_]\w*)?\s*(final\s*)?(:(?!:).*)?$/s;
+
+const NAMESPACE_PATTERN = /^(?:inline\s+)?namespace\s+([A-Za-z_][\w:]*)$/;
+
+// Text allowed between the parameter list and the body
+const SUFFIX_PATTERN = /^(?:\s|const\b|volatile\b|noexcept\b(?:\s*\([^)]*\))?|override\b|final\b|throw\s*\(\s*\)|&&?|->\s*[^:{=]+|requires\b[^{=]+)*(?::(?!:).*)?$/s;
+
+// Text allowed after the parameter list of a member declaration without body
+const DECLARATION_SUFFIX_PATTERN = /^(?:\s|const\b|volatile\b|noexcept\b(?:\s*\([^)]*\))?|override\b|final\b|throw\s*\(\s*\)|&&?|->\s*[^:{=]+)*(?:=\s*(?:0|default|delete))?$/s;
+
+/**
+ * Replace `template <...>` prefixes and compiler-specific attributes with spaces
+ * @param text Header text
+ * @returns Header text with the same length
+ */
+function blankCompilerNoise(text: string): string {
+  let result = text.replace(/__(?:attribute__|declspec)\s*\(\((?:[^()]|\([^()]*\))*\)\)|__declspec\s*\([^)]*\)/g, match => ' '.repeat(match.length));
+  const template = /^\s*template\s*</.exec(result);
+  if (template) {
+    const close = findClosingBracket(result, template[0].length - 1);
+    if (close !== -1) {
+      result = ' '.repeat(close + 1) + result.slice(close + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parser for C and C++: namespaces, classes, structs, unions, enums, functions,
+ * methods (including out-of-line definitions), constructors, destructors and operators
+ */
+export class CppParser extends BraceLanguageParser {
+  protected readonly lexer: LexerOptions = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    strings: ['"', "'"],
+    preprocessor: true
+  };
+
+  protected readonly callSyntax: CallOptions = { topLevel: false, keywords: CALL_KEYWORDS };
+
+  protected readonly accessLabels = true;
+
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    // Directives are masked as comments, so they are read from the original text
+    const pattern = /^[ \t]*#[ \t]*include[ \t]*[<"]([^>"\n]+)[>"]/gm;
+    for (let match = pattern.exec(content); match; match = pattern.exec(content)) {
+      imports.push({ source: match[1], line: toPosition(match.index).line, bindings: [] });
+    }
+    return imports;
+  }
+
+  protected classifyBlock(header: HeaderContext): BlockDeclaration | null {
+    // Anonymous namespaces give their members internal linkage
+    if (header.text === 'namespace') {
+      return { scope: { kind: 'namespace' } };
+    }
+    const namespace = NAMESPACE_PATTERN.exec(header.text);
+    if (namespace) {
+      const name = namespace[1].replace(/::/g, '.');
+      return {
+        declaration: { name, type: 'namespace', kind: 'namespace', signature: collapseWhitespace(header.source) },
+        scope: { name, kind: 'namespace' }
+      };
+    }
+
+    const { text, source, signature } = this.normalize(header);
+
+    const typeMatch = TYPE_PATTERN.exec(text);
+    if (typeMatch && !isInsideFunction(header.stack)) {
+      const keyword = typeMatch[2].replace(/\s+/g, ' ');
+      const kind: EntityKind & ContainerKind = keyword.startsWith('enum') ? 'enum' : keyword as EntityKind & ContainerKind;
+      const name = typeMatch[4] || '';
+      // Anonymous members (`struct { int x; } point;`) are not declarations
+      if (!name && !typeMatch[1]) {
+        return null;
+      }
+      const enclosing = getEnclosingType(header.stack);
+      const declaration: Declaration = {
+        name,
+        type: 'class',
+        kind,
+        signature,
+        visibility: enclosing ? this.getMemberVisibility(header) : undefined
+      };
+      return {
+        declaration,
+        scope: {
+          name: name || undefined,
+          kind,
+          defaultVisibility: keyword === 'class' ? 'private' : 'public',
+          nameAfterBody: !name
+        }
+      };
+    }
+
+    const fn = this.parseFunction(header, text, source, signature, false);
+    if (fn) {
+      return { declaration: fn, scope: { name: fn.name, kind: 'function' } };
+    }
+
+    return null;
+  }
+
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    // Prototypes and member declarations only appear outside function bodies
+    if (isInsideFunction(header.stack)) {
+      return null;
+    }
+    const { text, source, signature } = this.normalize(header);
+    return this.parseFunction(header, text, source, signature, true);
+  }
+
+  /**
+   * Strip attributes, templates and compiler-specific noise from a header
+   * @param header Header context
+   * @returns Masked and original text with the same offsets, plus the signature (template prefix included)
+   */
+  private normalize(header: HeaderContext): { text: string; source: string; signature: string } {
+    const { text, source } = stripAttributes(header.text, header.source, 'bracket');
+    const blanked = blankCompilerNoise(text);
+    const start = blanked.length - blanked.trimStart().length;
+    return { text: blanked.trim(), source: source.slice(start).trim(), signature: collapseWhitespace(source) };
+  }
+
+  /**
+   * Parse a function header
+   * @param header Header context
+   * @param text Normalized masked header
+   * @param source Normalized original header
+   * @param signature Signature text for the header
+   * @param isDeclaration Whether the header ends with `;` instead of a body
+   * @returns Function declaration or null
+   */
+  private parseFunction(header: HeaderContext, text: string, source: string, signature: string, isDeclaration: boolean): Declaration | null {
+    const parsed = parseFunctionHeader(text, source, { modifiers: MODIFIERS, keywords: KEYWORDS, qualifierSeparator: '::' });
+    if (!parsed) {
+      return null;
+    }
+    if (!(isDeclaration ? DECLARATION_SUFFIX_PATTERN : SUFFIX_PATTERN).test(parsed.suffix)) {
+      return null;
+    }
+    // `Foo bar(1, 2);` constructs an object; real parameters never start with a literal
+    if (isDeclaration && /^\s*(?:[0-9"'&-]|true\b|false\b|nullptr\b)/.test(parsed.parameters)) {
+      return null;
+    }
+
+    const enclosing = getEnclosingType(header.stack);
+    const kind = this.getFunctionKind(parsed, enclosing?.name);
+    if (!kind) {
+      return null;
+    }
+
+    const trailingReturn = /->\s*([^{=]+?)\s*(?:$|=)/.exec(parsed.suffix);
+    const isMember = !!enclosing || parsed.qualifier.length > 0;
+    const isStatic = parsed.modifiers.includes('static');
+    const declaration: Declaration = {
+      name: parsed.name,
+      type: 'function',
+      kind,
+      signature: this.trimSignature(signature, parsed.suffix),
+      parameters: parseCStyleParameters(parsed.parameters, 'bracket'),
+      returnType: trailingReturn && parsed.returnType === 'auto' ? trailingReturn[1] : parsed.returnType,
+      visibility: enclosing ? this.getMemberVisibility(header) : undefined,
+      isStatic: isMember && isStatic,
+      isAbstract: /=\s*0\s*$/.test(parsed.suffix),
+      isExported: !isMember && !isStatic && !header.stack.some(scope => scope.kind === 'function' || (scope.kind === 'namespace' && !scope.name))
+    };
+    if (parsed.qualifier.length > 0) {
+      declaration.qualifier = parsed.qualifier;
+    }
+    return declaration;
+  }
+
+  /**
+   * Remove constructor initializer lists and `= 0`/`= default` markers from a signature
+   * @param signature Collapsed header text
+   * @param suffix Collapsed text after the parameter list
+   * @returns Signature ending at the declarator
+   */
+  private trimSignature(signature: string, suffix: string): string {
+    const tail = /(?<!:):(?!:)|=\s*(?:0|default|delete)\s*$/.exec(suffix);
+    if (!tail) {
+      return signature;
+    }
+    return signature.slice(0, signature.length - suffix.length + tail.index).trim();
+  }
+
+  /**
+   * Decide what kind of function a parsed header declares
+   * @param parsed Parsed function header
+   * @param typeName Name of the enclosing type, if any
+   * @returns Entity kind, or null if the header is not a declaration
+   */
+  private getFunctionKind(parsed: FunctionHeader, typeName: string | undefined): EntityKind | null {
+    const owner = parsed.qualifier.length > 0 ? parsed.qualifier[parsed.qualifier.length - 1] : typeName;
+    if (parsed.name.startsWith('~')) {
+      return owner && parsed.name === `~${owner}` ? 'destructor' : null;
+    }
+    if (!parsed.returnType) {
+      // Only constructors and conversion operators omit the return type
+      if (owner && parsed.name === owner) {
+        return 'constructor';
+      }
+      return owner && parsed.name.startsWith('operator ') ? 'method' : null;
+    }
+    return owner ? 'method' : 'function';
+  }
+
+  /**
+   * Get the visibility that applies at the current position in a class body
+   * @param header Header context
+   * @returns Visibility from the latest access label or the class default
+   */
+  private getMemberVisibility(header: HeaderContext): Visibility | undefined {
+    return getEnclosingType(header.stack)?.defaultVisibility;
+  }
+}
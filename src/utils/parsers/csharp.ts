@@ -0,0 +1,250 @@
+import {
+  BlockDeclaration,
+  BraceLanguageParser,
+  Declaration,
+  FunctionHeader,
+  HeaderContext,
+  getEnclosingType,
+  parseCStyleParameters,
+  parseFunctionHeader,
+  stripAttributes
+} from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex } from './lexer';
+import { ContainerKind, EntityKind, ImportInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call; `base(...)` and `this(...)` are constructor initializers
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'when', 'catch', 'return', 'throw', 'lock',
+  'using', 'fixed', 'checked', 'unchecked', 'typeof', 'sizeof', 'nameof', 'default', 'new', 'this', 'base', 'stackalloc',
+  'await', 'yield', 'is', 'as', 'in', 'out', 'ref', 'where'
+]);
+
+const MODIFIERS = new Set([
+  'public', 'protected', 'private', 'internal', 'static', 'abstract', 'sealed', 'virtual',
+  'override', 'async', 'extern', 'unsafe', 'partial', 'new', 'readonly', 'volatile', 'file', 'required'
+]);
+
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'try', 'catch', 'finally',
+  'return', 'throw', 'using', 'lock', 'fixed', 'checked', 'unchecked', 'await', 'yield',
+  'var', 'delegate', 'event', 'is', 'as', 'typeof', 'nameof', 'sizeof', 'default'
+]);
+
+const TYPE_PATTERN = /^((?:(?:public|protected|private|internal|static|abstract|sealed|partial|readonly|ref|unsafe|new|file)\s+)*)(class|struct|interface|enum|record\s+struct|record\s+class|record)\s+([A-Za-z_]\w*)(.*)$/s;
+
+const NAMESPACE_PATTERN = /^namespace\s+([A-Za-z_][\w.]*)$/;
+
+/**
+ * Map a C# type keyword to an entity kind
+ * @param keyword Type keyword (class, struct, record struct, ...)
+ * @returns Entity kind
+ */
+function getTypeKind(keyword: string): EntityKind & ContainerKind {
+  if (keyword.startsWith('record')) {
+    return 'record';
+  }
+  return keyword as EntityKind & ContainerKind;
+}
+
+/**
+ * Get the visibility from a modifier list
+ * @param modifiers Modifier keywords
+ * @param fallback Visibility when no access modifier is present
+ * @returns Visibility
+ */
+function getVisibility(modifiers: string[], fallback: Visibility): Visibility {
+  if (modifiers.includes('public')) {
+    return 'public';
+  }
+  if (modifiers.includes('protected')) {
+    return 'protected';
+  }
+  if (modifiers.includes('private')) {
+    return 'private';
+  }
+  if (modifiers.includes('internal')) {
+    return 'internal';
+  }
+  return fallback;
+}
+
+/**
+ * Parser for C#: namespaces, classes, structs, interfaces, enums, records, methods,
+ * constructors, destructors and operators
+ */
+export class CSharpParser extends BraceLanguageParser {
+  protected readonly lexer: LexerOptions = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    strings: ['"""', '"', "'"],
+    preprocessor: true,
+    verbatimStrings: true
+  };
+
+  protected readonly callSyntax: CallOptions = { topLevel: false, keywords: CALL_KEYWORDS };
+
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    const pattern = /^[ \t]*(?:global\s+)?using\s+(static\s+)?(?:(\w+)\s*=\s*)?([\w.]+)\s*;/gm;
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      // Namespace and static imports make their members available unqualified
+      const binding = match[2] ? { local: match[2], imported: '*' } : { local: '*', imported: '*' };
+      imports.push({ source: match[3], line: toPosition(match.index).line, bindings: [binding] });
+    }
+    return imports;
+  }
+
+  protected classifyBlock(header: HeaderContext): BlockDeclaration | null {
+    const namespace = this.classifyNamespace(header, NAMESPACE_PATTERN);
+    if (namespace) {
+      return namespace;
+    }
+
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'bracket');
+
+    const type = this.parseType(header, text, source, decorators);
+    if (type) {
+      return { declaration: type, scope: { name: type.name, kind: type.kind as ContainerKind } };
+    }
+
+    const method = this.parseMethod(header, text, source, decorators, true);
+    if (method) {
+      return { declaration: method, scope: { name: method.name, kind: 'function' } };
+    }
+
+    return null;
+  }
+
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    // File-scoped namespace: `namespace Shop.Models;`
+    const namespace = NAMESPACE_PATTERN.exec(header.text);
+    if (namespace) {
+      return { name: namespace[1], type: 'namespace', kind: 'namespace', signature: collapseWhitespace(header.source) };
+    }
+
+    const enclosing = getEnclosingType(header.stack);
+    if (enclosing && enclosing !== header.scope) {
+      return null;
+    }
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'bracket');
+
+    // Positional records: `public record Person(string Name);`
+    const type = this.parseType(header, text, source, decorators);
+    if (type && type.kind === 'record') {
+      return type;
+    }
+
+    return enclosing ? this.parseMethod(header, text, source, decorators, false) : null;
+  }
+
+  /**
+   * Parse a type declaration header
+   * @param header Header context
+   * @param text Masked header without attributes
+   * @param source Original header without attributes
+   * @param decorators Attributes found on the header
+   * @returns Type declaration or null
+   */
+  private parseType(header: HeaderContext, text: string, source: string, decorators: string[]): Declaration | null {
+    const match = TYPE_PATTERN.exec(text);
+    if (!match) {
+      return null;
+    }
+    const modifiers = match[1].trim().split(/\s+/).filter(Boolean);
+    const enclosing = getEnclosingType(header.stack);
+    const visibility = getVisibility(modifiers, enclosing ? 'private' : 'internal');
+    const kind = getTypeKind(match[2].replace(/\s+/g, ' '));
+    const declaration: Declaration = {
+      name: match[3],
+      type: 'class',
+      kind,
+      signature: collapseWhitespace(source),
+      visibility,
+      isStatic: modifiers.includes('static'),
+      isAbstract: modifiers.includes('abstract') || kind === 'interface',
+      isExported: !enclosing && visibility === 'public'
+    };
+    if (decorators.length > 0) {
+      declaration.decorators = decorators;
+    }
+    return declaration;
+  }
+
+  /**
+   * Parse a method, constructor, destructor or operator header
+   * @param header Header context
+   * @param text Masked header without attributes
+   * @param source Original header without attributes
+   * @param decorators Attributes found on the header
+   * @param hasBody Whether the header is followed by a block body
+   * @returns Method declaration or null
+   */
+  private parseMethod(
+    header: HeaderContext,
+    text: string,
+    source: string,
+    decorators: string[],
+    hasBody: boolean
+  ): Declaration | null {
+    const parsed = parseFunctionHeader(text, source, { modifiers: MODIFIERS, keywords: KEYWORDS, qualifierSeparator: '.' });
+    if (!parsed) {
+      return null;
+    }
+
+    const enclosing = getEnclosingType(header.stack);
+    const kind = this.getMethodKind(parsed, enclosing?.name);
+    if (!kind) {
+      return null;
+    }
+
+    // Constructors may chain with `: base(...)`; other suffixes are constraints or expression bodies
+    const suffix = parsed.suffix;
+    const expressionBody = suffix.startsWith('=>');
+    if (suffix && !expressionBody && !/^where\b/.test(suffix) && !(kind === 'constructor' && /^:\s*(base|this)\s*\(/.test(suffix))) {
+      return null;
+    }
+    if (!hasBody && !expressionBody) {
+      // Without a body this is only a declaration if the member cannot have one
+      const bodyless = enclosing?.kind === 'interface' || parsed.modifiers.some(modifier => modifier === 'abstract' || modifier === 'extern' || modifier === 'partial');
+      if (!bodyless) {
+        return null;
+      }
+    }
+
+    const defaultVisibility = enclosing?.kind === 'interface' ? 'public' : 'private';
+    const declaration: Declaration = {
+      name: parsed.name,
+      type: 'function',
+      kind,
+      signature: collapseWhitespace(expressionBody ? source.slice(0, source.indexOf('=>')) : source),
+      parameters: parseCStyleParameters(parsed.parameters, 'bracket'),
+      returnType: parsed.returnType,
+      visibility: enclosing ? getVisibility(parsed.modifiers, defaultVisibility) : undefined,
+      isStatic: parsed.modifiers.includes('static'),
+      isAsync: parsed.modifiers.includes('async'),
+      isAbstract: parsed.modifiers.includes('abstract')
+    };
+    if (decorators.length > 0) {
+      declaration.decorators = decorators;
+    }
+    return declaration;
+  }
+
+  /**
+   * Decide what kind of member a parsed header declares
+   * @param parsed Parsed function header
+   * @param typeName Name of the enclosing type, if any
+   * @returns Entity kind, or null if the header is not a declaration
+   */
+  private getMethodKind(parsed: FunctionHeader, typeName: string | undefined): EntityKind | null {
+    if (parsed.name.startsWith('~')) {
+      return typeName && parsed.name === `~${typeName}` ? 'destructor' : null;
+    }
+    if (!parsed.returnType) {
+      return typeName && parsed.name === typeName ? 'constructor' : null;
+    }
+    return typeName ? 'method' : 'function';
+  }
+}
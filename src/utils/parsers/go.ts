@@ -0,0 +1,505 @@
+import * as path from 'path';
+import { MaskedSourceParser } from './base';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, maskSource, splitTopLevel } from './lexer';
+import { CodeEntity, ContainerKind, ImportInfo, ParameterInfo, ReceiverInfo } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'switch', 'case', 'select', 'return', 'go', 'defer', 'func', 'chan', 'map', 'struct',
+  'interface', 'var', 'const', 'import', 'type', 'range'
+]);
+
+const LEXER: LexerOptions = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']],
+  strings: ['"', "'", '`']
+};
+
+// Words that start a type rather than name a parameter: `chan int`, `func(int) error`
+const TYPE_KEYWORDS = new Set(['chan', 'func', 'map', 'struct', 'interface']);
+
+/**
+ * Check whether an exported Go identifier starts with an upper-case letter
+ * @param name Identifier
+ * @returns True if the identifier is exported from its package
+ */
+function isExportedName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+/**
+ * Parse a Go parameter or type parameter list. Consecutive names share the type
+ * that follows them (`a, b int`), and lists may consist of types only (`(int, error)`).
+ * @param list List text without the surrounding brackets
+ * @returns Parameter information
+ */
+export function parseGoParameters(list: string): ParameterInfo[] {
+  const items = splitTopLevel(list);
+  const split = items.map(item => {
+    const match = /^([A-Za-z_]\w*)\s+(\S.*)$/s.exec(item);
+    return match && !TYPE_KEYWORDS.has(match[1]) ? { name: match[1], type: collapseWhitespace(match[2]) } : null;
+  });
+
+  // Without any `name type` pair every item is a type
+  if (split.every(item => item === null)) {
+    return items.map(item => ({ name: '', type: collapseWhitespace(item) }));
+  }
+
+  const result: ParameterInfo[] = [];
+  let pending: ParameterInfo[] = [];
+  items.forEach((item, index) => {
+    const pair = split[index];
+    if (!pair) {
+      pending.push({ name: item });
+      return;
+    }
+    const info: ParameterInfo = { name: pair.name, type: pair.type };
+    if (pair.type.startsWith('...')) {
+      info.type = pair.type.slice(3);
+      info.rest = true;
+    }
+    for (const name of pending) {
+      name.type = info.type;
+    }
+    result.push(...pending, info);
+    pending = [];
+  });
+  return result.concat(pending);
+}
+
+/**
+ * Parse a method receiver such as `r *Repo` or `s Stack[T]`
+ * @param text Receiver text without parentheses
+ * @returns Receiver information, or null if it cannot be read
+ */
+function parseReceiver(text: string): ReceiverInfo | null {
+  const match = /^(?:([A-Za-z_]\w*)\s+)?(\*?)\s*([A-Za-z_]\w*)\s*(?:\[.*\])?$/s.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const receiver: ReceiverInfo = { type: match[3], pointer: match[2] === '*' };
+  if (match[1] && match[1] !== '_') {
+    receiver.name = match[1];
+  }
+  return receiver;
+}
+
+/**
+ * Decide whether `[...]` after a type name is a type parameter list rather than an array length
+ * @param text Bracket contents
+ * @returns True for `[T any]`, `[K comparable, V any]` and similar
+ */
+function isTypeParameterList(text: string): boolean {
+  return /^\s*[A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*\s+\S/.test(text);
+}
+
+/**
+ * Parser for Go: functions, methods with their receivers, structs, interfaces
+ * (including method sets) and named types, with generic type parameters
+ */
+export class GoParser extends MaskedSourceParser {
+  protected readonly callSyntax: CallOptions = { topLevel: false, keywords: CALL_KEYWORDS };
+
+  maskCode(content: string): string {
+    return maskSource(content, LEXER);
+  }
+
+  /**
+   * Read the import declarations of a file, single or grouped
+   * @param content File content
+   * @param masked Masked file content
+   * @returns Imports in source order, bound to their alias or package name
+   */
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    const pattern = /^[ \t]*import\b\s*/gm;
+
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      const start = match.index + match[0].length;
+      let end = masked.indexOf('\n', start);
+      if (masked[start] === '(') {
+        end = findClosingBracket(masked, start);
+      }
+      if (end === -1) {
+        end = masked.length;
+      }
+
+      // Paths are read from the original text at the positions of the masked strings
+      const spec = /(?:([A-Za-z_]\w*|\.)\s+)?["`][^"`\n]*["`]/g;
+      const region = masked.slice(start, end);
+      for (let item = spec.exec(region); item; item = spec.exec(region)) {
+        const quote = start + item.index + item[0].length - 1;
+        const open = masked.lastIndexOf(masked[quote], quote - 1);
+        const source = content.slice(open + 1, quote);
+        const alias = item[1];
+        let bindings: ImportInfo['bindings'];
+        if (alias === '_') {
+          bindings = [];
+        } else if (alias === '.') {
+          bindings = [{ local: '*', imported: '*' }];
+        } else {
+          // Without an alias the package name is the last path element, minus a major version suffix
+          const segments = source.split('/');
+          const last = /^v\d+$/.test(segments[segments.length - 1]) && segments.length > 1 ? segments[segments.length - 2] : segments[segments.length - 1];
+          bindings = [{ local: alias || last.replace(/\.v\d+$/, '').replace(/^go-/, '').replace(/\W/g, ''), imported: '*' }];
+        }
+        imports.push({ source, line: toPosition(open).line, bindings });
+      }
+      pattern.lastIndex = end;
+    }
+
+    return imports;
+  }
+
+  /**
+   * Collect the top-level declarations of a file
+   * @param content File content
+   * @param masked Masked file content
+   * @param filePath Path to the file
+   * @param basePath Base path for relative paths
+   * @returns Entities in source order
+   */
+  protected parseEntities(content: string, masked: string, filePath: string, basePath: string): CodeEntity[] {
+    const toPosition = createLineIndex(content);
+    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
+    const file = path.basename(filePath);
+
+    const entities: CodeEntity[] = [];
+
+    const createEntity = (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, end: number): CodeEntity => {
+      const begin = toPosition(start);
+      const finish = toPosition(end);
+      return {
+        ...fields,
+        line: begin.line,
+        column: begin.column,
+        endLine: finish.line,
+        endColumn: finish.column,
+        file,
+        relativePath
+      };
+    };
+
+    // Walk top-level declarations; bodies are skipped so local types and closures are ignored
+    let depth = 0;
+    let i = 0;
+    while (i < masked.length) {
+      const ch = masked[i];
+      if (ch === '{' || ch === '(' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ')' || ch === ']') {
+        depth = Math.max(0, depth - 1);
+      }
+      if (depth === 0 && /\w/.test(ch) && (i === 0 || !/[\w.]/.test(masked[i - 1]))) {
+        const word = /^\w+/.exec(masked.slice(i, i + 16)) as RegExpExecArray;
+        if (word[0] === 'func') {
+          const end = this.parseFunction(content, masked, i, createEntity, entities);
+          if (end !== -1) {
+            i = end;
+            continue;
+          }
+        } else if (word[0] === 'type') {
+          i = this.parseTypeDeclaration(content, masked, i + 4, createEntity, entities);
+          continue;
+        }
+        i += word[0].length;
+        continue;
+      }
+      i++;
+    }
+
+    // Link methods to the kind of their receiver type when it is declared in this file
+    const typeKinds = new Map<string, ContainerKind>();
+    for (const entity of entities) {
+      if (entity.type === 'class' && !entity.container) {
+        typeKinds.set(entity.name, entity.kind as ContainerKind);
+      }
+    }
+    for (const entity of entities) {
+      if (entity.receiver) {
+        entity.containerKind = typeKinds.get(entity.receiver.type) || 'type';
+      }
+    }
+
+    return entities.sort((a, b) => a.line - b.line || (a.column || 0) - (b.column || 0));
+  }
+
+  /**
+   * Parse a `func` declaration
+   * @param content File content
+   * @param masked Masked file content
+   * @param start Offset of the `func` keyword
+   * @param createEntity Entity factory
+   * @param entities Entity list to append to
+   * @returns Offset after the declaration, or -1 if this is not a declaration
+   */
+  private parseFunction(
+    content: string,
+    masked: string,
+    start: number,
+    createEntity: (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, end: number) => CodeEntity,
+    entities: CodeEntity[]
+  ): number {
+    let cursor = start + 4;
+    const skipSpace = (): void => {
+      while (cursor < masked.length && /[ \t]/.test(masked[cursor])) {
+        cursor++;
+      }
+    };
+
+    skipSpace();
+    let receiver: ReceiverInfo | null = null;
+    if (masked[cursor] === '(') {
+      const close = findClosingBracket(masked, cursor);
+      if (close === -1) {
+        return -1;
+      }
+      receiver = parseReceiver(masked.slice(cursor + 1, close));
+      if (!receiver) {
+        return -1;
+      }
+      cursor = close + 1;
+      skipSpace();
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(masked.slice(cursor, cursor + 256));
+    if (!name) {
+      // Function literal
+      return -1;
+    }
+    cursor += name[0].length;
+
+    let typeParameters: ParameterInfo[] | undefined;
+    if (masked[cursor] === '[') {
+      const close = findClosingBracket(masked, cursor);
+      if (close === -1) {
+        return -1;
+      }
+      typeParameters = parseGoParameters(content.slice(cursor + 1, close));
+      cursor = close + 1;
+    }
+
+    if (masked[cursor] !== '(') {
+      return -1;
+    }
+    const paramsClose = findClosingBracket(masked, cursor);
+    if (paramsClose === -1) {
+      return -1;
+    }
+    const parameters = parseGoParameters(content.slice(cursor + 1, paramsClose));
+    cursor = paramsClose + 1;
+
+    // Results run up to the body; `struct{}` and `interface{}` braces belong to the result type
+    const lineEnd = masked.indexOf('\n', cursor);
+    const stop = lineEnd === -1 ? masked.length : lineEnd;
+    let bodyStart = -1;
+    for (let j = cursor; j < stop; j++) {
+      if (masked[j] === '(' || masked[j] === '[') {
+        j = findClosingBracket(masked, j);
+        if (j === -1) {
+          break;
+        }
+      } else if (masked[j] === '{') {
+        if (/\b(?:struct|interface)\s*$/.test(masked.slice(cursor, j))) {
+          j = findClosingBracket(masked, j);
+          if (j === -1) {
+            break;
+          }
+        } else {
+          bodyStart = j;
+          break;
+        }
+      }
+    }
+    const results = collapseWhitespace(content.slice(cursor, bodyStart === -1 ? stop : bodyStart));
+    const bodyEnd = bodyStart === -1 ? -1 : findClosingBracket(masked, bodyStart);
+    const end = bodyEnd === -1 ? stop : bodyEnd + 1;
+
+    const entity = createEntity({
+      name: name[0],
+      type: 'function',
+      kind: receiver ? 'method' : 'function',
+      signature: collapseWhitespace(content.slice(start, bodyStart === -1 ? stop : bodyStart)),
+      parameters,
+      returnType: results || undefined,
+      isExported: isExportedName(name[0])
+    }, start, end);
+    if (typeParameters) {
+      entity.typeParameters = typeParameters;
+    }
+    if (receiver) {
+      entity.container = receiver.type;
+      entity.receiver = receiver;
+    }
+    entities.push(entity);
+    return end;
+  }
+
+  /**
+   * Parse a `type` declaration, either a single spec or a parenthesized group
+   * @param content File content
+   * @param masked Masked file content
+   * @param cursor Offset just after the `type` keyword
+   * @param createEntity Entity factory
+   * @param entities Entity list to append to
+   * @returns Offset after the declaration
+   */
+  private parseTypeDeclaration(
+    content: string,
+    masked: string,
+    cursor: number,
+    createEntity: (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, end: number) => CodeEntity,
+    entities: CodeEntity[]
+  ): number {
+    const open = /^\s*\(/.exec(masked.slice(cursor));
+    if (!open) {
+      return this.parseTypeSpec(content, masked, cursor, createEntity, entities, cursor - 4);
+    }
+
+    const groupStart = cursor + open[0].length - 1;
+    const groupEnd = findClosingBracket(masked, groupStart);
+    const limit = groupEnd === -1 ? masked.length : groupEnd;
+    let position = groupStart + 1;
+    while (position < limit) {
+      const next = /[^\s;]/.exec(masked.slice(position, limit));
+      if (!next) {
+        break;
+      }
+      const specStart = position + next.index;
+      position = Math.max(this.parseTypeSpec(content, masked, specStart, createEntity, entities, -1), specStart + 1);
+    }
+    return groupEnd === -1 ? masked.length : groupEnd + 1;
+  }
+
+  /**
+   * Parse one type spec: `Name[T any] struct {...}`, `Name interface {...}`, `Name = Other` or `Name Other`
+   * @param content File content
+   * @param masked Masked file content
+   * @param cursor Offset where the spec (or the whitespace before it) starts
+   * @param createEntity Entity factory
+   * @param entities Entity list to append to
+   * @param keywordStart Offset of the `type` keyword, or -1 for specs inside a group
+   * @returns Offset after the spec
+   */
+  private parseTypeSpec(
+    content: string,
+    masked: string,
+    cursor: number,
+    createEntity: (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, end: number) => CodeEntity,
+    entities: CodeEntity[],
+    keywordStart: number
+  ): number {
+    const name = /^\s*([A-Za-z_]\w*)/.exec(masked.slice(cursor, cursor + 256));
+    const lineEnd = masked.indexOf('\n', cursor + (name ? name[0].length : 0));
+    const stop = lineEnd === -1 ? masked.length : lineEnd;
+    if (!name) {
+      return stop;
+    }
+    const nameStart = cursor + name[0].length - name[1].length;
+    let position = cursor + name[0].length;
+
+    let typeParameters: ParameterInfo[] | undefined;
+    if (masked[position] === '[') {
+      const close = findClosingBracket(masked, position);
+      if (close !== -1 && isTypeParameterList(masked.slice(position + 1, close))) {
+        typeParameters = parseGoParameters(content.slice(position + 1, close));
+        position = close + 1;
+      }
+    }
+
+    const definition = /^\s*(=\s*)?(struct|interface)?\s*(\{)?/.exec(masked.slice(position)) as RegExpExecArray;
+    const isAlias = !!definition[1];
+    const keyword = definition[2] as 'struct' | 'interface' | undefined;
+    let end = stop;
+    let bodyStart = -1;
+    if (keyword && definition[3]) {
+      bodyStart = position + definition[0].length - 1;
+      const close = findClosingBracket(masked, bodyStart);
+      end = close === -1 ? masked.length : close + 1;
+    } else {
+      // Named types may still contain brackets spanning lines, e.g. `type Handler func(struct{ ... })`
+      for (let j = position; j < end; j++) {
+        if (masked[j] === '{' || masked[j] === '(' || masked[j] === '[') {
+          const close = findClosingBracket(masked, j);
+          if (close === -1) {
+            break;
+          }
+          j = close;
+          if (close >= end) {
+            const next = masked.indexOf('\n', close);
+            end = next === -1 ? masked.length : next;
+          }
+        }
+      }
+    }
+
+    const signatureEnd = bodyStart === -1 ? end : bodyStart;
+    const entity = createEntity({
+      name: name[1],
+      type: 'class',
+      kind: keyword && !isAlias ? keyword : 'type',
+      signature: `type ${collapseWhitespace(content.slice(nameStart, signatureEnd))}`,
+      isExported: isExportedName(name[1])
+    }, keywordStart === -1 ? nameStart : keywordStart, end);
+    if (typeParameters) {
+      entity.typeParameters = typeParameters;
+    }
+    entities.push(entity);
+
+    if (keyword === 'interface' && bodyStart !== -1 && !isAlias) {
+      this.parseInterfaceMethods(content, masked, bodyStart, end - 1, entity, createEntity, entities);
+    }
+    return end;
+  }
+
+  /**
+   * Report the method set of an interface as abstract methods
+   * @param content File content
+   * @param masked Masked file content
+   * @param open Offset of the interface body `{`
+   * @param close Offset of the interface body `}`
+   * @param owner Interface entity
+   * @param createEntity Entity factory
+   * @param entities Entity list to append to
+   */
+  private parseInterfaceMethods(
+    content: string,
+    masked: string,
+    open: number,
+    close: number,
+    owner: CodeEntity,
+    createEntity: (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, end: number) => CodeEntity,
+    entities: CodeEntity[]
+  ): void {
+    const pattern = /^([ \t]*)([A-Za-z_]\w*)\s*\(/gm;
+    const body = masked.slice(0, close);
+    pattern.lastIndex = open + 1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body)) !== null) {
+      const start = match.index + match[1].length;
+      const paramsOpen = match.index + match[0].length - 1;
+      const paramsClose = findClosingBracket(masked, paramsOpen);
+      if (paramsClose === -1 || paramsClose > close) {
+        break;
+      }
+      const lineEnd = masked.indexOf('\n', paramsClose);
+      const end = lineEnd === -1 || lineEnd > close ? close : lineEnd;
+      const results = collapseWhitespace(content.slice(paramsClose + 1, end)).replace(/;$/, '');
+      entities.push(createEntity({
+        name: match[2],
+        type: 'function',
+        kind: 'method',
+        container: owner.name,
+        containerKind: 'interface',
+        signature: collapseWhitespace(content.slice(start, end)).replace(/;$/, ''),
+        parameters: parseGoParameters(content.slice(paramsOpen + 1, paramsClose)),
+        returnType: results || undefined,
+        isAbstract: true,
+        isExported: isExportedName(match[2])
+      }, start, end));
+      pattern.lastIndex = end;
+    }
+  }
+}
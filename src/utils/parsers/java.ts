@@ -0,0 +1,193 @@
+import {
+  BlockDeclaration,
+  BraceLanguageParser,
+  Declaration,
+  HeaderContext,
+  getEnclosingType,
+  parseCStyleParameters,
+  parseFunctionHeader,
+  stripAttributes
+} from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex } from './lexer';
+import { ContainerKind, EntityKind, ImportInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'try', 'catch', 'return', 'throw', 'synchronized',
+  'new', 'super', 'this', 'assert', 'yield', 'instanceof'
+]);
+
+const MODIFIERS = new Set([
+  'public', 'protected', 'private', 'static', 'final', 'abstract', 'synchronized',
+  'native', 'strictfp', 'default', 'transient', 'volatile', 'sealed', 'non-sealed'
+]);
+
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'try', 'catch', 'finally',
+  'return', 'throw', 'new', 'assert', 'yield', 'instanceof'
+]);
+
+const TYPE_PATTERN = /^((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*)(class|interface|enum|record|@interface)\s+([A-Za-z_$][\w$]*)(.*)$/s;
+
+const TYPE_KINDS: Record<string, EntityKind & ContainerKind> = {
+  'class': 'class',
+  'interface': 'interface',
+  '@interface': 'interface',
+  'enum': 'enum',
+  'record': 'record'
+};
+
+/**
+ * Get the visibility keyword from a modifier list
+ * @param modifiers Modifier keywords
+ * @returns Visibility, or undefined for package-private
+ */
+function getVisibility(modifiers: string[]): Visibility | undefined {
+  return modifiers.find(modifier => modifier === 'public' || modifier === 'protected' || modifier === 'private') as Visibility | undefined;
+}
+
+/**
+ * Parser for Java: classes, interfaces, enums, records, annotations, methods and constructors
+ */
+export class JavaParser extends BraceLanguageParser {
+  protected readonly lexer: LexerOptions = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    strings: ['"""', '"', "'"]
+  };
+
+  protected readonly callSyntax: CallOptions = { topLevel: false, keywords: CALL_KEYWORDS };
+
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    const pattern = /^[ \t]*import\s+(static\s+)?([\w.]+?)(\.\*)?\s*;/gm;
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      const line = toPosition(match.index).line;
+      if (match[3]) {
+        imports.push({ source: match[2], line, bindings: [{ local: '*', imported: '*' }] });
+      } else {
+        // `import a.b.User` and `import static a.b.User.find` bind the last name
+        const name = match[2].slice(match[2].lastIndexOf('.') + 1);
+        imports.push({ source: match[2], line, bindings: [{ local: name, imported: name }] });
+      }
+    }
+    return imports;
+  }
+
+  protected classifyBlock(header: HeaderContext): BlockDeclaration | null {
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'at');
+
+    const typeMatch = TYPE_PATTERN.exec(text);
+    if (typeMatch) {
+      const modifiers = typeMatch[1].trim().split(/\s+/).filter(Boolean);
+      const kind = TYPE_KINDS[typeMatch[2]];
+      const name = typeMatch[3];
+      const enclosing = getEnclosingType(header.stack);
+      const visibility = getVisibility(modifiers) || (enclosing?.kind === 'interface' ? 'public' : undefined);
+      const declaration: Declaration = {
+        name,
+        type: 'class',
+        kind,
+        signature: collapseWhitespace(source),
+        visibility,
+        isStatic: modifiers.includes('static'),
+        isAbstract: modifiers.includes('abstract') || kind === 'interface',
+        isExported: !enclosing && visibility === 'public'
+      };
+      if (decorators.length > 0) {
+        declaration.decorators = decorators;
+      }
+      return { declaration, scope: { name, kind } };
+    }
+
+    const method = this.parseMethod(header, text, source, decorators);
+    if (method) {
+      return { declaration: method, scope: { name: method.name, kind: 'function' } };
+    }
+
+    // Compact record constructor: `Item { ... }` inside `record Item(...)`
+    const enclosing = getEnclosingType(header.stack);
+    const compact = /^((?:(?:public|protected|private)\s+)?)([A-Za-z_$][\w$]*)$/.exec(text);
+    if (compact && enclosing && enclosing === header.scope && enclosing.kind === 'record' && compact[2] === enclosing.name) {
+      return {
+        declaration: {
+          name: compact[2],
+          type: 'function',
+          kind: 'constructor',
+          signature: collapseWhitespace(source),
+          parameters: [],
+          visibility: getVisibility(compact[1].trim().split(/\s+/))
+        },
+        scope: { name: compact[2], kind: 'function' }
+      };
+    }
+
+    return null;
+  }
+
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    // Interface and abstract methods have no body
+    const enclosing = getEnclosingType(header.stack);
+    if (!enclosing || enclosing !== header.scope) {
+      return null;
+    }
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'at');
+    if (text.includes('=')) {
+      return null;
+    }
+    const method = this.parseMethod(header, text, source, decorators);
+    if (method && (enclosing.kind === 'interface' || method.isAbstract || /\bnative\b/.test(text))) {
+      return method;
+    }
+    return null;
+  }
+
+  /**
+   * Parse a method or constructor header
+   * @param header Header context
+   * @param text Masked header without annotations
+   * @param source Original header without annotations
+   * @param decorators Annotations found on the header
+   * @returns Method declaration or null
+   */
+  private parseMethod(header: HeaderContext, text: string, source: string, decorators: string[]): Declaration | null {
+    const parsed = parseFunctionHeader(text, source, { modifiers: MODIFIERS, keywords: KEYWORDS });
+    // `synchronized (lock) { ... }` is a statement, while `synchronized void run()` is a modifier
+    if (!parsed || parsed.qualifier.length > 0 || MODIFIERS.has(parsed.name)) {
+      return null;
+    }
+
+    const enclosing = getEnclosingType(header.stack);
+    const isConstructor = !parsed.returnType && !!enclosing && enclosing.name === parsed.name;
+    // Everything except constructors needs a return type
+    if (!parsed.returnType && !isConstructor) {
+      return null;
+    }
+    if (parsed.suffix && !/^throws\b/.test(parsed.suffix)) {
+      return null;
+    }
+
+    let kind: EntityKind = enclosing ? 'method' : 'function';
+    if (isConstructor) {
+      kind = 'constructor';
+    }
+
+    const declaration: Declaration = {
+      name: parsed.name,
+      type: 'function',
+      kind,
+      signature: collapseWhitespace(source),
+      parameters: parseCStyleParameters(parsed.parameters, 'at'),
+      returnType: parsed.returnType,
+      visibility: getVisibility(parsed.modifiers) || (enclosing?.kind === 'interface' ? 'public' : undefined),
+      isStatic: parsed.modifiers.includes('static'),
+      isAbstract: parsed.modifiers.includes('abstract')
+    };
+    if (decorators.length > 0) {
+      declaration.decorators = decorators;
+    }
+    return declaration;
+  }
+}
@@ -0,0 +1,732 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { getFileLanguage, getLanguageOptions, readFileContent } from '../fileUtils';
+import { LexerOptions, maskSource } from './lexer';
+import { CallSite, CodeEntity, ContainerKind, EntityKind, FileAnalysis, ImportBinding, ImportInfo, ParameterInfo, Parser } from './types';
+
+type FunctionValue = ts.FunctionExpression | ts.ArrowFunction;
+
+const LEXER: LexerOptions = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']],
+  strings: ['`', '"', "'"]
+};
+type FunctionLike = ts.SignatureDeclarationBase & { body?: ts.Node };
+
+/**
+ * Pick the TypeScript script kind for a file extension
+ * @param filePath Path to the file
+ * @returns Script kind used by the TypeScript scanner
+ */
+function getScriptKind(filePath: string): ts.ScriptKind {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.tsx') {
+    return ts.ScriptKind.TSX;
+  }
+  if (extension === '.jsx') {
+    return ts.ScriptKind.JSX;
+  }
+  // Extensions added through configureLanguages, such as `.mts` or `.cjs`, follow their language
+  if (extension !== '.ts' && getFileLanguage(filePath) !== 'typescript') {
+    return ts.ScriptKind.JS;
+  }
+  // JSX is always allowed in JavaScript; TypeScript files need the `jsx` language setting
+  return getLanguageOptions('typescript').jsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+}
+
+/**
+ * Strip parentheses and type assertions around an expression
+ * @param node Expression node
+ * @returns Inner expression
+ */
+function unwrapExpression(node: ts.Node): ts.Node {
+  // Unwrap `(() => {})`, `fn as Handler` and `fn satisfies Handler`
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Get the function created by an expression, if it is a function expression or arrow function
+ * @param node Expression node
+ * @returns Function node or undefined
+ */
+function getFunctionValue(node: ts.Node | undefined): FunctionValue | undefined {
+  if (!node) {
+    return undefined;
+  }
+  const inner = unwrapExpression(node);
+  return ts.isFunctionExpression(inner) || ts.isArrowFunction(inner) ? inner : undefined;
+}
+
+/**
+ * Get the class created by an expression, if it is a class expression
+ * @param node Expression node
+ * @returns Class expression or undefined
+ */
+function getClassValue(node: ts.Node | undefined): ts.ClassExpression | undefined {
+  if (!node) {
+    return undefined;
+  }
+  const inner = unwrapExpression(node);
+  return ts.isClassExpression(inner) ? inner : undefined;
+}
+
+/**
+ * Get a display name for a declaration name node
+ * @param name Name node
+ * @param sourceFile Source file containing the node
+ * @returns Name text
+ */
+function getNameText(name: ts.PropertyName | ts.BindingName, sourceFile: ts.SourceFile): string {
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return name.getText(sourceFile);
+}
+
+/**
+ * Collapse whitespace in a source snippet so it fits on one line
+ * @param text Source text
+ * @returns Single-line text
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check whether a node carries a modifier
+ * @param node Declaration node
+ * @param flag Modifier flag to test
+ * @returns True if the modifier is present
+ */
+function hasModifier(node: ts.Node, flag: ts.ModifierFlags): boolean {
+  return ts.canHaveModifiers(node) && (ts.getCombinedModifierFlags(node as ts.Declaration) & flag) !== 0;
+}
+
+/**
+ * AST-based parser for JavaScript/TypeScript (including JSX/TSX) using the TypeScript compiler
+ */
+export class JSParser implements Parser {
+  parseFile(filePath: string, basePath: string = ''): CodeEntity[] {
+    return this.analyzeFile(filePath, basePath).entities;
+  }
+
+  maskCode(content: string): string {
+    return maskSource(content, LEXER);
+  }
+
+  analyzeFile(filePath: string, basePath: string = ''): FileAnalysis {
+    const content = readFileContent(filePath);
+    const entities: CodeEntity[] = [];
+    const calls: CallSite[] = [];
+    const imports: ImportInfo[] = [];
+    // Indexes of the functions enclosing the visited node, innermost last
+    const callers: number[] = [];
+
+    // Calculate relative path
+    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
+
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+    const exportedNames = this.collectExportedNames(sourceFile);
+
+    const visit = (node: ts.Node): void => {
+      const entity = this.describeDeclaration(node, sourceFile, exportedNames);
+      if (entity) {
+        entities.push({
+          ...entity,
+          file: path.basename(filePath),
+          relativePath
+        });
+        if (entity.type === 'function') {
+          callers.push(entities.length - 1);
+        }
+      }
+
+      const imported = this.describeImport(node, sourceFile);
+      if (imported) {
+        imports.push(imported);
+      } else {
+        const call = this.describeCall(node, sourceFile);
+        if (call) {
+          calls.push({ caller: callers.length > 0 ? callers[callers.length - 1] : -1, ...call });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+      if (entity && entity.type === 'function') {
+        callers.pop();
+      }
+    };
+    visit(sourceFile);
+
+    return { entities, calls, imports };
+  }
+
+  /**
+   * Describe the call made by a call or `new` expression
+   * @param node AST node
+   * @param sourceFile Source file
+   * @returns Call site without its caller, or null if the node is not a call to a named target
+   */
+  private describeCall(node: ts.Node, sourceFile: ts.SourceFile): Omit<CallSite, 'caller'> | null {
+    if (!ts.isCallExpression(node) && !ts.isNewExpression(node)) {
+      return null;
+    }
+    const callee = unwrapExpression(node.expression);
+    let nameNode: ts.Identifier | ts.PrivateIdentifier;
+    let qualifier: string | undefined;
+    if (ts.isIdentifier(callee)) {
+      nameNode = callee;
+    } else if (ts.isPropertyAccessExpression(callee)) {
+      nameNode = callee.name;
+      qualifier = this.getReceiverText(callee.expression, sourceFile);
+    } else {
+      return null;
+    }
+
+    const position = sourceFile.getLineAndCharacterOfPosition(nameNode.getStart(sourceFile));
+    const call: Omit<CallSite, 'caller'> = { name: nameNode.text, line: position.line + 1, column: position.character + 1 };
+    if (qualifier) {
+      call.qualifier = qualifier;
+    }
+    return call;
+  }
+
+  /**
+   * Get the text of a call receiver if it is a plain name or property chain
+   * @param node Receiver expression
+   * @param sourceFile Source file
+   * @returns Receiver text such as `this.repo`, or `<expression>`
+   */
+  private getReceiverText(node: ts.Expression, sourceFile: ts.SourceFile): string {
+    const inner = unwrapExpression(node);
+    if (ts.isIdentifier(inner) || inner.kind === ts.SyntaxKind.ThisKeyword || inner.kind === ts.SyntaxKind.SuperKeyword) {
+      return inner.getText(sourceFile);
+    }
+    if (ts.isPropertyAccessExpression(inner)) {
+      const receiver = this.getReceiverText(inner.expression, sourceFile);
+      return receiver === '<expression>' ? receiver : `${receiver}.${inner.name.text}`;
+    }
+    return '<expression>';
+  }
+
+  /**
+   * Describe an import: `import` and `export ... from` declarations, `import x = require()`,
+   * `require()` calls and dynamic `import()` with a literal module name
+   * @param node AST node
+   * @param sourceFile Source file
+   * @returns Import information, or null if the node imports nothing
+   */
+  private describeImport(node: ts.Node, sourceFile: ts.SourceFile): ImportInfo | null {
+    const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      const bindings: ImportBinding[] = [];
+      const clause = ts.isImportDeclaration(node) ? node.importClause : undefined;
+      if (clause?.name) {
+        bindings.push({ local: clause.name.text, imported: 'default' });
+      }
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.push({ local: named.name.text, imported: '*' });
+      } else if (named && ts.isNamedImports(named)) {
+        for (const element of named.elements) {
+          bindings.push({ local: element.name.text, imported: (element.propertyName || element.name).text });
+        }
+      }
+      return { source: node.moduleSpecifier.text, line, bindings };
+    }
+
+    if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) && ts.isStringLiteral(node.moduleReference.expression)) {
+      return { source: node.moduleReference.expression.text, line, bindings: [{ local: node.name.text, imported: '*' }] };
+    }
+
+    if (!ts.isCallExpression(node) || node.arguments.length !== 1 || !ts.isStringLiteral(node.arguments[0])) {
+      return null;
+    }
+    const source = node.arguments[0].text;
+    if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      return { source, line, bindings: [] };
+    }
+    if (!ts.isIdentifier(node.expression) || node.expression.text !== 'require') {
+      return null;
+    }
+
+    // const x = require('x') / const { a, b: c } = require('x')
+    const bindings: ImportBinding[] = [];
+    const parent = node.parent;
+    if (ts.isVariableDeclaration(parent) && parent.initializer === node) {
+      if (ts.isIdentifier(parent.name)) {
+        bindings.push({ local: parent.name.text, imported: '*' });
+      } else if (ts.isObjectBindingPattern(parent.name)) {
+        for (const element of parent.name.elements) {
+          if (ts.isIdentifier(element.name)) {
+            const imported = element.propertyName ? getNameText(element.propertyName, sourceFile) : element.name.text;
+            bindings.push({ local: element.name.text, imported });
+          }
+        }
+      }
+    }
+    return { source, line, bindings };
+  }
+
+  /**
+   * Collect names exported through `export { a, b }` and `export default a`
+   * @param sourceFile Source file
+   * @returns Set of local names that are exported
+   */
+  private collectExportedNames(sourceFile: ts.SourceFile): Set<string> {
+    const names = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          names.add((element.propertyName || element.name).text);
+        }
+      } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        names.add(statement.expression.text);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Build the entity for the declaration introduced by a node, if any
+   * @param node AST node
+   * @param sourceFile Source file containing the node
+   * @param exportedNames Names exported by separate export statements
+   * @returns Entity without file information, or null if the node declares nothing
+   */
+  private describeDeclaration(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): Omit<CodeEntity, 'file' | 'relativePath'> | null {
+    // function name() {} / export default function () {}
+    if (ts.isFunctionDeclaration(node)) {
+      // Overload signatures have no body; only report the implementation
+      if (!node.body && this.hasImplementation(node)) {
+        return null;
+      }
+      const name = node.name ? node.name.text : 'default';
+      return this.buildFunctionEntity(name, 'function', node, node, node, sourceFile, exportedNames);
+    }
+
+    // class Name {} / export default class {}
+    if (ts.isClassDeclaration(node)) {
+      const name = node.name ? node.name.text : 'default';
+      return this.buildClassEntity(name, node, node, node, sourceFile, exportedNames);
+    }
+
+    // interface Name {} / enum Name {} / type Name = ...
+    if (ts.isInterfaceDeclaration(node)) {
+      const heritage = (node.heritageClauses || []).map(clause => collapseWhitespace(clause.getText(sourceFile)));
+      const signature = [`interface ${node.name.text}${this.formatTypeParameters(node.typeParameters, sourceFile)}`, ...heritage].join(' ');
+      return this.buildTypeEntity(node.name.text, 'class', 'interface', signature, node, sourceFile, exportedNames);
+    }
+    if (ts.isEnumDeclaration(node)) {
+      const signature = `${hasModifier(node, ts.ModifierFlags.Const) ? 'const ' : ''}enum ${node.name.text}`;
+      return this.buildTypeEntity(node.name.text, 'class', 'enum', signature, node, sourceFile, exportedNames);
+    }
+    if (ts.isTypeAliasDeclaration(node)) {
+      const signature = `type ${node.name.text}${this.formatTypeParameters(node.typeParameters, sourceFile)}`;
+      return this.buildTypeEntity(node.name.text, 'class', 'type', signature, node, sourceFile, exportedNames);
+    }
+
+    // namespace Name {} / declare module 'name' {}
+    if (ts.isModuleDeclaration(node)) {
+      const kind = ts.isStringLiteral(node.name) ? 'module' : 'namespace';
+      const signature = `${kind} ${node.name.getText(sourceFile)}`;
+      return this.buildTypeEntity(node.name.text, 'namespace', kind, signature, node, sourceFile, exportedNames);
+    }
+
+    // Methods, constructors and accessors in classes and object literals
+    if (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) || ts.isConstructorDeclaration(node)) {
+      if (!node.body && !hasModifier(node, ts.ModifierFlags.Abstract)) {
+        return null;
+      }
+      let kind: EntityKind = 'method';
+      if (ts.isConstructorDeclaration(node)) {
+        kind = 'constructor';
+      } else if (ts.isGetAccessorDeclaration(node)) {
+        kind = 'getter';
+      } else if (ts.isSetAccessorDeclaration(node)) {
+        kind = 'setter';
+      }
+      const name = ts.isConstructorDeclaration(node) ? 'constructor' : getNameText(node.name, sourceFile);
+      return this.buildFunctionEntity(name, kind, node, node, node, sourceFile, exportedNames);
+    }
+
+    // Class fields and object properties holding functions: handler = () => {}
+    if (ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) {
+      const fn = getFunctionValue(node.initializer);
+      if (fn) {
+        return this.buildFunctionEntity(getNameText(node.name, sourceFile), 'method', node, fn, node, sourceFile, exportedNames);
+      }
+      return null;
+    }
+
+    // const name = () => {} / const name = function () {} / const Name = class {}
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      // Modifiers such as `export` live on the enclosing variable statement, which is
+      // also the reported range when it declares nothing else
+      const statement = node.parent.parent;
+      const rangeNode = ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1 ? statement : node;
+      const fn = getFunctionValue(node.initializer);
+      if (fn) {
+        return this.buildFunctionEntity(node.name.text, 'function', rangeNode, fn, statement, sourceFile, exportedNames);
+      }
+      const cls = getClassValue(node.initializer);
+      if (cls) {
+        return this.buildClassEntity(node.name.text, rangeNode, cls, statement, sourceFile, exportedNames);
+      }
+      return null;
+    }
+
+    // exports.name = function () {} / Foo.prototype.bar = () => {}
+    if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isExpressionStatement(node.parent)
+    ) {
+      const fn = getFunctionValue(node.right);
+      if (!fn) {
+        return null;
+      }
+      let name: string | undefined;
+      if (ts.isIdentifier(node.left)) {
+        name = node.left.text;
+      } else if (ts.isPropertyAccessExpression(node.left)) {
+        name = node.left.name.text;
+      }
+      if (!name) {
+        return null;
+      }
+      const entity = this.buildFunctionEntity(name, 'function', node.parent, fn, node, sourceFile, exportedNames);
+      const target = node.left.getText(sourceFile);
+      if (/^(module\.)?exports\./.test(target) || target === 'module.exports') {
+        entity.isExported = true;
+      }
+      return entity;
+    }
+
+    return null;
+  }
+
+  /**
+   * Build a function entity
+   * @param name Entity name
+   * @param kind Entity kind
+   * @param node Node whose range is reported
+   * @param fn Function-like node that carries parameters and return type
+   * @param modifierNode Node that carries modifiers and decorators
+   * @param sourceFile Source file
+   * @param exportedNames Names exported by separate export statements
+   * @returns Function entity without file information
+   */
+  private buildFunctionEntity(
+    name: string,
+    kind: EntityKind,
+    node: ts.Node,
+    fn: FunctionLike,
+    modifierNode: ts.Node,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): Omit<CodeEntity, 'file' | 'relativePath'> {
+    const parameters = fn.parameters.map(param => this.describeParameter(param, sourceFile));
+    const returnType = fn.type ? collapseWhitespace(fn.type.getText(sourceFile)) : undefined;
+    const typeParameters = this.formatTypeParameters(fn.typeParameters, sourceFile);
+    const parameterText = fn.parameters.map(param => collapseWhitespace(param.getText(sourceFile))).join(', ');
+
+    let prefix = '';
+    if (kind === 'getter') {
+      prefix = 'get ';
+    } else if (kind === 'setter') {
+      prefix = 'set ';
+    }
+    const signature = `${prefix}${name}${typeParameters}(${parameterText})${returnType ? `: ${returnType}` : ''}`;
+
+    const entity: Omit<CodeEntity, 'file' | 'relativePath'> = {
+      name,
+      type: 'function',
+      kind,
+      ...this.getRange(node, sourceFile),
+      ...this.getContainer(node, sourceFile),
+      signature,
+      parameters,
+      returnType
+    };
+    this.applyModifiers(entity, name, node, modifierNode, sourceFile, exportedNames);
+    entity.isAsync = hasModifier(fn, ts.ModifierFlags.Async);
+    return entity;
+  }
+
+  /**
+   * Build a class entity
+   * @param name Entity name
+   * @param node Node whose range is reported
+   * @param cls Class declaration or expression
+   * @param modifierNode Node that carries modifiers and decorators
+   * @param sourceFile Source file
+   * @param exportedNames Names exported by separate export statements
+   * @returns Class entity without file information
+   */
+  private buildClassEntity(
+    name: string,
+    node: ts.Node,
+    cls: ts.ClassLikeDeclaration,
+    modifierNode: ts.Node,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): Omit<CodeEntity, 'file' | 'relativePath'> {
+    const typeParameters = this.formatTypeParameters(cls.typeParameters, sourceFile);
+    const heritage = (cls.heritageClauses || []).map(clause => collapseWhitespace(clause.getText(sourceFile)));
+    const signature = [`class ${name}${typeParameters}`, ...heritage].join(' ');
+
+    const entity: Omit<CodeEntity, 'file' | 'relativePath'> = {
+      name,
+      type: 'class',
+      kind: 'class',
+      ...this.getRange(node, sourceFile),
+      ...this.getContainer(node, sourceFile),
+      signature
+    };
+    this.applyModifiers(entity, name, node, modifierNode, sourceFile, exportedNames);
+    return entity;
+  }
+
+  /**
+   * Build the entity of an interface, enum, type alias or namespace
+   * @param name Entity name
+   * @param type Entity type
+   * @param kind Entity kind
+   * @param signature Declaration header
+   * @param node Declaration, which also carries the modifiers
+   * @param sourceFile Source file
+   * @param exportedNames Names exported by separate export statements
+   * @returns Entity without file information
+   */
+  private buildTypeEntity(
+    name: string,
+    type: 'class' | 'namespace',
+    kind: EntityKind,
+    signature: string,
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): Omit<CodeEntity, 'file' | 'relativePath'> {
+    const entity: Omit<CodeEntity, 'file' | 'relativePath'> = {
+      name,
+      type,
+      kind,
+      ...this.getRange(node, sourceFile),
+      ...this.getContainer(node, sourceFile),
+      signature
+    };
+    this.applyModifiers(entity, name, node, node, sourceFile, exportedNames);
+    return entity;
+  }
+
+  /**
+   * Format the type parameters of a declaration
+   * @param typeParameters Type parameters, if any
+   * @param sourceFile Source file
+   * @returns Text such as `<T, K extends keyof T>`, or an empty string
+   */
+  private formatTypeParameters(typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined, sourceFile: ts.SourceFile): string {
+    return typeParameters
+      ? `<${typeParameters.map(param => collapseWhitespace(param.getText(sourceFile))).join(', ')}>`
+      : '';
+  }
+
+  /**
+   * Describe a single parameter
+   * @param param Parameter declaration
+   * @param sourceFile Source file
+   * @returns Parameter information
+   */
+  private describeParameter(param: ts.ParameterDeclaration, sourceFile: ts.SourceFile): ParameterInfo {
+    const info: ParameterInfo = { name: getNameText(param.name, sourceFile) };
+    if (param.type) {
+      info.type = collapseWhitespace(param.type.getText(sourceFile));
+    }
+    if (param.questionToken || param.initializer) {
+      info.optional = true;
+    }
+    if (param.initializer) {
+      info.defaultValue = collapseWhitespace(param.initializer.getText(sourceFile));
+    }
+    if (param.dotDotDotToken) {
+      info.rest = true;
+    }
+    return info;
+  }
+
+  /**
+   * Fill visibility, static/abstract/exported flags and decorators
+   * @param entity Entity to update
+   * @param name Entity name
+   * @param node Declaration node
+   * @param modifierNode Node that carries modifiers and decorators
+   * @param sourceFile Source file
+   * @param exportedNames Names exported by separate export statements
+   */
+  private applyModifiers(
+    entity: Omit<CodeEntity, 'file' | 'relativePath'>,
+    name: string,
+    node: ts.Node,
+    modifierNode: ts.Node,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): void {
+    const isMember = ts.isClassElement(node) && !!node.parent && ts.isClassLike(node.parent);
+
+    if (isMember) {
+      const memberName = (node as ts.ClassElement).name;
+      if (hasModifier(modifierNode, ts.ModifierFlags.Private) || (memberName && ts.isPrivateIdentifier(memberName))) {
+        entity.visibility = 'private';
+      } else if (hasModifier(modifierNode, ts.ModifierFlags.Protected)) {
+        entity.visibility = 'protected';
+      } else {
+        entity.visibility = 'public';
+      }
+      entity.isStatic = hasModifier(modifierNode, ts.ModifierFlags.Static);
+    }
+
+    entity.isAbstract = hasModifier(modifierNode, ts.ModifierFlags.Abstract);
+
+    // Only top-level declarations can be exported from the module
+    const isTopLevel = !entity.container;
+    entity.isExported = isTopLevel && (hasModifier(modifierNode, ts.ModifierFlags.Export) || exportedNames.has(name));
+
+    const decorators = ts.canHaveDecorators(modifierNode) ? ts.getDecorators(modifierNode) : undefined;
+    if (decorators && decorators.length > 0) {
+      entity.decorators = decorators.map(decorator => collapseWhitespace(decorator.getText(sourceFile)));
+    }
+  }
+
+  /**
+   * Get the 1-based start and end position of a node
+   * @param node AST node
+   * @param sourceFile Source file
+   * @returns Range fields
+   */
+  private getRange(node: ts.Node, sourceFile: ts.SourceFile): Pick<CodeEntity, 'line' | 'column' | 'endLine' | 'endColumn'> {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    return {
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1
+    };
+  }
+
+  /**
+   * Get the name of a node that can enclose other declarations
+   * @param node AST node
+   * @param sourceFile Source file
+   * @returns Container name and kind, or null if the node is not a named scope
+   */
+  private getScopeName(node: ts.Node, sourceFile: ts.SourceFile): { name: string; kind: ContainerKind } | null {
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      if (node.name) {
+        return { name: node.name.text, kind: 'class' };
+      }
+      const owner = this.getAssignedName(node, sourceFile);
+      return { name: owner || 'default', kind: 'class' };
+    }
+    if (ts.isModuleDeclaration(node)) {
+      return { name: node.name.text, kind: ts.isStringLiteral(node.name) ? 'module' : 'namespace' };
+    }
+    if (ts.isFunctionDeclaration(node)) {
+      return { name: node.name ? node.name.text : 'default', kind: 'function' };
+    }
+    if (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+      return { name: getNameText(node.name, sourceFile), kind: 'function' };
+    }
+    if (ts.isConstructorDeclaration(node)) {
+      return { name: 'constructor', kind: 'function' };
+    }
+    if (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+      // Anonymous callbacks are not scopes a caller can name
+      const owner = this.getAssignedName(node, sourceFile);
+      return owner ? { name: owner, kind: 'function' } : null;
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      const owner = this.getAssignedName(node, sourceFile);
+      return owner ? { name: owner, kind: 'object' } : null;
+    }
+    return null;
+  }
+
+  /**
+   * Get the name an expression is bound to (variable, property or assignment target)
+   * @param node Expression node
+   * @param sourceFile Source file
+   * @returns Bound name or undefined
+   */
+  private getAssignedName(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+    let current = node;
+    while (current.parent && (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) || ts.isSatisfiesExpression(current.parent))) {
+      current = current.parent;
+    }
+    const parent = current.parent;
+    if (!parent) {
+      return undefined;
+    }
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertyAssignment(parent)) && parent.initializer === current) {
+      return getNameText(parent.name, sourceFile);
+    }
+    if (ts.isBinaryExpression(parent) && parent.right === current && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      if (ts.isIdentifier(parent.left)) {
+        return parent.left.text;
+      }
+      if (ts.isPropertyAccessExpression(parent.left)) {
+        return parent.left.name.text;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the dotted path of named scopes enclosing a node
+   * @param node Declaration node
+   * @param sourceFile Source file
+   * @returns Container fields (empty for top-level declarations)
+   */
+  private getContainer(node: ts.Node, sourceFile: ts.SourceFile): Pick<CodeEntity, 'container' | 'containerKind'> {
+    const scopes: Array<{ name: string; kind: ContainerKind }> = [];
+    // A function value bound to this declaration is part of the declaration, not its container
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isSourceFile(current)) {
+      const scope = this.getScopeName(current, sourceFile);
+      if (scope) {
+        scopes.unshift(scope);
+      }
+      current = current.parent;
+    }
+    if (scopes.length === 0) {
+      return {};
+    }
+    return {
+      container: scopes.map(scope => scope.name).join('.'),
+      containerKind: scopes[scopes.length - 1].kind
+    };
+  }
+
+  /**
+   * Check whether an overload signature has a sibling implementation
+   * @param node Function declaration without a body
+   * @returns True if an implementation with the same name exists in the same scope
+   */
+  private hasImplementation(node: ts.FunctionDeclaration): boolean {
+    const name = node.name?.text;
+    const siblings = (node.parent as ts.SourceFile | ts.ModuleBlock | ts.Block).statements;
+    if (!name || !siblings) {
+      return false;
+    }
+    return siblings.some(statement => ts.isFunctionDeclaration(statement) && statement.name?.text === name && !!statement.body);
+  }
+}
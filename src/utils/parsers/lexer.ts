@@ -0,0 +1,305 @@
+/**
+ * Lexical helpers shared by the text-based language parsers
+ */
+
+/**
+ * Options describing the comment and string syntax of a language
+ */
+export interface LexerOptions {
+  // Line comment markers, e.g. ['//'] or ['#']
+  lineComments: string[];
+  // Block comment delimiters, e.g. [['/*', '*/']]
+  blockComments: Array<[string, string]>;
+  // String delimiters, longest first, e.g. ['"""', '"', "'"]
+  strings: string[];
+  // Treat `#` lines (preprocessor directives) as comments
+  preprocessor?: boolean;
+  // Support C# verbatim strings (@"...") where "" escapes a quote
+  verbatimStrings?: boolean;
+  // Heredoc syntax: Ruby (<<~ID) or PHP (<<<ID)
+  heredoc?: 'ruby' | 'php';
+  // Ruby =begin/=end block comments
+  rubyBlockComments?: boolean;
+  // Line comment markers that must not start a comment, e.g. '#[' (PHP attributes)
+  commentExceptions?: string[];
+}
+
+/**
+ * Replace a span with spaces while keeping line breaks
+ * @param chars Character array being masked
+ * @param start Start offset (inclusive)
+ * @param end End offset (exclusive)
+ */
+function blank(chars: string[], start: number, end: number): void {
+  for (let i = start; i < end && i < chars.length; i++) {
+    if (chars[i] !== '\n' && chars[i] !== '\r') {
+      chars[i] = ' ';
+    }
+  }
+}
+
+/**
+ * Match a heredoc opener at the start of a string
+ * @param text Text starting at a '<'
+ * @param style Heredoc syntax
+ * @returns Terminator identifier and opener length, or null
+ */
+function matchHeredoc(text: string, style: 'ruby' | 'php'): { terminator: string; length: number } | null {
+  if (style === 'php') {
+    const match = /^<<<[ \t]*(['"]?)([A-Za-z_][A-Za-z0-9_]*)\1/.exec(text);
+    return match ? { terminator: match[2], length: match[0].length } : null;
+  }
+  const match = /^<<([~-]?)(['"`]?)([A-Za-z_][A-Za-z0-9_]*)\2/.exec(text);
+  if (!match) {
+    return null;
+  }
+  // A bare `<<NAME` is only a heredoc for constant-style names; otherwise it is the append operator
+  if (!match[1] && !match[2] && !/^[A-Z_][A-Z0-9_]*$/.test(match[3])) {
+    return null;
+  }
+  return { terminator: match[3], length: match[0].length };
+}
+
+/**
+ * Replace comments and string contents with spaces so structural scanning never
+ * matches inside them. The result has the same length and line breaks as the input,
+ * and string delimiters are kept so the presence of a literal is still visible.
+ * @param content Source code
+ * @param options Language syntax
+ * @returns Masked source code
+ */
+export function maskSource(content: string, options: LexerOptions): string {
+  const chars = content.split('');
+  const length = content.length;
+  let i = 0;
+  let atLineStart = true;
+
+  while (i < length) {
+    const ch = content[i];
+
+    if (ch === '\n') {
+      atLineStart = true;
+      i++;
+      continue;
+    }
+
+    // Directives and Ruby block comments only count at the start of a line
+    if (atLineStart) {
+      const lineEnd = content.indexOf('\n', i);
+      const rest = content.slice(i, lineEnd === -1 ? length : lineEnd);
+      const trimmed = rest.trimStart();
+      const indent = rest.length - trimmed.length;
+
+      if (options.preprocessor && trimmed.startsWith('#')) {
+        // Directives continue onto the next line when the line ends with a backslash
+        let end = lineEnd === -1 ? length : lineEnd;
+        while (end < length && content[end - 1] === '\\') {
+          const next = content.indexOf('\n', end + 1);
+          end = next === -1 ? length : next;
+        }
+        blank(chars, i + indent, end);
+        i = end;
+        continue;
+      }
+
+      if (options.rubyBlockComments && rest.startsWith('=begin')) {
+        const match = /^=end\b.*$/m.exec(content.slice(i));
+        const end = match ? i + match.index + match[0].length : length;
+        blank(chars, i, end);
+        i = end;
+        continue;
+      }
+    }
+    if (ch !== ' ' && ch !== '\t' && ch !== '\r') {
+      atLineStart = false;
+    }
+
+    // Line comments
+    const lineComment = options.lineComments.find(marker => content.startsWith(marker, i));
+    if (lineComment && !(options.commentExceptions || []).some(exception => content.startsWith(exception, i))) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? length : end;
+      blank(chars, i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Block comments
+    const blockComment = options.blockComments.find(([open]) => content.startsWith(open, i));
+    if (blockComment) {
+      const end = content.indexOf(blockComment[1], i + blockComment[0].length);
+      const stop = end === -1 ? length : end + blockComment[1].length;
+      blank(chars, i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Heredocs: the body starts on the next line and ends at the terminator line
+    if (options.heredoc) {
+      const match = ch === '<' ? matchHeredoc(content.slice(i, i + 80), options.heredoc) : null;
+      if (match) {
+        const bodyStart = content.indexOf('\n', i);
+        if (bodyStart !== -1) {
+          const terminator = new RegExp(`^[ \\t]*${match.terminator}\\b`, 'm');
+          const found = terminator.exec(content.slice(bodyStart + 1));
+          const stop = found ? bodyStart + 1 + found.index : length;
+          blank(chars, bodyStart + 1, stop);
+          i = i + match.length;
+          // Resume on the opening line; the body has already been masked
+          const lineRest = content.slice(i, bodyStart);
+          const masked = maskSource(lineRest, { ...options, heredoc: undefined });
+          for (let k = 0; k < masked.length; k++) {
+            chars[i + k] = masked[k];
+          }
+          i = found ? stop + found[0].length : length;
+          continue;
+        }
+      }
+    }
+
+    // C# verbatim strings: @"..." with "" as an escaped quote
+    if (options.verbatimStrings && (content.startsWith('@"', i) || content.startsWith('$@"', i) || content.startsWith('@$"', i))) {
+      let j = content.indexOf('"', i) + 1;
+      while (j < length) {
+        if (content[j] === '"') {
+          if (content[j + 1] === '"') {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      blank(chars, content.indexOf('"', i) + 1, j);
+      i = j + 1;
+      continue;
+    }
+
+    // Ordinary strings with backslash escapes
+    const delimiter = options.strings.find(quote => content.startsWith(quote, i));
+    if (delimiter) {
+      let j = i + delimiter.length;
+      const multiline = delimiter.length > 1 || delimiter === '`';
+      while (j < length) {
+        if (content[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (content.startsWith(delimiter, j)) {
+          break;
+        }
+        // Unterminated single-line strings end at the line break
+        if (content[j] === '\n' && !multiline) {
+          break;
+        }
+        j++;
+      }
+      blank(chars, i + delimiter.length, j);
+      i = content.startsWith(delimiter, j) ? j + delimiter.length : j;
+      continue;
+    }
+
+    i++;
+  }
+
+  return chars.join('');
+}
+
+/**
+ * Find the offset where each line starts
+ * @param content Source code
+ * @returns Offsets indexed by 0-based line number; the first is always 0
+ */
+export function getLineStarts(content: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * Build a function that converts an offset into a 1-based line and column
+ * @param content Source code
+ * @returns Offset converter
+ */
+export function createLineIndex(content: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = getLineStarts(content);
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Find the offset of the bracket that closes the one at `start`
+ * @param text Masked source text
+ * @param start Offset of the opening bracket
+ * @returns Offset of the matching closing bracket, or -1
+ */
+export function findClosingBracket(text: string, start: number): number {
+  const open = text[start];
+  const close = ({ '(': ')', '[': ']', '{': '}', '<': '>' } as Record<string, string>)[open];
+  if (!close) {
+    return -1;
+  }
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a list on top-level commas, ignoring commas nested in brackets
+ * @param text List text, e.g. a parameter list
+ * @returns Trimmed, non-empty items
+ */
+export function splitTopLevel(text: string, separator: string = ','): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if ('([{<'.includes(ch)) {
+      depth++;
+    } else if (')]}>'.includes(ch)) {
+      depth = Math.max(0, depth - 1);
+    }
+    if (ch === separator && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current);
+  return items.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Collapse whitespace in a source snippet so it fits on one line
+ * @param text Source text
+ * @returns Single-line text
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,245 @@
+import {
+  BlockDeclaration,
+  BraceLanguageParser,
+  Declaration,
+  HeaderContext,
+  getEnclosingType,
+  stripAttributes,
+  takeDefaultValue
+} from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, splitTopLevel } from './lexer';
+import { ContainerKind, EntityKind, ImportInfo, ParameterInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'elseif', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'match', 'catch', 'return', 'throw',
+  'fn', 'function', 'use', 'array', 'list', 'isset', 'unset', 'empty', 'echo', 'print', 'require', 'require_once',
+  'include', 'include_once', 'new', 'clone', 'declare', 'exit', 'die', 'and', 'or', 'xor', 'instanceof', 'static', 'self'
+]);
+
+const TYPE_PATTERN = /^((?:(?:abstract|final|readonly)\s+)*)(class|interface|trait|enum)\s+([A-Za-z_]\w*)(.*)$/s;
+
+const FUNCTION_PATTERN = /^((?:(?:public|protected|private|static|abstract|final)\s+)*)function\s+&?\s*([A-Za-z_]\w*)\s*\(/;
+
+const NAMESPACE_PATTERN = /^namespace\s+([A-Za-z_][\w\\]*)$/;
+
+/**
+ * Parse a PHP parameter list
+ * @param parameters Parameter list source text
+ * @returns Parameter information
+ */
+function parseParameters(parameters: string): ParameterInfo[] {
+  const result: ParameterInfo[] = [];
+
+  for (const raw of splitTopLevel(parameters)) {
+    let text = stripAttributes(raw, raw, 'hash').text;
+    const info: ParameterInfo = { name: '' };
+
+    text = takeDefaultValue(text, info);
+
+    const variable = /(\.\.\.)?\s*&?\s*(\$[A-Za-z_]\w*)\s*$/.exec(text);
+    if (!variable) {
+      continue;
+    }
+    info.name = variable[2];
+    if (variable[1]) {
+      info.rest = true;
+    }
+    // Constructor promotion modifiers are not part of the type
+    const type = text.slice(0, variable.index).replace(/\b(public|protected|private|readonly)\b/g, '').trim();
+    if (type) {
+      info.type = collapseWhitespace(type);
+    }
+    result.push(info);
+  }
+
+  return result;
+}
+
+/**
+ * Blank out everything outside `<?php ... ?>` tags so inline HTML is never scanned
+ * @param content File content
+ * @returns Content of the same length
+ */
+function maskInlineHtml(content: string): string {
+  if (!content.includes('<?')) {
+    return content;
+  }
+  let result = '';
+  let index = 0;
+  while (index < content.length) {
+    const open = content.indexOf('<?', index);
+    const htmlEnd = open === -1 ? content.length : open;
+    result += content.slice(index, htmlEnd).replace(/[^\n]/g, ' ');
+    if (open === -1) {
+      break;
+    }
+    const close = content.indexOf('?>', open);
+    const codeEnd = close === -1 ? content.length : close;
+    // Keep the tag length but blank the tag itself
+    const tag = /^<\?(php|=)?/.exec(content.slice(open))![0];
+    result += ' '.repeat(tag.length) + content.slice(open + tag.length, codeEnd);
+    if (close === -1) {
+      break;
+    }
+    // A closing tag ends the statement before it, so the next block starts a new header
+    result += '; ';
+    index = close + 2;
+  }
+  return result;
+}
+
+/**
+ * Parser for PHP: namespaces, classes, interfaces, traits, enums, methods and functions
+ */
+export class PHPParser extends BraceLanguageParser {
+  protected readonly lexer: LexerOptions = {
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    strings: ['"', "'", '`'],
+    heredoc: 'php',
+    commentExceptions: ['#[']
+  };
+
+  protected readonly callSyntax: CallOptions = { topLevel: true, keywords: CALL_KEYWORDS };
+
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+
+    // Top-level `use` statements; indented ones inside classes import traits
+    const use = /^use\s+(?:function\s+|const\s+)?([^;{]*?)(?:\{([^}]*)\})?\s*;/gm;
+    for (let match = use.exec(masked); match; match = use.exec(masked)) {
+      const line = toPosition(match.index).line;
+      const prefix = match[1].trim();
+      const items = match[2] !== undefined ? match[2].split(',').map(item => prefix + item.trim()) : prefix.split(',').map(item => item.trim());
+      for (const item of items) {
+        const alias = /^\\?([\w\\]+)(?:\s+as\s+(\w+))?$/.exec(item);
+        if (alias) {
+          const name = alias[1].slice(alias[1].lastIndexOf('\\') + 1);
+          imports.push({ source: alias[1], line, bindings: [{ local: alias[2] || name, imported: name }] });
+        }
+      }
+    }
+
+    const include = /\b(?:require|include)(?:_once)?\b\s*\(?\s*(__DIR__\s*\.\s*)?(['"])/g;
+    for (let match = include.exec(masked); match; match = include.exec(masked)) {
+      const open = match.index + match[0].length - 1;
+      const close = masked.indexOf(match[2], open + 1);
+      if (close !== -1) {
+        const target = content.slice(open + 1, close);
+        imports.push({ source: match[1] ? `.${target.startsWith('/') ? '' : '/'}${target}` : target, line: toPosition(match.index).line, bindings: [] });
+      }
+    }
+    return imports;
+  }
+
+  protected prepare(content: string): string {
+    return maskInlineHtml(content);
+  }
+
+  protected classifyBlock(header: HeaderContext): BlockDeclaration | null {
+    const namespace = this.classifyNamespace(header, NAMESPACE_PATTERN);
+    if (namespace) {
+      return namespace;
+    }
+
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'hash');
+
+    const typeMatch = TYPE_PATTERN.exec(text);
+    if (typeMatch) {
+      const modifiers = typeMatch[1].trim().split(/\s+/).filter(Boolean);
+      const kind = typeMatch[2] as EntityKind & ContainerKind;
+      const declaration: Declaration = {
+        name: typeMatch[3],
+        type: 'class',
+        kind,
+        signature: collapseWhitespace(source),
+        isAbstract: modifiers.includes('abstract') || kind === 'interface',
+        isExported: true
+      };
+      if (decorators.length > 0) {
+        declaration.decorators = decorators;
+      }
+      return { declaration, scope: { name: typeMatch[3], kind } };
+    }
+
+    const method = this.parseFunction(header, text, source, decorators);
+    if (method) {
+      return { declaration: method, scope: { name: method.name, kind: 'function' } };
+    }
+
+    return null;
+  }
+
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    // `namespace App\Models;` applies to the rest of the file
+    const namespace = NAMESPACE_PATTERN.exec(header.text);
+    if (namespace) {
+      return { name: namespace[1], type: 'namespace', kind: 'namespace', signature: collapseWhitespace(header.source) };
+    }
+
+    // Interface and abstract methods have no body
+    const enclosing = getEnclosingType(header.stack);
+    if (!enclosing || enclosing !== header.scope) {
+      return null;
+    }
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'hash');
+    const method = this.parseFunction(header, text, source, decorators);
+    if (method && (enclosing.kind === 'interface' || method.isAbstract)) {
+      return method;
+    }
+    return null;
+  }
+
+  /**
+   * Parse a function or method header
+   * @param header Header context
+   * @param text Masked header without attributes
+   * @param source Original header without attributes
+   * @param decorators Attributes found on the header
+   * @returns Function declaration or null
+   */
+  private parseFunction(header: HeaderContext, text: string, source: string, decorators: string[]): Declaration | null {
+    const match = FUNCTION_PATTERN.exec(text);
+    if (!match) {
+      return null;
+    }
+    const open = match[0].length - 1;
+    const close = findClosingBracket(text, open);
+    if (close === -1) {
+      return null;
+    }
+
+    const modifiers = match[1].trim().split(/\s+/).filter(Boolean);
+    const name = match[2];
+    const enclosing = getEnclosingType(header.stack);
+    const returnType = /^\s*:\s*(.+)$/s.exec(source.slice(close + 1));
+
+    let kind: EntityKind = enclosing ? 'method' : 'function';
+    if (enclosing && name === '__construct') {
+      kind = 'constructor';
+    } else if (enclosing && name === '__destruct') {
+      kind = 'destructor';
+    }
+
+    const visibility = modifiers.find(modifier => modifier === 'public' || modifier === 'protected' || modifier === 'private') as Visibility | undefined;
+    const declaration: Declaration = {
+      name,
+      type: 'function',
+      kind,
+      signature: collapseWhitespace(source),
+      parameters: parseParameters(source.slice(open + 1, close)),
+      returnType: returnType ? collapseWhitespace(returnType[1]) : undefined,
+      visibility: enclosing ? (visibility || 'public') : undefined,
+      isStatic: modifiers.includes('static'),
+      isAbstract: modifiers.includes('abstract'),
+      isExported: !enclosing && !header.stack.some(scope => scope.kind === 'function')
+    };
+    if (decorators.length > 0) {
+      declaration.decorators = decorators;
+    }
+    return declaration;
+  }
+}
@@ -0,0 +1,432 @@
+import * as path from 'path';
+import { getLanguageOptions } from '../fileUtils';
+import { MaskedSourceParser } from './base';
+import { takeDefaultValue } from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, maskSource, splitTopLevel } from './lexer';
+import { CodeEntity, EntityKind, ImportBinding, ImportInfo, ParameterInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'elif', 'else', 'for', 'while', 'with', 'return', 'yield', 'raise', 'assert', 'except', 'not', 'and',
+  'or', 'in', 'is', 'lambda', 'del', 'await', 'async', 'global', 'nonlocal', 'def', 'class'
+]);
+
+const LEXER: LexerOptions = {
+  lineComments: ['#'],
+  blockComments: [],
+  strings: ['"""', "'''", '"', "'"]
+};
+
+const DEF_PATTERN = /^(async\s+)?def\s+([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*\(/;
+
+const CLASS_PATTERN = /^class\s+([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*(\()?/;
+
+/**
+ * A logical line: physical lines joined by open brackets or backslash continuations
+ */
+interface LogicalLine {
+  start: number;
+  end: number;
+  indent: number;
+}
+
+type Declaration = Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>;
+
+interface PythonScope {
+  indent: number;
+  kind: 'class' | 'function';
+  name: string;
+  entity: CodeEntity;
+  // End offset of the last statement in the body
+  bodyEnd: number;
+}
+
+/**
+ * Split masked source into logical lines
+ * @param masked Masked source code
+ * @returns Non-blank logical lines with their indentation
+ */
+function splitLogicalLines(masked: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let depth = 0;
+  let start = 0;
+
+  const push = (end: number): void => {
+    const text = masked.slice(start, end);
+    if (text.trim()) {
+      const indent = text.length - text.replace(/^[ \t]*/, '').length;
+      lines.push({ start: start + indent, end: start + text.trimEnd().length, indent: text.slice(0, indent).replace(/\t/g, '        ').length });
+    }
+    start = end + 1;
+  };
+
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === '\n' && depth === 0 && masked[i - 1] !== '\\' && !(masked[i - 1] === '\r' && masked[i - 2] === '\\')) {
+      push(i);
+    }
+  }
+  push(masked.length);
+  return lines;
+}
+
+/**
+ * Parse a Python parameter list
+ * @param parameters Parameter list source text
+ * @returns Parameter information, without the `/` and bare `*` markers
+ */
+function parseParameters(parameters: string): ParameterInfo[] {
+  const result: ParameterInfo[] = [];
+  for (const raw of splitTopLevel(parameters)) {
+    if (raw === '/' || raw === '*') {
+      continue;
+    }
+    const info: ParameterInfo = { name: '' };
+    let text = raw;
+
+    text = takeDefaultValue(text, info);
+
+    const annotation = splitTopLevel(text, ':');
+    if (annotation.length > 1) {
+      text = annotation[0];
+      info.type = collapseWhitespace(annotation.slice(1).join(':'));
+    }
+
+    const name = /^(\*{1,2})?\s*([A-Za-z_]\w*)$/.exec(text.trim());
+    if (!name) {
+      continue;
+    }
+    info.name = name[2];
+    if (name[1]) {
+      info.rest = true;
+    }
+    result.push(info);
+  }
+  return result;
+}
+
+/**
+ * Clean up a docstring the way `inspect.cleandoc` does
+ * @param text Docstring contents without quotes
+ * @returns Dedented docstring
+ */
+function cleanDocstring(text: string): string {
+  const lines = text.replace(/\r/g, '').split('\n');
+  const indents = lines.slice(1)
+    .filter(line => line.trim())
+    .map(line => line.length - line.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0].trim(), ...lines.slice(1).map(line => line.slice(margin).trimEnd())]
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Get the visibility implied by Python naming conventions
+ * @param name Member name
+ * @returns `private` for name-mangled members, `protected` for `_name`, otherwise `public`
+ */
+function getVisibility(name: string): Visibility {
+  if (/^__\w+__$/.test(name)) {
+    return 'public';
+  }
+  if (name.startsWith('__')) {
+    return 'private';
+  }
+  return name.startsWith('_') ? 'protected' : 'public';
+}
+
+/**
+ * Indentation-aware parser for Python: classes, functions, methods and nested
+ * definitions with decorators, base classes, type hints and docstrings
+ */
+export class PythonParser extends MaskedSourceParser {
+  protected readonly callSyntax: CallOptions = { topLevel: true, keywords: CALL_KEYWORDS };
+
+  maskCode(content: string): string {
+    return maskSource(content, LEXER);
+  }
+
+  /**
+   * Collect the definitions of a file
+   * @param content File content
+   * @param masked Masked file content
+   * @param filePath Path to the file
+   * @param basePath Base path for relative paths
+   * @returns Entities in source order
+   */
+  protected parseEntities(content: string, masked: string, filePath: string, basePath: string): CodeEntity[] {
+    const toPosition = createLineIndex(content);
+    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
+    const file = path.basename(filePath);
+    const withDocstrings = getLanguageOptions('python').docstrings !== false;
+
+    const entities: CodeEntity[] = [];
+    const stack: PythonScope[] = [];
+    let decorators: string[] = [];
+
+    const close = (scope: PythonScope): void => {
+      const end = toPosition(scope.bodyEnd);
+      scope.entity.endLine = end.line;
+      scope.entity.endColumn = end.column;
+    };
+
+    for (const line of splitLogicalLines(masked)) {
+      // A dedent closes every block whose header is at the same or a deeper level
+      while (stack.length > 0 && stack[stack.length - 1].indent >= line.indent) {
+        close(stack.pop() as PythonScope);
+      }
+      for (const scope of stack) {
+        scope.bodyEnd = line.end;
+      }
+
+      const text = masked.slice(line.start, line.end);
+      const source = content.slice(line.start, line.end);
+
+      if (text.startsWith('@')) {
+        decorators.push(collapseWhitespace(source));
+        continue;
+      }
+
+      const parent = stack[stack.length - 1];
+      const declaration = DEF_PATTERN.test(text)
+        ? this.parseFunction(text, source, line, parent, decorators)
+        : CLASS_PATTERN.test(text) ? this.parseClass(text, source, line, decorators) : null;
+      decorators = [];
+      if (!declaration) {
+        continue;
+      }
+
+      const begin = toPosition(line.start);
+      const entity: CodeEntity = { ...declaration.fields, line: begin.line, column: begin.column, file, relativePath };
+      const headerEnd = declaration.headerEnd;
+      if (stack.length > 0) {
+        entity.container = stack.map(scope => scope.name).join('.');
+        entity.containerKind = parent.kind;
+      } else {
+        entity.isExported = !entity.name.startsWith('_');
+      }
+      const documentation = withDocstrings ? this.findDocstring(content, masked, headerEnd) : undefined;
+      if (documentation) {
+        entity.documentation = documentation;
+      }
+      entities.push(entity);
+
+      const scope: PythonScope = {
+        indent: line.indent,
+        kind: entity.type === 'class' ? 'class' : 'function',
+        name: entity.name,
+        entity,
+        bodyEnd: line.end
+      };
+      // A body on the header line (`def f(): return 1`) ends with the line
+      if (masked.slice(headerEnd, line.end).trim()) {
+        close(scope);
+      } else {
+        stack.push(scope);
+      }
+    }
+
+    while (stack.length > 0) {
+      close(stack.pop() as PythonScope);
+    }
+
+    return entities;
+  }
+
+  /**
+   * Read `import` and `from ... import` statements, including those inside functions
+   * @param content File content
+   * @param masked Masked file content
+   * @returns Imports in source order
+   */
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+
+    for (const line of splitLogicalLines(masked)) {
+      const text = masked.slice(line.start, line.end).replace(/\\\r?\n/g, ' ');
+      const { line: lineNumber } = toPosition(line.start);
+
+      const from = /^from\s+(\.*[\w.]*)\s+import\s+(.+)$/s.exec(text);
+      if (from) {
+        const bindings: ImportBinding[] = [];
+        for (const name of from[2].replace(/[()]/g, ' ').split(',')) {
+          const alias = /^\s*(\*|\w+)(?:\s+as\s+(\w+))?\s*$/.exec(name);
+          if (alias) {
+            bindings.push({ local: alias[2] || alias[1], imported: alias[1] });
+          }
+        }
+        imports.push({ source: from[1], line: lineNumber, bindings });
+        continue;
+      }
+
+      const plain = /^import\s+(.+)$/s.exec(text);
+      if (plain) {
+        for (const name of plain[1].split(',')) {
+          const alias = /^\s*([\w.]+)(?:\s+as\s+(\w+))?\s*$/.exec(name);
+          if (alias) {
+            // `import os.path` binds the dotted name, which is how calls refer to it
+            imports.push({ source: alias[1], line: lineNumber, bindings: [{ local: alias[2] || alias[1], imported: '*' }] });
+          }
+        }
+      }
+    }
+
+    return imports;
+  }
+
+  /**
+   * Parse a `def` header
+   * @param text Masked logical line
+   * @param source Original logical line
+   * @param line Logical line position
+   * @param parent Enclosing scope, if any
+   * @param decorators Decorators preceding the definition
+   * @returns Entity fields and the offset after the header colon, or null
+   */
+  private parseFunction(
+    text: string,
+    source: string,
+    line: LogicalLine,
+    parent: PythonScope | undefined,
+    decorators: string[]
+  ): { fields: Declaration; headerEnd: number } | null {
+    const match = DEF_PATTERN.exec(text) as RegExpExecArray;
+    const open = match[0].length - 1;
+    const closeParen = findClosingBracket(text, open);
+    if (closeParen === -1) {
+      return null;
+    }
+    const colon = text.indexOf(':', closeParen);
+    if (colon === -1) {
+      return null;
+    }
+
+    const name = match[2];
+    const names = decorators.map(decorator => decorator.replace(/^@\s*/, '').replace(/\(.*$/s, ''));
+    const isMethod = parent?.kind === 'class';
+    const isStatic = names.includes('staticmethod') || names.includes('classmethod');
+
+    let kind: EntityKind = isMethod ? 'method' : 'function';
+    if (isMethod && name === '__init__') {
+      kind = 'constructor';
+    } else if (isMethod && (names.includes('property') || names.some(decorator => /\.getter$/.test(decorator)))) {
+      kind = 'getter';
+    } else if (isMethod && names.some(decorator => /\.setter$/.test(decorator))) {
+      kind = 'setter';
+    }
+
+    let parameters = parseParameters(source.slice(open + 1, closeParen));
+    // The implicit receiver is not part of the call signature
+    if (isMethod && !names.includes('staticmethod') && parameters.length > 0 && !parameters[0].rest) {
+      parameters = parameters.slice(1);
+    }
+
+    const returnType = /^\s*->\s*(.+)$/s.exec(source.slice(closeParen + 1, colon));
+    const fields: Declaration = {
+      name,
+      type: 'function',
+      kind,
+      // Parameter lists split over several lines collapse to `f(a, b)`
+      signature: collapseWhitespace(source.slice(0, colon)).replace(/\(\s+/g, '(').replace(/,?\s+\)/g, ')'),
+      parameters,
+      returnType: returnType ? collapseWhitespace(returnType[1]) : undefined,
+      visibility: isMethod ? getVisibility(name) : undefined,
+      isStatic: isMethod ? isStatic : undefined,
+      isAsync: !!match[1],
+      isAbstract: names.some(decorator => /(?:^|\.)abstractmethod$/.test(decorator))
+    };
+    if (match[3]) {
+      fields.typeParameters = parseParameters(match[3].slice(1, -1));
+    }
+    if (decorators.length > 0) {
+      fields.decorators = decorators;
+    }
+    return { fields, headerEnd: line.start + colon + 1 };
+  }
+
+  /**
+   * Parse a `class` header
+   * @param text Masked logical line
+   * @param source Original logical line
+   * @param line Logical line position
+   * @param decorators Decorators preceding the definition
+   * @returns Entity fields and the offset after the header colon, or null
+   */
+  private parseClass(
+    text: string,
+    source: string,
+    line: LogicalLine,
+    decorators: string[]
+  ): { fields: Declaration; headerEnd: number } | null {
+    const match = CLASS_PATTERN.exec(text) as RegExpExecArray;
+    let cursor = match[0].length;
+    const bases: string[] = [];
+    let isAbstract = false;
+    if (match[3]) {
+      const closeParen = findClosingBracket(text, cursor - 1);
+      if (closeParen === -1) {
+        return null;
+      }
+      for (const argument of splitTopLevel(source.slice(cursor, closeParen))) {
+        // Keyword arguments such as `metaclass=ABCMeta` are not base classes
+        const keyword = /^(\w+)\s*=\s*(.+)$/s.exec(argument);
+        if (keyword) {
+          isAbstract = isAbstract || (keyword[1] === 'metaclass' && /ABCMeta$/.test(keyword[2]));
+          continue;
+        }
+        bases.push(collapseWhitespace(argument));
+      }
+      cursor = closeParen + 1;
+    }
+    const colon = text.indexOf(':', cursor);
+    if (colon === -1 || text.slice(cursor, colon).trim()) {
+      return null;
+    }
+
+    const fields: Declaration = {
+      name: match[1],
+      type: 'class',
+      kind: 'class',
+      signature: collapseWhitespace(source.slice(0, colon)),
+      isAbstract: isAbstract || bases.some(base => /(?:^|\.)ABC$/.test(base))
+    };
+    if (match[2]) {
+      fields.typeParameters = parseParameters(match[2].slice(1, -1));
+    }
+    if (bases.length > 0) {
+      fields.bases = bases;
+    }
+    if (decorators.length > 0) {
+      fields.decorators = decorators;
+    }
+    return { fields, headerEnd: line.start + colon + 1 };
+  }
+
+  /**
+   * Read the docstring that starts the body after a header
+   * @param content File content
+   * @param masked Masked file content
+   * @param headerEnd Offset after the header colon
+   * @returns Cleaned docstring, or undefined if the body does not start with a string
+   */
+  private findDocstring(content: string, masked: string, headerEnd: number): string | undefined {
+    const opening = /^\s*([rRuU]?)("""|'''|"|')/.exec(masked.slice(headerEnd));
+    if (!opening) {
+      return undefined;
+    }
+    const quote = opening[2];
+    const start = headerEnd + opening[0].length;
+    const end = masked.indexOf(quote, start);
+    if (end === -1) {
+      return undefined;
+    }
+    return cleanDocstring(content.slice(start, end)) || undefined;
+  }
+}
@@ -0,0 +1,344 @@
+import * as path from 'path';
+import { readFileContent } from '../fileUtils';
+import { MaskedSourceParser } from './base';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, maskSource, splitTopLevel } from './lexer';
+import { CodeEntity, ContainerKind, ImportInfo, ParameterInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call
+const CALL_KEYWORDS = new Set([
+  'if', 'elsif', 'else', 'unless', 'until', 'while', 'for', 'case', 'when', 'in', 'do', 'then', 'begin', 'rescue',
+  'ensure', 'end', 'return', 'yield', 'defined?', 'not', 'and', 'or', 'super', 'def', 'class', 'module', 'alias',
+  'undef', 'self', 'nil', 'true', 'false', 'next', 'break', 'redo', 'retry', 'require', 'require_relative',
+  'private', 'protected', 'public', 'module_function', 'private_class_method'
+]);
+
+const LEXER: LexerOptions = {
+  lineComments: ['#'],
+  blockComments: [],
+  strings: ['"', "'", '`'],
+  heredoc: 'ruby',
+  rubyBlockComments: true
+};
+
+// Keywords that open a block closed by `end`
+const BLOCK_KEYWORDS = /(?<![\w.:@$])(class|module|def|if|unless|while|until|case|begin|for|do|end|private|protected|public|private_class_method)(?![\w?!]|:(?!:))/g;
+
+// Visibility calls naming existing methods: `private :helper, :other`
+const VISIBILITY_SYMBOLS = /^[ \t]*((?::\w+[?!=]?[ \t]*,?[ \t]*)+)$/;
+
+// Conditionals and loops only open a block at the start of an expression; otherwise they are modifiers
+const EXPRESSION_START = /(?:^|[=(,\[|&!{?;]|\b(?:return|then|else|do|begin|and|or|not|in))\s*$/;
+
+const CLASS_PATTERN = /^class\s+((?:[A-Z]\w*::)*)([A-Z]\w*)(\s*<\s*[^;]+)?/;
+
+const MODULE_PATTERN = /^module\s+((?:[A-Z]\w*::)*)([A-Z]\w*)/;
+
+const DEF_PATTERN = /^def\s+(?:(self|[A-Z]\w*)\s*\.\s*)?([A-Za-z_]\w*[?!=]?|\[\]=?|[+\-*\/%<>=!~^&|]+|`)/;
+
+interface RubyScope {
+  kind: 'class' | 'module' | 'singleton' | 'function' | 'block';
+  name?: string;
+  entity?: CodeEntity;
+  // Visibility set by the latest bare `private`/`protected`/`public` marker
+  visibility: Visibility;
+  // Methods defined directly in this scope, for `private :name` lookups
+  methods: CodeEntity[];
+}
+
+/**
+ * Parse a Ruby parameter list
+ * @param parameters Parameter list without surrounding parentheses
+ * @returns Parameter information
+ */
+function parseParameters(parameters: string): ParameterInfo[] {
+  return splitTopLevel(parameters).map(raw => {
+    const info: ParameterInfo = { name: raw };
+    const keyword = /^([A-Za-z_]\w*):\s*(.*)$/s.exec(raw);
+    const positional = /^([A-Za-z_]\w*)\s*=\s*(.*)$/s.exec(raw);
+    if (keyword) {
+      info.name = keyword[1];
+      if (keyword[2]) {
+        info.optional = true;
+        info.defaultValue = collapseWhitespace(keyword[2]);
+      }
+    } else if (positional) {
+      info.name = positional[1];
+      info.optional = true;
+      info.defaultValue = collapseWhitespace(positional[2]);
+    } else if (/^\*{1,2}/.test(raw)) {
+      info.name = raw.replace(/^\*{1,2}/, '') || raw;
+      info.rest = true;
+    } else if (raw.startsWith('&')) {
+      info.name = raw.slice(1) || raw;
+      info.optional = true;
+    }
+    return info;
+  });
+}
+
+/**
+ * Parser for Ruby: classes, modules, methods (including singleton methods) and
+ * visibility sections, tracking `end` keywords to find where each definition closes
+ */
+export class RubyParser extends MaskedSourceParser {
+  protected readonly callSyntax: CallOptions = { topLevel: true, keywords: CALL_KEYWORDS, commandCalls: true, instanceVariables: true };
+
+  maskCode(content: string): string {
+    // The data section after __END__ is blanked like a comment
+    const dataSection = /^__END__\s*$/m.exec(content);
+    if (!dataSection) {
+      return maskSource(content, LEXER);
+    }
+    return maskSource(content.slice(0, dataSection.index), LEXER) + content.slice(dataSection.index).replace(/[^\r\n]/g, ' ');
+  }
+
+  /**
+   * Read the code part of a file
+   * @param filePath Path to the file
+   * @returns Content up to `__END__`
+   */
+  protected readContent(filePath: string): string {
+    const raw = readFileContent(filePath);
+    // Nothing after __END__ is code
+    const dataSection = /^__END__\s*$/m.exec(raw);
+    return dataSection ? raw.slice(0, dataSection.index) : raw;
+  }
+
+  /**
+   * Read `require` and `require_relative` calls with a literal path
+   * @param content File content
+   * @param masked Masked file content
+   * @returns Imports in source order; relative requires start with `./`
+   */
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    const pattern = /\b(require|require_relative|load)\b\s*\(?\s*(['"])/g;
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      const open = match.index + match[0].length - 1;
+      const close = masked.indexOf(match[2], open + 1);
+      if (close === -1) {
+        continue;
+      }
+      const target = content.slice(open + 1, close);
+      const source = match[1] === 'require_relative' && !target.startsWith('.') ? `./${target}` : target;
+      imports.push({ source, line: toPosition(match.index).line, bindings: [] });
+    }
+    return imports;
+  }
+
+  /**
+   * Collect the definitions of a file
+   * @param content File content without the data section
+   * @param masked Masked file content
+   * @param filePath Path to the file
+   * @param basePath Base path for relative paths
+   * @returns Entities in source order
+   */
+  protected parseEntities(content: string, masked: string, filePath: string, basePath: string): CodeEntity[] {
+    const toPosition = createLineIndex(content);
+    const relativePath = basePath ? path.relative(basePath, filePath) : filePath;
+    const file = path.basename(filePath);
+
+    const entities: CodeEntity[] = [];
+    const stack: RubyScope[] = [{ kind: 'block', visibility: 'public', methods: [] }];
+    // Line of the last loop keyword, so `while x do` opens a single block
+    let loopLine = -1;
+
+    const createEntity = (fields: Partial<CodeEntity> & Pick<CodeEntity, 'name' | 'type'>, start: number, qualifier: string[]): CodeEntity => {
+      const begin = toPosition(start);
+      const scopes = stack.filter(scope => scope.name);
+      const scopePath = [...scopes.map(scope => scope.name as string), ...qualifier];
+      const entity: CodeEntity = {
+        ...fields,
+        line: begin.line,
+        column: begin.column,
+        file,
+        relativePath
+      };
+      if (scopePath.length > 0) {
+        entity.container = scopePath.join('.');
+        const innermost = scopes[scopes.length - 1];
+        entity.containerKind = qualifier.length > 0 || !innermost ? 'module' : innermost.kind as ContainerKind;
+      }
+      return entity;
+    };
+
+    const lineOf = (offset: number): number => toPosition(offset).line;
+
+    BLOCK_KEYWORDS.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = BLOCK_KEYWORDS.exec(masked)) !== null) {
+      const keyword = match[1];
+      const start = match.index;
+      const lineStart = Math.max(masked.lastIndexOf('\n', start - 1), masked.lastIndexOf(';', start - 1)) + 1;
+      const before = masked.slice(lineStart, start);
+      const lineEnd = masked.indexOf('\n', start);
+      const rest = masked.slice(start, lineEnd === -1 ? masked.length : lineEnd);
+      const scope = stack[stack.length - 1];
+
+      if (keyword === 'end') {
+        if (stack.length > 1) {
+          const closed = stack.pop() as RubyScope;
+          if (closed.entity) {
+            const finish = toPosition(start + 3);
+            closed.entity.endLine = finish.line;
+            closed.entity.endColumn = finish.column;
+          }
+        }
+        continue;
+      }
+
+      if (keyword === 'private' || keyword === 'protected' || keyword === 'public' || keyword === 'private_class_method') {
+        if (before.trim()) {
+          continue;
+        }
+        const args = rest.slice(keyword.length);
+        const visibility: Visibility = keyword === 'private_class_method' ? 'private' : keyword;
+        const symbols = VISIBILITY_SYMBOLS.exec(args);
+        if (symbols) {
+          const names = (symbols[1].match(/:\w+[?!=]?/g) || []).map(symbol => symbol.slice(1));
+          for (const method of scope.methods) {
+            if (names.includes(method.name) && (keyword !== 'private_class_method' || method.isStatic)) {
+              method.visibility = visibility;
+            }
+          }
+        } else if (!args.trim() && keyword !== 'private_class_method') {
+          // A bare marker applies to the methods defined after it
+          scope.visibility = visibility;
+        }
+        continue;
+      }
+
+      if (keyword === 'do') {
+        // The `do` of `while cond do` belongs to the loop
+        if (loopLine !== lineOf(start)) {
+          stack.push({ kind: 'block', visibility: 'public', methods: [] });
+        }
+        continue;
+      }
+
+      if (keyword === 'if' || keyword === 'unless' || keyword === 'while' || keyword === 'until' || keyword === 'case' || keyword === 'begin' || keyword === 'for') {
+        if (EXPRESSION_START.test(before)) {
+          stack.push({ kind: 'block', visibility: 'public', methods: [] });
+          if (keyword === 'while' || keyword === 'until' || keyword === 'for') {
+            loopLine = lineOf(start);
+          }
+        }
+        continue;
+      }
+
+      // Definitions must start a statement, optionally after a visibility modifier
+      const modifier = /^\s*(?:(private|protected|public|private_class_method|module_function)\s+)?$/.exec(before);
+      if (!modifier) {
+        continue;
+      }
+
+      if (keyword === 'class') {
+        if (/^class\s*<<\s*self\b/.test(rest)) {
+          stack.push({ kind: 'singleton', visibility: 'public', methods: [] });
+          continue;
+        }
+        const classMatch = CLASS_PATTERN.exec(rest);
+        if (!classMatch) {
+          stack.push({ kind: 'block', visibility: 'public', methods: [] });
+          continue;
+        }
+        const qualifier = classMatch[1] ? classMatch[1].slice(0, -2).split('::') : [];
+        const entity = createEntity({
+          name: classMatch[2],
+          type: 'class',
+          kind: 'class',
+          signature: collapseWhitespace(content.slice(start, start + classMatch[0].length))
+        }, start, qualifier);
+        entities.push(entity);
+        stack.push({ kind: 'class', name: [...qualifier, classMatch[2]].join('.'), entity, visibility: 'public', methods: [] });
+        continue;
+      }
+
+      if (keyword === 'module') {
+        const moduleMatch = MODULE_PATTERN.exec(rest);
+        if (!moduleMatch) {
+          stack.push({ kind: 'block', visibility: 'public', methods: [] });
+          continue;
+        }
+        const qualifier = moduleMatch[1] ? moduleMatch[1].slice(0, -2).split('::') : [];
+        const entity = createEntity({
+          name: moduleMatch[2],
+          type: 'namespace',
+          kind: 'module',
+          signature: collapseWhitespace(content.slice(start, start + moduleMatch[0].length))
+        }, start, qualifier);
+        entities.push(entity);
+        stack.push({ kind: 'module', name: [...qualifier, moduleMatch[2]].join('.'), entity, visibility: 'public', methods: [] });
+        continue;
+      }
+
+      // keyword === 'def'
+      const defMatch = DEF_PATTERN.exec(rest);
+      if (!defMatch) {
+        continue;
+      }
+      const name = defMatch[2];
+      let cursor = start + defMatch[0].length;
+      let parameters = '';
+      if (masked[cursor] === '(') {
+        const close = findClosingBracket(masked, cursor);
+        if (close !== -1) {
+          parameters = content.slice(cursor + 1, close);
+          cursor = close + 1;
+        }
+      } else {
+        // Parentheses are optional: `def greet name, greeting = 'hi'`
+        const bare = /^[ \t]+([^;=\n][^;\n]*)/.exec(masked.slice(cursor, lineEnd === -1 ? masked.length : lineEnd));
+        if (bare && !/^\s*=/.test(bare[1])) {
+          parameters = content.slice(cursor + bare.index + bare[0].length - bare[1].length, cursor + bare[0].length);
+          cursor += bare[0].length;
+        }
+      }
+      // Endless methods (`def area = width * height`) have no `end`
+      const isEndless = /^[ \t]*=(?!=)/.test(masked.slice(cursor));
+
+      const isSingleton = !!defMatch[1] || scope.kind === 'singleton';
+      const owner = [...stack].reverse().find(item => item.kind === 'class' || item.kind === 'module');
+      const inFunction = stack.some(item => item.kind === 'function');
+      let visibility: Visibility | undefined;
+      if (owner && !inFunction) {
+        const inline = modifier[1];
+        visibility = inline === 'private' || inline === 'protected' || inline === 'public'
+          ? inline
+          : (defMatch[1] ? 'public' : scope.visibility);
+        if (inline === 'private_class_method') {
+          visibility = 'private';
+        }
+        // `initialize` is always private in Ruby
+        if (name === 'initialize') {
+          visibility = 'private';
+        }
+      }
+
+      const entity = createEntity({
+        name,
+        type: 'function',
+        kind: name === 'initialize' && owner ? 'constructor' : (owner ? 'method' : 'function'),
+        signature: collapseWhitespace(content.slice(start, cursor)),
+        parameters: parseParameters(parameters),
+        visibility,
+        isStatic: isSingleton
+      }, start, []);
+      entities.push(entity);
+      scope.methods.push(entity);
+
+      if (isEndless) {
+        const finish = toPosition(lineEnd === -1 ? masked.length : lineEnd);
+        entity.endLine = finish.line;
+        entity.endColumn = finish.column;
+      } else {
+        stack.push({ kind: 'function', entity, visibility: 'public', methods: [] });
+      }
+    }
+
+    return entities.sort((a, b) => a.line - b.line || (a.column || 0) - (b.column || 0));
+  }
+}
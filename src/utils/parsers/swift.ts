@@ -0,0 +1,238 @@
+import {
+  BlockDeclaration,
+  BraceLanguageParser,
+  Declaration,
+  HeaderContext,
+  getEnclosingType,
+  stripAttributes,
+  takeDefaultValue
+} from './braces';
+import { CallOptions } from './calls';
+import { LexerOptions, collapseWhitespace, createLineIndex, findClosingBracket, splitTopLevel } from './lexer';
+import { ContainerKind, EntityKind, ImportInfo, ParameterInfo, Visibility } from './types';
+
+// Words followed by `(` that do not start a call, including access modifiers with a setter scope: `private(set)`
+const CALL_KEYWORDS = new Set([
+  'if', 'else', 'guard', 'for', 'while', 'repeat', 'switch', 'case', 'catch', 'return', 'throw', 'try', 'await',
+  'func', 'init', 'deinit', 'subscript', 'get', 'set', 'willSet', 'didSet', 'where', 'is', 'as', 'in', 'super',
+  'some', 'any', 'private', 'fileprivate', 'internal', 'public'
+]);
+
+const MODIFIER_LIST = '(?:public|private|fileprivate|internal|open|package|final|static|class|override|mutating|nonmutating|convenience|required|dynamic|optional|nonisolated|indirect|prefix|postfix|infix|distributed)';
+
+const TYPE_PATTERN = new RegExp(`^((?:${MODIFIER_LIST}\\s+)*)(class|struct|enum|protocol|actor|extension)\\s+([A-Za-z_][\\w.]*)(.*)$`, 's');
+
+const FUNCTION_PATTERN = new RegExp(`^((?:${MODIFIER_LIST}\\s+)*)(?:func\\s+([^\\s(<]+)|(init)[?!]?|(subscript)|(deinit)\\b)\\s*`, 's');
+
+// Lines ending with these continue onto the next line
+const CONTINUATION_END = /(?:[,=:(\[&|+*/.<]|->|\bwhere)$/;
+
+// Lines starting with these continue the previous line
+const CONTINUATION_START = /^(?:[.{:=?&|+*/]|->|where\b|throws\b|rethrows\b|async\b)/;
+
+/**
+ * Map Swift access modifiers to a visibility
+ * @param modifiers Modifier keywords
+ * @returns Visibility (internal when no access modifier is present)
+ */
+function getVisibility(modifiers: string[]): Visibility {
+  if (modifiers.includes('public') || modifiers.includes('open')) {
+    return 'public';
+  }
+  if (modifiers.includes('private') || modifiers.includes('fileprivate')) {
+    return 'private';
+  }
+  return 'internal';
+}
+
+/**
+ * Parse a Swift parameter list (`label name: Type = default`)
+ * @param parameters Parameter list source text
+ * @returns Parameter information
+ */
+function parseParameters(parameters: string): ParameterInfo[] {
+  const result: ParameterInfo[] = [];
+
+  for (const raw of splitTopLevel(parameters)) {
+    let text = raw;
+    const info: ParameterInfo = { name: '' };
+
+    text = takeDefaultValue(text, info);
+
+    const colon = text.indexOf(':');
+    const names = (colon === -1 ? text : text.slice(0, colon)).trim().split(/\s+/);
+    // With an argument label, the second name is the one used inside the body
+    info.name = names[names.length - 1];
+    if (colon !== -1) {
+      let type = collapseWhitespace(stripAttributes(text.slice(colon + 1), text.slice(colon + 1), 'at').source);
+      if (type.endsWith('...')) {
+        info.rest = true;
+        type = type.slice(0, -3).trim();
+      }
+      info.type = type;
+    }
+    result.push(info);
+  }
+
+  return result;
+}
+
+/**
+ * Parser for Swift: classes, structs, enums, protocols, actors, extensions,
+ * functions, initializers, deinitializers and subscripts
+ */
+export class SwiftParser extends BraceLanguageParser {
+  protected readonly lexer: LexerOptions = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    strings: ['"""', '"'],
+    preprocessor: true
+  };
+
+  protected readonly callSyntax: CallOptions = { topLevel: true, keywords: CALL_KEYWORDS };
+
+  protected parseImports(content: string, masked: string): ImportInfo[] {
+    const toPosition = createLineIndex(content);
+    const imports: ImportInfo[] = [];
+    const pattern = /^[ \t]*(?:@\w+\s+)*import\s+(?:(?:typealias|struct|class|enum|protocol|let|var|func)\s+)?([\w.]+)/gm;
+    for (let match = pattern.exec(masked); match; match = pattern.exec(masked)) {
+      imports.push({ source: match[1], line: toPosition(match.index).line, bindings: [{ local: '*', imported: '*' }] });
+    }
+    return imports;
+  }
+
+  protected isStatementEnd(masked: string, headerStart: number, index: number): boolean {
+    const lineStart = Math.max(headerStart, masked.lastIndexOf('\n', index - 1) + 1);
+    const line = masked.slice(lineStart, index).trim();
+    if (!line || CONTINUATION_END.test(line)) {
+      return false;
+    }
+    // Attributes on their own line belong to the next declaration
+    if (stripAttributes(line, line, 'at').text === '') {
+      return false;
+    }
+    const next = /\S[^\n]*/.exec(masked.slice(index + 1));
+    return !next || !CONTINUATION_START.test(next[0]);
+  }
+
+  protected classifyBlock(header: HeaderContext): BlockDeclaration | null {
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'at');
+
+    const typeMatch = TYPE_PATTERN.exec(text);
+    if (typeMatch && !/^(func|var|let|init|subscript)\b/.test(typeMatch[3])) {
+      const modifiers = typeMatch[1].trim().split(/\s+/).filter(Boolean);
+      const keyword = typeMatch[2];
+      const name = typeMatch[3];
+
+      // Extensions add members to an existing type; they are containers, not declarations
+      if (keyword === 'extension') {
+        return { scope: { name, kind: 'extension' } };
+      }
+
+      const kind: EntityKind & ContainerKind = keyword === 'actor' ? 'class' : keyword as EntityKind & ContainerKind;
+      const enclosing = getEnclosingType(header.stack);
+      const visibility = getVisibility(modifiers);
+      const declaration: Declaration = {
+        name,
+        type: 'class',
+        kind,
+        signature: collapseWhitespace(source),
+        visibility,
+        isExported: !enclosing && visibility === 'public'
+      };
+      if (decorators.length > 0) {
+        declaration.decorators = decorators;
+      }
+      return { declaration, scope: { name, kind } };
+    }
+
+    const fn = this.parseFunction(header, text, source, decorators);
+    if (fn) {
+      return { declaration: fn, scope: { name: fn.name, kind: 'function' } };
+    }
+
+    return null;
+  }
+
+  protected classifyStatement(header: HeaderContext): Declaration | null {
+    // Protocol requirements have no body
+    const enclosing = getEnclosingType(header.stack);
+    if (!enclosing || enclosing !== header.scope || enclosing.kind !== 'protocol') {
+      return null;
+    }
+    const { text, source, decorators } = stripAttributes(header.text, header.source, 'at');
+    const fn = this.parseFunction(header, text, source, decorators);
+    if (fn) {
+      fn.isAbstract = true;
+    }
+    return fn;
+  }
+
+  /**
+   * Parse a function, initializer, deinitializer or subscript header
+   * @param header Header context
+   * @param text Masked header without attributes
+   * @param source Original header without attributes
+   * @param decorators Attributes found on the header
+   * @returns Function declaration or null
+   */
+  private parseFunction(header: HeaderContext, text: string, source: string, decorators: string[]): Declaration | null {
+    const match = FUNCTION_PATTERN.exec(text);
+    if (!match) {
+      return null;
+    }
+
+    const modifiers = match[1].trim().split(/\s+/).filter(Boolean);
+    const enclosing = getEnclosingType(header.stack);
+    let name = match[2];
+    let kind: EntityKind = enclosing ? 'method' : 'function';
+    if (match[3]) {
+      name = 'init';
+      kind = 'constructor';
+    } else if (match[4]) {
+      name = 'subscript';
+    } else if (match[5]) {
+      name = 'deinit';
+      kind = 'destructor';
+    }
+
+    let parameters: ParameterInfo[] = [];
+    let suffix = '';
+    let open = match[0].length;
+    if (text[open] === '<') {
+      open = findClosingBracket(text, open) + 1;
+      while (/\s/.test(text[open] || '')) {
+        open++;
+      }
+    }
+    if (text[open] === '(') {
+      const close = findClosingBracket(text, open);
+      if (close === -1) {
+        return null;
+      }
+      parameters = parseParameters(source.slice(open + 1, close));
+      suffix = collapseWhitespace(source.slice(close + 1));
+    } else if (kind !== 'destructor') {
+      return null;
+    }
+
+    const returnType = /->\s*(.+?)(?:\s+where\s+.*)?$/.exec(suffix);
+    const visibility = getVisibility(modifiers);
+    const declaration: Declaration = {
+      name,
+      type: 'function',
+      kind,
+      signature: collapseWhitespace(source),
+      parameters,
+      returnType: returnType ? returnType[1] : undefined,
+      visibility,
+      isStatic: modifiers.includes('static') || modifiers.includes('class'),
+      isAsync: /\basync\b/.test(suffix.split('->')[0]),
+      isExported: !enclosing && !header.stack.some(scope => scope.kind === 'function') && visibility === 'public'
+    };
+    if (decorators.length > 0) {
+      declaration.decorators = decorators;
+    }
+    return declaration;
+  }
+}
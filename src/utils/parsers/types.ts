@@ -0,0 +1,156 @@
+/**
+ * Fine-grained kind of a code entity
+ */
+export type EntityKind =
+  | 'function'
+  | 'method'
+  | 'constructor'
+  | 'destructor'
+  | 'getter'
+  | 'setter'
+  | 'class'
+  | 'struct'
+  | 'union'
+  | 'interface'
+  | 'enum'
+  | 'record'
+  | 'trait'
+  | 'protocol'
+  | 'namespace'
+  | 'module'
+  | 'type';
+
+/**
+ * Kind of scope that encloses an entity
+ */
+export type ContainerKind =
+  | 'class'
+  | 'struct'
+  | 'union'
+  | 'interface'
+  | 'enum'
+  | 'record'
+  | 'trait'
+  | 'protocol'
+  | 'extension'
+  | 'namespace'
+  | 'module'
+  | 'function'
+  | 'object'
+  | 'type';
+
+/**
+ * Visibility of a class member
+ */
+export type Visibility = 'public' | 'protected' | 'internal' | 'private';
+
+/**
+ * Parameter of a function or method
+ */
+export interface ParameterInfo {
+  name: string;
+  type?: string;
+  optional?: boolean;
+  defaultValue?: string;
+  rest?: boolean;
+}
+
+/**
+ * Receiver of a Go method
+ */
+export interface ReceiverInfo {
+  name?: string;
+  // Receiver type name without pointer marker or type arguments
+  type: string;
+  pointer: boolean;
+}
+
+/**
+ * Interface for code entities (functions, classes or namespaces)
+ *
+ * Class-like declarations (structs, interfaces, enums, traits, ...) use type
+ * `class` and are told apart by `kind`. `line` and `column` are 1-based. Fields after `type` are filled in when the
+ * language parser can determine them.
+ */
+export interface CodeEntity {
+  name: string;
+  line: number;
+  file: string;
+  relativePath: string;
+  type: 'function' | 'class' | 'namespace';
+  kind?: EntityKind;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  // Dotted path of enclosing scopes, e.g. "Outer.Inner" for a method of class Inner nested in Outer
+  container?: string;
+  containerKind?: ContainerKind;
+  signature?: string;
+  parameters?: ParameterInfo[];
+  typeParameters?: ParameterInfo[];
+  returnType?: string;
+  receiver?: ReceiverInfo;
+  visibility?: Visibility;
+  isStatic?: boolean;
+  isAsync?: boolean;
+  isAbstract?: boolean;
+  isExported?: boolean;
+  decorators?: string[];
+  // Base classes named in the declaration
+  bases?: string[];
+  // Docstring or doc comment text
+  documentation?: string;
+}
+
+/**
+ * A call made in a file
+ */
+export interface CallSite {
+  // Index of the calling function in the file's entities, or -1 for top-level code
+  caller: number;
+  // Called name, e.g. `save` for `this.repo.save(user)`
+  name: string;
+  // Receiver written before the name, e.g. `this.repo`; `<expression>` when it is not a plain name
+  qualifier?: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A name bound by an import
+ */
+export interface ImportBinding {
+  local: string;
+  // Exported name, `default`, or `*` for the whole module or namespace
+  imported: string;
+}
+
+/**
+ * An import, include or require statement
+ */
+export interface ImportInfo {
+  // Module as written, e.g. './utils', 'os.path' or 'github.com/user/repo/pkg'
+  source: string;
+  line: number;
+  bindings: ImportBinding[];
+}
+
+/**
+ * Everything a parser extracts from one file
+ */
+export interface FileAnalysis {
+  entities: CodeEntity[];
+  calls: CallSite[];
+  imports: ImportInfo[];
+}
+
+/**
+ * Base parser interface
+ */
+export interface Parser {
+  parseFile(filePath: string, basePath?: string): CodeEntity[];
+  // Entities together with the call sites and imports of the file
+  analyzeFile(filePath: string, basePath?: string): FileAnalysis;
+  // Content with comments and string contents blanked, same length and line breaks
+  maskCode(content: string): string;
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Error raised when a path lies outside the allowed roots
+ */
+export class PathAccessError extends Error {
+  readonly path: string;
+
+  constructor(target: string) {
+    super(`Access denied: ${target} is outside the allowed roots`);
+    this.name = 'PathAccessError';
+    this.path = target;
+  }
+}
+
+/**
+ * Resolve a path to its real location, following symbolic links. Paths that do
+ * not exist yet are resolved through their closest existing parent.
+ * @param target Path to resolve
+ * @returns Absolute real path
+ */
+function realPath(target: string): string {
+  const absolute = path.resolve(target);
+  try {
+    return fs.realpathSync(absolute);
+  } catch {
+    const parent = path.dirname(absolute);
+    return parent === absolute ? absolute : path.join(realPath(parent), path.basename(absolute));
+  }
+}
+
+/**
+ * Check whether a path is a directory or lies below it
+ * @param dir Absolute directory path
+ * @param target Absolute path
+ * @returns True if target is dir or inside it
+ */
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Allow-list of the directories clients may analyze. Paths are compared after
+ * resolving `..` segments and symbolic links, so neither can lead outside a
+ * root. With no roots configured every path is allowed.
+ */
+export class PathSandbox {
+  private roots: string[] = [];
+
+  /**
+   * Replace the allowed roots
+   * @param roots Directory paths; an empty list lifts the restriction
+   */
+  setRoots(roots: string[]): void {
+    this.roots = [...new Set(roots.map(root => realPath(root)))];
+  }
+
+  /**
+   * Get the allowed roots
+   * @returns Real paths of the roots, empty when unrestricted
+   */
+  getRoots(): string[] {
+    return [...this.roots];
+  }
+
+  /**
+   * Check whether any roots are configured
+   * @returns True if paths are restricted
+   */
+  isRestricted(): boolean {
+    return this.roots.length > 0;
+  }
+
+  /**
+   * Check whether a path may be read
+   * @param target Path to check
+   * @returns True if the path resolves to an allowed root or a path below one
+   */
+  allows(target: string): boolean {
+    if (this.roots.length === 0) {
+      return true;
+    }
+    const resolved = realPath(target);
+    return this.roots.some(root => isInside(root, resolved));
+  }
+
+  /**
+   * Reject a path outside the allowed roots
+   * @param target Path to check
+   * @returns The path, resolved to an absolute path
+   */
+  check(target: string): string {
+    if (!this.allows(target)) {
+      throw new PathAccessError(target);
+    }
+    return path.resolve(target);
+  }
+}
+
+/**
+ * Allow-list applied to every path a tool reads
+ */
+export const sandbox = new PathSandbox();
@@ -0,0 +1,208 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFilesInDirectory, isAnalyzableFile } from './fileUtils';
+import { IGNORE_FILES, IgnoreMatcher } from './ignore';
+import { ProjectIndex } from './indexCache';
+import { logger } from './logger';
+import { CodeEntity } from './parsers';
+
+/**
+ * Files affected by one batch of filesystem events
+ */
+export interface IndexChange {
+  root: string;
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/**
+ * Quiet period before a burst of filesystem events is processed
+ */
+const DEBOUNCE_MS = 100;
+
+/**
+ * Keeps the index of a project root live by watching the filesystem.
+ * Emits `change` with an IndexChange whenever files are added, changed or removed.
+ */
+export class ProjectWatcher extends EventEmitter {
+  readonly root: string;
+  private readonly index: ProjectIndex;
+  private ignore: IgnoreMatcher;
+  private watcher: fs.FSWatcher | null = null;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  // Serializes batches so a slow rescan never overlaps the next one
+  private processing: Promise<void> = Promise.resolve();
+  // Repository exclude file, read as an ignore file of the root
+  private readonly excludeFile: string;
+
+  constructor(rootPath: string) {
+    super();
+    this.root = path.resolve(rootPath);
+    this.index = ProjectIndex.for(this.root);
+    this.ignore = new IgnoreMatcher(this.root);
+    this.excludeFile = path.join(this.root, '.git', 'info', 'exclude');
+  }
+
+  /**
+   * Index the root and start watching it
+   */
+  async start(): Promise<void> {
+    this.ignore = new IgnoreMatcher(this.root);
+    const files = await getFilesInDirectory(this.root, Infinity);
+    this.index.track(files);
+    this.index.prune();
+    this.index.getEntities(files);
+
+    // Recursive watching needs Node 20 on Linux
+    this.watcher = fs.watch(this.root, { recursive: true }, (_event, filename) => {
+      if (!filename) {
+        this.schedule();
+        return;
+      }
+      const changed = path.join(this.root, filename.toString());
+      // Events under ignored directories such as node_modules and .git are dropped right away,
+      // except for the exclude file that changes the ignore rules
+      if (this.ignore.isIgnored(changed, false) && changed !== this.excludeFile) {
+        return;
+      }
+      this.pending.add(changed);
+      this.schedule();
+    });
+    this.watcher.on('error', error => {
+      logger.error(`Watcher error in ${this.root}: ${error}`);
+    });
+  }
+
+  /**
+   * Stop watching; the index keeps its last state but goes back to scanning on queries
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.index.track(null);
+  }
+
+  /**
+   * Get the files currently in the index
+   * @returns Absolute file paths
+   */
+  getFiles(): string[] {
+    return this.index.getTrackedFiles() || [];
+  }
+
+  /**
+   * Get the entities currently in the index
+   * @returns Entities of every watched file
+   */
+  getEntities(): CodeEntity[] {
+    return this.index.getEntities(this.getFiles()).entities;
+  }
+
+  /**
+   * Process pending events after the debounce period
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const paths = [...this.pending];
+      this.pending.clear();
+      this.processing = this.processing
+        .then(() => this.process(paths))
+        .catch(error => logger.error(`Error updating index for ${this.root}: ${error}`));
+    }, DEBOUNCE_MS);
+  }
+
+  /**
+   * Apply a batch of changed paths to the index
+   * @param paths Absolute paths reported by the filesystem watcher
+   */
+  private async process(paths: string[]): Promise<void> {
+    const change: IndexChange = { root: this.root, added: [], changed: [], removed: [] };
+    let rescan = false;
+
+    for (const changed of paths) {
+      // Ignore rules may have changed; reload them and check every file again
+      if (IGNORE_FILES.includes(path.basename(changed)) || changed === this.excludeFile) {
+        this.ignore = new IgnoreMatcher(this.root);
+        rescan = true;
+        continue;
+      }
+
+      let stat: fs.Stats | null = null;
+      try {
+        stat = fs.statSync(changed);
+      } catch {
+        stat = null;
+      }
+
+      if (stat?.isDirectory()) {
+        // A directory was created or moved in; its files are not reported individually
+        rescan = rescan || !this.ignore.isIgnored(changed, true);
+      } else if (stat?.isFile()) {
+        if (isAnalyzableFile(changed, this.ignore)) {
+          this.record(change, changed, this.index.updateFile(changed));
+        } else if (this.index.removeFile(changed)) {
+          change.removed.push(changed);
+        }
+      } else {
+        // Deleted or renamed away: drop the file, or every file under a removed directory
+        const prefix = changed + path.sep;
+        for (const file of this.index.getTrackedFiles() || []) {
+          if ((file === changed || file.startsWith(prefix)) && this.index.removeFile(file)) {
+            change.removed.push(file);
+          }
+        }
+      }
+    }
+
+    if (rescan) {
+      await this.rescan(change);
+    }
+
+    this.index.save();
+    if (change.added.length > 0 || change.changed.length > 0 || change.removed.length > 0) {
+      this.emit('change', change);
+    }
+  }
+
+  /**
+   * Compare the tracked files with a fresh directory scan
+   * @param change Change record to extend
+   */
+  private async rescan(change: IndexChange): Promise<void> {
+    const files = await getFilesInDirectory(this.root, Infinity);
+    const current = new Set(files);
+    for (const file of this.index.getTrackedFiles() || []) {
+      if (!current.has(file) && this.index.removeFile(file)) {
+        change.removed.push(file);
+      }
+    }
+    for (const file of files) {
+      this.record(change, file, this.index.updateFile(file));
+    }
+  }
+
+  /**
+   * Add the outcome of a file update to a change record
+   * @param change Change record
+   * @param file Absolute file path
+   * @param result Result of ProjectIndex.updateFile
+   */
+  private record(change: IndexChange, file: string, result: ReturnType<ProjectIndex['updateFile']>): void {
+    if (result === 'added' && !change.added.includes(file)) {
+      change.added.push(file);
+    } else if (result === 'changed' && !change.changed.includes(file)) {
+      change.changed.push(file);
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiscoveryOptions, DiscoveryRoot } from './fileUtils';
+
+/**
+ * Discovery settings as written in a workspace definition
+ */
+export interface WorkspaceSettings {
+  maxDepth?: number;
+  include?: string[];
+  exclude?: string[];
+  // Same values as the `language` tool argument
+  language?: string[];
+  maxFileSize?: number;
+  maxFiles?: number;
+}
+
+/**
+ * One root of a workspace definition
+ */
+export interface WorkspaceRootConfig extends WorkspaceSettings {
+  path: string;
+  // Label prefixed to the file paths of this root; defaults to the directory name
+  name?: string;
+}
+
+/**
+ * Workspace definition, as accepted by the API and the config file.
+ * Settings at this level apply to every root; root settings override them,
+ * except `exclude`, which adds to them.
+ */
+export interface WorkspaceConfig extends WorkspaceSettings {
+  name: string;
+  roots: Array<string | WorkspaceRootConfig>;
+}
+
+/**
+ * A registered workspace with its roots resolved
+ */
+export interface Workspace {
+  name: string;
+  roots: DiscoveryRoot[];
+}
+
+/**
+ * Error raised when a workspace definition is invalid or a workspace is unknown
+ */
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/**
+ * Workspace and root names: no separators, so a root name can prefix a path
+ */
+const NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Combine default discovery settings with more specific ones. Specific values
+ * win, except exclude globs, which are added to the defaults.
+ * @param defaults Settings of the workspace or root
+ * @param overrides Settings of the root or query
+ * @returns Combined settings
+ */
+export function mergeDiscoveryOptions(defaults: DiscoveryOptions, overrides: DiscoveryOptions): DiscoveryOptions {
+  const exclude = [...(defaults.exclude || []), ...(overrides.exclude || [])];
+  return {
+    maxDepth: overrides.maxDepth ?? defaults.maxDepth,
+    include: overrides.include ?? defaults.include,
+    exclude: exclude.length > 0 ? exclude : undefined,
+    languages: overrides.languages ?? defaults.languages,
+    maxFileSize: overrides.maxFileSize ?? defaults.maxFileSize,
+    maxFiles: overrides.maxFiles ?? defaults.maxFiles
+  };
+}
+
+/**
+ * Check and convert the discovery settings of a workspace definition
+ * @param settings Settings as written
+ * @param context Description of where the settings come from, for error messages
+ * @returns Discovery options
+ */
+function readSettings(settings: WorkspaceSettings, context: string): DiscoveryOptions {
+  const count = (key: 'maxDepth' | 'maxFileSize' | 'maxFiles', minimum: number): number | undefined => {
+    const value = settings[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < minimum)) {
+      throw new WorkspaceError(`${context}: "${key}" must be an integer >= ${minimum}`);
+    }
+    return value;
+  };
+  const globs = (key: 'include' | 'exclude' | 'language'): string[] | undefined => {
+    const value = settings[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      throw new WorkspaceError(`${context}: "${key}" must be an array of strings`);
+    }
+    return value;
+  };
+  return {
+    maxDepth: count('maxDepth', 0),
+    include: globs('include'),
+    exclude: globs('exclude'),
+    languages: globs('language'),
+    maxFileSize: count('maxFileSize', 1),
+    maxFiles: count('maxFiles', 1)
+  };
+}
+
+/**
+ * Named sets of project roots that queries can refer to instead of a path.
+ * Each root keeps its own discovery settings; a query's own settings are
+ * applied on top of them.
+ */
+export class WorkspaceRegistry {
+  private readonly workspaces = new Map<string, Workspace>();
+
+  /**
+   * Register a workspace
+   * @param config Workspace definition
+   * @param baseDir Directory relative root paths are resolved against
+   * @param replace Replace a workspace with the same name instead of failing
+   * @returns Registered workspace
+   */
+  add(config: WorkspaceConfig, baseDir: string = process.cwd(), replace: boolean = false): Workspace {
+    if (!config || typeof config.name !== 'string' || !NAME_PATTERN.test(config.name)) {
+      throw new WorkspaceError('Workspace name must be letters, digits, "_", "-" or "." and must not start with "." or "-"');
+    }
+    const name = config.name;
+    if (this.workspaces.has(name) && !replace) {
+      throw new WorkspaceError(`Workspace "${name}" already exists`);
+    }
+    if (!Array.isArray(config.roots) || config.roots.length === 0) {
+      throw new WorkspaceError(`Workspace "${name}" needs at least one root`);
+    }
+
+    const defaults = readSettings(config, `Workspace "${name}"`);
+    const roots: DiscoveryRoot[] = [];
+    for (const entry of config.roots) {
+      const rootConfig: WorkspaceRootConfig = typeof entry === 'string' ? { path: entry } : entry;
+      if (!rootConfig || typeof rootConfig.path !== 'string' || rootConfig.path === '') {
+        throw new WorkspaceError(`Workspace "${name}": every root needs a path`);
+      }
+      const rootPath = path.resolve(baseDir, rootConfig.path);
+      if (!isDirectory(rootPath)) {
+        throw new WorkspaceError(`Workspace "${name}": ${rootPath} is not a directory`);
+      }
+      const rootName = rootConfig.name ?? path.basename(rootPath);
+      if (!NAME_PATTERN.test(rootName)) {
+        throw new WorkspaceError(`Workspace "${name}": invalid root name "${rootName}"`);
+      }
+      if (roots.some(root => root.name === rootName)) {
+        throw new WorkspaceError(`Workspace "${name}": two roots are named "${rootName}"; give one of them a name`);
+      }
+      const options = readSettings(rootConfig, `Workspace "${name}", root "${rootName}"`);
+      roots.push({ name: rootName, path: rootPath, options: mergeDiscoveryOptions(defaults, options) });
+    }
+
+    const workspace: Workspace = { name, roots };
+    this.workspaces.set(name, workspace);
+    return workspace;
+  }
+
+  /**
+   * Unregister a workspace
+   * @param name Workspace name
+   * @returns True if the workspace existed
+   */
+  remove(name: string): boolean {
+    return this.workspaces.delete(name);
+  }
+
+  /**
+   * Look up a workspace by name
+   * @param name Workspace name
+   * @returns Workspace or undefined
+   */
+  get(name: string): Workspace | undefined {
+    return this.workspaces.get(name);
+  }
+
+  /**
+   * List the registered workspaces
+   * @returns Workspaces sorted by name
+   */
+  list(): Workspace[] {
+    return [...this.workspaces.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find the root of a workspace that contains a path
+   * @param name Workspace name
+   * @param target Absolute path, or a path relative to the workspace: relative to the
+   * root for single-root workspaces, starting with the root name otherwise
+   * @returns Root and absolute path
+   */
+  resolvePath(name: string, target: string): { root: DiscoveryRoot; path: string } {
+    const workspace = this.workspaces.get(name);
+    if (!workspace) {
+      throw new WorkspaceError(`Unknown workspace "${name}"`);
+    }
+
+    if (path.isAbsolute(target)) {
+      const absolute = path.resolve(target);
+      const root = workspace.roots.find(candidate => isInside(candidate.path, absolute));
+      if (root) {
+        return { root, path: absolute };
+      }
+    } else if (workspace.roots.length === 1) {
+      const root = workspace.roots[0];
+      const absolute = path.resolve(root.path, target);
+      if (isInside(root.path, absolute)) {
+        return { root, path: absolute };
+      }
+    } else {
+      const [rootName, ...rest] = target.replace(/\\/g, '/').split('/');
+      const root = workspace.roots.find(candidate => candidate.name === rootName);
+      const absolute = root && path.resolve(root.path, ...rest);
+      if (root && absolute && isInside(root.path, absolute)) {
+        return { root, path: absolute };
+      }
+    }
+    throw new WorkspaceError(`${target} is not inside workspace "${name}"`);
+  }
+
+  /**
+   * Register the workspaces listed in a JSON config file. Relative root paths
+   * are resolved against the directory of the file.
+   * @param configPath Path of a file holding `{ "workspaces": [...] }` or an array of workspaces
+   * @returns Registered workspaces
+   */
+  loadFile(configPath: string): Workspace[] {
+    const file = path.resolve(configPath);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new WorkspaceError(`Cannot read workspace config ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    const configs = Array.isArray(parsed) ? parsed : parsed?.workspaces;
+    if (!Array.isArray(configs)) {
+      throw new WorkspaceError(`Workspace config ${file} must be an array or have a "workspaces" array`);
+    }
+    return configs.map(config => this.add(config, path.dirname(file), true));
+  }
+}
+
+/**
+ * Check whether a path is a directory
+ * @param dirPath Path to check
+ * @returns True for directories and links to directories
+ */
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path is a directory or lies below it
+ * @param dir Absolute directory path
+ * @param target Absolute path
+ * @returns True if target is dir or inside it
+ */
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Workspaces shared by the tools and the server
+ */
+export const workspaces = new WorkspaceRegistry();
@@ -0,0 +1,107 @@
+// Example C# file with namespaces, classes, structs, interfaces, enums and records
+using System;
+using System.Collections.Generic;
+using System.Threading.Tasks;
+
+namespace Shop.Models
+{
+    public interface IRepository<T>
+    {
+        void Save(T item);
+
+        Task<IEnumerable<T>> FindAllAsync();
+    }
+
+    [Serializable]
+    public class ShoppingCart : IRepository<Item>, IDisposable
+    {
+        private readonly List<Item> _items = new List<Item>();
+
+        public int Count { get { return _items.Count; } }
+
+        public ShoppingCart() : this(10)
+        {
+        }
+
+        public ShoppingCart(int capacity)
+        {
+            _items = new List<Item>(capacity);
+        }
+
+        ~ShoppingCart()
+        {
+        }
+
+        public void Save(Item item)
+        {
+            if (item == null)
+            {
+                throw new ArgumentNullException(nameof(item));
+            }
+            _items.Add(item);
+        }
+
+        [Obsolete("Use FindAllAsync")]
+        public async Task<IEnumerable<Item>> FindAllAsync()
+        {
+            await Task.Delay(1);
+            var path = @"C:\temp\{not a block}";
+            return _items;
+        }
+
+        public static T Max<T>(T a, T b = default, params T[] rest) where T : IComparable<T>
+        {
+            int Compare(T x, T y)
+            {
+                return x.CompareTo(y);
+            }
+            return Compare(a, b) > 0 ? a : b;
+        }
+
+        public static ShoppingCart operator +(ShoppingCart cart, Item item)
+        {
+            cart.Save(item);
+            return cart;
+        }
+
+        void IDisposable.Dispose() => _items.Clear();
+
+        protected internal virtual string Describe() => $"{Count} items";
+    }
+
+    public struct Point
+    {
+        public int X;
+        public int Y;
+
+        public double Length()
+        {
+            return Math.Sqrt(X * X + Y * Y);
+        }
+    }
+
+    public enum Status
+    {
+        Open,
+        Closed
+    }
+
+    public record Item(string Id, decimal Price);
+
+    public abstract class Shape
+    {
+        public abstract double Area();
+    }
+
+    public class Square : Shape
+    {
+        private readonly double _side;
+
+        public Square(double side) : base()
+        {
+            _side = side;
+        }
+
+        public override double Area() => _side * _side;
+    }
+}
@@ -0,0 +1,90 @@
+// Example Java file with classes, interfaces, enums, records and methods
+package com.example.shop;
+
+import java.util.ArrayList;
+import java.util.List;
+
+/**
+ * A repository of items
+ */
+public interface Repository<T> {
+    void save(T item);
+
+    List<T> findAll();
+
+    default int count() {
+        return findAll().size();
+    }
+}
+
+public class ShoppingCart implements Repository<Item> {
+    private final List<Item> items = new ArrayList<>();
+
+    public ShoppingCart() {
+        // if (items.isEmpty()) { notAMethod(); }
+    }
+
+    @Override
+    public void save(Item item) {
+        if (item != null) {
+            items.add(item);
+        }
+    }
+
+    @Override
+    public List<Item> findAll() {
+        return items;
+    }
+
+    @SuppressWarnings({"unchecked", "rawtypes"})
+    public static <T extends Comparable<T>> List<T> sorted(List<T> values, boolean descending) throws IllegalStateException {
+        Runnable task = new Runnable() {
+            @Override
+            public void run() {
+                System.out.println("class Fake { void fake() {} }");
+            }
+        };
+        task.run();
+        return values;
+    }
+
+    private static class Counter {
+        int value;
+
+        void increment(int... amounts) {
+            for (int amount : amounts) {
+                value += amount;
+            }
+        }
+
+        synchronized int current() {
+            synchronized (this) {
+                return value;
+            }
+        }
+    }
+}
+
+enum Status {
+    OPEN, CLOSED;
+
+    boolean isFinal() {
+        return this == CLOSED;
+    }
+}
+
+record Item(String id, double price) {
+    Item {
+        if (price < 0) {
+            throw new IllegalArgumentException("negative price");
+        }
+    }
+
+    String label() {
+        return id + ": " + price;
+    }
+}
+
+abstract class Shape {
+    abstract double area();
+}
@@ -0,0 +1,78 @@
+// Example Swift file with classes, structs, enums, protocols, extensions and functions
+import Foundation
+
+public protocol Repository {
+    associatedtype Item
+
+    func save(_ item: Item) throws
+    func findAll() async -> [Item]
+}
+
+protocol Resettable { func reset() }
+
+public struct Product {
+    private(set) var discount: Double = 0
+    let id: String
+    var price: Double
+
+    public init(id: String, price: Double = 0) {
+        self.id = id
+        self.price = price
+    }
+
+    func display() -> String {
+        return "\(id): \(String(format: "%.2f", price))"
+    }
+}
+
+@MainActor
+public final class ShoppingCart: Repository {
+    private var items: [Product] = []
+
+    var isEmpty: Bool {
+        get { items.isEmpty }
+    }
+
+    public func save(_ item: Product) throws {
+        // func notAFunction() {}
+        items.append(item)
+    }
+
+    public func findAll() async -> [Product] {
+        let sorted = items.sorted { $0.price < $1.price }
+        return sorted
+    }
+
+    static func merge<T: Collection>(
+        _ carts: T,
+        into target: ShoppingCart
+    ) -> ShoppingCart where T.Element == ShoppingCart {
+        return target
+    }
+
+    deinit {
+        items.removeAll()
+    }
+}
+
+enum Status: String {
+    case open
+    case closed
+
+    var label: String {
+        switch self {
+        case .open: return "Open"
+        case .closed: return "Closed"
+        }
+    }
+}
+
+extension ShoppingCart {
+    func total() -> Double {
+        items.reduce(0) { $0 + $1.price }
+    }
+}
+
+func calculateTotal(_ products: Product...) -> Double {
+    products.reduce(0) { total, product in total + product.price }
+}
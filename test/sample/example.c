@@ -0,0 +1,59 @@
+#include <stdio.h>
+#include <stdlib.h>
+
+#define MAX_ITEMS 16
+#define SQUARE(x) \
+  ((x) * (x))
+
+typedef struct {
+  int id;
+  char name[32];
+} Item;
+
+struct list {
+  Item *items;
+  size_t count;
+};
+
+enum color { RED, GREEN, BLUE };
+
+union value {
+  int i;
+  double d;
+};
+
+static int compare_items(const void *a, const void *b);
+
+int list_push(struct list *list, Item item);
+
+static int compare_items(const void *a, const void *b) {
+  const Item *left = a;
+  const Item *right = b;
+  if (left->id < right->id) {
+    return -1;
+  }
+  return left->id > right->id;
+}
+
+int list_push(struct list *list, Item item) {
+  /* grow(list) { ignored } */
+  list->items[list->count++] = item;
+  return 0;
+}
+
+struct list *list_create(size_t capacity) {
+  struct list *list = malloc(sizeof(struct list));
+  list->items = calloc(capacity, sizeof(Item));
+  list->count = 0;
+  return list;
+}
+
+void list_log(const char *format, ...) {
+  printf("list_log(%s) {\n", format);
+}
+
+int main(int argc, char **argv) {
+  struct list *list = list_create(MAX_ITEMS);
+  qsort(list->items, list->count, sizeof(Item), compare_items);
+  return 0;
+}
@@ -0,0 +1,80 @@
+#include <string>
+#include <vector>
+
+namespace app::storage {
+
+template <typename T>
+class Repository {
+public:
+  explicit Repository(std::string name) : name_(std::move(name)) {}
+  virtual ~Repository() = default;
+
+  virtual bool save(const T &item) = 0;
+  std::size_t size() const { return items_.size(); }
+  static Repository *create();
+
+protected:
+  void log(const std::string &message) const;
+
+private:
+  std::string name_;
+  std::vector<T> items_;
+};
+
+struct User {
+  int id;
+  std::string name;
+
+  bool operator==(const User &other) const { return id == other.id; }
+};
+
+class UserRepository final : public Repository<User> {
+public:
+  UserRepository() : Repository<User>("users") {}
+  bool save(const User &user) override;
+  [[nodiscard]] auto find(int id) const -> const User *;
+};
+
+enum class Status { Active, Disabled };
+
+bool UserRepository::save(const User &user) {
+  if (user.id == 0) {
+    return false;
+  }
+  return true;
+}
+
+auto UserRepository::find(int id) const -> const User * {
+  for (const auto &user : users()) {
+    if (user.id == id) {
+      return &user;
+    }
+  }
+  return nullptr;
+}
+
+template <>
+void Repository<User>::log(const std::string &message) const {
+  std::puts(message.c_str());
+}
+
+namespace {
+int counter = 0;
+
+void touch() {
+  counter++;
+}
+}
+
+}
+
+extern "C" {
+int storage_version(void) {
+  return 2;
+}
+}
+
+int main() {
+  app::storage::UserRepository repository;
+  return repository.save({1, "Ada"}) ? 0 : 1;
+}
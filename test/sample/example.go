@@ -0,0 +1,97 @@
+package storage
+
+import (
+	"context"
+	"errors"
+)
+
+// ErrNotFound is returned when an item does not exist.
+var ErrNotFound = errors.New("not found")
+
+// ID identifies a stored item.
+type ID int64
+
+// Alias for the legacy name.
+type Key = ID
+
+type (
+	// Item is a stored value.
+	Item struct {
+		ID   ID
+		Name string
+		Meta struct {
+			Tags []string
+		}
+	}
+
+	Handler func(ctx context.Context, item Item) error
+)
+
+// Store persists items.
+type Store interface {
+	Get(ctx context.Context, id ID) (Item, error)
+	Put(ctx context.Context, item Item) error
+	Close() error
+	io.Closer
+}
+
+// Repo is an in-memory Store.
+type Repo struct {
+	items map[ID]Item
+}
+
+// Stack is a generic LIFO stack.
+type Stack[T any] struct {
+	values []T
+}
+
+type Pair[K comparable, V any] struct {
+	Key   K
+	Value V
+}
+
+type Buffer [16]byte
+
+// NewRepo creates an empty repository.
+func NewRepo() *Repo {
+	return &Repo{items: map[ID]Item{}}
+}
+
+// Get returns the item with the given ID.
+func (r *Repo) Get(ctx context.Context, id ID) (Item, error) {
+	item, ok := r.items[id]
+	if !ok {
+		return Item{}, ErrNotFound
+	}
+	return item, nil
+}
+
+func (r *Repo) Put(_ context.Context, item Item) error {
+	type local struct{ n int }
+	r.items[item.ID] = item
+	return nil
+}
+
+func (r Repo) Len() int { return len(r.items) }
+
+func (Repo) Close() error { return nil }
+
+func (s *Stack[T]) Push(values ...T) {
+	s.values = append(s.values, values...)
+}
+
+func Map[T, U any](in []T, fn func(T) U) []U {
+	out := make([]U, 0, len(in))
+	for _, v := range in {
+		out = append(out, fn(v))
+	}
+	return out
+}
+
+func walk(fn func(string) error) interface{} {
+	cleanup := func() {
+		// func inner() {}
+	}
+	defer cleanup()
+	return "func fake() {"
+}
@@ -0,0 +1,91 @@
+<html>
+<body>
+<script>function notPhp() { return { a: 1 }; }</script>
+<?php
+// Example PHP file with namespaces, classes, interfaces, traits, enums and functions
+
+namespace App\Models;
+
+use InvalidArgumentException;
+
+interface Repository
+{
+    public function save(Item $item): void;
+
+    public function findAll(): array;
+}
+
+trait Countable
+{
+    public function count(): int
+    {
+        return count($this->items);
+    }
+}
+
+#[Entity(table: 'carts')]
+final class ShoppingCart implements Repository
+{
+    use Countable;
+
+    private array $items = [];
+
+    public function __construct(private readonly string $owner, int ...$ids)
+    {
+        # function notAFunction() {}
+    }
+
+    public function save(Item $item): void
+    {
+        if ($item->price < 0) {
+            throw new InvalidArgumentException("function fake() { }");
+        }
+        $this->items[] = $item;
+    }
+
+    public function findAll(): array
+    {
+        $sql = <<<SQL
+            SELECT * FROM items WHERE owner = { $this->owner }
+        SQL;
+        return array_filter($this->items, function ($item) {
+            return $item !== null;
+        });
+    }
+
+    public static function create(?string $owner = null): static
+    {
+        return new static($owner ?? 'guest');
+    }
+}
+
+enum Status: string
+{
+    case Open = 'open';
+    case Closed = 'closed';
+
+    public function label(): string
+    {
+        return ucfirst($this->value);
+    }
+}
+
+abstract class Shape
+{
+    abstract protected function area(): float;
+}
+
+function calculate_total(array $items): float
+{
+    return array_sum(array_map(fn ($item) => $item->price, $items));
+}
+?>
+<p>Total: <?= calculate_total([]) ?></p>
+<?php
+function render_footer(): string
+{
+    return strtoupper('footer');
+}
+?>
+</body>
+</html>
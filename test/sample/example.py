@@ -34,3 +34,58 @@ class Product:
     
     def display(self):
         return f"{self.name}: {format_price(self.price)}"
+
+
+# Decorators, async functions, nesting and docstrings
+from abc import ABC, abstractmethod
+
+
+class Repository(ABC):
+    """Base class for repositories.
+
+    Subclasses implement ``save``.
+    """
+
+    def __init__(self, name: str, *, timeout: float = 1.5) -> None:
+        self.name = name
+        self._template = """
+        def not_a_function():
+            pass
+        """
+
+    @property
+    def size(self) -> int:
+        return 0
+
+    @size.setter
+    def size(self, value: int) -> None:
+        pass
+
+    @staticmethod
+    def create(*args, **kwargs) -> "Repository":
+        return None
+
+    @abstractmethod
+    async def save(self, item: dict[str, int]) -> bool:
+        """Persist an item."""
+
+    def __cache_key(self):
+        # def commented_out(): pass
+        return self.name
+
+
+class UserRepository(Repository, metaclass=Registry):
+    async def save(self, item):
+        def validate(value):
+            def inner(): return True
+            return inner()
+
+        return validate(item)
+
+
+@app.route("/items", methods=["GET"])
+def list_items(
+    page: int = 1,
+    size: int = 20,
+) -> list:
+    return []
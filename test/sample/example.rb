@@ -0,0 +1,82 @@
+# frozen_string_literal: true
+
+require 'json'
+
+module Storage
+  VERSION = '1.0'
+
+  class Repository < BaseRepository
+    attr_reader :name
+
+    def initialize(name, options = {})
+      @name = name
+      @items = []
+    end
+
+    def save(item, validate: true, **opts)
+      return false unless valid?(item) if validate
+      @items << item
+      log "saved #{item} and end"
+      true
+    end
+
+    def each(&block)
+      @items.each do |item|
+        block.call(item)
+      end
+    end
+
+    def size = @items.size
+
+    def self.create(*args)
+      new(*args)
+    end
+
+    class << self
+      def registry
+        @registry ||= {}
+      end
+    end
+
+    protected
+
+    def valid?(item)
+      if item.nil?
+        false
+      else
+        true
+      end
+    end
+
+    private
+
+    def log(message)
+      while message.length > 80 do
+        message = message[0, 80]
+      end
+      puts <<~TEXT
+        def not_a_method
+        end
+      TEXT
+    end
+
+    public def reset!
+      @items.clear
+    end
+
+    def helper
+      value = if @items.empty? then 0 else 1 end
+      value
+    end
+    private :helper
+  end
+end
+
+=begin
+class Commented
+end
+=end
+
+def greet name, greeting = 'Hello'
+  "#{greeting}, #{name}"
+end
@@ -0,0 +1,63 @@
+// Example TypeScript file exercising declarations the AST parser must recognise
+
+export default function bootstrap(): void {
+  // function notAFunction() {} inside a comment must be ignored
+  const message = 'function alsoNotAFunction() {}';
+  console.log(message);
+}
+
+export const identity = <T,>(value: T): T => value;
+
+export function parse(input: string): number;
+export function parse(input: number): number;
+export function parse(input: string | number): number {
+  return Number(input);
+}
+
+export abstract class Repository<T> {
+  protected items: T[] = [];
+
+  onChange = (item: T): void => {
+    this.items.push(item);
+  };
+
+  abstract validate(item: T): boolean;
+
+  save(item: T): void {
+    if (this.validate(item)) {
+      this.onChange(item);
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
+
+export const handlers = {
+  start() {
+    return 'started';
+  },
+  stop: async () => 'stopped'
+};
+
+describe('Repository', () => {
+  it('saves items', () => {
+    handlers.start();
+  });
+});
+
+export interface Entity<K = string> extends Record<string, unknown> {
+  id: K;
+}
+
+export enum Status {
+  Active,
+  Archived
+}
+
+export type Listener<T> = (item: T) => void;
+
+export namespace Storage {
+  export function clear(): void {}
+}
@@ -0,0 +1,8 @@
+// Cart totals; imports the price formatter, which imports this module back
+const { formatPrice } = require('./format');
+
+function cartTotal(items) {
+  return formatPrice(items.reduce((sum, item) => sum + item.price, 0));
+}
+
+module.exports = { cartTotal };
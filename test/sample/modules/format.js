@@ -0,0 +1,8 @@
+// Price formatting; requires the cart module, closing an import cycle
+const cart = require('./cart');
+
+function formatPrice(value) {
+  return `$${value.toFixed(2)}`;
+}
+
+module.exports = { formatPrice, cart };
@@ -0,0 +1,6 @@
+"""Report helpers importing a sibling module that does not exist"""
+from . import missing
+
+
+def build_report(rows):
+    return missing.render(rows)
@@ -1,58 +1,71 @@
+const { after, before, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
 const http = require('http');
+const net = require('net');
+const os = require('os');
 const path = require('path');
+const { spawn, spawnSync } = require('child_process');
+const analyzer = require('../dist');
 
 // Path to our sample code directory
 const samplePath = path.resolve(__dirname, 'sample');
+const bin = path.resolve(__dirname, '..', 'dist', 'bin.js');
+
+let server;
+let baseUrl;
+let cacheDir;
+
+/**
+ * Find a free port on the loopback interface
+ * @returns {Promise<number>} - Port number
+ */
+function getFreePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.on('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Read a response body, parsing it when it is JSON
+ * @param {http.IncomingMessage} res - Server response
+ * @param {Function} resolve - Called with the status and data
+ * @param {Function} reject - Called when the body cannot be read
+ */
+function readResponse(res, resolve, reject) {
+  let data = '';
+  res.on('data', (chunk) => {
+    data += chunk;
+  });
+  res.on('end', () => {
+    const contentType = res.headers['content-type'] || '';
+    try {
+      resolve({ status: res.statusCode, data: contentType.includes('application/json') ? JSON.parse(data) : data });
+    } catch (error) {
+      reject(new Error(`Invalid JSON response: ${data}`));
+    }
+  });
+  res.on('error', reject);
+}
 
 /**
  * Make a GET request to the MCP server
  * @param {string} endpoint - The endpoint to call
  * @param {Object} params - Query parameters
- * @returns {Promise<Object>} - Response data
+ * @param {Object} headers - Extra request headers
+ * @returns {Promise<{status: number, data: *}>} - Response status and data
  */
-function makeRequest(endpoint, params = {}) {
+function makeRequest(endpoint, params = {}, headers = {}) {
   return new Promise((resolve, reject) => {
-    // Build query string
     const queryParams = new URLSearchParams(params).toString();
-    const url = `http://localhost:3000/${endpoint}?${queryParams}`;
-    
-    console.log(`Making request to: ${url}`);
-    
-    // Set a timeout of 30 seconds
-    const req = http.get(url, { timeout: 30000 }, (res) => {
-      let data = '';
-      
-      // A chunk of data has been received
-      res.on('data', (chunk) => {
-        data += chunk;
-      });
-      
-      // The whole response has been received
-      res.on('end', () => {
-        console.log(`Response status: ${res.statusCode}`);
-        
-        try {
-          // If it's JSON, parse it
-          if (res.headers['content-type'].includes('application/json')) {
-            resolve(JSON.parse(data));
-          } else {
-            // Otherwise return as string
-            resolve(data);
-          }
-        } catch (error) {
-          console.error('Error parsing response:', error);
-          resolve(data); // Return raw data if parsing fails
-        }
-      });
-    });
-    
-    req.on('error', (error) => {
-      console.error(`Error making request: ${error.message}`);
-      reject(error);
-    });
-    
+    const req = http.get(`${baseUrl}/${endpoint}?${queryParams}`, { timeout: 30000, headers }, (res) => readResponse(res, resolve, reject));
+    req.on('error', reject);
     req.on('timeout', () => {
-      console.error('Request timed out after 30 seconds');
       req.destroy();
       reject(new Error('Request timed out'));
     });
@@ -60,46 +73,462 @@ function makeRequest(endpoint, params = {}) {
 }
 
 /**
- * Run tests for the MCP server
+ * Make a POST request with a JSON body to the MCP server
+ * @param {string} endpoint - The endpoint to call
+ * @param {Object} body - Request body
+ * @returns {Promise<{status: number, data: *}>} - Response status and data
  */
-async function runTests() {
-  console.log('=== TESTING MCP SERVER ===');
-  
-  try {
-    // Test 1: Get functions (JSON format)
-    console.log('\n--- Test 1: Get Functions (JSON) ---');
-    const functionsJson = await makeRequest('get_functions', { path: samplePath });
-    console.log('Functions found:', functionsJson.functions.length);
-    console.log('Sample functions:');
-    functionsJson.functions.slice(0, 3).forEach(func => {
-      console.log(`- ${func.name} (${func.file}, line ${func.line})`);
+function makePostRequest(endpoint, body = {}) {
+  return new Promise((resolve, reject) => {
+    const req = http.request(`${baseUrl}/${endpoint}`, {
+      method: 'POST',
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' }
+    }, (res) => readResponse(res, resolve, reject));
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error('Request timed out'));
     });
-    
-    // Test 2: Get functions (Table format)
-    console.log('\n--- Test 2: Get Functions (Table) ---');
-    const functionsTable = await makeRequest('get_functions', { path: samplePath, format: 'table' });
-    console.log(functionsTable);
-    
-    // Test 3: Get classes (JSON format)
-    console.log('\n--- Test 3: Get Classes (JSON) ---');
-    const classesJson = await makeRequest('get_classes', { path: samplePath });
-    console.log('Classes found:', classesJson.classes.length);
-    console.log('Sample classes:');
-    classesJson.classes.slice(0, 3).forEach(cls => {
-      console.log(`- ${cls.name} (${cls.file}, line ${cls.line})`);
+    req.end(JSON.stringify(body));
+  });
+}
+
+/**
+ * Send a JSON-RPC request to the MCP endpoint
+ * @param {string} method - JSON-RPC method
+ * @param {Object} params - Method parameters
+ * @returns {Promise<Object>} - JSON-RPC response
+ */
+function makeRpcRequest(method, params = {}) {
+  return new Promise((resolve, reject) => {
+    const req = http.request(`${baseUrl}/mcp`, {
+      method: 'POST',
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' }
+    }, (res) => readResponse(res, (response) => resolve(response.data), reject));
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error('Request timed out'));
     });
-    
-    // Test 4: Get classes (Table format)
-    console.log('\n--- Test 4: Get Classes (Table) ---');
-    const classesTable = await makeRequest('get_classes', { path: samplePath, format: 'table' });
-    console.log(classesTable);
-    
-    console.log('\n=== ALL TESTS COMPLETED SUCCESSFULLY ===');
-  } catch (error) {
-    console.error('\n=== TEST FAILED ===');
-    console.error(error);
-  }
+    req.end(JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params }));
+  });
+}
+
+/**
+ * Run a one-shot CLI command
+ * @param {string[]} args - Command line arguments
+ * @returns {import('child_process').SpawnSyncReturns<string>} - Exit status and output
+ */
+function runCli(args) {
+  return spawnSync(process.execPath, [bin, ...args], {
+    encoding: 'utf8',
+    timeout: 60000,
+    env: { ...process.env, MCP_CACHE_DIR: cacheDir }
+  });
+}
+
+/**
+ * Analyze one sample file with its language parser
+ * @param {string} file - File name under the sample directory
+ * @returns {Object} - Entities, calls and imports of the file
+ */
+function analyzeSample(file) {
+  return analyzer.getParserForFile(file).analyzeFile(path.join(samplePath, file), samplePath);
 }
 
-// Run the tests
-runTests();
+/**
+ * Start the server on a free port and wait until it answers
+ */
+before(async () => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-code-analyzer-test-'));
+  const port = await getFreePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, [bin, '--port', String(port), '--log-level', 'error'], {
+    cwd: path.resolve(__dirname, '..'),
+    env: { ...process.env, MCP_CACHE_DIR: cacheDir },
+    stdio: 'ignore'
+  });
+  const deadline = Date.now() + 30000;
+  while (true) {
+    try {
+      await makeRequest('list_workspaces');
+      return;
+    } catch (error) {
+      if (Date.now() > deadline || server.exitCode !== null) {
+        throw new Error(`Server did not start: ${error.message}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
+});
+
+after(() => {
+  server.kill();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe('get_functions', () => {
+  test('lists the functions of every sample file', async () => {
+    const { status, data } = await makeRequest('get_functions', { path: samplePath });
+    assert.equal(status, 200);
+    assert.equal(data.functions.length, 131);
+    assert.equal(data.discovery.filesMatched, 14);
+    assert.equal(data.discovery.filesScanned, 14);
+    assert.equal(data.discovery.truncated, false);
+
+    const save = data.functions.find(func => func.relativePath === 'Example.cs' && func.name === 'Save');
+    assert.equal(save.signature, 'void Save(T item)');
+    assert.equal(save.container, 'Shop.Models.IRepository');
+    assert.equal(save.containerKind, 'interface');
+    assert.deepEqual(save.parameters, [{ name: 'item', type: 'T' }]);
+  });
+
+  test('renders a table', async () => {
+    const { data } = await makeRequest('get_functions', { path: samplePath, format: 'table' });
+    const lines = data.split('\n');
+    assert.equal(lines[0], 'function | container | signature | modifiers | line | file | path');
+    assert.equal(lines[2], 'function Save | Shop.Models.IRepository | void Save(T item) | public | 10 | Example.cs | Example.cs');
+  });
+});
+
+describe('get_classes', () => {
+  test('reports classes, interfaces, enums and type aliases by container', async () => {
+    const { data } = await makeRequest('get_classes', { path: samplePath });
+    assert.equal(data.classes.length, 51);
+    const find = (file, name) => data.classes.find(cls => cls.relativePath === file && cls.name === name);
+
+    assert.equal(find('example.ts', 'Entity').kind, 'interface');
+    assert.equal(find('example.ts', 'Status').kind, 'enum');
+    assert.equal(find('example.ts', 'Listener').kind, 'type');
+    assert.equal(find('Example.swift', 'Resettable').kind, 'protocol');
+    assert.equal(find('Example.swift', 'Resettable').line, 11);
+    assert.equal(find('Example.swift', 'Product').kind, 'struct');
+    assert.equal(find('Example.cs', 'Square').container, 'Shop.Models');
+    assert.equal(find('Example.cs', 'Item').kind, 'record');
+    assert.equal(find('example.php', 'Countable').kind, 'trait');
+    assert.equal(find('example.go', 'Store').kind, 'interface');
+  });
+});
+
+describe('search_symbols', () => {
+  test('ranks exact name matches first', async () => {
+    const { data } = await makeRequest('search_symbols', { path: samplePath, query: 'save', limit: 5 });
+    assert.equal(data.total, 15);
+    assert.equal(data.matches.length, 5);
+    for (const match of data.matches) {
+      assert.equal(match.name, 'save');
+      assert.equal(match.score, 1000);
+    }
+    assert.deepEqual(data.matches.map(match => match.relativePath), ['example.cpp', 'example.cpp', 'Example.java', 'Example.java', 'example.php']);
+  });
+});
+
+describe('call graph', () => {
+  test('get_callers resolves the caller of calculateTotal', async () => {
+    const { data } = await makeRequest('get_callers', { path: samplePath, symbol: 'calculateTotal', file: 'example.js' });
+    assert.equal(data.total, 1);
+    const [edge] = data.edges;
+    assert.equal(edge.caller.qualifiedName, 'ShoppingCart.getTotal');
+    assert.equal(edge.callee.qualifiedName, 'calculateTotal');
+    assert.equal(edge.caller.line, 30);
+    assert.equal(edge.line, 31);
+    assert.equal(edge.resolved, true);
+  });
+
+  test('get_callees follows calls to the given depth', async () => {
+    const { data } = await makeRequest('get_callees', { path: samplePath, symbol: 'ShoppingCart.getTotal', file: 'example.js', depth: 2 });
+    assert.equal(data.total, 2);
+    const [calculateTotal, reduce] = data.edges;
+    assert.equal(calculateTotal.name, 'calculateTotal');
+    assert.equal(calculateTotal.resolved, true);
+    assert.equal(calculateTotal.depth, 1);
+    assert.equal(reduce.name, 'reduce');
+    assert.equal(reduce.qualifier, 'items');
+    assert.equal(reduce.caller.qualifiedName, 'calculateTotal');
+    assert.equal(reduce.depth, 2);
+    assert.equal(reduce.resolved, false);
+  });
+
+  test('Ruby calls without parentheses are collected', () => {
+    const names = analyzeSample('example.rb').calls.map(call => (call.qualifier ? `${call.qualifier}.` : '') + call.name);
+    for (const name of ['attr_reader', 'valid?', 'log', 'puts', '@items.each', '@items.clear', 'block.call']) {
+      assert.ok(names.includes(name), `missing call ${name}`);
+    }
+  });
+
+  test('decorators and keywords are not calls', () => {
+    const python = analyzeSample('example.py').calls.map(call => call.name);
+    assert.ok(!python.includes('route'));
+    assert.deepEqual(python, ['sum', 'append', 'enumerate', 'calculate_total', 'inner', 'validate']);
+    assert.ok(!analyzeSample('Example.swift').calls.some(call => call.name === 'private'));
+    assert.ok(!analyzeSample('Example.cs').calls.some(call => call.name === 'base'));
+  });
+});
+
+describe('get_dependencies', () => {
+  test('resolves local imports and reports cycles', async () => {
+    const { data } = await makeRequest('get_dependencies', { path: samplePath });
+    assert.deepEqual(data.edges.map(edge => `${edge.from} -> ${edge.to}`), [
+      'modules/cart.js -> modules/format.js',
+      'modules/format.js -> modules/cart.js'
+    ]);
+    assert.deepEqual(data.cycles, [['modules/cart.js', 'modules/format.js', 'modules/cart.js']]);
+    assert.ok(data.external.some(pkg => pkg.name === 'json'));
+    assert.ok(data.external.some(pkg => pkg.name === 'context'));
+  });
+
+  test('names the module a package-relative Python import looked for', async () => {
+    const { data } = await makeRequest('get_dependencies', { path: samplePath });
+    assert.deepEqual(data.unresolved, [{ relativePath: 'modules/report.py', source: '.missing', line: 2 }]);
+  });
+
+  test('highlights cycles in Mermaid output', async () => {
+    const { data } = await makeRequest('get_dependencies', { path: samplePath, format: 'mermaid' });
+    assert.match(data, /^graph LR/);
+    assert.match(data, /n9\["modules\/cart\.js"\]/);
+    assert.match(data, /n9 --> n10\n  n10 --> n9\n  linkStyle 0,1 stroke:#d33/);
+  });
+});
+
+describe('find_references', () => {
+  test('classifies the declaration and call of calculateTotal', async () => {
+    const { data } = await makeRequest('find_references', { path: samplePath, symbol: 'calculateTotal', file: 'example.js' });
+    assert.equal(data.total, 2);
+    assert.deepEqual(data.references.map(ref => [ref.kind, ref.line, ref.scope]), [
+      ['declaration', 4, 'calculateTotal'],
+      ['call', 31, 'ShoppingCart.getTotal']
+    ]);
+    assert.equal(data.references[1].snippet, 'return calculateTotal(this.items);');
+  });
+
+  test('filters by reference kind', async () => {
+    const { data } = await makeRequest('find_references', { path: samplePath, symbol: 'Item', kind: 'type' });
+    assert.ok(data.references.length > 0);
+    for (const ref of data.references) {
+      assert.equal(ref.kind, 'type');
+    }
+    assert.ok(data.references.some(ref => ref.relativePath === 'example.go' && ref.scope === 'Repo.Get'));
+  });
+});
+
+describe('get_symbol_source', () => {
+  test('returns the source and doc comment of a method', async () => {
+    const { data } = await makeRequest('get_symbol_source', { path: samplePath, symbol: 'Repo.Get', context: 1 });
+    assert.equal(data.total, 1);
+    const [source] = data.sources;
+    assert.equal(source.relativePath, 'example.go');
+    assert.equal(source.startLine, 61);
+    assert.equal(source.endLine, 67);
+    assert.equal(source.documentation, '// Get returns the item with the given ID.');
+    assert.match(source.source, /^func \(r \*Repo\) Get\(ctx context\.Context, id ID\) \(Item, error\) \{/);
+  });
+
+  test('renders numbered listings', async () => {
+    const { data } = await makeRequest('get_symbol_source', { path: samplePath, symbol: 'save', maxLines: 20, format: 'text' });
+    assert.match(data, /^example\.cpp:12-12 method app\.storage\.Repository\.save\n12 \|   virtual bool save\(const T &item\) = 0;/);
+  });
+});
+
+describe('get_file_outline', () => {
+  test('nests methods under their classes', async () => {
+    const { data } = await makeRequest('get_file_outline', { path: path.join(samplePath, 'example.py') });
+    assert.equal(data.language, 'python');
+    assert.equal(data.symbols, 22);
+    const cart = data.outline.children.find(child => child.name === 'ShoppingCart');
+    assert.deepEqual(cart.children.map(child => `${child.kind} ${child.name}`), [
+      'constructor __init__',
+      'method add_item',
+      'method remove_item',
+      'method get_total'
+    ]);
+  });
+
+  test('renders an indented text outline', async () => {
+    const { data } = await makeRequest('get_file_outline', { path: path.join(samplePath, 'example.js'), format: 'text' });
+    assert.match(data, /^example\.js \(module\) 1-47\n  calculateTotal \(function\) 4-6\n/);
+    assert.match(data, /\n    getTotal \(method\) 30-32\n/);
+  });
+
+  test('rejects files without a parser', async () => {
+    const readme = path.resolve(__dirname, '..', 'README.md');
+    const { status, data } = await makeRequest('get_file_outline', { path: readme });
+    assert.equal(status, 500);
+    assert.equal(data.error, `Error in get_file_outline: Unsupported language for ${readme}`);
+  });
+});
+
+describe('get_project_overview', () => {
+  test('summarizes languages and directories', async () => {
+    const { data } = await makeRequest('get_project_overview', { path: samplePath, maxTokens: 800 });
+    assert.equal(data.files, 14);
+    assert.equal(data.lines, 920);
+    assert.equal(data.languages.length, 11);
+    assert.deepEqual(data.languages[0], { language: 'csharp', files: 1, lines: 108, percent: 11.7 });
+    assert.deepEqual(data.languages.find(language => language.language === 'javascript'), { language: 'javascript', files: 3, lines: 65, percent: 7.1 });
+    assert.deepEqual(data.tree.children.map(child => [child.path, child.files]), [['modules', 3]]);
+    assert.ok(data.mostReferenced.some(symbol => symbol.qualifiedName === 'calculateTotal' && symbol.callers === 1));
+  });
+});
+
+describe('get_metrics', () => {
+  test('ranks functions by complexity', async () => {
+    const { data } = await makeRequest('get_metrics', { path: samplePath, minCyclomatic: 2, limit: 5 });
+    assert.equal(data.total, 22);
+    assert.equal(data.truncated, true);
+    const [first] = data.functions;
+    assert.equal(first.qualifiedName, 'app.storage.UserRepository.find');
+    assert.equal(first.cyclomatic, 3);
+    assert.equal(first.cognitive, 3);
+    assert.equal(first.nesting, 2);
+    for (const func of data.functions) {
+      assert.ok(func.cyclomatic >= 2);
+    }
+    assert.equal(data.summary.functions, 131);
+    assert.equal(data.summary.cyclomatic, 156);
+    assert.equal(data.summary.maxNesting, 2);
+  });
+});
+
+describe('find_unused', () => {
+  test('explains every result', async () => {
+    const { data } = await makeRequest('find_unused', { path: samplePath, minConfidence: 'medium' });
+    assert.equal(data.total, 99);
+    for (const symbol of data.symbols) {
+      assert.ok(symbol.reasons.length > 0, `${symbol.qualifiedName} has no reason`);
+    }
+    const reasons = (file, name) => data.symbols.find(symbol => symbol.relativePath === file && symbol.qualifiedName === name);
+    assert.deepEqual(reasons('example.go', 'walk').reasons, ['not exported, and no other go code uses the name walk']);
+    assert.equal(reasons('example.go', 'walk').confidence, 'high');
+    assert.deepEqual(reasons('example.js', 'Product').reasons, ['not exported, and the TypeScript checker binds no reference to it']);
+    assert.deepEqual(reasons('example.go', 'Repo.Get').reasons, [
+      'exported; code outside the analyzed files may use it',
+      'member; may be called dynamically or through an interface'
+    ]);
+    assert.equal(reasons('example.go', 'Repo.Get').confidence, 'medium');
+    assert.deepEqual(data.skipped, { entryPoints: 2, tests: 0, conventions: 26, objectProperties: 2 });
+  });
+
+  test('does not report symbols used elsewhere', async () => {
+    const { data } = await makeRequest('find_unused', { path: samplePath, minConfidence: 'medium' });
+    const names = data.symbols.map(symbol => `${symbol.relativePath}:${symbol.qualifiedName}`);
+    assert.ok(!names.includes('example.js:calculateTotal'));
+    assert.ok(!names.includes('modules/format.js:formatPrice'));
+    assert.ok(!names.includes('example.ts:Repository.validate'));
+  });
+});
+
+describe('find_duplicates', () => {
+  test('groups repeated token runs', async () => {
+    const { data } = await makeRequest('find_duplicates', { path: samplePath, minTokens: 15 });
+    assert.deepEqual(data.groups.map(group => [group.tokens, group.locations.map(location => `${location.relativePath}:${location.startLine}-${location.endLine}`)]), [
+      [19, ['example.js:5-5', 'modules/cart.js:5-5']],
+      [19, ['example.php:20-24', 'example.php:67-71']],
+      [17, ['example.go:58-61', 'example.go:67-69']],
+      [15, ['example.c:23-25', 'example.c:27-29']],
+      [15, ['example.go:32-32', 'example.go:61-61']]
+    ]);
+    assert.deepEqual(data.summary, { files: 14, lines: 920, tokens: 3483, duplicatedLines: 26, percent: 2.8 });
+  });
+
+  test('limits the table to the largest groups', async () => {
+    const { data } = await makeRequest('find_duplicates', { path: samplePath, minTokens: 15, limit: 3, format: 'table' });
+    assert.match(data, /\nShowing 3 of 5 groups\n26 of 920 lines \(2\.8%\) are duplicated/);
+  });
+});
+
+describe('parsers', () => {
+  test('Swift one-line protocols hold their requirements', () => {
+    const { entities } = analyzeSample('Example.swift');
+    const reset = entities.find(entity => entity.name === 'reset');
+    assert.equal(reset.container, 'Resettable');
+    assert.equal(reset.containerKind, 'protocol');
+  });
+
+  test('PHP functions after inline HTML are found', () => {
+    const { entities } = analyzeSample('example.php');
+    assert.ok(entities.some(entity => entity.name === 'render_footer' && entity.type === 'function'));
+  });
+
+  test('C++ specializations attach to the template class', () => {
+    const { entities } = analyzeSample('example.cpp');
+    const log = entities.find(entity => entity.name === 'log');
+    assert.equal(log.container, 'app.storage.Repository');
+  });
+});
+
+describe('workspaces', () => {
+  test('scopes requests to named roots', async () => {
+    const utilsPath = path.resolve(__dirname, '..', 'src', 'utils');
+    const added = await makePostRequest('add_workspace', { name: 'test', roots: [samplePath, utilsPath], replace: true });
+    assert.equal(added.status, 200);
+    assert.deepEqual(added.data.workspace.roots.map(root => root.name), ['sample', 'utils']);
+
+    const { data: functions } = await makeRequest('get_functions', { workspace: 'test', language: 'typescript' });
+    const roots = new Set(functions.functions.map(func => func.relativePath.split('/')[0]));
+    assert.deepEqual([...roots].sort(), ['sample', 'utils']);
+
+    const { data: classes } = await makeRequest('get_classes', { workspace: 'test', path: 'sample' });
+    assert.equal(classes.classes.length, 51);
+    assert.equal(classes.discovery.workspace, 'test');
+
+    const { data: listed } = await makeRequest('list_workspaces');
+    assert.ok(listed.workspaces.some(workspace => workspace.name === 'test'));
+
+    const removed = await makePostRequest('remove_workspace', { name: 'test' });
+    assert.equal(removed.data.removed, true);
+  });
+
+  test('refuses changes over GET', async () => {
+    const { status, data } = await makeRequest('add_workspace', { name: 'get', roots: samplePath });
+    assert.equal(status, 405);
+    assert.equal(data.error, 'Method not allowed; use POST with a JSON body');
+  });
+});
+
+describe('access checks', () => {
+  test('refuses browser origins not listed in MCP_CORS_ORIGINS', async () => {
+    const { status, data } = await makeRequest('list_workspaces', {}, { Origin: 'http://example.com' });
+    assert.equal(status, 403);
+    assert.equal(data.error, 'Origin http://example.com is not allowed');
+  });
+});
+
+describe('CLI', () => {
+  test('writes CSV and exits 0', () => {
+    const result = runCli(['functions', samplePath, '--format', 'csv', '--language', 'python']);
+    assert.equal(result.status, 0);
+    const rows = result.stdout.trim().split('\n');
+    assert.equal(rows.length - 1, 19);
+  });
+
+  test('exits 1 when nothing matches', () => {
+    const result = runCli(['search', 'zzzNoSuchSymbol', samplePath, '--format', 'jsonl']);
+    assert.equal(result.status, 1);
+  });
+
+  test('exits 2 on errors', () => {
+    const result = runCli(['outline', path.resolve(__dirname, '..', 'README.md')]);
+    assert.equal(result.status, 2);
+  });
+});
+
+describe('MCP', () => {
+  test('negotiates the protocol and calls tools', async () => {
+    const init = await makeRpcRequest('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } });
+    assert.equal(init.result.protocolVersion, '2025-06-18');
+
+    const toolList = await makeRpcRequest('tools/list');
+    const tools = toolList.result.tools.map(tool => tool.name);
+    for (const name of ['get_functions', 'get_callers', 'find_unused', 'find_duplicates', 'add_workspace']) {
+      assert.ok(tools.includes(name), `missing tool ${name}`);
+    }
+
+    const toolCall = await makeRpcRequest('tools/call', { name: 'get_classes', arguments: { path: samplePath } });
+    assert.equal(toolCall.result.structuredContent.classes.length, 51);
+
+    const resourceList = await makeRpcRequest('resources/list');
+    assert.deepEqual(resourceList.result.resources, []);
+  });
+});